@@ -6,16 +6,91 @@ import { CodeViewer } from "./components/CodeViewer";
 import { WelcomeModal } from "./components/WelcomeModal";
 import type { Node, Edge } from "@xyflow/react";
 import { useFlowStore } from "./lib/flow-store";
+import { useWorkspaceStore } from "./lib/workspace-store";
+import {
+  clearShareLink,
+  hasShareLink,
+  parseShareLink,
+} from "./lib/share-link";
+import type { ProjectImportIssue } from "./lib/project-schema";
+import type { CompositeBlock } from "./lib/composite-blocks";
+import {
+  normalizeTrainingConfig,
+  type TrainingConfig,
+} from "./lib/training-config";
 import "./App.css";
 
 function App() {
-  const { nodes, edges, setNodes, setEdges, initializeHistory } = useFlowStore();
+  const {
+    nodes,
+    edges,
+    trainingConfig,
+    disabledLintRules,
+    compositeBlocks,
+    setNodes,
+    setEdges,
+    setTrainingConfig,
+    setDisabledLintRules,
+    setCompositeBlocks,
+    initializeHistory,
+  } = useFlowStore();
   const [showWelcomeModal, setShowWelcomeModal] = useState(false);
+  const [shareLinkIssues, setShareLinkIssues] = useState<
+    ProjectImportIssue[] | null
+  >(null);
+  const [shareLinkWarnings, setShareLinkWarnings] = useState<
+    ProjectImportIssue[]
+  >([]);
 
-  // Initialize history when app starts
+  const initializeWorkspace = useWorkspaceStore(
+    (state) => state.initializeWorkspace
+  );
+  const importProject = useWorkspaceStore((state) => state.importProject);
+
+  // Initialize history when app starts, then restore the last project
+  // or open the project carried by a share link
   useEffect(() => {
-    initializeHistory();
-  }, [initializeHistory]);
+    const restoreWorkspace = async () => {
+      initializeHistory();
+      await initializeWorkspace();
+
+      if (!hasShareLink()) return;
+
+      const result = await parseShareLink();
+      clearShareLink();
+
+      if (!result.success) {
+        setShareLinkIssues(result.issues);
+        return;
+      }
+      setShareLinkWarnings(result.warnings);
+
+      try {
+        await importProject("Shared Project", result.project);
+      } catch (error) {
+        console.warn(
+          "Saving shared project failed:",
+          error instanceof Error ? error.message : "Unknown error"
+        );
+        setCompositeBlocks(result.project.compositeBlocks);
+        setNodes(result.project.nodes);
+        setEdges(result.project.edges);
+        setTrainingConfig(result.project.trainingConfig);
+        setDisabledLintRules(result.project.disabledLintRules);
+      }
+    };
+
+    restoreWorkspace();
+  }, [
+    initializeHistory,
+    initializeWorkspace,
+    importProject,
+    setNodes,
+    setEdges,
+    setTrainingConfig,
+    setDisabledLintRules,
+    setCompositeBlocks,
+  ]);
 
   // Check if this is a new tab/window (not a refresh)
   useEffect(() => {
@@ -37,7 +112,23 @@ function App() {
     setEdges([]);
   };
 
-  const handleImportProject = (data: { nodes: Node[]; edges: Edge[] }) => {
+  const handleImportProject = (data: {
+    nodes: Node[];
+    edges: Edge[];
+    trainingConfig?: TrainingConfig;
+    disabledLintRules?: string[];
+    compositeBlocks?: CompositeBlock[];
+  }) => {
+    setCompositeBlocks(data.compositeBlocks ?? []);
+    setNodes(data.nodes);
+    setEdges(data.edges);
+    // Older project files have no training config
+    setTrainingConfig(normalizeTrainingConfig(data.trainingConfig));
+    setDisabledLintRules(data.disabledLintRules ?? []);
+  };
+
+  // Imported models bring only layers, so the project settings are kept
+  const handleImportGraph = (data: { nodes: Node[]; edges: Edge[] }) => {
     setNodes(data.nodes);
     setEdges(data.edges);
   };
@@ -56,8 +147,14 @@ function App() {
         codeViewer={codeViewerContent}
         nodes={nodes}
         edges={edges}
+        trainingConfig={trainingConfig}
+        disabledLintRules={disabledLintRules}
+        compositeBlocks={compositeBlocks}
         onImportProject={handleImportProject}
+        onImportGraph={handleImportGraph}
         onClearAll={handleClearAll}
+        shareLinkIssues={shareLinkIssues}
+        shareLinkWarnings={shareLinkWarnings}
       />
       
       <WelcomeModal 
@@ -1,10 +1,37 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import type { Node, Edge } from "@xyflow/react";
-import { Download, Upload, HelpCircle, Trash2 } from "lucide-react";
+import {
+  Check,
+  Download,
+  Upload,
+  HelpCircle,
+  Link,
+  Trash2,
+} from "lucide-react";
 
+import {
+  DEFAULT_TRAINING_CONFIG,
+  type TrainingConfig,
+} from "../lib/training-config";
+import {
+  createProjectFile,
+  parseProjectFile,
+  type ProjectImportIssue,
+} from "../lib/project-schema";
+import { createShareLink } from "../lib/share-link";
+import {
+  importKerasModel,
+  isKerasModelConfig,
+  readKerasArchiveConfig,
+} from "../lib/keras-import";
+import { useFlowStore } from "../lib/flow-store";
+import type { CompositeBlock } from "../lib/composite-blocks";
+import { fallbackCopyToClipboard } from "../lib/utils";
 import { Button } from "./ui/button";
 import { Logo } from "./Logo";
 import { UndoRedoControls } from "./UndoRedoControls";
+import { ProjectManager } from "./ProjectManager";
+import { ModelExportMenu } from "./ModelExportMenu";
 import {
   Dialog,
   DialogContent,
@@ -16,48 +43,92 @@ import {
 } from "./ui/dialog";
 
 const PROJECT_CONFIG = {
-  VERSION: "1.0.0",
   FILE_TYPE: "application/json",
-  FILE_ACCEPT: ".json",
+  FILE_ACCEPT: ".json,.keras",
+  KERAS_ARCHIVE_EXTENSION: ".keras",
+  COPY_TIMEOUT: 2000,
 } as const;
 
 const ERROR_MESSAGES = {
   INVALID_FORMAT:
-    "Invalid project file format. Please ensure the file contains valid nodes and edges.",
+    "This project file could not be imported. Fix the problems below and try again.",
   READ_ERROR:
     "Error reading project file. Please check that the file is a valid JSON format.",
+  INVALID_SHARE_LINK:
+    "The shared project could not be opened. The link may be incomplete or from a newer version.",
+  SHARE_FAILED:
+    "The share link could not be created. This browser may not support the compression it needs.",
+  INVALID_KERAS_MODEL: "This Keras model could not be imported.",
+} as const;
+
+const ERROR_TITLES = {
+  IMPORT: "Import Error",
+  SHARE: "Share Error",
+} as const;
+
+const WARNING_MESSAGES = {
+  INVALID_PARAMS:
+    "The project was imported, but some layers have invalid parameters. They are flagged on the canvas until fixed.",
+  KERAS_MODEL:
+    "The Keras model was imported, but some layers or arguments could not be carried over.",
 } as const;
 
 interface AppHeaderProps {
   nodes?: Node[];
   edges?: Edge[];
-  onImportProject?: (data: { nodes: Node[]; edges: Edge[] }) => void;
+  trainingConfig?: TrainingConfig;
+  disabledLintRules?: string[];
+  compositeBlocks?: CompositeBlock[];
+  onImportProject?: (data: {
+    nodes: Node[];
+    edges: Edge[];
+    trainingConfig?: TrainingConfig;
+    disabledLintRules?: string[];
+    compositeBlocks?: CompositeBlock[];
+  }) => void;
+  // Replaces only the canvas graph, keeping the rest of the project
+  onImportGraph?: (data: { nodes: Node[]; edges: Edge[] }) => void;
   onClearAll?: () => void;
+  shareLinkIssues?: ProjectImportIssue[] | null;
+  shareLinkWarnings?: ProjectImportIssue[];
 }
 
 // Header with project management controls
 export function AppHeader({
   nodes = [],
   edges = [],
+  trainingConfig,
+  disabledLintRules = [],
+  compositeBlocks = [],
   onImportProject,
+  onImportGraph,
   onClearAll,
+  shareLinkIssues,
+  shareLinkWarnings,
 }: AppHeaderProps) {
   const [showHelpDialog, setShowHelpDialog] = useState(false);
   const [showClearDialog, setShowClearDialog] = useState(false);
   const [showErrorDialog, setShowErrorDialog] = useState(false);
+  const [errorTitle, setErrorTitle] = useState("");
   const [errorMessage, setErrorMessage] = useState("");
+  const [importIssues, setImportIssues] = useState<ProjectImportIssue[]>([]);
+  const [warningMessage, setWarningMessage] = useState("");
+  const [importWarnings, setImportWarnings] = useState<ProjectImportIssue[]>(
+    []
+  );
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const layoutDirection = useFlowStore((state) => state.layoutDirection);
 
   const hasContent = nodes.length > 0 || edges.length > 0;
 
   const handleExportProject = useCallback(() => {
-    const projectData = {
+    const projectData = createProjectFile(
       nodes,
       edges,
-      metadata: {
-        exportedAt: new Date().toISOString(),
-        version: PROJECT_CONFIG.VERSION,
-      },
-    };
+      trainingConfig ?? DEFAULT_TRAINING_CONFIG,
+      disabledLintRules,
+      compositeBlocks
+    );
 
     const dataStr = JSON.stringify(projectData, null, 2);
     const dataBlob = new Blob([dataStr], { type: PROJECT_CONFIG.FILE_TYPE });
@@ -70,39 +141,161 @@ export function AppHeader({
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [nodes, edges]);
+  }, [nodes, edges, trainingConfig, disabledLintRules, compositeBlocks]);
+
+  const showError = useCallback(
+    (
+      message: string,
+      issues: ProjectImportIssue[] = [],
+      title: string = ERROR_TITLES.IMPORT
+    ) => {
+      setErrorTitle(title);
+      setErrorMessage(message);
+      setImportIssues(issues);
+      setShowErrorDialog(true);
+    },
+    []
+  );
+
+  const showImportWarnings = useCallback(
+    (message: string, warnings: ProjectImportIssue[]) => {
+      setWarningMessage(message);
+      setImportWarnings(warnings);
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (shareLinkIssues) {
+      showError(ERROR_MESSAGES.INVALID_SHARE_LINK, shareLinkIssues);
+    }
+  }, [shareLinkIssues, showError]);
+
+  useEffect(() => {
+    if (shareLinkWarnings?.length) {
+      showImportWarnings(WARNING_MESSAGES.INVALID_PARAMS, shareLinkWarnings);
+    }
+  }, [shareLinkWarnings, showImportWarnings]);
 
-  const showImportError = useCallback((message: string) => {
-    setErrorMessage(message);
-    setShowErrorDialog(true);
-  }, []);
+  const handleShareProject = useCallback(async () => {
+    let link: string;
+    try {
+      link = await createShareLink(
+        nodes,
+        edges,
+        trainingConfig ?? DEFAULT_TRAINING_CONFIG,
+        disabledLintRules,
+        compositeBlocks
+      );
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      showError(
+        ERROR_MESSAGES.SHARE_FAILED,
+        [
+          {
+            path: "",
+            message: error instanceof Error ? error.message : String(error),
+          },
+        ],
+        ERROR_TITLES.SHARE
+      );
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(link);
+    } catch {
+      // Fallback for older browsers
+      fallbackCopyToClipboard(link);
+    }
+    setIsLinkCopied(true);
+    setTimeout(() => setIsLinkCopied(false), PROJECT_CONFIG.COPY_TIMEOUT);
+  }, [
+    nodes,
+    edges,
+    trainingConfig,
+    disabledLintRules,
+    compositeBlocks,
+    showError,
+  ]);
+
+  const importKerasConfig = useCallback(
+    (data: unknown) => {
+      const result = importKerasModel(data, layoutDirection);
+      if (!result.success) {
+        showError(ERROR_MESSAGES.INVALID_KERAS_MODEL, [
+          { path: "", message: result.error },
+        ]);
+        return;
+      }
+      onImportGraph?.({ nodes: result.nodes, edges: result.edges });
+      showImportWarnings(
+        WARNING_MESSAGES.KERAS_MODEL,
+        result.warnings.map((message) => ({ path: "", message }))
+      );
+    },
+    [layoutDirection, onImportGraph, showError, showImportWarnings]
+  );
 
   const handleImportProject = useCallback(() => {
     const input = document.createElement("input");
     input.type = "file";
     input.accept = PROJECT_CONFIG.FILE_ACCEPT;
-    input.onchange = (e) => {
+    input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
+      // A .keras archive is a zip holding the model config
+      if (
+        file.name.toLowerCase().endsWith(PROJECT_CONFIG.KERAS_ARCHIVE_EXTENSION)
+      ) {
+        try {
+          importKerasConfig(JSON.parse(await readKerasArchiveConfig(file)));
+        } catch (error) {
+          console.error("Error reading Keras archive:", error);
+          showError(ERROR_MESSAGES.INVALID_KERAS_MODEL, [
+            {
+              path: "",
+              message: error instanceof Error ? error.message : String(error),
+            },
+          ]);
+        }
+        return;
+      }
+
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
           const data = JSON.parse(e.target?.result as string);
-          if (data.nodes && data.edges) {
-            onImportProject?.(data);
+          // Configs from Keras model.to_json() can be imported as well
+          if (isKerasModelConfig(data)) {
+            importKerasConfig(data);
+            return;
+          }
+          const result = parseProjectFile(data);
+          if (result.success) {
+            onImportProject?.(result.project);
+            showImportWarnings(
+              WARNING_MESSAGES.INVALID_PARAMS,
+              result.warnings
+            );
           } else {
-            showImportError(ERROR_MESSAGES.INVALID_FORMAT);
+            showError(ERROR_MESSAGES.INVALID_FORMAT, result.issues);
           }
         } catch (error) {
           console.error("Error reading project file:", error);
-          showImportError(ERROR_MESSAGES.READ_ERROR);
+          showError(ERROR_MESSAGES.READ_ERROR);
         }
       };
       reader.readAsText(file);
     };
     input.click();
-  }, [onImportProject, showImportError]);
+  }, [
+    importKerasConfig,
+    onImportProject,
+    showError,
+    showImportWarnings,
+  ]);
 
   const handleClearConfirm = useCallback(() => {
     onClearAll?.();
@@ -116,6 +309,7 @@ export function AppHeader({
           <Logo className="h-8 w-8 text-slate-800" />
           <h1 className="text-xl font-bold text-slate-800">BlockDL</h1>
         </div>
+        <ProjectManager />
       </div>
 
       <div className="flex items-center gap-2">
@@ -169,6 +363,12 @@ export function AppHeader({
           Export
         </Button>
 
+        <ModelExportMenu
+          nodes={nodes}
+          edges={edges}
+          compositeBlocks={compositeBlocks}
+        />
+
         <Button
           variant="outline"
           size="sm"
@@ -178,6 +378,22 @@ export function AppHeader({
           <Upload className="h-4 w-4" />
           Import
         </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleShareProject}
+          disabled={!hasContent}
+          className="flex items-center gap-2"
+          title="Copy a link that opens this project"
+        >
+          {isLinkCopied ? (
+            <Check className="h-4 w-4 text-green-600" />
+          ) : (
+            <Link className="h-4 w-4" />
+          )}
+          {isLinkCopied ? "Link Copied" : "Share"}
+        </Button>
         </div>
 
         <Dialog open={showHelpDialog} onOpenChange={setShowHelpDialog}>
@@ -206,12 +422,32 @@ export function AppHeader({
                 </h3>
                 <ul className="space-y-1 text-slate-600 ml-4">
                   <li>• Drag blocks from the left palette onto the canvas</li>
+                  <li>
+                    • Drop a block onto a connection to insert it between the
+                    two connected blocks
+                  </li>
                   <li>
                     • Connect blocks by dragging from output handles to input
-                    handles
+                    handles; compatible handles light up green, and hovering
+                    an incompatible one explains why it is rejected
                   </li>
                   <li>• Double-click blocks to edit their parameters</li>
-                  <li>• Use the trash icon to delete blocks</li>
+                  <li>
+                    • Use Auto-arrange to lay the network out in layers
+                  </li>
+                  <li>
+                    • Delete selected blocks or connections with the Delete
+                    key, the trash icon or the right-click menu
+                  </li>
+                  <li>
+                    • Click an entry in the Problems panel to jump to the block
+                    it refers to
+                  </li>
+                  <li>
+                    • Select several blocks and right-click to group them into
+                    a composite block, then reuse it from the palette; Repeat
+                    selection applies the group several times in a row
+                  </li>
                 </ul>
               </div>
 
@@ -220,11 +456,28 @@ export function AppHeader({
                   📂 Project Management
                 </h3>
                 <ul className="space-y-1 text-slate-600 ml-4">
+                  <li>
+                    • <strong>Projects:</strong> Work is saved automatically
+                    in your browser; create, rename, duplicate or switch
+                    projects from the project menu
+                  </li>
                   <li>
                     • <strong>Export:</strong> Save your project as a JSON file
                   </li>
                   <li>
-                    • <strong>Import:</strong> Load a previously saved project
+                    • <strong>Import:</strong> Load a previously saved
+                    project, or a Keras model saved with model.to_json() or as
+                    a .keras file; layers without a BlockDL equivalent become
+                    placeholders
+                  </li>
+                  <li>
+                    • <strong>Export Model:</strong> Download the network as an
+                    ONNX model to open in Netron or other inference tools, or
+                    as a Keras model config to load in Python
+                  </li>
+                  <li>
+                    • <strong>Share:</strong> Copy a link that opens a copy of
+                    the project in another browser
                   </li>
                   <li>
                     • <strong>Clear All:</strong> Remove all blocks from the
@@ -239,12 +492,17 @@ export function AppHeader({
                 </h3>
                 <ul className="space-y-1 text-slate-600 ml-4">
                   <li>
-                    • The right panel shows generated TensorFlow/Keras code
+                    • The right panel shows generated TensorFlow/Keras code;
+                    switch to PyTorch, JAX/Flax or TensorFlow.js with the framework
+                    selector
                   </li>
                   <li>
                     • Code updates automatically as you modify your network
                   </li>
-                  <li>• Copy the code to use in your Python projects</li>
+                  <li>
+                    • Copy the code to use in your Python projects, or in the
+                    browser with TensorFlow.js
+                  </li>
                 </ul>
               </div>
             </div>
@@ -254,14 +512,73 @@ export function AppHeader({
         <Dialog open={showErrorDialog} onOpenChange={setShowErrorDialog}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Import Error</DialogTitle>
+              <DialogTitle>{errorTitle}</DialogTitle>
               <DialogDescription>{errorMessage}</DialogDescription>
             </DialogHeader>
+            {importIssues.length > 0 && (
+              <ul className="max-h-64 overflow-auto space-y-1 text-sm">
+                {importIssues.map((issue, index) => (
+                  <li
+                    key={index}
+                    className="text-red-700 bg-red-50 border border-red-200 rounded-md px-2 py-1"
+                  >
+                    {issue.path && (
+                      <code className="text-xs text-red-800 mr-2">
+                        {issue.path}
+                      </code>
+                    )}
+                    {issue.message}
+                    {issue.nodeId && (
+                      <span className="text-xs text-red-600">
+                        {" "}
+                        (node {issue.nodeId})
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
             <DialogFooter>
               <Button onClick={() => setShowErrorDialog(false)}>OK</Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <Dialog
+          open={importWarnings.length > 0}
+          onOpenChange={(open) => !open && setImportWarnings([])}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Import Warnings</DialogTitle>
+              <DialogDescription>{warningMessage}</DialogDescription>
+            </DialogHeader>
+            <ul className="max-h-64 overflow-auto space-y-1 text-sm">
+              {importWarnings.map((warning, index) => (
+                <li
+                  key={index}
+                  className="text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-2 py-1"
+                >
+                  {warning.path && (
+                    <code className="text-xs text-amber-900 mr-2">
+                      {warning.path}
+                    </code>
+                  )}
+                  {warning.message}
+                  {warning.nodeId && (
+                    <span className="text-xs text-amber-700">
+                      {" "}
+                      (node {warning.nodeId})
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <DialogFooter>
+              <Button onClick={() => setImportWarnings([])}>OK</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </header>
   );
@@ -3,6 +3,9 @@
 
 import type { ReactNode } from "react";
 import type { Node, Edge } from "@xyflow/react";
+import type { TrainingConfig } from "@/lib/training-config";
+import type { ProjectImportIssue } from "@/lib/project-schema";
+import type { CompositeBlock } from "@/lib/composite-blocks";
 
 import { cn } from "@/lib/utils";
 import { AppHeader } from "./AppHeader";
@@ -20,8 +23,21 @@ interface AppShellProps {
   className?: string;
   nodes?: Node[];
   edges?: Edge[];
-  onImportProject?: (data: { nodes: Node[]; edges: Edge[] }) => void;
+  trainingConfig?: TrainingConfig;
+  disabledLintRules?: string[];
+  compositeBlocks?: CompositeBlock[];
+  onImportProject?: (data: {
+    nodes: Node[];
+    edges: Edge[];
+    trainingConfig?: TrainingConfig;
+    disabledLintRules?: string[];
+    compositeBlocks?: CompositeBlock[];
+  }) => void;
+  // Replaces only the canvas graph, keeping the rest of the project
+  onImportGraph?: (data: { nodes: Node[]; edges: Edge[] }) => void;
   onClearAll?: () => void;
+  shareLinkIssues?: ProjectImportIssue[] | null;
+  shareLinkWarnings?: ProjectImportIssue[];
 }
 
 export function AppShell({
@@ -31,8 +47,14 @@ export function AppShell({
   className,
   nodes = [],
   edges = [],
+  trainingConfig,
+  disabledLintRules,
+  compositeBlocks,
   onImportProject,
+  onImportGraph,
   onClearAll,
+  shareLinkIssues,
+  shareLinkWarnings,
 }: AppShellProps) {
   return (
     <div
@@ -45,8 +67,14 @@ export function AppShell({
       <AppHeader
         nodes={nodes}
         edges={edges}
+        trainingConfig={trainingConfig}
+        disabledLintRules={disabledLintRules}
+        compositeBlocks={compositeBlocks}
         onImportProject={onImportProject}
+        onImportGraph={onImportGraph}
         onClearAll={onClearAll}
+        shareLinkIssues={shareLinkIssues}
+        shareLinkWarnings={shareLinkWarnings}
       />
 
       <div className="flex flex-1 overflow-hidden">
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { Search, X, Layers, Grid3X3 } from "lucide-react";
+import { Search, X, Layers, Grid3X3, Pencil, Trash2 } from "lucide-react";
 import { Input } from "./ui/input";
 import { getLayerTypes } from "../lib/layer-definitions";
 import { getLayerCategories } from "../lib/categories";
@@ -9,6 +9,8 @@ import {
   getTemplateCategoryColors,
   type NetworkTemplate,
 } from "../lib/templates";
+import { useFlowStore } from "../lib/flow-store";
+import { getCompositeBlockId, isCompositeNode } from "../lib/composite-blocks";
 
 const CONFIG = {
   POLLING_INTERVAL: 100,
@@ -60,6 +62,8 @@ export default function BlockPalette({
   const [layerCategories, setLayerCategories] = useState<CategoryType[]>([]);
   const [templates, setTemplates] = useState<NetworkTemplate[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const { nodes, compositeBlocks, setEditingBlockId, deleteCompositeBlock } =
+    useFlowStore();
 
   const updateData = useCallback(() => {
     const types = getLayerTypes();
@@ -84,6 +88,15 @@ export default function BlockPalette({
     []
   );
 
+  const handleBlockDragStart = useCallback(
+    (event: React.DragEvent, blockId: string) => {
+      event.dataTransfer.setData("compositeBlockId", blockId);
+      event.dataTransfer.setData("application/reactflow", "composite");
+      event.dataTransfer.effectAllowed = "move";
+    },
+    []
+  );
+
   const handleTemplateDragStart = useCallback(
     (event: React.DragEvent, templateId: string) => {
       event.dataTransfer.setData("templateId", templateId);
@@ -134,6 +147,18 @@ export default function BlockPalette({
     })
     .filter((category) => category.layers.length > 0);
 
+  // Composite blocks of this project, with how often each is placed
+  const filteredBlocks = compositeBlocks
+    .filter((block) =>
+      block.name.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .map((block) => ({
+      block,
+      uses: nodes.filter(
+        (node) => isCompositeNode(node) && getCompositeBlockId(node) === block.id
+      ).length,
+    }));
+
   // Group templates by category and filter by search term
   const templatesByCategory: TemplatesByCategory = {};
 
@@ -248,6 +273,55 @@ export default function BlockPalette({
         </div>
       ) : (
         <div className="space-y-6">
+          {activeTab === CONFIG.TABS.LAYERS && filteredBlocks.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-indigo-700 border-b border-slate-200 pb-1">
+                Composite Blocks
+              </h3>
+              <div className="space-y-2">
+                {filteredBlocks.map(({ block, uses }) => (
+                  <div
+                    key={block.id}
+                    className="group cursor-move hover:shadow-lg transition-all duration-300 hover:scale-[1.02] border-indigo-300 bg-indigo-50 rounded-xl shadow-sm border-2 border-double p-3"
+                    draggable
+                    onDragStart={(event) =>
+                      handleBlockDragStart(event, block.id)
+                    }
+                    style={{ cursor: CONFIG.DRAG_CURSOR.GRAB }}
+                  >
+                    <div className="flex items-center gap-2 mb-1 text-indigo-700">
+                      <span className="text-base">🧩</span>
+                      <span className="font-medium text-sm flex-1 truncate">
+                        {block.name}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setEditingBlockId(block.id)}
+                        className="opacity-0 group-hover:opacity-100 text-indigo-500 hover:text-indigo-700"
+                        title="Edit block"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      {uses === 0 && (
+                        <button
+                          type="button"
+                          onClick={() => deleteCompositeBlock(block.id)}
+                          className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-600"
+                          title="Delete unused block"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      {block.nodes.length} layers · used {uses}{" "}
+                      {uses === 1 ? "time" : "times"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           {activeTab === CONFIG.TABS.LAYERS
             ? // Layers View
               filteredCategories.map((category) => (
@@ -18,20 +18,49 @@ import {
 } from "@xyflow/react";
 import type {
   Node,
+  Edge,
   NodeTypes,
   EdgeTypes,
   ReactFlowInstance,
   XYPosition,
+  OnBeforeDelete,
+  OnConnectStart,
 } from "@xyflow/react";
+import { Group, Repeat, Trash2, Ungroup } from "lucide-react";
 
 import "@xyflow/react/dist/style.css";
 
 import { LayerNode } from "./LayerNode";
+import { CompositeNode } from "./CompositeNode";
+import { CompositeBlockEditor } from "./CompositeBlockEditor";
 import { DeletableEdge } from "./DeletableEdge";
 import { CopyPasteControls } from "./CopyPasteControls";
+import { LayoutControls } from "./LayoutControls";
+import { ProblemsPanel } from "./ProblemsPanel";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { countConnectedComponents } from "../lib/dag-parser";
+import { arrangeNodes } from "../lib/graph-layout";
 import { getDefaultParams } from "../lib/layers/parameters";
 import { getTemplateById } from "../lib/templates";
 import { useFlowStore } from "../lib/flow-store";
+import {
+  COMPOSITE_NODE_TYPE,
+  REPEAT_RANGE,
+  createBlockInstance,
+  isCompositeNode,
+  validateBlockName,
+  validateBlockRepeats,
+} from "../lib/composite-blocks";
 import { cn } from "../lib/utils";
 
 // Flow editor configuration
@@ -40,11 +69,52 @@ const FLOW_CONFIG = {
   EDGE: { STROKE_WIDTH: 2, STROKE_COLOR: "#6b7280" },
 } as const;
 
-const nodeTypes: NodeTypes = { layerNode: LayerNode };
+const nodeTypes: NodeTypes = {
+  layerNode: LayerNode,
+  [COMPOSITE_NODE_TYPE]: CompositeNode,
+};
 const edgeTypes: EdgeTypes = { 
   smoothstep: DeletableEdge,
 };
 
+/**
+ * Elements targeted by the canvas context menu
+ */
+interface ContextMenuState {
+  x: number;
+  y: number;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+/**
+ * Deletion waiting for confirmation because it would split the network
+ */
+interface PendingDeletion {
+  nodeIds: string[];
+  edgeIds: string[];
+  layerTypes: string[];
+  parts: number;
+}
+
+/**
+ * Selection waiting for a name before it is grouped into a composite block.
+ * When repeating the selection, the repeat count is entered as well.
+ */
+interface PendingGroup {
+  nodeIds: string[];
+  name: string;
+  repeats?: string;
+  error: string | null;
+}
+
+function getDeleteLabel(nodeCount: number, edgeCount: number): string {
+  if (nodeCount === 0) {
+    return edgeCount === 1 ? "Delete connection" : `Delete ${edgeCount} connections`;
+  }
+  return nodeCount === 1 ? "Delete block" : `Delete ${nodeCount} blocks`;
+}
+
 /**
  * Props for CanvasEditor component
  */
@@ -59,38 +129,164 @@ function CanvasEditorInner({ className = "" }: CanvasEditorProps) {
     onNodesChange: handleNodesChange,
     onEdgesChange: handleEdgesChange,
     onConnect: handleConnect,
+    isValidConnection,
+    startConnectionCheck,
+    clearConnectionCheck,
     addNode,
     addNodesAndEdges,
+    insertNodeOnEdge,
+    deleteElements,
+    layoutDirection,
+    autoArrangeTemplates,
+    compositeBlocks,
+    groupIntoBlock,
+    ungroupBlock,
   } = useFlowStore();
 
   const [reactFlowInstance, setReactFlowInstance] =
     useState<ReactFlowInstance | null>(null);
 
-  // Prevent accidental node deletion to preserve network integrity
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === "Delete" || event.key === "Backspace") {
-        const target = event.target as HTMLElement;
-
-        // Allow deletion in input fields
-        if (
-          target &&
-          (target.tagName === "INPUT" ||
-            target.tagName === "TEXTAREA" ||
-            target.contentEditable === "true")
-        ) {
-          return;
-        }
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(
+    null
+  );
+  const [pendingDeletion, setPendingDeletion] =
+    useState<PendingDeletion | null>(null);
+  const [pendingGroup, setPendingGroup] = useState<PendingGroup | null>(null);
+
+  // Deletes right away unless removing nodes splits the network apart
+  const requestDeletion = useCallback(
+    (nodeIds: string[], edgeIds: string[]) => {
+      if (nodeIds.length === 0 && edgeIds.length === 0) return;
+
+      const removedNodes = new Set(nodeIds);
+      const removedEdges = new Set(edgeIds);
+      const partsBefore = countConnectedComponents(nodes, edges);
+      const partsAfter = countConnectedComponents(
+        nodes.filter((node) => !removedNodes.has(node.id)),
+        edges.filter((edge) => !removedEdges.has(edge.id))
+      );
+
+      if (nodeIds.length > 0 && partsAfter > partsBefore) {
+        setPendingDeletion({
+          nodeIds,
+          edgeIds,
+          layerTypes: nodes
+            .filter((node) => removedNodes.has(node.id))
+            .map((node) => (node.data as { type: string }).type),
+          parts: partsAfter,
+        });
+        return;
+      }
+
+      deleteElements(nodeIds, edgeIds);
+    },
+    [nodes, edges, deleteElements]
+  );
+
+  // Keyboard, trash icon and edge button deletions all arrive here; the
+  // store applies them as a single undoable step instead of React Flow
+  const handleBeforeDelete: OnBeforeDelete = useCallback(
+    async ({ nodes: nodesToDelete, edges: edgesToDelete }) => {
+      requestDeletion(
+        nodesToDelete.map((node) => node.id),
+        edgesToDelete.map((edge) => edge.id)
+      );
+      return false;
+    },
+    [requestDeletion]
+  );
+
+  const handleConfirmDeletion = useCallback(() => {
+    if (pendingDeletion) {
+      deleteElements(pendingDeletion.nodeIds, pendingDeletion.edgeIds);
+    }
+    setPendingDeletion(null);
+  }, [pendingDeletion, deleteElements]);
+
+  const handleConfirmGroup = useCallback(() => {
+    if (!pendingGroup) return;
+
+    const { nodeIds, name, repeats = "1" } = pendingGroup;
+    const error =
+      validateBlockName(name, compositeBlocks) ??
+      validateBlockRepeats(repeats) ??
+      groupIntoBlock(nodeIds, name, Number(repeats));
+    if (error) {
+      setPendingGroup({ ...pendingGroup, error });
+      return;
+    }
+    setPendingGroup(null);
+  }, [pendingGroup, compositeBlocks, groupIntoBlock]);
+
+  const openContextMenu = useCallback(
+    (event: React.MouseEvent, nodeIds: string[], edgeIds: string[]) => {
+      event.preventDefault();
+      const bounds = event.currentTarget
+        .closest(".react-flow")
+        ?.getBoundingClientRect();
+      setContextMenu({
+        x: event.clientX - (bounds?.left ?? 0),
+        y: event.clientY - (bounds?.top ?? 0),
+        nodeIds,
+        edgeIds,
+      });
+    },
+    []
+  );
+
+  // Right-clicking part of a selection acts on the whole selection
+  const getSelectionIds = useCallback(
+    () => ({
+      nodeIds: nodes.filter((node) => node.selected).map((node) => node.id),
+      edgeIds: edges.filter((edge) => edge.selected).map((edge) => edge.id),
+    }),
+    [nodes, edges]
+  );
+
+  const handleNodeContextMenu = useCallback(
+    (event: React.MouseEvent, node: Node) => {
+      if (node.selected) {
+        const { nodeIds, edgeIds } = getSelectionIds();
+        openContextMenu(event, nodeIds, edgeIds);
+      } else {
+        openContextMenu(event, [node.id], []);
+      }
+    },
+    [getSelectionIds, openContextMenu]
+  );
 
-        // Block delete operations to preserve network structure
-        event.preventDefault();
-        event.stopPropagation();
+  const handleEdgeContextMenu = useCallback(
+    (event: React.MouseEvent, edge: Edge) => {
+      if (edge.selected) {
+        const { nodeIds, edgeIds } = getSelectionIds();
+        openContextMenu(event, nodeIds, edgeIds);
+      } else {
+        openContextMenu(event, [], [edge.id]);
       }
+    },
+    [getSelectionIds, openContextMenu]
+  );
+
+  const handleSelectionContextMenu = useCallback(
+    (event: React.MouseEvent) => {
+      const { nodeIds, edgeIds } = getSelectionIds();
+      openContextMenu(event, nodeIds, edgeIds);
+    },
+    [getSelectionIds, openContextMenu]
+  );
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  useEffect(() => {
+    if (!contextMenu) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setContextMenu(null);
     };
 
-    document.addEventListener("keydown", handleKeyDown, true);
-    return () => document.removeEventListener("keydown", handleKeyDown, true);
-  }, []);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [contextMenu]);
 
   const handleDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -106,25 +302,36 @@ function CanvasEditorInner({ className = "" }: CanvasEditorProps) {
       const reactFlowBounds = event.currentTarget.getBoundingClientRect();
       const layerType = event.dataTransfer.getData("layerType");
       const templateId = event.dataTransfer.getData("templateId");
+      const compositeBlockId = event.dataTransfer.getData("compositeBlockId");
 
       const position: XYPosition = reactFlowInstance.screenToFlowPosition({
         x: event.clientX - reactFlowBounds.left,
         y: event.clientY - reactFlowBounds.top,
       });
 
-      if (layerType) {
-        // Handle single layer drop
-        const newNode: Node = {
-          id: `${layerType.toLowerCase()}-${Date.now()}`,
-          type: "layerNode",
-          position,
-          data: {
-            type: layerType,
-            params: getDefaultParams(layerType),
-          },
-        };
-
-        addNode(newNode);
+      const block = compositeBlocks.find((b) => b.id === compositeBlockId);
+
+      if (layerType || block) {
+        // Handle single layer or composite block drop
+        const newNode: Node = block
+          ? createBlockInstance(block, position)
+          : {
+              id: `${layerType.toLowerCase()}-${Date.now()}`,
+              type: "layerNode",
+              position,
+              data: {
+                type: layerType,
+                params: getDefaultParams(layerType),
+              },
+            };
+
+        // Dropping onto a connection inserts the layer into it
+        const edgeId = (event.target as Element)
+          .closest(".react-flow__edge")
+          ?.getAttribute("data-id");
+        if (!edgeId || !insertNodeOnEdge(newNode, edgeId)) {
+          addNode(newNode);
+        }
       } else if (templateId) {
         // Handle template drop
         const template = getTemplateById(templateId);
@@ -176,49 +383,263 @@ function CanvasEditorInner({ className = "" }: CanvasEditorProps) {
           })
           .filter((edge): edge is NonNullable<typeof edge> => edge !== null);
 
+        // Optionally lay the template out from the drop point
+        const arrangedNodes = autoArrangeTemplates
+          ? arrangeNodes(newNodes, newEdges, layoutDirection, position)
+          : null;
+
         // Add all nodes and edges at once
-        addNodesAndEdges(newNodes, newEdges);
+        addNodesAndEdges(arrangedNodes ?? newNodes, newEdges);
+      }
+    },
+    [
+      reactFlowInstance,
+      addNode,
+      addNodesAndEdges,
+      insertNodeOnEdge,
+      autoArrangeTemplates,
+      layoutDirection,
+      compositeBlocks,
+    ]
+  );
+
+  // Check every possible target once when a connection drag begins
+  const handleConnectStart: OnConnectStart = useCallback(
+    (_, { nodeId, handleId, handleType }) => {
+      if (nodeId && handleType) {
+        startConnectionCheck(nodeId, handleType, handleId);
       }
     },
-    [reactFlowInstance, addNode, addNodesAndEdges]
+    [startConnectionCheck]
   );
 
   return (
-    <div className={cn("h-full w-full", className)}>
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={handleNodesChange}
-        onEdgesChange={handleEdgesChange}
-        onConnect={handleConnect}
-        onInit={setReactFlowInstance}
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        nodeTypes={nodeTypes}
-        edgeTypes={edgeTypes}
-        fitView
-        attributionPosition="top-right"
-        deleteKeyCode={[]}
-        multiSelectionKeyCode={["Control", "Meta"]}
-        connectionLineType={ConnectionLineType.SmoothStep}
-        defaultEdgeOptions={{
-          type: "smoothstep",
-          style: {
-            strokeWidth: FLOW_CONFIG.EDGE.STROKE_WIDTH,
-            stroke: FLOW_CONFIG.EDGE.STROKE_COLOR,
-          },
-        }}
-      >
-        <Controls />
-        <MiniMap />
-        <CopyPasteControls />
-        <Background
-          variant={BackgroundVariant.Lines}
-          gap={FLOW_CONFIG.BACKGROUND.GAP}
-          size={FLOW_CONFIG.BACKGROUND.SIZE}
-          color={FLOW_CONFIG.BACKGROUND.COLOR}
-        />
-      </ReactFlow>
+    <div className={cn("flex h-full w-full flex-col", className)}>
+      <div className="relative flex-1 min-h-0">
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodesChange={handleNodesChange}
+          onEdgesChange={handleEdgesChange}
+          onConnect={handleConnect}
+          onConnectStart={handleConnectStart}
+          onConnectEnd={clearConnectionCheck}
+          isValidConnection={isValidConnection}
+          onBeforeDelete={handleBeforeDelete}
+          onNodeContextMenu={handleNodeContextMenu}
+          onEdgeContextMenu={handleEdgeContextMenu}
+          onSelectionContextMenu={handleSelectionContextMenu}
+          onPaneClick={closeContextMenu}
+          onMoveStart={closeContextMenu}
+          onInit={setReactFlowInstance}
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          fitView
+          attributionPosition="top-right"
+          deleteKeyCode={["Delete", "Backspace"]}
+          multiSelectionKeyCode={["Control", "Meta"]}
+          connectionLineType={ConnectionLineType.SmoothStep}
+          defaultEdgeOptions={{
+            type: "smoothstep",
+            style: {
+              strokeWidth: FLOW_CONFIG.EDGE.STROKE_WIDTH,
+              stroke: FLOW_CONFIG.EDGE.STROKE_COLOR,
+            },
+          }}
+        >
+          <Controls />
+          <MiniMap />
+          <CopyPasteControls />
+          <LayoutControls />
+          <Background
+            variant={BackgroundVariant.Lines}
+            gap={FLOW_CONFIG.BACKGROUND.GAP}
+            size={FLOW_CONFIG.BACKGROUND.SIZE}
+            color={FLOW_CONFIG.BACKGROUND.COLOR}
+          />
+        </ReactFlow>
+
+        {contextMenu && (
+          <div
+            className="absolute z-50 min-w-[160px] rounded-lg border border-slate-200 bg-white p-1 shadow-md"
+            style={{ left: contextMenu.x, top: contextMenu.y }}
+            onContextMenu={(event) => event.preventDefault()}
+          >
+            {contextMenu.nodeIds.length >= 2 && (
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+                onClick={() => {
+                  setPendingGroup({
+                    nodeIds: contextMenu.nodeIds,
+                    name: `Block ${compositeBlocks.length + 1}`,
+                    error: null,
+                  });
+                  setContextMenu(null);
+                }}
+              >
+                <Group className="h-4 w-4" />
+                Group into composite block
+              </button>
+            )}
+            {contextMenu.nodeIds.length >= 2 && (
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+                onClick={() => {
+                  setPendingGroup({
+                    nodeIds: contextMenu.nodeIds,
+                    name: `Block ${compositeBlocks.length + 1}`,
+                    repeats: "2",
+                    error: null,
+                  });
+                  setContextMenu(null);
+                }}
+              >
+                <Repeat className="h-4 w-4" />
+                Repeat selection...
+              </button>
+            )}
+            {contextMenu.nodeIds.length === 1 &&
+              nodes.some(
+                (node) =>
+                  node.id === contextMenu.nodeIds[0] && isCompositeNode(node)
+              ) && (
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+                  onClick={() => {
+                    ungroupBlock(contextMenu.nodeIds[0]);
+                    setContextMenu(null);
+                  }}
+                >
+                  <Ungroup className="h-4 w-4" />
+                  Expand composite block
+                </button>
+              )}
+            <button
+              type="button"
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-red-700 hover:bg-red-50"
+              onClick={() => {
+                requestDeletion(contextMenu.nodeIds, contextMenu.edgeIds);
+                setContextMenu(null);
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+              {getDeleteLabel(contextMenu.nodeIds.length, contextMenu.edgeIds.length)}
+            </button>
+          </div>
+        )}
+
+        <Dialog
+          open={pendingDeletion !== null}
+          onOpenChange={(open) => !open && setPendingDeletion(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Disconnect the network?</DialogTitle>
+              <DialogDescription>
+                Deleting {pendingDeletion?.layerTypes.join(", ")} will split the
+                network into {pendingDeletion?.parts} disconnected parts. You can
+                undo this afterwards.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPendingDeletion(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleConfirmDeletion}>
+                Delete
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog
+          open={pendingGroup !== null}
+          onOpenChange={(open) => !open && setPendingGroup(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {pendingGroup?.repeats !== undefined
+                  ? "Repeat selection"
+                  : "Group into composite block"}
+              </DialogTitle>
+              <DialogDescription>
+                The {pendingGroup?.nodeIds.length} selected layers become one
+                reusable block
+                {pendingGroup?.repeats !== undefined &&
+                  ", applied several times in a row with each repetition feeding the next"}
+                . Drag it from the palette to use it again; editing the block
+                updates every copy. A block has one input and one output, so
+                the selection must be fed by a single layer and lead out
+                through a single layer.
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleConfirmGroup();
+              }}
+            >
+              <Input
+                autoFocus
+                value={pendingGroup?.name ?? ""}
+                onChange={(event) =>
+                  pendingGroup &&
+                  setPendingGroup({
+                    ...pendingGroup,
+                    name: event.target.value,
+                    error: null,
+                  })
+                }
+                placeholder="Block name, e.g. Residual Block"
+              />
+              {pendingGroup?.repeats !== undefined && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="repeat-count" className="text-sm">
+                    Repeat ×
+                  </Label>
+                  <Input
+                    id="repeat-count"
+                    type="number"
+                    min={REPEAT_RANGE.min}
+                    max={REPEAT_RANGE.max}
+                    value={pendingGroup.repeats}
+                    onChange={(event) =>
+                      setPendingGroup({
+                        ...pendingGroup,
+                        repeats: event.target.value,
+                        error: null,
+                      })
+                    }
+                    className="w-24"
+                  />
+                </div>
+              )}
+              {pendingGroup?.error && (
+                <p className="text-sm text-red-600">{pendingGroup.error}</p>
+              )}
+            </form>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPendingGroup(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirmGroup}>
+                {pendingGroup?.repeats !== undefined ? "Repeat" : "Group"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <CompositeBlockEditor />
+      </div>
+
+      <ProblemsPanel />
     </div>
   );
 }
@@ -7,13 +7,23 @@ import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { parseGraphToDAG, type DAGResult } from "../lib/dag-parser";
+import { validateGraphParameters } from "../lib/layers/validation";
 import {
   generateKerasCode,
   generateFunctionalKerasCode,
   generatePyTorchCode,
+  generateFlaxCode,
+  generateTfjsCode,
 } from "../lib/code-generation";
 import { useFlowStore } from "../lib/flow-store";
-import { cn } from "../lib/utils";
+import {
+  COMPOSITE_LAYER_TYPE,
+  expandCompositeBlocks,
+} from "../lib/composite-blocks";
+import { LintRulesPanel } from "./LintRulesPanel";
+import { ModelSummaryPanel } from "./ModelSummaryPanel";
+import { TrainingConfigPanel } from "./TrainingConfigPanel";
+import { cn, fallbackCopyToClipboard } from "../lib/utils";
 
 const UI_CONFIG = {
   COPY_TIMEOUT: 2000,
@@ -25,6 +35,28 @@ const UI_CONFIG = {
   },
 } as const;
 
+type Framework = "keras" | "pytorch" | "flax" | "tfjs" | "tfjs-ts";
+
+const FRAMEWORK_LABELS: Record<Framework, string> = {
+  keras: "Keras",
+  pytorch: "PyTorch",
+  flax: "JAX/Flax",
+  tfjs: "TF.js (JS)",
+  "tfjs-ts": "TF.js (TS)",
+};
+
+const FILE_EXTENSIONS: Record<Framework, string> = {
+  keras: "py",
+  pytorch: "py",
+  flax: "py",
+  tfjs: "js",
+  "tfjs-ts": "ts",
+};
+
+function isTfjs(framework: Framework): boolean {
+  return framework === "tfjs" || framework === "tfjs-ts";
+}
+
 // Helper functions
 function checkIfFunctionalAPINeeded(dagResult: DAGResult): boolean {
   const hasMultipleInputs =
@@ -35,24 +67,25 @@ function checkIfFunctionalAPINeeded(dagResult: DAGResult): boolean {
     (targets) => targets.length > 1
   );
   const hasMergeLayer = dagResult.orderedNodes.some((n) => n.type === "Merge");
+  // Attention is called with (query, value), which Sequential cannot express
+  const hasAttentionLayer = dagResult.orderedNodes.some(
+    (n) => n.type === "MultiHeadAttention"
+  );
+  // Composite blocks are generated as functions called on tensors
+  const hasCompositeBlock = dagResult.orderedNodes.some(
+    (n) => n.type === COMPOSITE_LAYER_TYPE
+  );
 
   return (
     hasMultipleInputs ||
     hasMultipleOutputs ||
     hasComplexStructure ||
-    hasMergeLayer
+    hasMergeLayer ||
+    hasAttentionLayer ||
+    hasCompositeBlock
   );
 }
 
-function fallbackCopyToClipboard(text: string): void {
-  const textArea = document.createElement("textarea");
-  textArea.value = text;
-  document.body.appendChild(textArea);
-  textArea.select();
-  document.execCommand("copy");
-  document.body.removeChild(textArea);
-}
-
 // Sub-components
 interface APIBadgeProps {
   codeType: "sequential" | "functional";
@@ -84,6 +117,7 @@ function BetaBadge() {
 }
 
 interface ActionButtonsProps {
+  fileExtension: string;
   onDownload: () => void;
   onCopy: () => void;
   isDisabled: boolean;
@@ -91,6 +125,7 @@ interface ActionButtonsProps {
 }
 
 function ActionButtons({
+  fileExtension,
   onDownload,
   onCopy,
   isDisabled,
@@ -117,7 +152,7 @@ function ActionButtons({
           )}
         >
           <Download className="h-4 w-4 mr-2" />
-          Download .py
+          Download .{fileExtension}
         </Button>
         <Button
           variant="outline"
@@ -144,22 +179,28 @@ function ActionButtons({
           )}
         </Button>
       </div>
+      <div className="flex items-center gap-2">
+        <LintRulesPanel />
+        <ModelSummaryPanel />
+        <TrainingConfigPanel />
+      </div>
     </div>
   );
 }
 
 interface CodeEditorProps {
   code: string;
+  isPython: boolean;
 }
 
-function CodeEditor({ code }: CodeEditorProps) {
+function CodeEditor({ code, isPython }: CodeEditorProps) {
   return (
     <div className="rounded-xl border border-slate-200 shadow-inner bg-slate-50/30 flex-1 min-h-0">
       <div className="w-full h-full overflow-auto">
         <CodeMirror
           value={code}
           height="100%"
-          extensions={[python()]}
+          extensions={isPython ? [python()] : []}
           editable={false}
           basicSetup={{
             lineNumbers: true,
@@ -185,13 +226,13 @@ interface CodeViewerProps {
 
 // Generates code from visual neural network graph
 export function CodeViewer({ className = "" }: CodeViewerProps) {
-  const { nodes, edges } = useFlowStore();
+  const { nodes, edges, trainingConfig, compositeBlocks } = useFlowStore();
   const [generatedCode, setGeneratedCode] = useState("");
   const [isCopied, setIsCopied] = useState(false);
   const [codeType, setCodeType] = useState<"sequential" | "functional">(
     "sequential"
   );
-  const [framework, setFramework] = useState<"keras" | "pytorch">("keras");
+  const [framework, setFramework] = useState<Framework>("keras");
 
   const resetCopyState = useCallback(() => {
     setTimeout(() => setIsCopied(false), UI_CONFIG.COPY_TIMEOUT);
@@ -211,25 +252,62 @@ export function CodeViewer({ className = "" }: CodeViewerProps) {
         return;
       }
 
+      // Invalid values would be copied straight into the generated code;
+      // layers inside composite blocks are checked too
+      const expanded = expandCompositeBlocks(nodes, edges, compositeBlocks);
+      const expandedDag = parseGraphToDAG(expanded.nodes, expanded.edges);
+      const paramErrors = validateGraphParameters(expandedDag.orderedNodes);
+      if (paramErrors.size > 0) {
+        const messages = expandedDag.orderedNodes.flatMap((layer) =>
+          (paramErrors.get(layer.id) ?? []).map(
+            (error) => `${layer.varName}: ${error}`
+          )
+        );
+        setGeneratedCode(
+          `# Error: Invalid layer parameters\n# ${messages.join("\n# ")}`
+        );
+        return;
+      }
+
       if (framework === "pytorch") {
         setCodeType("sequential"); // PyTorch doesn't need functional distinction
-        setGeneratedCode(generatePyTorchCode(dagResult.orderedNodes));
+        setGeneratedCode(
+          generatePyTorchCode(dagResult, trainingConfig, compositeBlocks)
+        );
+      } else if (framework === "flax") {
+        setCodeType("sequential");
+        setGeneratedCode(
+          generateFlaxCode(dagResult, trainingConfig, compositeBlocks)
+        );
+      } else if (isTfjs(framework)) {
+        const shouldUseFunctional = checkIfFunctionalAPINeeded(dagResult);
+        setCodeType(shouldUseFunctional ? "functional" : "sequential");
+        setGeneratedCode(
+          generateTfjsCode(dagResult, trainingConfig, compositeBlocks, {
+            functional: shouldUseFunctional,
+            typescript: framework === "tfjs-ts",
+          })
+        );
       } else {
         const shouldUseFunctional = checkIfFunctionalAPINeeded(dagResult);
 
         if (shouldUseFunctional) {
           setCodeType("functional");
-          const functionalCode = await generateFunctionalKerasCode(dagResult);
+          const functionalCode = await generateFunctionalKerasCode(
+            dagResult,
+            trainingConfig,
+            compositeBlocks
+          );
           setGeneratedCode(functionalCode);
         } else {
           setCodeType("sequential");
-          setGeneratedCode(generateKerasCode(dagResult.orderedNodes));
+          setGeneratedCode(generateKerasCode(dagResult.orderedNodes, trainingConfig));
         }
       }
     };
 
     generateCode();
-  }, [nodes, edges, framework]);
+  }, [nodes, edges, framework, trainingConfig, compositeBlocks]);
 
   const handleCopyCode = useCallback(async () => {
     if (!generatedCode.trim()) return;
@@ -249,12 +327,12 @@ export function CodeViewer({ className = "" }: CodeViewerProps) {
   const handleDownloadCode = useCallback(() => {
     if (!generatedCode.trim()) return;
 
-    const blob = new Blob([generatedCode], { type: "text/python" });
+    const blob = new Blob([generatedCode], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
 
     link.href = url;
-    link.download = `${framework}_model_${codeType}.py`;
+    link.download = `${framework}_model_${codeType}.${FILE_EXTENSIONS[framework]}`;
     document.body.appendChild(link);
     link.click();
 
@@ -275,27 +353,33 @@ export function CodeViewer({ className = "" }: CodeViewerProps) {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <div className="flex items-center gap-2">
-                  <span className="text-xl">🐍</span>
+                  <span className="text-xl">{isTfjs(framework) ? "🌐" : "🐍"}</span>
                   <CardTitle className="text-xl text-slate-800 font-semibold">
-                    {framework === "pytorch" ? "PyTorch" : "Keras"} Code
+                    {FRAMEWORK_LABELS[framework]} Code
                   </CardTitle>
                 </div>
-                {framework === "keras" && <APIBadge codeType={codeType} />}
-                {framework === "pytorch" && <BetaBadge />}
+                {(framework === "keras" || isTfjs(framework)) && (
+                  <APIBadge codeType={codeType} />
+                )}
+                {framework !== "keras" && <BetaBadge />}
               </div>
               <div className="flex items-center gap-2">
-                <Select value={framework} onValueChange={(value: "keras" | "pytorch") => setFramework(value)}>
+                <Select value={framework} onValueChange={(value: Framework) => setFramework(value)}>
                   <SelectTrigger className="w-32">
                     <SelectValue placeholder="Framework" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="keras">Keras</SelectItem>
-                    <SelectItem value="pytorch">PyTorch</SelectItem>
+                    {Object.entries(FRAMEWORK_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
             <ActionButtons
+              fileExtension={FILE_EXTENSIONS[framework]}
               onDownload={handleDownloadCode}
               onCopy={handleCopyCode}
               isDisabled={!generatedCode.trim()}
@@ -308,7 +392,10 @@ export function CodeViewer({ className = "" }: CodeViewerProps) {
               UI_CONFIG.SPACING.CARD
             )}
           >
-            <CodeEditor code={generatedCode} />
+            <CodeEditor
+              code={generatedCode}
+              isPython={FILE_EXTENSIONS[framework] === "py"}
+            />
           </CardContent>
           <div className="px-2 text-center">
             <div className="text-xs text-slate-500 font-semibold">
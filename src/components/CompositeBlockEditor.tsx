@@ -0,0 +1,309 @@
+/**
+ * Dialog for editing a composite block definition
+ * The block's layers are edited on their own small canvas; saving updates
+ * every instance of the block in the project
+ */
+
+import { useCallback, useMemo, useState } from "react";
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  BackgroundVariant,
+  ConnectionLineType,
+  Handle,
+  Position,
+  addEdge,
+  useEdgesState,
+  useNodesState,
+} from "@xyflow/react";
+import type { Connection, EdgeTypes, Node, NodeTypes } from "@xyflow/react";
+
+import { LayerNode } from "./LayerNode";
+import { DeletableEdge } from "./DeletableEdge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  BLOCK_PORT_NODE_TYPE,
+  createBlockPortNode,
+  fromEditableGraph,
+  getCompositeBlockId,
+  isCompositeNode,
+  toEditableGraph,
+  validateBlockName,
+  type BlockPort,
+  type CompositeBlock,
+} from "../lib/composite-blocks";
+import { getLayerTypes } from "../lib/layer-definitions";
+import { getDefaultParams } from "../lib/layers/parameters";
+import { useFlowStore } from "../lib/flow-store";
+
+const EDGE_STYLE = { strokeWidth: 2, stroke: "#6b7280" };
+
+// Layers that only make sense on the main canvas
+const EXCLUDED_LAYER_TYPES = ["Input", "Output"];
+
+// Space between a new port node and the last one of its kind
+const PORT_SPACING = 120;
+
+const getPortData = (node: Node) =>
+  node.data as { port: BlockPort; index: number };
+
+/**
+ * Stands for one of the block's inputs or outputs while it is being edited
+ */
+function BlockPortNode({ data }: { data: { port: BlockPort; index: number } }) {
+  const isInput = data.port === "input";
+  return (
+    <div className="rounded-full border-2 border-dashed border-indigo-400 bg-white px-4 py-1.5 text-xs font-semibold text-indigo-700">
+      {!isInput && (
+        <Handle
+          type="target"
+          position={Position.Top}
+          className="w-4 h-4 border-2 border-white !bg-indigo-500"
+        />
+      )}
+      {isInput ? "Block input" : "Block output"} {data.index + 1}
+      {isInput && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          className="w-4 h-4 border-2 border-white !bg-indigo-500"
+        />
+      )}
+    </div>
+  );
+}
+
+const nodeTypes: NodeTypes = {
+  layerNode: LayerNode,
+  [BLOCK_PORT_NODE_TYPE]: BlockPortNode,
+};
+const edgeTypes: EdgeTypes = { smoothstep: DeletableEdge };
+
+interface BlockEditorBodyProps {
+  block: CompositeBlock;
+  instanceCount: number;
+  onClose: () => void;
+}
+
+function BlockEditorBody({ block, instanceCount, onClose }: BlockEditorBodyProps) {
+  const { compositeBlocks, updateCompositeBlock } = useFlowStore();
+  const initialGraph = toEditableGraph(block);
+  const [nodes, setNodes, onNodesChange] = useNodesState(initialGraph.nodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(initialGraph.edges);
+  const [name, setName] = useState(block.name);
+  const [error, setError] = useState<string | null>(null);
+
+  const layerTypes = getLayerTypes().filter(
+    (layer) => !EXCLUDED_LAYER_TYPES.includes(layer.type)
+  );
+
+  // Only the last input or output can be removed, so the others keep their
+  // numbers and the connections to them on the canvas
+  const displayedNodes = useMemo(() => {
+    const portCounts = new Map<BlockPort, number>();
+    nodes.forEach((node) => {
+      if (node.type !== BLOCK_PORT_NODE_TYPE) return;
+      const { port } = getPortData(node);
+      portCounts.set(port, (portCounts.get(port) ?? 0) + 1);
+    });
+    return nodes.map((node) => {
+      if (node.type !== BLOCK_PORT_NODE_TYPE) return node;
+      const { port, index } = getPortData(node);
+      return {
+        ...node,
+        deletable: index > 0 && index === portCounts.get(port)! - 1,
+      };
+    });
+  }, [nodes]);
+
+  const handleConnect = useCallback(
+    (connection: Connection) => {
+      setEdges((current) =>
+        addEdge({ ...connection, type: "smoothstep", style: EDGE_STYLE }, current)
+      );
+    },
+    [setEdges]
+  );
+
+  // New layers appear below the lowest layer, ready to be wired in
+  const handleAddLayer = (layerType: string) => {
+    const lowest = Math.max(...nodes.map((node) => node.position.y));
+    setNodes((current) => [
+      ...current,
+      {
+        id: `${layerType.toLowerCase()}-${Date.now()}`,
+        type: "layerNode",
+        position: { x: 240, y: lowest + 40 },
+        data: { type: layerType, params: getDefaultParams(layerType) },
+      },
+    ]);
+  };
+
+  // A new port sits beside the last one of its kind
+  const handleAddPort = (port: BlockPort) => {
+    const ports = nodes.filter(
+      (node) =>
+        node.type === BLOCK_PORT_NODE_TYPE && getPortData(node).port === port
+    );
+    const last = ports[ports.length - 1];
+    setNodes((current) => [
+      ...current,
+      createBlockPortNode(port, ports.length, {
+        x: (last?.position.x ?? 0) + PORT_SPACING,
+        y: last?.position.y ?? 0,
+      }),
+    ]);
+  };
+
+  const handleSave = () => {
+    const nameError = validateBlockName(name, compositeBlocks, block.id);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+
+    const result = fromEditableGraph(nodes, edges);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    updateCompositeBlock(block.id, { name: name.trim(), ...result });
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="flex items-end gap-3">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="composite-block-name" className="text-xs">
+            Name
+          </Label>
+          <Input
+            id="composite-block-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleAddPort("input")}
+        >
+          Add input
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleAddPort("output")}
+        >
+          Add output
+        </Button>
+        <div className="w-56">
+          <Select value="" onValueChange={handleAddLayer}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Add layer..." />
+            </SelectTrigger>
+            <SelectContent>
+              {layerTypes.map((layer) => (
+                <SelectItem key={layer.type} value={layer.type}>
+                  {layer.icon} {layer.type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="h-[55vh] rounded-lg border border-slate-200">
+        <ReactFlow
+          nodes={displayedNodes}
+          edges={edges}
+          onNodesChange={onNodesChange}
+          onEdgesChange={onEdgesChange}
+          onConnect={handleConnect}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          fitView
+          deleteKeyCode={["Delete", "Backspace"]}
+          connectionLineType={ConnectionLineType.SmoothStep}
+          defaultEdgeOptions={{ type: "smoothstep", style: EDGE_STYLE }}
+        >
+          <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
+        </ReactFlow>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-md border border-red-200">
+          {error}
+        </p>
+      )}
+
+      <DialogFooter>
+        <span className="mr-auto self-center text-xs text-slate-500">
+          Changes apply to {instanceCount}{" "}
+          {instanceCount === 1 ? "instance" : "instances"} on the canvas.
+        </span>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave}>Save block</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function CompositeBlockEditor() {
+  const { compositeBlocks, nodes, editingBlockId, setEditingBlockId } =
+    useFlowStore();
+  const block = compositeBlocks.find((b) => b.id === editingBlockId);
+  const instanceCount = nodes.filter(
+    (node) => isCompositeNode(node) && getCompositeBlockId(node) === block?.id
+  ).length;
+
+  const close = useCallback(() => setEditingBlockId(null), [setEditingBlockId]);
+
+  return (
+    <Dialog open={!!block} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Edit composite block</DialogTitle>
+          <DialogDescription>
+            Connect each block input to the layers that receive it and one layer
+            to each block output; instances get a handle per input and output.
+            Double click a layer to change its parameters.
+          </DialogDescription>
+        </DialogHeader>
+
+        {block && (
+          <ReactFlowProvider key={block.id}>
+            <BlockEditorBody
+              block={block}
+              instanceCount={instanceCount}
+              onClose={close}
+            />
+          </ReactFlowProvider>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
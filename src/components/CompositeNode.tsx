@@ -0,0 +1,333 @@
+/**
+ * Canvas node for an instance of a composite block
+ * Shows the block's layers at a glance, with a handle per block input and
+ * output; the block itself is edited in a dialog so every instance stays in
+ * sync
+ */
+
+import { Handle, Position, useConnection, useReactFlow } from "@xyflow/react";
+import { Pencil, Trash2, Ungroup } from "lucide-react";
+import { getLayerIcon } from "../lib/layer-definitions";
+import { formatParameterCount } from "../lib/model-summary";
+import { useFlowStore } from "../lib/flow-store";
+import {
+  REPEAT_RANGE,
+  getBlockInputHandles,
+  getBlockOutputHandles,
+  getBlockRepeats,
+  getCompositeBlockId,
+  isCompositeNode,
+} from "../lib/composite-blocks";
+import { getConnectionCheckKey } from "../lib/connection-validation";
+import type { LayerParamValue } from "../lib/layers/parameters";
+import { cn } from "../lib/utils";
+
+interface CompositeNodeData {
+  type: string;
+  params: Record<string, LayerParamValue>;
+  hasShapeError?: boolean;
+  shapeErrorMessage?: string;
+  hasParamError?: boolean;
+  paramErrorMessage?: string;
+  lintMessage?: string;
+  paramCount?: number;
+  macs?: number;
+}
+
+interface CompositeNodeProps {
+  id: string;
+  data: CompositeNodeData;
+}
+
+// Inner layers listed on the node before the rest are summarized
+const MAX_LISTED_LAYERS = 4;
+
+export function CompositeNode({ id, data }: CompositeNodeProps) {
+  const {
+    hasShapeError,
+    shapeErrorMessage,
+    hasParamError,
+    paramErrorMessage,
+    lintMessage,
+    paramCount,
+    macs,
+  } = data;
+  const { deleteElements, updateNodeData } = useReactFlow();
+  const { compositeBlocks, nodes, ungroupBlock, setEditingBlockId } =
+    useFlowStore();
+  const connectionChecks = useFlowStore((state) => state.connectionChecks);
+  // Which end a connection is being dragged from, and which of our handles
+  // it is over (undefined when not over us)
+  const connectingFrom = useConnection((connection) =>
+    connection.inProgress ? connection.fromHandle.type : null
+  );
+  const hoveredHandle = useConnection((connection) =>
+    connection.inProgress && connection.toNode?.id === id
+      ? (connection.toHandle?.id ?? null)
+      : undefined
+  );
+
+  const blockId = String(data.params?.blockId ?? "");
+  const block = compositeBlocks.find((b) => b.id === blockId);
+  const instanceCount = nodes.filter(
+    (node) => isCompositeNode(node) && getCompositeBlockId(node) === blockId
+  ).length;
+  const repeats = getBlockRepeats(data.params);
+  const hasError = !!hasShapeError || !!hasParamError;
+  const layerTypes =
+    block?.nodes.map((node) => (node.data as { type: string }).type) ?? [];
+  // A missing block keeps one unnamed handle per side for its connections
+  const inputHandles = block ? getBlockInputHandles(block) : [null];
+  const outputHandles = block ? getBlockOutputHandles(block) : [null];
+  // Repeating passes each output to the matching input; the count stays
+  // editable while it is above one so an invalid repeat can be undone
+  const canRepeat =
+    !!block &&
+    (block.inputs.length === block.outputNodeIds.length || repeats > 1);
+
+  const getHandleClasses = (isValid?: boolean) => {
+    const base = "w-4 h-4 border-2 border-white shadow-sm transition-all";
+    if (isValid === undefined) {
+      return `${base} ${hasError ? "!bg-red-500" : "!bg-indigo-500"}`;
+    }
+    return isValid
+      ? `${base} !bg-emerald-500 ring-4 ring-emerald-300 scale-125`
+      : `${base} !bg-slate-300 opacity-60`;
+  };
+
+  const getConnectionCheck = (handleId: string | null) =>
+    connectionChecks?.get(getConnectionCheckKey(id, handleId));
+
+  // Only the handles opposite the one being dragged can take the connection
+  const getTargetCheck = (handleId: string | null) =>
+    connectingFrom === "source" ? getConnectionCheck(handleId) : undefined;
+  const getSourceCheck = (handleId: string | null) =>
+    connectingFrom === "target" ? getConnectionCheck(handleId) : undefined;
+  const hoveredCheck =
+    hoveredHandle !== undefined ? getConnectionCheck(hoveredHandle) : undefined;
+  const rejection =
+    hoveredCheck && !hoveredCheck.isValid ? hoveredCheck.reason : undefined;
+
+  // Handles are spread along the edge and numbered when there are several
+  const renderHandles = (
+    type: "target" | "source",
+    handleIds: Array<string | null>,
+    getCheck: (handleId: string | null) => { isValid: boolean } | undefined
+  ) =>
+    handleIds.map((handleId, index) => (
+      <Handle
+        key={handleId ?? type}
+        id={handleId ?? undefined}
+        type={type}
+        position={type === "target" ? Position.Top : Position.Bottom}
+        style={{ left: `${((index + 1) * 100) / (handleIds.length + 1)}%` }}
+        className={getHandleClasses(getCheck(handleId)?.isValid)}
+      >
+        {handleIds.length > 1 && (
+          <span
+            className={cn(
+              "pointer-events-none absolute left-1/2 -translate-x-1/2 text-[10px] font-medium text-gray-500",
+              type === "target" ? "bottom-full mb-1" : "top-full mt-1"
+            )}
+          >
+            {type === "target" ? "in" : "out"} {index + 1}
+          </span>
+        )}
+      </Handle>
+    ));
+
+  const renderRejection = (placement: string) =>
+    rejection && (
+      <div
+        className={`pointer-events-none absolute left-1/2 z-20 w-64 -translate-x-1/2 rounded-md bg-slate-900 px-2 py-1 text-xs text-white shadow-lg ${placement}`}
+      >
+        {rejection}
+      </div>
+    );
+
+  return (
+    <div className="layer-node">
+      {renderHandles("target", inputHandles, getTargetCheck)}
+      {connectingFrom === "source" && renderRejection("bottom-full mb-3")}
+
+      <div className="relative group">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            e.preventDefault();
+            deleteElements({ nodes: [{ id }] });
+          }}
+          className="absolute -top-2 -right-2 z-10 opacity-0 group-hover:opacity-100 transition-all duration-200 bg-red-500 hover:bg-red-600 text-white rounded-full p-1 shadow-lg hover:shadow-xl hover:scale-110"
+          title="Delete this block"
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+
+        <div
+          className={cn(
+            "flex flex-col px-4 py-3 rounded-xl shadow-md border-2 border-double hover:shadow-lg transition-all duration-300 min-w-[180px] max-w-[280px]",
+            hasError
+              ? "border-red-500 bg-red-50"
+              : "border-indigo-400 bg-indigo-50 hover:border-indigo-500"
+          )}
+          onDoubleClick={() => block && setEditingBlockId(block.id)}
+          title={
+            block
+              ? `${block.name} - Double click to edit the block`
+              : "Composite block definition not found"
+          }
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-base flex-shrink-0">🧩</span>
+            <span
+              className={cn(
+                "font-semibold text-sm truncate",
+                hasError ? "text-red-700" : "text-slate-700"
+              )}
+            >
+              {block?.name ?? "Missing block"}
+            </span>
+            <span
+              className="bg-indigo-500 text-white text-xs px-1.5 py-0.5 rounded-full font-bold flex-shrink-0"
+              title={`${layerTypes.length} layers; placed ${instanceCount} times`}
+            >
+              {layerTypes.length}
+            </span>
+            {repeats > 1 && (
+              <span
+                className="bg-indigo-700 text-white text-xs px-1.5 py-0.5 rounded-full font-bold flex-shrink-0"
+                title={`This block will be repeated ${repeats} times`}
+              >
+                ×{repeats}
+              </span>
+            )}
+            {hasError && (
+              <span className="text-red-500 text-sm font-bold flex-shrink-0">
+                ⚠️
+              </span>
+            )}
+            {!hasError && lintMessage && (
+              <span
+                className="text-amber-500 text-sm font-bold flex-shrink-0"
+                title={`Warning: ${lintMessage}`}
+              >
+                ⚠
+              </span>
+            )}
+          </div>
+
+          {layerTypes.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {layerTypes.slice(0, MAX_LISTED_LAYERS).map((type, index) => (
+                <span
+                  key={index}
+                  className="text-xs text-slate-600 bg-white/70 px-2 py-0.5 rounded-md"
+                >
+                  {getLayerIcon(type)} {type}
+                </span>
+              ))}
+              {layerTypes.length > MAX_LISTED_LAYERS && (
+                <span className="text-xs text-slate-500 bg-slate-100 px-2 py-0.5 rounded-md font-medium">
+                  +{layerTypes.length - MAX_LISTED_LAYERS} more
+                </span>
+              )}
+            </div>
+          )}
+
+          {!hasError && (!!paramCount || !!macs) && (
+            <div className="flex gap-2 text-xs text-slate-500 mt-1.5">
+              {!!paramCount && (
+                <span title={`${paramCount.toLocaleString()} parameters`}>
+                  {formatParameterCount(paramCount)} params
+                </span>
+              )}
+              {!!macs && (
+                <span title={`${macs.toLocaleString()} multiply-accumulates per sample`}>
+                  {formatParameterCount(macs)} MACs
+                </span>
+              )}
+            </div>
+          )}
+
+          {hasParamError && paramErrorMessage && (
+            <div className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded-md border border-red-200 mt-2">
+              {paramErrorMessage}
+            </div>
+          )}
+
+          {hasShapeError && shapeErrorMessage && (
+            <div className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded-md border border-red-200 mt-2">
+              {shapeErrorMessage}
+            </div>
+          )}
+
+          {!hasError && lintMessage && (
+            <div className="text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded-md border border-amber-200 mt-2">
+              {lintMessage}
+            </div>
+          )}
+
+          {block && (
+            <div className="flex gap-1 mt-2">
+              <button
+                type="button"
+                className="nodrag flex items-center gap-1 rounded-md px-2 py-0.5 text-xs text-indigo-700 hover:bg-indigo-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditingBlockId(block.id);
+                }}
+                title={`Edit the block; changes apply to all ${instanceCount} instances`}
+              >
+                <Pencil className="h-3 w-3" />
+                Edit
+              </button>
+              <button
+                type="button"
+                className="nodrag flex items-center gap-1 rounded-md px-2 py-0.5 text-xs text-indigo-700 hover:bg-indigo-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  ungroupBlock(id);
+                }}
+                title="Replace this instance with its layers"
+              >
+                <Ungroup className="h-3 w-3" />
+                Expand
+              </button>
+              {canRepeat && (
+                <label
+                  className="nodrag ml-auto flex items-center gap-1 text-xs text-indigo-700"
+                  title="Apply the block this many times in a row"
+                >
+                  ×
+                  <input
+                    type="number"
+                    min={REPEAT_RANGE.min}
+                    max={REPEAT_RANGE.max}
+                    value={repeats}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (
+                        Number.isInteger(value) &&
+                        value >= REPEAT_RANGE.min &&
+                        value <= REPEAT_RANGE.max
+                      ) {
+                        updateNodeData(id, {
+                          ...data,
+                          params: { ...data.params, repeats: value },
+                        });
+                      }
+                    }}
+                    className="w-10 rounded border border-indigo-200 bg-white px-1 py-0.5 text-xs"
+                  />
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {renderHandles("source", outputHandles, getSourceCheck)}
+      {connectingFrom === "target" && renderRejection("top-full mt-3")}
+    </div>
+  );
+}
@@ -29,6 +29,8 @@ export function DeletableEdge(props: EdgeProps) {
   
   const { deleteElements } = useReactFlow();
   const [isHovered, setIsHovered] = useState(false);
+  // A palette block is being dragged over this edge and will be inserted
+  const [isDropTarget, setIsDropTarget] = useState(false);
 
   const [edgePath, labelX, labelY] = getSmoothStepPath({
     sourceX,
@@ -55,16 +57,32 @@ export function DeletableEdge(props: EdgeProps) {
     setIsHovered(false);
   }, [id]);
 
-  const edgeStyle = {
-    ...style,
-    strokeWidth: isHovered ? 3 : (style.strokeWidth || 2),
-    stroke: isHovered ? "#ef4444" : (style.stroke || "#6b7280"),
-  };
+  const handleDragEnter = useCallback((event: React.DragEvent) => {
+    const { types } = event.dataTransfer;
+    if (types.includes("layertype") || types.includes("compositeblockid")) {
+      setIsDropTarget(true);
+    }
+  }, []);
+
+  const handleDragEnd = useCallback(() => {
+    setIsDropTarget(false);
+  }, []);
+
+  const edgeStyle = isDropTarget
+    ? { ...style, strokeWidth: 4, stroke: "#6366f1" }
+    : {
+        ...style,
+        strokeWidth: isHovered ? 3 : (style.strokeWidth || 2),
+        stroke: isHovered ? "#ef4444" : (style.stroke || "#6b7280"),
+      };
 
   return (
     <g
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragEnd}
+      onDrop={handleDragEnd}
       style={{ cursor: isHovered ? "pointer" : "default" }}
     >
       {/* Debug: Visible wider path to see if it's working */}
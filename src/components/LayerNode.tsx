@@ -1,5 +1,10 @@
 import { useState } from "react";
-import { Handle, Position, useReactFlow } from "@xyflow/react";
+import {
+  Handle,
+  Position,
+  useConnection,
+  useReactFlow,
+} from "@xyflow/react";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -14,19 +19,31 @@ import { Button } from "./ui/button";
 import { Trash2 } from "lucide-react";
 import { getDefaultParams, getLayerFormSpec } from "../lib/layers/parameters";
 import { getLayerCategoryColors } from "../lib/categories";
-import { getLayerIcon } from "../lib/layer-definitions";
+import { getLayerDefinition, getLayerIcon } from "../lib/layer-definitions";
 import {
   getParameterDisplayValues,
   getTotalParameterCount,
 } from "../lib/layer-display";
+import { formatParameterCount } from "../lib/model-summary";
 import type { LayerParamValue } from "../lib/layers/parameters";
 import type { LayerFormField } from "../lib/layers/parameters";
+import { validateLayerParameters } from "../lib/layers/validation";
+import { useFlowStore } from "../lib/flow-store";
+import {
+  getConnectionCheckKey,
+  type ConnectionCheck,
+} from "../lib/connection-validation";
 
 interface LayerNodeData {
   type: string;
   params: Record<string, LayerParamValue>;
   hasShapeError?: boolean;
   shapeErrorMessage?: string;
+  hasParamError?: boolean;
+  paramErrorMessage?: string;
+  lintMessage?: string;
+  paramCount?: number;
+  macs?: number;
 }
 
 interface LayerNodeProps {
@@ -40,10 +57,26 @@ export function LayerNode({ id, data }: LayerNodeProps) {
     params = getDefaultParams(data.type),
     hasShapeError,
     shapeErrorMessage,
+    hasParamError,
+    paramErrorMessage,
+    lintMessage,
+    paramCount,
+    macs,
   } = data;
   const [isOpen, setIsOpen] = useState(false);
   const [editParams, setEditParams] = useState(params);
   const { updateNodeData, deleteElements } = useReactFlow();
+  const connectionChecks = useFlowStore((state) => state.connectionChecks);
+  // Which end a connection is being dragged from, and which of our handles
+  // it is over (null for an unnamed one, undefined when not over us)
+  const connectingFrom = useConnection((connection) =>
+    connection.inProgress ? connection.fromHandle.type : null
+  );
+  const hoveredHandle = useConnection((connection) =>
+    connection.inProgress && connection.toNode?.id === id
+      ? (connection.toHandle?.id ?? null)
+      : undefined
+  );
 
   const formSpec = getLayerFormSpec(type);
   const icon = getLayerIcon(type);
@@ -51,6 +84,10 @@ export function LayerNode({ id, data }: LayerNodeProps) {
   const visibleParams = getParameterDisplayValues(type, params);
   const totalParams = getTotalParameterCount(type);
   const showMoreIndicator = type !== "Input" && totalParams > 3;
+  const hasError = !!hasShapeError || !!hasParamError;
+  // Layers with named inputs (e.g. attention) get one target handle each
+  const inputHandles = getLayerDefinition(type)?.inputHandles ?? [];
+  const editErrors = isOpen ? validateLayerParameters(type, editParams) : [];
 
   const handleDoubleClick = () => {
     setIsOpen(true);
@@ -135,27 +172,85 @@ export function LayerNode({ id, data }: LayerNodeProps) {
     const base =
       "flex flex-col px-4 py-3 rounded-xl shadow-md border-2 hover:shadow-lg transition-all duration-300 cursor-pointer hover:scale-[1.02] min-w-[160px] max-w-[280px]";
 
-    if (hasShapeError) {
+    if (hasError) {
       return `${base} border-red-500 hover:border-red-600 hover:shadow-red-200/50 bg-red-50`;
     }
 
     return `${base} ${categoryColors.border} ${categoryColors.hover} ${categoryColors.bg}`;
   };
 
-  const getHandleClasses = (isError: boolean, color: string) =>
-    `w-4 h-4 border-2 border-white shadow-sm ${
-      isError ? "!bg-red-500" : color
-    }`;
+  const getHandleClasses = (
+    isError: boolean,
+    color: string,
+    check?: ConnectionCheck
+  ) => {
+    const base = "w-4 h-4 border-2 border-white shadow-sm transition-all";
+
+    if (check) {
+      return check.isValid
+        ? `${base} !bg-emerald-500 ring-4 ring-emerald-300 scale-125`
+        : `${base} !bg-slate-300 opacity-60`;
+    }
+
+    return `${base} ${isError ? "!bg-red-500" : color}`;
+  };
+
+  const getConnectionCheck = (handleId?: string | null) =>
+    connectionChecks?.get(getConnectionCheckKey(id, handleId));
+
+  // Only the handle opposite the one being dragged can take the connection
+  const getTargetCheck = (handleId?: string) =>
+    connectingFrom === "source" ? getConnectionCheck(handleId) : undefined;
+  const sourceCheck =
+    connectingFrom === "target" ? getConnectionCheck() : undefined;
+  const hoveredCheck =
+    hoveredHandle !== undefined ? getConnectionCheck(hoveredHandle) : undefined;
+  const rejection =
+    hoveredCheck && !hoveredCheck.isValid ? hoveredCheck.reason : undefined;
+
+  const renderRejection = (placement: string) =>
+    rejection && (
+      <div
+        className={`pointer-events-none absolute left-1/2 z-20 w-64 -translate-x-1/2 rounded-md bg-slate-900 px-2 py-1 text-xs text-white shadow-lg ${placement}`}
+      >
+        {rejection}
+      </div>
+    );
 
   return (
     <div className="layer-node">
-      {type !== "Input" && (
+      {type !== "Input" && inputHandles.length === 0 && (
         <Handle
           type="target"
           position={Position.Top}
-          className={getHandleClasses(!!hasShapeError, "!bg-blue-500")}
+          className={getHandleClasses(
+            hasError,
+            "!bg-blue-500",
+            getTargetCheck()
+          )}
         />
       )}
+      {inputHandles.map((handleId, index) => (
+        <Handle
+          key={handleId}
+          id={handleId}
+          type="target"
+          position={Position.Top}
+          style={{
+            left: `${((index + 1) * 100) / (inputHandles.length + 1)}%`,
+          }}
+          className={getHandleClasses(
+            hasError,
+            "!bg-blue-500",
+            getTargetCheck(handleId)
+          )}
+        >
+          <span className="pointer-events-none absolute bottom-full left-1/2 mb-1 -translate-x-1/2 text-[10px] font-medium text-gray-500">
+            {handleId}
+          </span>
+        </Handle>
+      ))}
+      {connectingFrom === "source" && renderRejection("bottom-full mb-3")}
 
       <Popover open={isOpen} onOpenChange={setIsOpen}>
         <PopoverTrigger asChild>
@@ -176,14 +271,18 @@ export function LayerNode({ id, data }: LayerNodeProps) {
               className={getNodeClasses()}
               onDoubleClick={handleDoubleClick}
               title={
-                hasShapeError
-                  ? `Shape Error: ${shapeErrorMessage}`
-                  : `${type} - Double click to edit`
+                hasParamError
+                  ? `Parameter Error: ${paramErrorMessage}`
+                  : hasShapeError
+                    ? `Shape Error: ${shapeErrorMessage}`
+                    : lintMessage
+                      ? `Warning: ${lintMessage}`
+                      : `${type} - Double click to edit`
               }
             >
               <div
                 className={`flex items-center gap-2 ${
-                  visibleParams.length === 0 && !hasShapeError
+                  visibleParams.length === 0 && !hasError
                     ? "justify-center"
                     : ""
                 }`}
@@ -193,7 +292,7 @@ export function LayerNode({ id, data }: LayerNodeProps) {
                 </span>
                 <span
                   className={`font-semibold text-sm truncate ${
-                    hasShapeError ? "text-red-700" : "text-slate-700"
+                    hasError ? "text-red-700" : "text-slate-700"
                   }`}
                 >
                   {type}
@@ -206,14 +305,26 @@ export function LayerNode({ id, data }: LayerNodeProps) {
                     ×{params.multiplier}
                   </span>
                 )}
-                {hasShapeError && (
+                {hasError && (
                   <span
                     className="text-red-500 text-sm font-bold flex-shrink-0"
-                    title={`Shape Error: ${shapeErrorMessage}`}
+                    title={
+                      hasParamError
+                        ? `Parameter Error: ${paramErrorMessage}`
+                        : `Shape Error: ${shapeErrorMessage}`
+                    }
                   >
                     ⚠️
                   </span>
                 )}
+                {!hasError && lintMessage && (
+                  <span
+                    className="text-amber-500 text-sm font-bold flex-shrink-0"
+                    title={`Warning: ${lintMessage}`}
+                  >
+                    ⚠
+                  </span>
+                )}
               </div>
 
               {visibleParams.length > 0 && (
@@ -239,11 +350,40 @@ export function LayerNode({ id, data }: LayerNodeProps) {
                 </div>
               )}
 
+              {!hasError && (!!paramCount || !!macs) && (
+                <div className="flex gap-2 text-xs text-slate-500 mt-1.5">
+                  {!!paramCount && (
+                    <span title={`${paramCount.toLocaleString()} parameters`}>
+                      {formatParameterCount(paramCount)} params
+                    </span>
+                  )}
+                  {!!macs && (
+                    <span
+                      title={`${macs.toLocaleString()} multiply-accumulates per sample (~${formatParameterCount(2 * macs)} FLOPs)`}
+                    >
+                      {formatParameterCount(macs)} MACs
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {hasParamError && paramErrorMessage && (
+                <div className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded-md border border-red-200 mt-2">
+                  {paramErrorMessage}
+                </div>
+              )}
+
               {hasShapeError && shapeErrorMessage && (
                 <div className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded-md border border-red-200 mt-2">
                   {shapeErrorMessage}
                 </div>
               )}
+
+              {!hasError && lintMessage && (
+                <div className="text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded-md border border-amber-200 mt-2">
+                  {lintMessage}
+                </div>
+              )}
             </div>
           </div>
         </PopoverTrigger>
@@ -262,6 +402,14 @@ export function LayerNode({ id, data }: LayerNodeProps) {
 
             <div className="space-y-3">{formSpec.map(renderParamEditor)}</div>
 
+            {editErrors.length > 0 && (
+              <ul className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded-md border border-red-200 space-y-0.5">
+                {editErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
             <div className="flex gap-2">
               <Button onClick={handleSave} size="sm" className="flex-1">
                 Save
@@ -283,9 +431,10 @@ export function LayerNode({ id, data }: LayerNodeProps) {
         <Handle
           type="source"
           position={Position.Bottom}
-          className={getHandleClasses(!!hasShapeError, "!bg-green-500")}
+          className={getHandleClasses(hasError, "!bg-green-500", sourceCheck)}
         />
       )}
+      {sourceCheck && renderRejection("top-full mt-3")}
     </div>
   );
 }
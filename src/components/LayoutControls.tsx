@@ -0,0 +1,104 @@
+/**
+ * Auto-arrange controls shown in the corner of the canvas
+ */
+
+import { useCallback, useState } from "react";
+import { Panel, useReactFlow } from "@xyflow/react";
+import { ArrowDown, ArrowRight, Workflow } from "lucide-react";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { useFlowStore } from "../lib/flow-store";
+import type { LayoutDirection } from "../lib/graph-layout";
+
+const DIRECTION_OPTIONS: Array<{
+  value: LayoutDirection;
+  label: string;
+  icon: typeof ArrowDown;
+}> = [
+  { value: "TB", label: "Top to bottom", icon: ArrowDown },
+  { value: "LR", label: "Left to right", icon: ArrowRight },
+];
+
+export function LayoutControls() {
+  const { fitView } = useReactFlow();
+  const {
+    nodes,
+    layoutDirection,
+    autoArrangeTemplates,
+    setLayoutOptions,
+    autoArrange,
+  } = useFlowStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleArrange = useCallback(
+    (direction: LayoutDirection) => {
+      setLayoutOptions({ layoutDirection: direction });
+
+      if (!autoArrange(direction)) {
+        setError("Remove cycles from the network before arranging it.");
+        return;
+      }
+
+      setError(null);
+      setIsOpen(false);
+      // Wait for React Flow to render the new positions before fitting
+      requestAnimationFrame(() => fitView({ padding: 0.2, duration: 300 }));
+    },
+    [autoArrange, setLayoutOptions, fitView]
+  );
+
+  return (
+    <Panel position="top-left">
+      <Popover
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (!open) setError(null);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={nodes.length === 0}
+            className="flex items-center gap-2 bg-white shadow-sm"
+            title="Arrange blocks in layers"
+          >
+            <Workflow className="h-4 w-4" />
+            Auto-arrange
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-3">
+          <div className="space-y-1">
+            {DIRECTION_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={value === layoutDirection ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => handleArrange(value)}
+                className="w-full justify-start gap-2"
+              >
+                <Icon className="h-4 w-4" />
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          {error && <p className="text-xs text-red-700">{error}</p>}
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 border-t border-slate-200 pt-3">
+            <input
+              type="checkbox"
+              checked={autoArrangeTemplates}
+              onChange={(e) =>
+                setLayoutOptions({ autoArrangeTemplates: e.target.checked })
+              }
+            />
+            Arrange dropped templates
+          </label>
+        </PopoverContent>
+      </Popover>
+    </Panel>
+  );
+}
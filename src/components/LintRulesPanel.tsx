@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { ListChecks } from "lucide-react";
+
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { LINT_RULES } from "../lib/architecture-lint";
+import { useFlowStore } from "../lib/flow-store";
+import { cn } from "../lib/utils";
+
+// Enables or disables architecture lint rules for the current project
+export function LintRulesPanel() {
+  const { lintIssues, disabledLintRules, setDisabledLintRules } =
+    useFlowStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggleRule = (ruleId: string, enabled: boolean) => {
+    setDisabledLintRules(
+      enabled
+        ? disabledLintRules.filter((id) => id !== ruleId)
+        : [...disabledLintRules, ruleId]
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-4 rounded-lg transition-all duration-200 shadow-sm border-slate-200 hover:bg-slate-50 hover:border-slate-300 hover:shadow-md"
+          title="Architecture checks"
+        >
+          <ListChecks className="h-4 w-4 mr-2" />
+          Checks
+          {lintIssues.length > 0 && (
+            <span className="ml-2 rounded-full bg-amber-100 px-1.5 text-xs font-semibold text-amber-800">
+              {lintIssues.length}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Architecture Checks</DialogTitle>
+          <DialogDescription>
+            Warnings for networks that build but are likely mistakes. Disabled
+            checks are saved with this project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[60vh] overflow-auto">
+          {LINT_RULES.map((rule) => {
+            const enabled = !disabledLintRules.includes(rule.id);
+            const findings = lintIssues.filter(
+              (issue) => issue.ruleId === rule.id
+            ).length;
+
+            return (
+              <label
+                key={rule.id}
+                className={cn(
+                  "flex items-start gap-3 rounded-lg border px-3 py-2 cursor-pointer",
+                  enabled
+                    ? "border-slate-200 bg-white"
+                    : "border-slate-100 bg-slate-50 opacity-70"
+                )}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={enabled}
+                  onChange={(e) => toggleRule(rule.id, e.target.checked)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-slate-800">
+                    {rule.name}
+                    {findings > 0 && (
+                      <span className="rounded-full bg-amber-100 px-1.5 text-xs font-semibold text-amber-800">
+                        {findings}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-600">{rule.description}</p>
+                  <code className="text-[11px] text-slate-400">
+                    {rule.id} · {rule.severity}
+                  </code>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Header menu for exporting the network as a model definition that other
+ * tools can open, as opposed to a BlockDL project file
+ */
+
+import { useCallback, useState } from "react";
+import type { Node, Edge } from "@xyflow/react";
+import { FileOutput } from "lucide-react";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import type { CompositeBlock } from "../lib/composite-blocks";
+import {
+  encodeOnnxModel,
+  exportOnnxModel,
+  toOnnxJson,
+} from "../lib/onnx-export";
+import { exportKerasModel } from "../lib/keras-export";
+
+const FILE_NAME = "blockdl_model";
+
+interface ModelExportMenuProps {
+  nodes: Node[];
+  edges: Edge[];
+  compositeBlocks: CompositeBlock[];
+}
+
+function downloadFile(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function ModelExportMenu({
+  nodes,
+  edges,
+  compositeBlocks,
+}: ModelExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const handleOnnxExport = useCallback(
+    (format: "onnx" | "json") => {
+      const result = exportOnnxModel(nodes, edges, compositeBlocks, FILE_NAME);
+      if (!result.success) {
+        setError(result.error);
+        setWarnings([]);
+        return;
+      }
+
+      if (format === "onnx") {
+        downloadFile(
+          encodeOnnxModel(result.model),
+          `${FILE_NAME}.onnx`,
+          "application/octet-stream"
+        );
+      } else {
+        downloadFile(
+          JSON.stringify(toOnnxJson(result.model), null, 2),
+          `${FILE_NAME}.onnx.json`,
+          "application/json"
+        );
+      }
+
+      setError(null);
+      setWarnings(result.warnings);
+      // Keep the menu open while there are warnings to read
+      if (result.warnings.length === 0) setIsOpen(false);
+    },
+    [nodes, edges, compositeBlocks]
+  );
+
+  const handleKerasExport = useCallback(() => {
+    const result = exportKerasModel(nodes, edges, compositeBlocks, FILE_NAME);
+    if (!result.success) {
+      setError(result.error);
+      setWarnings([]);
+      return;
+    }
+
+    downloadFile(
+      JSON.stringify(result.model, null, 2),
+      `${FILE_NAME}.json`,
+      "application/json"
+    );
+    setError(null);
+    setWarnings([]);
+    setIsOpen(false);
+  }, [nodes, edges, compositeBlocks]);
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) {
+          setError(null);
+          setWarnings([]);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={nodes.length === 0}
+          className="flex items-center gap-2"
+          title="Export the network for other tools"
+        >
+          <FileOutput className="h-4 w-4" />
+          Export Model
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="space-y-1">
+          <p className="text-xs font-semibold text-slate-500">ONNX</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleOnnxExport("onnx")}
+            className="w-full justify-start"
+          >
+            Download .onnx
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleOnnxExport("json")}
+            className="w-full justify-start"
+          >
+            Download ONNX JSON
+          </Button>
+          <p className="text-xs text-slate-500">
+            Opens in Netron and other ONNX tools. Weights are declared with
+            their shapes as external data, which is not included.
+          </p>
+        </div>
+
+        <div className="space-y-1 border-t border-slate-200 pt-3">
+          <p className="text-xs font-semibold text-slate-500">Keras</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleKerasExport}
+            className="w-full justify-start"
+          >
+            Download Keras JSON
+          </Button>
+          <p className="text-xs text-slate-500">
+            The model config from model.to_json(); load it with
+            keras.models.model_from_json. Requires Keras 3 (TensorFlow 2.16
+            or later); older tf.keras cannot read this format.
+          </p>
+        </div>
+
+        {error && <p className="text-xs text-red-700">{error}</p>}
+
+        {warnings.length > 0 && (
+          <ul className="max-h-40 overflow-auto space-y-1 text-xs text-amber-700 border-t border-slate-200 pt-3">
+            {warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { Table2 } from "lucide-react";
+
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { parseGraphToDAG } from "../lib/dag-parser";
+import { computeShapes } from "../lib/shape-computation";
+import {
+  computeModelSummary,
+  formatBytes,
+  formatOutputShape,
+  formatParameterCount,
+} from "../lib/model-summary";
+import { useFlowStore } from "../lib/flow-store";
+import { expandCompositeBlocks } from "../lib/composite-blocks";
+
+// Keras-style model.summary() table with parameter and memory totals
+export function ModelSummaryPanel() {
+  const { nodes, edges, compositeBlocks } = useFlowStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const summary = useMemo(() => {
+    if (!isOpen) return null;
+    // Composite blocks are listed layer by layer, like Keras does
+    const expanded = expandCompositeBlocks(nodes, edges, compositeBlocks);
+    const dagResult = parseGraphToDAG(expanded.nodes, expanded.edges);
+    if (!dagResult.isValid) return null;
+    const { nodeShapes } = computeShapes(dagResult);
+    return computeModelSummary(dagResult, nodeShapes);
+  }, [isOpen, nodes, edges, compositeBlocks]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={nodes.length === 0}
+          className="h-9 px-4 rounded-lg transition-all duration-200 shadow-sm border-slate-200 hover:bg-slate-50 hover:border-slate-300 hover:shadow-md"
+          title="Model summary"
+        >
+          <Table2 className="h-4 w-4 mr-2" />
+          Summary
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Model Summary</DialogTitle>
+          <DialogDescription>
+            Parameter counts and multiply-accumulates (MACs) are computed from
+            the inferred layer shapes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!summary ? (
+          <p className="text-sm text-slate-600">
+            Fix the network structure to see the model summary.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-[50vh] overflow-auto rounded-lg border border-slate-200">
+              <table className="w-full text-sm font-mono">
+                <thead className="bg-slate-50 text-slate-600 sticky top-0">
+                  <tr>
+                    <th className="text-left font-semibold px-3 py-2">
+                      Layer (type)
+                    </th>
+                    <th className="text-left font-semibold px-3 py-2">
+                      Output Shape
+                    </th>
+                    <th className="text-right font-semibold px-3 py-2">
+                      Param #
+                    </th>
+                    <th className="text-right font-semibold px-3 py-2">
+                      MACs
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.layers.map((layer) => (
+                    <tr
+                      key={layer.nodeId}
+                      className="border-t border-slate-100"
+                    >
+                      <td className="px-3 py-1.5 text-slate-800">
+                        {layer.name}{" "}
+                        <span className="text-slate-500">({layer.type})</span>
+                      </td>
+                      <td className="px-3 py-1.5 text-slate-700">
+                        {formatOutputShape(layer.outputShape)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-slate-700">
+                        {(layer.trainable + layer.nonTrainable).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-slate-700">
+                        {formatParameterCount(layer.macs)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              <span className="text-slate-600">Total params</span>
+              <span className="text-right font-semibold text-slate-800">
+                {summary.totalParams.toLocaleString()}
+              </span>
+              <span className="text-slate-600">Trainable params</span>
+              <span className="text-right text-slate-800">
+                {summary.trainableParams.toLocaleString()}
+              </span>
+              <span className="text-slate-600">Non-trainable params</span>
+              <span className="text-right text-slate-800">
+                {summary.nonTrainableParams.toLocaleString()}
+              </span>
+              <span className="text-slate-600">MACs per sample</span>
+              <span className="text-right text-slate-800">
+                {formatParameterCount(summary.totalMACs)} (~
+                {formatParameterCount(2 * summary.totalMACs)} FLOPs)
+              </span>
+              <span className="text-slate-600">Weight memory (float32)</span>
+              <span className="text-right text-slate-800">
+                {formatBytes(summary.memory.float32)}
+              </span>
+              <span className="text-slate-600">Weight memory (float16)</span>
+              <span className="text-right text-slate-800">
+                {formatBytes(summary.memory.float16)}
+              </span>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Docked list of every error and warning in the network
+ * Clicking an entry centers the canvas on the offending block and selects it
+ */
+
+import { useCallback, useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Info,
+  XCircle,
+} from "lucide-react";
+import { useFlowStore } from "../lib/flow-store";
+import type { Problem, ProblemSeverity } from "../lib/problems";
+import { cn } from "../lib/utils";
+
+const SEVERITY_STYLES: Record<
+  ProblemSeverity,
+  { icon: typeof XCircle; className: string }
+> = {
+  error: { icon: XCircle, className: "text-red-600" },
+  warning: { icon: AlertTriangle, className: "text-amber-500" },
+  info: { icon: Info, className: "text-blue-500" },
+};
+
+const SOURCE_LABELS: Record<Problem["source"], string> = {
+  graph: "Graph",
+  shape: "Shape",
+  parameter: "Parameter",
+  lint: "Check",
+};
+
+const FOCUS_ZOOM = 1.2;
+
+export function ProblemsPanel() {
+  const { getNode, setCenter } = useReactFlow();
+  const {
+    problems,
+    nodes,
+    edges,
+    setNodesWithoutHistory,
+    setEdgesWithoutHistory,
+  } = useFlowStore();
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const errorCount = problems.filter((p) => p.severity === "error").length;
+  const warningCount = problems.length - errorCount;
+
+  const focusNode = useCallback(
+    (nodeId: string) => {
+      const node = getNode(nodeId);
+      if (!node) return;
+
+      const width = node.measured?.width ?? 0;
+      const height = node.measured?.height ?? 0;
+      setCenter(node.position.x + width / 2, node.position.y + height / 2, {
+        zoom: FOCUS_ZOOM,
+        duration: 300,
+      });
+
+      setNodesWithoutHistory(
+        nodes.map((n) => ({ ...n, selected: n.id === nodeId }))
+      );
+      setEdgesWithoutHistory(edges.map((e) => ({ ...e, selected: false })));
+    },
+    [
+      getNode,
+      setCenter,
+      nodes,
+      edges,
+      setNodesWithoutHistory,
+      setEdgesWithoutHistory,
+    ]
+  );
+
+  return (
+    <div className="border-t border-slate-200 bg-white">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-3 px-4 py-1.5 text-sm hover:bg-slate-50"
+      >
+        <span className="font-semibold text-slate-700">Problems</span>
+        <span className="flex items-center gap-1 text-xs text-slate-600">
+          <XCircle className="h-3.5 w-3.5 text-red-600" />
+          {errorCount}
+        </span>
+        <span className="flex items-center gap-1 text-xs text-slate-600">
+          <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+          {warningCount}
+        </span>
+        <span className="ml-auto text-slate-500">
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronUp className="h-4 w-4" />
+          )}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul className="max-h-40 overflow-auto border-t border-slate-100 text-sm">
+          {problems.length === 0 ? (
+            <li className="px-4 py-2 text-slate-500">No problems detected.</li>
+          ) : (
+            problems.map((problem) => {
+              const { icon: Icon, className } =
+                SEVERITY_STYLES[problem.severity];
+              const { nodeId } = problem;
+
+              return (
+                <li key={problem.id}>
+                  <button
+                    type="button"
+                    disabled={!nodeId}
+                    onClick={() => nodeId && focusNode(nodeId)}
+                    className={cn(
+                      "flex w-full items-start gap-2 px-4 py-1.5 text-left",
+                      nodeId ? "hover:bg-slate-50" : "cursor-default"
+                    )}
+                    title={nodeId ? "Show on canvas" : undefined}
+                  >
+                    <Icon
+                      className={cn("mt-0.5 h-4 w-4 flex-shrink-0", className)}
+                    />
+                    {problem.nodeName && (
+                      <code className="flex-shrink-0 text-xs text-slate-700 bg-slate-100 px-1.5 py-0.5 rounded">
+                        {problem.nodeName}
+                      </code>
+                    )}
+                    <span className="flex-1 text-slate-700">
+                      {problem.message}
+                    </span>
+                    <span className="flex-shrink-0 text-xs text-slate-400">
+                      {SOURCE_LABELS[problem.source]}
+                    </span>
+                  </button>
+                </li>
+              );
+            })
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
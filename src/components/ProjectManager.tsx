@@ -0,0 +1,240 @@
+import { useState } from "react";
+import {
+  Check,
+  Copy,
+  FolderOpen,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { useWorkspaceStore } from "../lib/workspace-store";
+import type { ProjectMeta } from "../lib/project-storage";
+import { cn } from "../lib/utils";
+
+function formatLastModified(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+interface ProjectRowProps {
+  project: ProjectMeta;
+  isActive: boolean;
+  onOpen: () => void;
+}
+
+function ProjectRow({ project, isActive, onOpen }: ProjectRowProps) {
+  const { renameProject, duplicateProject, deleteProject } =
+    useWorkspaceStore();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [name, setName] = useState(project.name);
+
+  const handleRename = async () => {
+    await renameProject(project.id, name);
+    setIsRenaming(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 px-3 py-2 rounded-lg border",
+        isActive ? "border-blue-200 bg-blue-50" : "border-slate-200 bg-white"
+      )}
+    >
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <Input
+            value={name}
+            autoFocus
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleRename();
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+            className="h-8"
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={onOpen}
+            className="text-left w-full"
+            title={`Open ${project.name}`}
+          >
+            <div className="text-sm font-medium text-slate-800 truncate">
+              {project.name}
+              {isActive && (
+                <span className="ml-2 text-xs font-normal text-blue-700">
+                  (open)
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-slate-500">
+              {project.layerCount} blocks · modified{" "}
+              {formatLastModified(project.updatedAt)}
+            </div>
+          </button>
+        )}
+      </div>
+
+      {isRenaming ? (
+        <>
+          <Button variant="ghost" size="sm" onClick={handleRename} title="Save name">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsRenaming(false)}
+            title="Cancel"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      ) : isConfirmingDelete ? (
+        <>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => deleteProject(project.id)}
+          >
+            Delete
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsConfirmingDelete(false)}
+            title="Cancel"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      ) : (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setName(project.name);
+              setIsRenaming(true);
+            }}
+            title="Rename"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => duplicateProject(project.id)}
+            title="Duplicate"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsConfirmingDelete(true)}
+            title="Delete"
+            className="hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Lists saved projects and switches between them
+export function ProjectManager() {
+  const { projects, activeProjectId, createProject, openProject } =
+    useWorkspaceStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newProjectName, setNewProjectName] = useState("");
+
+  const activeProject = projects.find(
+    (project) => project.id === activeProjectId
+  );
+
+  const handleCreate = async () => {
+    await createProject(newProjectName);
+    setNewProjectName("");
+    setIsOpen(false);
+  };
+
+  const handleOpen = async (id: string) => {
+    await openProject(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2 max-w-[240px]"
+          title="Manage projects"
+        >
+          <FolderOpen className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">
+            {activeProject?.name ?? "Projects"}
+          </span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>
+            Projects are saved automatically in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={newProjectName}
+            placeholder="New project name"
+            onChange={(e) => setNewProjectName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+            }}
+            className="h-9"
+          />
+          <Button onClick={handleCreate} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-[50vh] overflow-auto">
+          {projects.length === 0 ? (
+            <p className="text-sm text-slate-600">No saved projects yet.</p>
+          ) : (
+            projects.map((project) => (
+              <ProjectRow
+                key={project.id}
+                project={project}
+                isActive={project.id === activeProjectId}
+                onOpen={() => handleOpen(project.id)}
+              />
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Settings2 } from "lucide-react";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { parseGraphToDAG } from "../lib/dag-parser";
+import { useFlowStore } from "../lib/flow-store";
+import {
+  lossOptions,
+  metricOptions,
+  optimizerOptions,
+  resolveLoss,
+  type MetricType,
+  type TrainingConfig,
+} from "../lib/training-config";
+import { cn } from "../lib/utils";
+
+interface NumberFieldProps {
+  id: keyof TrainingConfig;
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ id, label, value, step, min, onChange }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        value={Number.isFinite(value) ? value : ""}
+        step={step}
+        min={min}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-8"
+      />
+    </div>
+  );
+}
+
+// Project-level optimizer, loss, metrics and fit settings
+export function TrainingConfigPanel() {
+  const { nodes, edges, trainingConfig, setTrainingConfig } = useFlowStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editConfig, setEditConfig] = useState(trainingConfig);
+
+  // Shown next to "Auto" so users can see which loss the Output implies
+  const autoLoss = resolveLoss(
+    { ...editConfig, loss: "auto" },
+    parseGraphToDAG(nodes, edges).orderedNodes
+  );
+  const autoLossLabel =
+    lossOptions.find((option) => option.value === autoLoss)?.label ?? autoLoss;
+
+  const updateConfig = (config: Partial<TrainingConfig>) => {
+    setEditConfig((prev) => ({ ...prev, ...config }));
+  };
+
+  const toggleMetric = (metric: MetricType) => {
+    const metrics = editConfig.metrics.includes(metric)
+      ? editConfig.metrics.filter((m) => m !== metric)
+      : [...editConfig.metrics, metric];
+    updateConfig({ metrics });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setEditConfig(trainingConfig);
+    setIsOpen(open);
+  };
+
+  const handleSave = () => {
+    setTrainingConfig(editConfig);
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-4 rounded-lg transition-all duration-200 shadow-sm border-slate-200 hover:bg-slate-50 hover:border-slate-300 hover:shadow-md"
+          title="Training configuration"
+        >
+          <Settings2 className="h-4 w-4 mr-2" />
+          Training
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Training Configuration</DialogTitle>
+          <DialogDescription>
+            Used by the generated code for every framework and saved with the
+            project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="optimizer" className="text-xs">
+                Optimizer
+              </Label>
+              <Select
+                value={editConfig.optimizer}
+                onValueChange={(value: TrainingConfig["optimizer"]) =>
+                  updateConfig({ optimizer: value })
+                }
+              >
+                <SelectTrigger id="optimizer" className="h-8 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {optimizerOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <NumberField
+              id="learningRate"
+              label="Learning Rate"
+              value={editConfig.learningRate}
+              step={0.0001}
+              min={0}
+              onChange={(learningRate) => updateConfig({ learningRate })}
+            />
+
+            {(editConfig.optimizer === "sgd" ||
+              editConfig.optimizer === "rmsprop") && (
+              <NumberField
+                id="momentum"
+                label="Momentum"
+                value={editConfig.momentum}
+                step={0.05}
+                min={0}
+                onChange={(momentum) => updateConfig({ momentum })}
+              />
+            )}
+
+            {editConfig.optimizer === "adamw" && (
+              <NumberField
+                id="weightDecay"
+                label="Weight Decay"
+                value={editConfig.weightDecay}
+                step={0.001}
+                min={0}
+                onChange={(weightDecay) => updateConfig({ weightDecay })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="loss" className="text-xs">
+              Loss
+            </Label>
+            <Select
+              value={editConfig.loss}
+              onValueChange={(value: TrainingConfig["loss"]) =>
+                updateConfig({ loss: value })
+              }
+            >
+              <SelectTrigger id="loss" className="h-8 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">
+                  Auto (from Output: {autoLossLabel})
+                </SelectItem>
+                {lossOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Metrics</Label>
+            <div className="flex flex-wrap gap-2">
+              {metricOptions.map((option) => {
+                const isSelected = editConfig.metrics.includes(option.value);
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleMetric(option.value)}
+                    className={cn(
+                      "text-xs px-3 py-1 rounded-full border font-medium transition-colors",
+                      isSelected
+                        ? "bg-blue-100 text-blue-700 border-blue-200"
+                        : "bg-white text-slate-600 border-slate-200 hover:bg-slate-50"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField
+              id="epochs"
+              label="Epochs"
+              value={editConfig.epochs}
+              step={1}
+              min={1}
+              onChange={(epochs) => updateConfig({ epochs })}
+            />
+            <NumberField
+              id="batchSize"
+              label="Batch Size"
+              value={editConfig.batchSize}
+              step={1}
+              min={1}
+              onChange={(batchSize) => updateConfig({ batchSize })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * Architecture Lint - Design checks over a valid network
+ *
+ * Unlike shape errors, lint findings describe networks that build and run
+ * but are probably not what the author intended. Every rule has a stable id
+ * so it can be switched off per project.
+ */
+
+import type { DAGResult, LayerObject } from "./dag-parser";
+import {
+  resolveLoss,
+  resolveOutputLoss,
+  type TrainingConfig,
+} from "./training-config";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LintSeverity = "warning" | "info";
+
+export interface LintIssue {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  nodeId: string;
+}
+
+interface LintContext {
+  dag: DAGResult;
+  nodeShapes: Map<string, number[]>;
+  trainingConfig: TrainingConfig;
+  getInputs: (nodeId: string) => LayerObject[];
+  getOutputs: (nodeId: string) => LayerObject[];
+}
+
+export interface LintRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: LintSeverity;
+  check: (context: LintContext) => Array<{ nodeId: string; message: string }>;
+}
+
+/**
+ * Configuration constants for the lint rules
+ */
+const LINT_CONFIG = {
+  // Flattened image features above which a following Dense is considered huge
+  LARGE_FLATTEN_FEATURES: 16384,
+  LARGE_DENSE_WEIGHTS: 4_000_000,
+} as const;
+
+const DROPOUT_LAYERS = ["Dropout", "SpatialDropout2D"];
+const CROSSENTROPY_LOSSES = [
+  "categorical_crossentropy",
+  "sparse_categorical_crossentropy",
+];
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+function hasActivation(layer: LayerObject): boolean {
+  const activation = layer.params.activation;
+  return !!activation && activation !== "linear";
+}
+
+function producesSoftmax(layer: LayerObject): boolean {
+  if (layer.type === "Output") {
+    return String(layer.params.outputType || "multiclass") === "multiclass";
+  }
+  return layer.params.activation === "softmax";
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "dropout-before-output",
+    name: "Dropout before output",
+    description:
+      "Dropout directly before the output layer randomly removes the features the prediction depends on.",
+    severity: "warning",
+    check: ({ dag, getOutputs }) =>
+      dag.orderedNodes
+        .filter(
+          (layer) =>
+            DROPOUT_LAYERS.includes(layer.type) &&
+            getOutputs(layer.id).some((next) => next.type === "Output")
+        )
+        .map((layer) => ({
+          nodeId: layer.id,
+          message: `${layer.varName} feeds the Output directly; move dropout before the last hidden layer`,
+        })),
+  },
+  {
+    id: "batchnorm-after-dropout",
+    name: "BatchNormalization after Dropout",
+    description:
+      "Dropout changes activation statistics between training and inference, which skews the BatchNormalization moving averages.",
+    severity: "warning",
+    check: ({ dag, getInputs }) =>
+      dag.orderedNodes
+        .filter(
+          (layer) =>
+            layer.type === "BatchNormalization" &&
+            getInputs(layer.id).some((prev) => DROPOUT_LAYERS.includes(prev.type))
+        )
+        .map((layer) => ({
+          nodeId: layer.id,
+          message: `${layer.varName} follows dropout; place BatchNormalization before Dropout`,
+        })),
+  },
+  {
+    id: "stacked-activation",
+    name: "Activation applied twice",
+    description:
+      "A layer with its own activation feeding an Activation node applies two non-linearities in a row.",
+    severity: "warning",
+    check: ({ dag, getOutputs }) =>
+      dag.orderedNodes.flatMap((layer) =>
+        hasActivation(layer)
+          ? getOutputs(layer.id)
+              .filter((next) => next.type === "Activation")
+              .map((next) => ({
+                nodeId: next.id,
+                message: `${layer.varName} already applies ${layer.params.activation}; set it to linear or remove ${next.varName}`,
+              }))
+          : []
+      ),
+  },
+  {
+    id: "large-dense-after-flatten",
+    name: "Huge Dense after Flatten",
+    description:
+      "Flattening a large feature map into a Dense layer creates millions of weights; pooling first is usually better.",
+    severity: "warning",
+    check: ({ dag, nodeShapes, getInputs }) =>
+      dag.orderedNodes.flatMap((layer) => {
+        if (layer.type !== "Dense") return [];
+
+        const flatten = getInputs(layer.id).find((prev) => prev.type === "Flatten");
+        const imageShape = flatten && getInputs(flatten.id)
+          .map((prev) => nodeShapes.get(prev.id))
+          .find((shape) => shape?.length === 3);
+        if (!imageShape) return [];
+
+        const features = imageShape.reduce((total, dim) => total * dim, 1);
+        const weights = features * Number(layer.params.units || 0);
+        if (
+          features < LINT_CONFIG.LARGE_FLATTEN_FEATURES &&
+          weights < LINT_CONFIG.LARGE_DENSE_WEIGHTS
+        ) {
+          return [];
+        }
+
+        return [
+          {
+            nodeId: layer.id,
+            message: `${layer.varName} receives ${features.toLocaleString()} flattened features (${weights.toLocaleString()} weights); add pooling or use GlobalAveragePooling2D`,
+          },
+        ];
+      }),
+  },
+  {
+    id: "softmax-loss-mismatch",
+    name: "Softmax without cross-entropy",
+    description:
+      "Softmax outputs are probabilities over classes and should be trained with a categorical cross-entropy loss.",
+    severity: "warning",
+    check: ({ dag, trainingConfig, getOutputs }) =>
+      dag.orderedNodes.flatMap((layer) => {
+        if (!producesSoftmax(layer) || getOutputs(layer.id).length > 0) {
+          return [];
+        }
+
+        // Output heads may override the project loss
+        const loss =
+          layer.type === "Output"
+            ? resolveOutputLoss(trainingConfig, layer)
+            : resolveLoss(trainingConfig, dag.orderedNodes);
+        if (CROSSENTROPY_LOSSES.includes(loss)) return [];
+
+        return [
+          {
+            nodeId: layer.id,
+            message: `${layer.varName} outputs softmax probabilities but the loss is ${loss}; use categorical cross-entropy`,
+          },
+        ];
+      }),
+  },
+  {
+    id: "placeholder-layer",
+    name: "Placeholder layer",
+    description:
+      "Imported layers without a BlockDL equivalent are placeholders; the generated Keras, PyTorch and Flax code raises an error until they are replaced, and TF.js has no equivalent for them.",
+    severity: "warning",
+    check: ({ dag }) =>
+      dag.orderedNodes
+        .filter((layer) => layer.type === "Placeholder")
+        .map((layer) => ({
+          nodeId: layer.id,
+          message: `${layer.varName} stands in for an imported ${String(layer.params.layer_class || "layer")}; replace it with a supported layer`,
+        })),
+  },
+];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Runs every enabled rule over a valid network
+ */
+export function lintArchitecture(
+  dag: DAGResult,
+  nodeShapes: Map<string, number[]>,
+  trainingConfig: TrainingConfig,
+  disabledRules: string[] = []
+): LintIssue[] {
+  if (!dag.isValid) return [];
+
+  const layerById = new Map(dag.orderedNodes.map((layer) => [layer.id, layer]));
+
+  const context: LintContext = {
+    dag,
+    nodeShapes,
+    trainingConfig,
+    getInputs: (nodeId) =>
+      (dag.inputMap.get(nodeId) ?? [])
+        .map(({ sourceId }) => layerById.get(sourceId))
+        .filter((layer): layer is LayerObject => layer !== undefined),
+    getOutputs: (nodeId) =>
+      (dag.edgeMap.get(nodeId) ?? [])
+        .map((targetId) => layerById.get(targetId))
+        .filter((layer): layer is LayerObject => layer !== undefined),
+  };
+
+  return LINT_RULES.filter((rule) => !disabledRules.includes(rule.id)).flatMap(
+    (rule) =>
+      rule.check(context).map(({ nodeId, message }) => ({
+        ruleId: rule.id,
+        severity: rule.severity,
+        message,
+        nodeId,
+      }))
+  );
+}
@@ -66,6 +66,12 @@ export const categories: Record<string, CategoryDefinition> = {
     description: "RNN and embedding layers",
     icon: "📊",
   },
+  attention: {
+    name: "Attention",
+    color: "violet",
+    description: "Attention and Transformer blocks",
+    icon: "🎯",
+  },
   merge: {
     name: "Merge",
     color: "teal",
@@ -139,6 +145,12 @@ const categoryColorMap: Record<
     text: "text-teal-700",
     hover: "hover:border-teal-300 hover:shadow-teal-200/50",
   },
+  violet: {
+    bg: "bg-violet-50",
+    border: "border-violet-200",
+    text: "text-violet-700",
+    hover: "hover:border-violet-300 hover:shadow-violet-200/50",
+  },
   slate: {
     bg: "bg-gray-100",
     border: "border-gray-200",
@@ -210,6 +222,10 @@ const layerCategoryMap: Record<string, string> = {
   GRU: "sequence",
   Bidirectional: "sequence",
   TimeDistributed: "sequence",
+
+  // Attention
+  MultiHeadAttention: "attention",
+  TransformerEncoderBlock: "attention",
 };
 
 /**
@@ -0,0 +1,557 @@
+import { describe, expect, it } from "vitest";
+import {
+  generateFlaxCode,
+  generateFunctionalKerasCode,
+  generatePyTorchCode,
+  generateTfjsCode,
+} from "./code-generation";
+import { parseGraphToDAG } from "./dag-parser";
+import { createBlockInstance, type CompositeBlock } from "./composite-blocks";
+import { getTemplateById } from "./templates";
+import { DEFAULT_TRAINING_CONFIG } from "./training-config";
+import { chain, edge, layerNode } from "../test/graph";
+
+describe("generateFunctionalKerasCode", () => {
+  it("defines the Transformer encoder block used by the template", async () => {
+    const template = getTemplateById("transformer-text-classifier");
+    if (!template) throw new Error("Transformer template is missing");
+    const { nodes, edges } = template.network;
+
+    const code = await generateFunctionalKerasCode(
+      parseGraphToDAG(nodes, edges)
+    );
+    expect(code).toContain(
+      "class TransformerEncoderBlock(tf.keras.layers.Layer):"
+    );
+    expect(code).toContain("TransformerEncoderBlock(");
+  });
+
+  it("feeds each named input separately", async () => {
+    const code = await generateFunctionalKerasCode(twoInputs);
+    expect(code).toContain('image = Input(shape=(8,), name="image")');
+    expect(code).toContain('metadata = Input(shape=(4,), name="metadata")');
+    expect(code).toContain("model = Model(inputs=[image, metadata]");
+  });
+
+  it("compiles each output head with its own loss and weight", async () => {
+    const code = await generateFunctionalKerasCode(twoHeads);
+    expect(code).toContain("outputs=[label, score]");
+    expect(code).toContain("'label': 'categorical_crossentropy',");
+    expect(code).toContain("'score': 'mse',");
+    expect(code).toContain("'score': 0.5,");
+  });
+
+  it("defines composite blocks as functions", async () => {
+    const code = await generateFunctionalKerasCode(withBlock, undefined, [
+      block,
+    ]);
+    expect(code).toContain("def dense_block(x):");
+    expect(code).toContain("composite = dense_block(input)");
+  });
+
+  it("calls a repeated block in a loop", async () => {
+    const code = await generateFunctionalKerasCode(
+      withRepeatedBlock,
+      undefined,
+      [block]
+    );
+    expect(code).toContain("for _ in range(3):");
+    expect(code).toContain("    composite = dense_block(composite)");
+  });
+
+  it("passes and returns one tensor per block input and output", async () => {
+    const code = await generateFunctionalKerasCode(withPairBlock, undefined, [
+      pairBlock,
+    ]);
+    expect(code).toContain("def pair_block(x1, x2):");
+    expect(code).toContain(
+      "composite_out1, composite_out2 = pair_block(input, other)"
+    );
+  });
+
+  it("reports a block fed by several layers", async () => {
+    const code = await generateFunctionalKerasCode(
+      blockWithTwoInputs,
+      undefined,
+      [block]
+    );
+    expect(code).toContain(
+      "# Error: composite: A composite block with 1 input has 2 layers"
+    );
+  });
+});
+
+// Two named inputs concatenated into one head
+const twoInputs = parseGraphToDAG(
+  [
+    layerNode("a", "Input", {
+      inputType: "flat_data",
+      flatSize: 8,
+      name: "image",
+    }),
+    layerNode("b", "Input", {
+      inputType: "flat_data",
+      flatSize: 4,
+      name: "metadata",
+    }),
+    layerNode("concat", "Merge", { mode: "concat" }),
+    layerNode("out", "Output"),
+  ],
+  [edge("a", "concat"), edge("b", "concat"), edge("concat", "out")]
+);
+
+// Classification and regression heads sharing one input
+const twoHeads = parseGraphToDAG(
+  [
+    layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+    layerNode("cls", "Output", { name: "label", numClasses: 3 }),
+    layerNode("reg", "Output", {
+      name: "score",
+      outputType: "regression",
+      loss: "mse",
+      lossWeight: 0.5,
+    }),
+  ],
+  [edge("in", "cls"), edge("in", "reg")]
+);
+
+const block: CompositeBlock = {
+  id: "block",
+  name: "Dense Block",
+  nodes: [layerNode("inner", "Dense", { units: 8 })],
+  edges: [],
+  inputs: [[{ nodeId: "inner" }]],
+  outputNodeIds: ["inner"],
+};
+
+// Adds two inputs, and also returns a projection of the first
+const pairBlock: CompositeBlock = {
+  id: "pair",
+  name: "Pair Block",
+  nodes: [
+    layerNode("left", "Dense", { units: 8 }),
+    layerNode("right", "Dense", { units: 8 }),
+    layerNode("add", "Merge", { mode: "add" }),
+  ],
+  edges: [edge("left", "add"), edge("right", "add")],
+  inputs: [[{ nodeId: "left" }], [{ nodeId: "right" }]],
+  outputNodeIds: ["add", "left"],
+};
+
+// Two inputs into the pair block, each of its outputs into an Output
+const withPairBlock = parseGraphToDAG(
+  [
+    layerNode("a", "Input", { inputType: "flat_data", flatSize: 4 }),
+    layerNode("c", "Input", {
+      inputType: "flat_data",
+      flatSize: 4,
+      name: "other",
+    }),
+    { ...createBlockInstance(pairBlock, { x: 0, y: 0 }), id: "p" },
+    layerNode("sum", "Output"),
+    layerNode("side", "Output"),
+  ],
+  [
+    edge("a", "p", "input-1"),
+    edge("c", "p", "input-2"),
+    { ...edge("p", "sum"), sourceHandle: "output-1" },
+    { ...edge("p", "side"), sourceHandle: "output-2" },
+  ]
+);
+
+// in -> block instance -> out
+const withBlock = parseGraphToDAG(
+  [
+    layerNode("in", "Input", { inputType: "flat_data", flatSize: 4 }),
+    { ...createBlockInstance(block, { x: 0, y: 0 }), id: "b" },
+    layerNode("out", "Output"),
+  ],
+  chain("in", "b", "out")
+);
+
+// The same graph with the block applied three times in a row
+const withRepeatedBlock = parseGraphToDAG(
+  [
+    layerNode("in", "Input", { inputType: "flat_data", flatSize: 4 }),
+    { ...createBlockInstance(block, { x: 0, y: 0 }, 3), id: "b" },
+    layerNode("out", "Output"),
+  ],
+  chain("in", "b", "out")
+);
+
+// A block instance fed by two inputs
+const blockWithTwoInputs = parseGraphToDAG(
+  [
+    layerNode("a", "Input", { inputType: "flat_data", flatSize: 4 }),
+    layerNode("c", "Input", {
+      inputType: "flat_data",
+      flatSize: 4,
+      name: "other",
+    }),
+    { ...createBlockInstance(block, { x: 0, y: 0 }), id: "b" },
+    layerNode("out", "Output"),
+  ],
+  [edge("a", "b"), edge("c", "b"), edge("b", "out")]
+);
+
+// in -> placeholder -> out
+const withPlaceholder = parseGraphToDAG(
+  [
+    layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+    layerNode("p", "Placeholder", { layer_class: "Lambda" }),
+    layerNode("out", "Output"),
+  ],
+  chain("in", "p", "out")
+);
+
+describe("generatePyTorchCode", () => {
+  it("sizes modules from the computed shapes", () => {
+    const code = generatePyTorchCode(
+      parseGraphToDAG(
+        [
+          layerNode("in", "Input", {
+            inputType: "image_color",
+            height: 32,
+            width: 32,
+          }),
+          layerNode("conv", "Conv2D", { filters: 16, kernel_size: "(3, 3)" }),
+          layerNode("flatten", "Flatten"),
+          layerNode("dense", "Dense", { units: 32 }),
+          layerNode("out", "Output"),
+        ],
+        chain("in", "conv", "flatten", "dense", "out")
+      )
+    );
+    expect(code).toContain("nn.Conv2d(3, 16");
+    // 32 x 32 x 16 features after the "same"-padded convolution
+    expect(code).toContain("nn.Linear(16384, 32)");
+    expect(code).toContain("nn.Linear(32, 10)");
+  });
+
+  it("gives every node its own tensor in forward()", () => {
+    const code = generatePyTorchCode(
+      parseGraphToDAG(
+        [
+          layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+          layerNode("a", "Dense", { units: 4 }),
+          layerNode("b", "Dense", { units: 6 }),
+          layerNode("concat", "Merge", { mode: "concat" }),
+          layerNode("out", "Output"),
+        ],
+        [
+          edge("in", "a"),
+          edge("in", "b"),
+          edge("a", "concat"),
+          edge("b", "concat"),
+          edge("concat", "out"),
+        ]
+      )
+    );
+    expect(code).toContain("dense = self.dense(input)");
+    expect(code).toContain("dense_1 = self.dense_1(input)");
+    expect(code).toContain("torch.cat([dense, dense_1]");
+    expect(code).toContain("nn.Linear(10, 10)");
+  });
+
+  it("takes each named input as a forward() argument", () => {
+    const code = generatePyTorchCode(twoInputs);
+    expect(code).toContain("def forward(self, image, metadata):");
+    expect(code).toContain("torch.cat([image, metadata]");
+    expect(code).toContain("nn.Linear(12, 10)");
+  });
+
+  it("returns the output heads by name with a loss for each", () => {
+    const code = generatePyTorchCode(twoHeads);
+    expect(code).toContain('"label": label,');
+    expect(code).toContain('"score": nn.MSELoss(),');
+    expect(code).toContain('loss_weights = {"label": 1, "score": 0.5}');
+  });
+
+  it("turns one-hot targets into class indices for NLLLoss", () => {
+    const single = generatePyTorchCode(twoInputs);
+    expect(single).toContain("criterion = nn.NLLLoss()");
+    expect(single).toContain("targets = targets.argmax(dim=1)");
+
+    const sparse = generatePyTorchCode(twoInputs, {
+      ...DEFAULT_TRAINING_CONFIG,
+      loss: "sparse_categorical_crossentropy",
+    });
+    expect(sparse).not.toContain("targets = targets.argmax");
+
+    const heads = generatePyTorchCode(twoHeads);
+    expect(heads).toContain(
+      'criteria["label"](outputs["label"], targets["label"].argmax(dim=1))'
+    );
+    expect(heads).toContain(
+      'criteria["score"](outputs["score"], targets["score"])'
+    );
+  });
+
+  it("defines composite blocks as modules sized from their input", () => {
+    const code = generatePyTorchCode(withBlock, undefined, [block]);
+    expect(code).toContain("class DenseBlock(nn.Module):");
+    expect(code).toContain("self.dense = nn.Linear(4, 8)");
+    expect(code).toContain("self.composite = DenseBlock()");
+    expect(code).toContain("nn.Linear(8, 10)");
+  });
+
+  it("passes and returns one tensor per block input and output", () => {
+    const code = generatePyTorchCode(withPairBlock, undefined, [pairBlock]);
+    expect(code).toContain("    def forward(self, x1, x2):");
+    expect(code).toContain(
+      "composite_out1, composite_out2 = self.composite(input, other)"
+    );
+  });
+
+  it("gives later repetitions of a block a class sized for their input", () => {
+    const code = generatePyTorchCode(withRepeatedBlock, undefined, [block]);
+    expect(code).toContain("class DenseBlock_2(nn.Module):");
+    expect(code).toContain("self.dense = nn.Linear(8, 8)");
+    expect(code).toContain(
+      "nn.ModuleList([DenseBlock()] + [DenseBlock_2() for _ in range(2)])"
+    );
+  });
+
+  describe("attention", () => {
+    // Query of width 32 attending over values of width 48
+    const attention = (numHeads: number) =>
+      generatePyTorchCode(
+        parseGraphToDAG(
+          [
+            layerNode("q", "Input", {
+              inputType: "sequence",
+              seqLength: 10,
+              features: 32,
+              name: "query",
+            }),
+            layerNode("v", "Input", {
+              inputType: "sequence",
+              seqLength: 6,
+              features: 48,
+              name: "value",
+            }),
+            layerNode("mha", "MultiHeadAttention", {
+              num_heads: numHeads,
+              key_dim: 8,
+            }),
+            layerNode("flatten", "Flatten"),
+            layerNode("out", "Output"),
+          ],
+          [
+            edge("q", "mha"),
+            edge("v", "mha"),
+            ...chain("mha", "flatten", "out"),
+          ]
+        )
+      );
+
+    it("passes kdim and vdim for inputs of different widths", () => {
+      const code = attention(4);
+      expect(code).toContain(
+        "nn.MultiheadAttention(embed_dim=32, num_heads=4, kdim=48, vdim=48, batch_first=True)"
+      );
+      expect(code).toContain("self.multiheadattention(query, value, value)");
+    });
+
+    it("flags an embed_dim that the heads do not divide", () => {
+      expect(attention(5)).toContain(
+        "# Error: embed_dim 32 is not divisible by num_heads=5"
+      );
+    });
+
+    it("sizes later layers from the query when its edge was drawn last", () => {
+      const code = generatePyTorchCode(
+        parseGraphToDAG(
+          [
+            layerNode("q", "Input", {
+              inputType: "sequence",
+              seqLength: 10,
+              features: 16,
+              name: "query",
+            }),
+            layerNode("v", "Input", {
+              inputType: "sequence",
+              seqLength: 20,
+              features: 32,
+              name: "value",
+            }),
+            layerNode("mha", "MultiHeadAttention", { num_heads: 2 }),
+            layerNode("out", "Output", { outputType: "regression" }),
+          ],
+          [edge("v", "mha"), edge("q", "mha"), edge("mha", "out")]
+        )
+      );
+      expect(code).toContain("self.multiheadattention(query, value, value)");
+      expect(code).toContain("self.output = nn.Linear(16, 1)");
+    });
+
+    it("takes each input from its named handle", async () => {
+      const dag = parseGraphToDAG(
+        [
+          layerNode("v", "Input", {
+            inputType: "sequence",
+            seqLength: 20,
+            features: 32,
+            name: "value",
+          }),
+          layerNode("q", "Input", {
+            inputType: "sequence",
+            seqLength: 10,
+            features: 16,
+            name: "query",
+          }),
+          layerNode("mha", "MultiHeadAttention", { num_heads: 2 }),
+          layerNode("out", "Output", { outputType: "regression" }),
+        ],
+        [
+          edge("v", "mha", "value"),
+          edge("q", "mha", "query"),
+          edge("mha", "out"),
+        ]
+      );
+
+      expect(generatePyTorchCode(dag)).toContain(
+        "self.multiheadattention(query, value, value)"
+      );
+      expect(await generateFunctionalKerasCode(dag)).toContain(
+        ")(query, value)"
+      );
+      expect(generateFlaxCode(dag)).toContain("(query, value, value)");
+    });
+
+    // Transformer encoder over sequences of width 64
+    const encoder = (params: Record<string, unknown>) =>
+      generatePyTorchCode(
+        parseGraphToDAG(
+          [
+            layerNode("in", "Input", {
+              inputType: "sequence",
+              seqLength: 10,
+              features: 64,
+            }),
+            layerNode("encoder", "TransformerEncoderBlock", params),
+            layerNode("flatten", "Flatten"),
+            layerNode("out", "Output"),
+          ],
+          chain("in", "encoder", "flatten", "out")
+        )
+      );
+
+    it("flags a d_model that the encoder heads do not divide", () => {
+      expect(encoder({ num_heads: 5 })).toContain(
+        "# Error: d_model 64 is not divisible by num_heads=5"
+      );
+    });
+
+    it("warns that encoder heads ignore key_dim", () => {
+      const warning =
+        "# Warning: heads have size 16 (d_model / num_heads), not key_dim=32";
+      expect(encoder({ num_heads: 4, key_dim: 32 })).toContain(warning);
+      expect(encoder({ num_heads: 4, key_dim: 16 })).not.toContain(warning);
+      expect(encoder({ num_heads: 4, key_dim: 32, multiplier: 2 })).toContain(
+        `        ${warning}\n        self.transformerencoderblock`
+      );
+    });
+  });
+
+  it("reports a block fed by several layers", () => {
+    const code = generatePyTorchCode(blockWithTwoInputs, undefined, [block]);
+    expect(code).toContain(
+      "# Error: composite: A composite block with 1 input has 2 layers"
+    );
+  });
+
+  it("emits placeholders that raise", () => {
+    const code = generatePyTorchCode(withPlaceholder);
+    expect(code).toContain("class Placeholder(nn.Module):");
+    expect(code).toContain("raise NotImplementedError");
+    expect(code).toContain('self.placeholder = Placeholder("Lambda")');
+  });
+});
+
+// in -> dense -> out
+const mlp = parseGraphToDAG(
+  [
+    layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+    layerNode("dense", "Dense", { units: 16 }),
+    layerNode("out", "Output"),
+  ],
+  chain("in", "dense", "out")
+);
+
+describe("generateFlaxCode", () => {
+  it("applies modules in __call__", () => {
+    const code = generateFlaxCode(mlp);
+    expect(code).toContain("dense = nn.Dense(features=16)(input)");
+  });
+
+  it("defines composite blocks as modules", () => {
+    const code = generateFlaxCode(withBlock, undefined, [block]);
+    expect(code).toContain("class DenseBlock(nn.Module):");
+    expect(code).toContain("composite = DenseBlock()(input, train)");
+  });
+
+  it("passes and returns one array per block input and output", () => {
+    const code = generateFlaxCode(withPairBlock, undefined, [pairBlock]);
+    expect(code).toContain("def __call__(self, x1, x2, train: bool = False):");
+    expect(code).toContain(
+      "composite_out1, composite_out2 = PairBlock()(input, other, train)"
+    );
+  });
+
+  it("reports a block fed by several layers", () => {
+    const code = generateFlaxCode(blockWithTwoInputs, undefined, [block]);
+    expect(code).toContain(
+      "# Error: composite: A composite block with 1 input has 2 layers"
+    );
+  });
+
+  it("emits placeholders that raise", () => {
+    const code = generateFlaxCode(withPlaceholder);
+    expect(code).toContain("class Placeholder(nn.Module):");
+    expect(code).toContain("raise NotImplementedError");
+    expect(code).toContain('placeholder = Placeholder("Lambda")(input)');
+  });
+});
+
+describe("generateTfjsCode", () => {
+  it("builds a sequential model", () => {
+    const code = generateTfjsCode(mlp);
+    expect(code).toContain("tf.layers.dense({ units: 16");
+  });
+
+  it("wires named inputs in the functional form", () => {
+    const code = generateTfjsCode(twoInputs, undefined, [], {
+      functional: true,
+    });
+    expect(code).toContain("tf.layers.concatenate");
+    expect(code).toContain("inputs: [image, metadata]");
+  });
+
+  it("returns the outputs of a block as an array", () => {
+    const code = generateTfjsCode(withPairBlock, undefined, [pairBlock], {
+      functional: true,
+      typescript: true,
+    });
+    expect(code).toContain(
+      "function pair_block(x1: tf.SymbolicTensor, x2: tf.SymbolicTensor): tf.SymbolicTensor[] {"
+    );
+    expect(code).toContain(
+      "const [composite_out1, composite_out2] = pair_block(input, other);"
+    );
+  });
+
+  it("reports a block fed by several layers", () => {
+    const code = generateTfjsCode(blockWithTwoInputs, undefined, [block], {
+      functional: true,
+    });
+    expect(code).toContain(
+      "// Error: composite: A composite block with 1 input has 2 layers"
+    );
+  });
+
+  it("warns about placeholders it cannot express", () => {
+    const code = generateTfjsCode(withPlaceholder);
+    expect(code).toContain("have no TF.js equivalent");
+  });
+});
@@ -1,113 +1,48 @@
 /**
- * Code generation utilities for both Keras and PyTorch frameworks
+ * Code generation utilities for the Keras, PyTorch, JAX/Flax and TF.js
+ * frameworks
  */
 
-import type { DAGResult, LayerObject } from "./dag-parser";
+import {
+  getOutputKey,
+  parseGraphToDAG,
+  type DAGResult,
+  type LayerInput,
+  type LayerObject,
+} from "./dag-parser";
 import {
   generateLayerCode,
   getUsedKerasImports,
   getMergeLayerImports,
+  getHelperDefinitions,
   getLayerDefinition,
   layerDefinitions,
+  formatFlaxPair,
 } from "./layer-definitions";
-
-/**
- * Calculate output shape for Conv2D layer
- */
-function calculateConv2DShape(
-  inputShape: number[],
-  filters: number,
-  kernelSize: string,
-  strides: string,
-  padding: string
-): number[] {
-  if (inputShape.length !== 3) return inputShape; // Invalid input shape
-  
-  const [, height, width] = inputShape; // First element is channels (not needed for calculation)
-  
-  // Parse kernel size
-  const kernelMatch = kernelSize.match(/\((\d+),(\d+)\)/);
-  const kernelH = kernelMatch ? Number(kernelMatch[1]) : 3;
-  const kernelW = kernelMatch ? Number(kernelMatch[2]) : 3;
-  
-  // Parse strides
-  const strideMatch = strides.match(/\((\d+),(\d+)\)/);
-  const strideH = strideMatch ? Number(strideMatch[1]) : 1;
-  const strideW = strideMatch ? Number(strideMatch[2]) : 1;
-  
-  let outHeight: number;
-  let outWidth: number;
-  
-  if (padding === "same") {
-    outHeight = Math.ceil(height / strideH);
-    outWidth = Math.ceil(width / strideW);
-  } else { // valid padding
-    outHeight = Math.floor((height - kernelH) / strideH) + 1;
-    outWidth = Math.floor((width - kernelW) / strideW) + 1;
-  }
-  
-  return [filters, outHeight, outWidth];
-}
-
-/**
- * Calculate output shape for pooling layers
- */
-function calculatePoolingShape(
-  inputShape: number[],
-  poolSize: string,
-  strides: string,
-  padding: string
-): number[] {
-  if (inputShape.length !== 3) return inputShape; // Invalid input shape
-  
-  const [channels, height, width] = inputShape;
-  
-  // Parse pool size
-  const poolMatch = poolSize.match(/\((\d+),(\d+)\)/);
-  const poolH = poolMatch ? Number(poolMatch[1]) : 2;
-  const poolW = poolMatch ? Number(poolMatch[2]) : 2;
-  
-  // Parse strides (defaults to pool size if empty)
-  let strideH = poolH;
-  let strideW = poolW;
-  
-  if (strides && strides.trim() !== "") {
-    const strideMatch = strides.match(/\((\d+),(\d+)\)/);
-    if (strideMatch) {
-      strideH = Number(strideMatch[1]);
-      strideW = Number(strideMatch[2]);
-    }
-  }
-  
-  let outHeight: number;
-  let outWidth: number;
-  
-  if (padding === "same") {
-    outHeight = Math.ceil(height / strideH);
-    outWidth = Math.ceil(width / strideW);
-  } else { // valid padding
-    outHeight = Math.floor((height - poolH) / strideH) + 1;
-    outWidth = Math.floor((width - poolW) / strideW) + 1;
-  }
-  
-  return [channels, outHeight, outWidth];
-}
-
-/**
- * Common compilation and summary code for both Sequential and Functional API
- */
-const COMPILATION_TEMPLATE = [
-  "",
-  "# Compile the model",
-  "model.compile(",
-  "    optimizer='adam',",
-  "    loss='categorical_crossentropy',",
-  "    metrics=['accuracy']",
-  ")",
-  "",
-  "# Display model summary",
-  "model.summary()",
-] as const;
+import {
+  DEFAULT_TRAINING_CONFIG,
+  generateKerasTrainingCode,
+  generatePyTorchTrainingCode,
+  generateFlaxTrainingCode,
+  generateTfjsTrainingCode,
+  type TrainingConfig,
+} from "./training-config";
+import { formatShapeTuple, parseTupleOrNumber } from "./utils";
+import {
+  COMPOSITE_LAYER_TYPE,
+  computeCompositeShapes,
+  getBlockClassName,
+  getBlockFunctionName,
+  getBlockOutputHandles,
+  getBlockPortId,
+  getBlockPortInputs,
+  getBlockRepeats,
+  getExpandedId,
+  getUsedBlocks,
+  validateBlockInputCount,
+  validateRepeatedBlock,
+  type CompositeBlock,
+} from "./composite-blocks";
 
 /**
  * Helper function to format layer code for Sequential API
@@ -141,7 +76,10 @@ function formatSequentialLayer(
 /**
  * Generates Keras Sequential model code from ordered layers
  */
-export function generateKerasCode(layers: LayerObject[]): string {
+export function generateKerasCode(
+  layers: LayerObject[],
+  trainingConfig: TrainingConfig = DEFAULT_TRAINING_CONFIG
+): string {
   if (layers.length === 0) {
     return "# No layers to generate code for";
   }
@@ -160,6 +98,10 @@ export function generateKerasCode(layers: LayerObject[]): string {
     `from tensorflow.keras.layers import ${allImports.join(", ")}`,
   ];
 
+  // Custom layer classes, e.g. for TransformerEncoderBlock
+  const helpers = getHelperDefinitions(usedLayerTypes);
+  helpers.forEach((helper) => imports.push("", "", helper));
+
   // Generate model creation
   const modelLines: string[] = [
     "",
@@ -179,7 +121,11 @@ export function generateKerasCode(layers: LayerObject[]): string {
 
   modelLines.push("])");
 
-  return [...imports, ...modelLines, ...COMPILATION_TEMPLATE].join("\n");
+  return [
+    ...imports,
+    ...modelLines,
+    ...generateKerasTrainingCode(trainingConfig, layers),
+  ].join("\n");
 }
 
 /**
@@ -215,6 +161,11 @@ function processLayer(
   if (inputNodes.length === 0) {
     codeLines.push(`# Warning: ${varName} has no inputs`);
     codeLines.push(`${varName} = ${layerCode}`);
+  } else if (layer.type === "MultiHeadAttention") {
+    // Attention is called as (query, value[, key]); one input means self-attention
+    const attentionInputs =
+      inputNodes.length === 1 ? [inputNodes[0], inputNodes[0]] : inputNodes;
+    codeLines.push(`${varName} = ${layerCode}(${attentionInputs.join(", ")})`);
   } else if (inputNodes.length === 1) {
     codeLines.push(`${varName} = ${layerCode}(${inputNodes[0]})`);
   } else {
@@ -290,21 +241,19 @@ function processMultiplierLayer(
 }
 
 /**
- * Finds input nodes for a given layer
+ * Finds input nodes for a given layer, in the order the layer takes them
  */
 function findInputNodes(
   layerId: string,
-  edgeMap: Map<string, string[]>,
+  inputMap: Map<string, LayerInput[]>,
   layerVariables: Map<string, string>
 ): string[] {
   const inputNodes: string[] = [];
 
-  for (const [sourceId, targets] of edgeMap.entries()) {
-    if (targets.includes(layerId)) {
-      const inputVar = layerVariables.get(sourceId);
-      if (inputVar) {
-        inputNodes.push(inputVar);
-      }
+  for (const { sourceId, sourceHandle } of inputMap.get(layerId) ?? []) {
+    const inputVar = layerVariables.get(getOutputKey(sourceId, sourceHandle));
+    if (inputVar) {
+      inputNodes.push(inputVar);
     }
   }
 
@@ -321,6 +270,8 @@ function findTerminalNodes(
 ) {
   const inputVars: string[] = [];
   const outputVars: string[] = [];
+  // Output layers in the same order as outputVars, used to key multi-head results
+  const outputLayers: LayerObject[] = [];
 
   for (const layer of orderedNodes) {
     const variable = layerVariables.get(layer.id);
@@ -333,10 +284,156 @@ function findTerminalNodes(
     // Check if this is an output node (no outgoing edges)
     if (!edgeMap.has(layer.id) || edgeMap.get(layer.id)!.length === 0) {
       outputVars.push(variable);
+      outputLayers.push(layer);
     }
   }
 
-  return { inputVars, outputVars };
+  return { inputVars, outputVars, outputLayers };
+}
+
+/**
+ * Parses a block's layers behind a node per block input, so each layer finds
+ * the block inputs among its own inputs, in the order it takes them. The
+ * variables start out holding the block's arguments: `x` for a single input,
+ * else x1, x2, ...
+ */
+function parseBlockGraph(block: CompositeBlock): {
+  layers: LayerObject[];
+  inputMap: Map<string, LayerInput[]>;
+  variables: Map<string, string>;
+  args: string[];
+} {
+  const portIds = block.inputs.map((_, index) =>
+    getBlockPortId("input", index)
+  );
+  const { orderedNodes, inputMap } = parseGraphToDAG(
+    [
+      ...portIds.map((id) => ({
+        id,
+        position: { x: 0, y: 0 },
+        data: { type: "Input", params: {} },
+      })),
+      ...block.nodes,
+    ],
+    [
+      ...block.inputs.flatMap((targets, index) =>
+        targets.map(({ nodeId, targetHandle }) => ({
+          id: `${portIds[index]}-${nodeId}`,
+          source: portIds[index],
+          target: nodeId,
+          targetHandle,
+        }))
+      ),
+      ...block.edges,
+    ]
+  );
+
+  const args =
+    portIds.length === 1 ? ["x"] : portIds.map((_, index) => `x${index + 1}`);
+  return {
+    layers: orderedNodes.filter((layer) => !portIds.includes(layer.id)),
+    inputMap,
+    variables: new Map(portIds.map((id, index) => [id, args[index]])),
+    args,
+  };
+}
+
+/**
+ * Variables a block returns, one per output
+ */
+function getBlockResults(
+  block: CompositeBlock,
+  variables: Map<string, string>,
+  args: string[]
+): string[] {
+  return block.outputNodeIds.map((id) => variables.get(id) ?? args[0]);
+}
+
+/**
+ * Arguments and result variables of a call to a block instance. Connections
+ * are matched to the block's inputs by handle; the results of a block with
+ * several outputs are numbered after the instance, e.g. block_1_out2.
+ */
+function getBlockCall(
+  layer: LayerObject,
+  block: CompositeBlock,
+  inputMap: Map<string, LayerInput[]>,
+  variables: Map<string, string>
+): { args: string[]; outputs: string[] } | { error: string } {
+  const inputs = inputMap.get(layer.id) ?? [];
+  const error =
+    validateBlockInputCount(inputs.length, block) ??
+    validateRepeatedBlock(block, getBlockRepeats(layer.params));
+  if (error) return { error };
+
+  const args = getBlockPortInputs(inputs, block).map(
+    (input) =>
+      input && variables.get(getOutputKey(input.sourceId, input.sourceHandle))
+  );
+  if (args.some((arg) => !arg)) {
+    return {
+      error: `Connect every input of composite block "${block.name}"`,
+    };
+  }
+
+  const { varName } = layer;
+  return {
+    args: args as string[],
+    outputs:
+      block.outputNodeIds.length === 1
+        ? [varName]
+        : block.outputNodeIds.map((_, index) => `${varName}_out${index + 1}`),
+  };
+}
+
+/**
+ * Records the variables of a block instance's outputs; the instance itself
+ * stands for its first output
+ */
+function setBlockOutputs(
+  variables: Map<string, string>,
+  layer: LayerObject,
+  block: CompositeBlock,
+  outputs: string[]
+): void {
+  variables.set(layer.id, outputs[0]);
+  getBlockOutputHandles(block).forEach((handle, index) => {
+    variables.set(getOutputKey(layer.id, handle), outputs[index]);
+  });
+}
+
+/**
+ * Layers inside the given composite blocks, for collecting imports
+ */
+function getBlockLayers(blocks: CompositeBlock[]): LayerObject[] {
+  return blocks.flatMap(
+    (block) => parseGraphToDAG(block.nodes, block.edges).orderedNodes
+  );
+}
+
+/**
+ * Defines each composite block as a Keras function that applies its layers
+ * to its inputs, so every call creates fresh layers with their own weights
+ */
+function generateKerasBlockFunctions(blocks: CompositeBlock[]): string[] {
+  return blocks.flatMap((block) => {
+    const { layers, inputMap, variables, args } = parseBlockGraph(block);
+    const bodyLines: string[] = [];
+
+    layers.forEach((layer) => {
+      const inputNodes = findInputNodes(layer.id, inputMap, variables);
+      processLayer(layer, inputNodes, bodyLines, variables);
+    });
+
+    return [
+      "",
+      `def ${getBlockFunctionName(block)}(${args.join(", ")}):`,
+      `    """Composite block: ${block.name}"""`,
+      ...bodyLines.map((line) => `    ${line}`),
+      `    return ${getBlockResults(block, variables, args).join(", ")}`,
+      "",
+    ];
+  });
 }
 
 /**
@@ -355,27 +452,31 @@ async function computeInputShape(
     return "(784,)";
   }
 
-  return `(${shape.join(", ")})`;
+  return formatShapeTuple(shape);
 }
 
 /**
  * Generates Keras Functional API code for complex DAG structures
  */
 export async function generateFunctionalKerasCode(
-  dagResult: DAGResult
+  dagResult: DAGResult,
+  trainingConfig: TrainingConfig = DEFAULT_TRAINING_CONFIG,
+  compositeBlocks: CompositeBlock[] = []
 ): Promise<string> {
   if (!dagResult.isValid || dagResult.orderedNodes.length === 0) {
     return "# Invalid DAG structure - cannot generate code";
   }
 
-  const { orderedNodes, edgeMap } = dagResult;
+  const { orderedNodes, edgeMap, inputMap } = dagResult;
+  const usedBlocks = getUsedBlocks(orderedNodes, compositeBlocks);
+  const allLayers = [...orderedNodes, ...getBlockLayers(usedBlocks)];
 
   // Generate imports
-  const usedLayerTypes = orderedNodes
+  const usedLayerTypes = allLayers
     .map((layer) => layer.type)
-    .filter((type) => type !== "Input");
+    .filter((type) => type !== "Input" && type !== COMPOSITE_LAYER_TYPE);
   const kerasImports = getUsedKerasImports(usedLayerTypes);
-  const mergeImports = getMergeLayerImports(orderedNodes);
+  const mergeImports = getMergeLayerImports(allLayers);
 
   // Combine and deduplicate imports
   const allImports = [...new Set([...kerasImports, ...mergeImports])];
@@ -390,17 +491,61 @@ export async function generateFunctionalKerasCode(
   const codeLines: string[] = [...imports, ""];
   const layerVariables = new Map<string, string>();
 
+  // Custom layer classes, e.g. for TransformerEncoderBlock
+  const helpers = getHelperDefinitions(usedLayerTypes);
+  helpers.forEach((helper) => codeLines.push("", helper, ""));
+
+  // Functions for the project's own composite blocks
+  codeLines.push(...generateKerasBlockFunctions(usedBlocks));
+  const blockById = new Map(usedBlocks.map((block) => [block.id, block]));
+
+  // Heads of a multi-output model are named so losses can be keyed by name
+  const isMultiOutput =
+    orderedNodes.filter((layer) => layer.type === "Output").length > 1;
+
   // Process each layer
   for (const layer of orderedNodes) {
     const { id, type, params, varName } = layer;
 
     if (type === "Input") {
       const shape = await computeInputShape(params);
-      codeLines.push(`${varName} = Input(shape=${shape})`);
+      // Named inputs keep their name in Keras so they can be fed by name
+      const nameArg = String(params.name ?? "").trim()
+        ? `, name="${varName}"`
+        : "";
+      codeLines.push(`${varName} = Input(shape=${shape}${nameArg})`);
       layerVariables.set(id, varName);
+    } else if (type === COMPOSITE_LAYER_TYPE) {
+      const block = blockById.get(String(params.blockId));
+      if (!block) {
+        codeLines.push(`# Error: Could not generate code for ${varName}`);
+        continue;
+      }
+      const call = getBlockCall(layer, block, inputMap, layerVariables);
+      if ("error" in call) {
+        codeLines.push(`# Error: ${varName}: ${call.error}`);
+        continue;
+      }
+      const functionName = getBlockFunctionName(block);
+      const repeats = getBlockRepeats(params);
+      const outputs = call.outputs.join(", ");
+      if (repeats > 1) {
+        // Each call creates fresh layers, so repetitions do not share weights
+        codeLines.push(`# Repeated ${repeats} times`);
+        codeLines.push(`${outputs} = ${call.args.join(", ")}`);
+        codeLines.push(`for _ in range(${repeats}):`);
+        codeLines.push(`    ${outputs} = ${functionName}(${outputs})`);
+      } else {
+        codeLines.push(`${outputs} = ${functionName}(${call.args.join(", ")})`);
+      }
+      setBlockOutputs(layerVariables, layer, block, call.outputs);
     } else {
-      const inputNodes = findInputNodes(id, edgeMap, layerVariables);
-      processLayer(layer, inputNodes, codeLines, layerVariables);
+      const inputNodes = findInputNodes(id, inputMap, layerVariables);
+      const namedLayer =
+        isMultiOutput && type === "Output"
+          ? { ...layer, params: { ...params, name: varName } }
+          : layer;
+      processLayer(namedLayer, inputNodes, codeLines, layerVariables);
     }
   }
 
@@ -421,7 +566,10 @@ export async function generateFunctionalKerasCode(
 
   codeLines.push(`model = Model(inputs=${inputs}, outputs=${outputs})`);
 
-  return [...codeLines, ...COMPILATION_TEMPLATE].join("\n");
+  return [
+    ...codeLines,
+    ...generateKerasTrainingCode(trainingConfig, orderedNodes),
+  ].join("\n");
 }
 
 // ============================================================================
@@ -429,46 +577,569 @@ export async function generateFunctionalKerasCode(
 // ============================================================================
 
 /**
- * Generate PyTorch model code from ordered layers
+ * Layers that have no nn.Module and are expressed directly in forward()
  */
-export function generatePyTorchCode(layers: LayerObject[]): string {
-  if (layers.length === 0) {
+const FORWARD_ONLY_LAYERS = new Set([
+  "Input",
+  "Flatten",
+  "Activation",
+  "Merge",
+  "Reshape",
+  "Permute",
+  "GaussianNoise",
+  "Cropping2D",
+]);
+
+/**
+ * Layers that take (batch, channels, length) in PyTorch but whose tensors are
+ * kept batch-first as (batch, seq_len, features) between layers
+ */
+const CHANNELS_FIRST_SEQUENCE_LAYERS = new Set([
+  "Conv1D",
+  "BatchNormalization",
+]);
+
+/**
+ * Wraps a tensor expression in the PyTorch equivalent of a Keras activation
+ */
+function applyPyTorchActivation(expr: string, activation: string): string {
+  switch (activation) {
+    case "relu":
+      return `F.relu(${expr})`;
+    case "sigmoid":
+      return `torch.sigmoid(${expr})`;
+    case "tanh":
+      return `torch.tanh(${expr})`;
+    case "softmax":
+      return `F.softmax(${expr}, dim=-1)`;
+    case "log_softmax":
+      return `F.log_softmax(${expr}, dim=-1)`;
+    case "leaky_relu":
+      return `F.leaky_relu(${expr})`;
+    case "elu":
+      return `F.elu(${expr})`;
+    case "gelu":
+      return `F.gelu(${expr})`;
+    case "linear":
+    case "none":
+    case "":
+      return expr;
+    default:
+      return `F.${activation}(${expr})`;
+  }
+}
+
+/**
+ * Activation applied after a layer's module in forward() / __call__
+ */
+function getModuleActivation(layer: LayerObject): string {
+  if (layer.type === "Output") {
+    const outputType = String(layer.params.outputType || "multiclass");
+    if (outputType === "multiclass") return "log_softmax";
+    if (outputType === "binary" || outputType === "multilabel") return "sigmoid";
+    return "linear";
+  }
+
+  // Recurrent layers apply their activations internally
+  if (["LSTM", "GRU", "Bidirectional"].includes(layer.type)) {
+    return "linear";
+  }
+
+  // Only the wrapped Dense and convolutions take an activation argument
+  if (
+    layer.type === "TimeDistributed" &&
+    !["Dense", "Conv1D", "Conv2D"].includes(String(layer.params.layer_type))
+  ) {
+    return "linear";
+  }
+
+  return String(layer.params.activation || "linear");
+}
+
+/**
+ * Converts a Keras (channels-last) axis to the matching PyTorch dimension
+ */
+function toPyTorchAxis(axis: number, rank: number): number {
+  // Image tensors are (batch, C, H, W) in PyTorch but (batch, H, W, C) in Keras
+  if (rank === 3) {
+    const keras = axis < 0 ? rank + 1 + axis : axis;
+    return keras === 3 ? 1 : keras + 1;
+  }
+  return axis;
+}
+
+/**
+ * Builds the forward() expression for a Merge node
+ */
+function generatePyTorchMerge(
+  layer: LayerObject,
+  inputVars: string[],
+  inputRank: number
+): string {
+  const mode = String(layer.params.mode) || "concat";
+  const stacked = `torch.stack([${inputVars.join(", ")}])`;
+
+  switch (mode) {
+    case "add":
+      return inputVars.join(" + ");
+    case "multiply":
+      return inputVars.join(" * ");
+    case "subtract":
+      return `${inputVars[0]} - ${inputVars[1]}`;
+    case "average":
+      return `${stacked}.mean(dim=0)`;
+    case "maximum":
+      return `${stacked}.amax(dim=0)`;
+    case "minimum":
+      return `${stacked}.amin(dim=0)`;
+    case "dot":
+      return `torch.sum(${inputVars[0]} * ${inputVars[1]}, dim=-1, keepdim=True)`;
+    case "concat":
+    default: {
+      const axis = Number(layer.params.axis) || -1;
+      return `torch.cat([${inputVars.join(", ")}], dim=${toPyTorchAxis(axis, inputRank)})`;
+    }
+  }
+}
+
+/**
+ * Builds forward() lines for layers without an nn.Module
+ */
+function generatePyTorchFunctional(
+  layer: LayerObject,
+  outVar: string,
+  inputVars: string[],
+  inputShapes: number[][] | undefined
+): string[] {
+  const [inputVar] = inputVars;
+  const inputRank = inputShapes?.[0]?.length ?? 0;
+
+  switch (layer.type) {
+    case "Flatten":
+      return [`${outVar} = torch.flatten(${inputVar}, 1)`];
+    case "Activation": {
+      const activation = String(layer.params.activation_function || "relu");
+      return [`${outVar} = ${applyPyTorchActivation(inputVar, activation)}`];
+    }
+    case "Merge":
+      return [`${outVar} = ${generatePyTorchMerge(layer, inputVars, inputRank)}`];
+    case "Reshape": {
+      const targetShape = String(layer.params.target_shape) || "(-1,)";
+      const dims = targetShape
+        .replace(/[()]/g, "")
+        .split(",")
+        .map((d) => d.trim())
+        .filter((d) => d.length > 0);
+      // Image targets are written channels-first for PyTorch
+      const torchDims =
+        dims.length === 3 ? [dims[2], dims[0], dims[1]] : dims;
+      return [
+        `${outVar} = ${inputVar}.reshape(${inputVar}.size(0), ${torchDims.join(", ")})`,
+      ];
+    }
+    case "Permute": {
+      const dims = String(layer.params.dims || "(2, 1)")
+        .replace(/[()]/g, "")
+        .split(",")
+        .map((d) => d.trim())
+        .filter((d) => d.length > 0);
+      return [`${outVar} = ${inputVar}.permute(0, ${dims.join(", ")})`];
+    }
+    case "GaussianNoise": {
+      const stddev = Number(layer.params.stddev) || 1.0;
+      return [
+        `${outVar} = ${inputVar} + torch.randn_like(${inputVar}) * ${stddev} if self.training else ${inputVar}`,
+      ];
+    }
+    case "Cropping2D": {
+      const inputShape = inputShapes?.[0];
+      const outputShape = inputShape
+        ? getLayerDefinition("Cropping2D")?.computeShape([inputShape], layer.params)
+        : null;
+      const cropping = String(layer.params.cropping) || "((1,1),(1,1))";
+      const values = (cropping.match(/\d+/g) || []).map(Number);
+      const [top, left] =
+        values.length === 4
+          ? [values[0], values[2]]
+          : values.length === 2
+            ? values
+            : [values[0] ?? 1, values[0] ?? 1];
+      if (!outputShape) {
+        return [`${outVar} = ${inputVar}  # Cropping2D: input shape could not be resolved`];
+      }
+      const [height, width] = outputShape;
+      return [
+        `${outVar} = ${inputVar}[:, :, ${top}:${top + height}, ${left}:${left + width}]`,
+      ];
+    }
+    default:
+      return [`${outVar} = ${inputVar}`];
+  }
+}
+
+/**
+ * Builds the expression that calls a layer's module on a tensor
+ */
+function callPyTorchModule(
+  layer: LayerObject,
+  moduleRef: string,
+  inputVar: string,
+  inputShapes: number[][] | undefined
+): string {
+  const isSequence = inputShapes?.[0]?.length === 2;
+  if (CHANNELS_FIRST_SEQUENCE_LAYERS.has(layer.type) && isSequence) {
+    return `${moduleRef}(${inputVar}.transpose(1, 2)).transpose(1, 2)`;
+  }
+  return `${moduleRef}(${inputVar})`;
+}
+
+/**
+ * Builds forward() lines applying a module (or one repetition of it)
+ */
+function generatePyTorchModuleCall(
+  layer: LayerObject,
+  moduleRef: string,
+  outVar: string,
+  inputVars: string[],
+  inputShapes: number[][] | undefined
+): string[] {
+  const [inputVar] = inputVars;
+  const activation = getModuleActivation(layer);
+
+  switch (layer.type) {
+    case "LSTM":
+    case "GRU":
+    case "Bidirectional": {
+      // Recurrent modules return (output, hidden_state)
+      const lines = [`${outVar}, _ = ${moduleRef}(${inputVar})`];
+      if (String(layer.params.return_sequences) !== "true") {
+        lines.push(`${outVar} = ${outVar}[:, -1, :]  # Take last timestep`);
+      }
+      return lines;
+    }
+    case "MultiHeadAttention": {
+      // Keras inputs are (query, value[, key]); PyTorch takes (query, key, value)
+      const [query, value = query, key = value] = inputVars;
+      return [`${outVar}, _ = ${moduleRef}(${query}, ${key}, ${value})`];
+    }
+    case "GlobalAveragePooling2D":
+      return [`${outVar} = torch.flatten(${moduleRef}(${inputVar}), 1)`];
+    default: {
+      const call = callPyTorchModule(layer, moduleRef, inputVar, inputShapes);
+      return [`${outVar} = ${applyPyTorchActivation(call, activation)}`];
+    }
+  }
+}
+
+/**
+ * Builds the expression creating the module(s) of a block instance, one
+ * class name per repetition. Runs of the same class become a list
+ * comprehension, e.g. [ConvBlock()] + [ConvBlock_2() for _ in range(3)].
+ */
+function createBlockModules(classNames: string[]): string {
+  if (classNames.length === 1) return `${classNames[0]}()`;
+
+  const runs: Array<{ className: string; count: number }> = [];
+  classNames.forEach((className) => {
+    const last = runs[runs.length - 1];
+    if (last?.className === className) {
+      last.count++;
+    } else {
+      runs.push({ className, count: 1 });
+    }
+  });
+
+  const lists = runs.map(({ className, count }) =>
+    count > 1
+      ? `[${className}() for _ in range(${count})]`
+      : `[${className}()]`
+  );
+  return `nn.ModuleList(${lists.join(" + ")})`;
+}
+
+/**
+ * Declares a module in __init__ for every layer that has one, returning how
+ * many times each module is repeated
+ */
+function declarePyTorchModules(
+  layers: LayerObject[],
+  inputShapes: Map<string, number[][]>,
+  classLines: string[],
+  blockClasses: Map<string, string[]> = new Map()
+): Map<string, number> {
+  const moduleRepeats = new Map<string, number>();
+
+  for (const layer of layers) {
+    if (FORWARD_ONLY_LAYERS.has(layer.type)) continue;
+
+    // Composite blocks are instances of their own module class
+    const blockClassNames = blockClasses.get(layer.id);
+    if (blockClassNames) {
+      classLines.push(
+        `        self.${layer.varName} = ${createBlockModules(blockClassNames)}`
+      );
+      moduleRepeats.set(layer.id, blockClassNames.length);
+      continue;
+    }
+
+    const layerInputShapes = inputShapes.get(layer.id);
+    const layerCode = generateLayerCode(layer.type, layer.params, "pytorch", layerInputShapes);
+    if (!layerCode || layerCode.startsWith("#")) {
+      classLines.push(`        ${layerCode || `# ${layer.type} not supported`}`);
+      continue;
+    }
+
+    const multiplier = Number(layer.params.multiplier) || 1;
+    const layerDefinition = layerDefinitions[layer.type];
+
+    if (multiplier > 1 && layerDefinition?.supportsMultiplier) {
+      // Each repetition is fed by the previous one, so shapes are recomputed
+      const repeatedModules: string[] = [];
+      const hints = new Set<string>();
+      let repeatInputShapes = layerInputShapes;
+      for (let i = 0; i < multiplier; i++) {
+        const repeatCode =
+          i === 0
+            ? layerCode
+            : generateLayerCode(layer.type, layer.params, "pytorch", repeatInputShapes);
+        // Trailing hints would swallow the list separator, so they go above it
+        const hint = repeatCode.match(/\s+(#[^\n]*)$/)?.[1];
+        if (hint) hints.add(hint);
+        repeatedModules.push(repeatCode.replace(/\s+#[^\n]*$/, ""));
+
+        const outputShape = repeatInputShapes
+          ? layerDefinition.computeShape(repeatInputShapes, layer.params)
+          : null;
+        repeatInputShapes = outputShape ? [outputShape] : undefined;
+      }
+
+      hints.forEach((hint) => classLines.push(`        ${hint}`));
+      classLines.push(`        self.${layer.varName} = nn.ModuleList([`);
+      repeatedModules.forEach((moduleCode) => {
+        classLines.push(`            ${moduleCode},`);
+      });
+      classLines.push("        ])");
+      moduleRepeats.set(layer.id, multiplier);
+    } else {
+      classLines.push(`        self.${layer.varName} = ${layerCode}`);
+      moduleRepeats.set(layer.id, 1);
+    }
+  }
+
+  return moduleRepeats;
+}
+
+/**
+ * Builds forward() lines for every layer except Inputs, recording the tensor
+ * variable of each layer in tensorVars
+ */
+function generatePyTorchForward(
+  layers: LayerObject[],
+  inputMap: Map<string, LayerInput[]>,
+  inputShapes: Map<string, number[][]>,
+  moduleRepeats: Map<string, number>,
+  tensorVars: Map<string, string>,
+  blocks: CompositeBlock[] = []
+): string[] {
+  const forwardLines: string[] = [];
+
+  for (const layer of layers) {
+    if (layer.type === "Input") continue;
+
+    const { id, varName } = layer;
+    const inputVars = findInputNodes(id, inputMap, tensorVars);
+    const layerInputShapes = inputShapes.get(id);
+
+    if (inputVars.length === 0) {
+      forwardLines.push(`        # Warning: ${varName} has no inputs`);
+      continue;
+    }
+
+    const repeats = moduleRepeats.get(id);
+    const block =
+      layer.type === COMPOSITE_LAYER_TYPE
+        ? blocks.find((b) => b.id === String(layer.params.blockId))
+        : undefined;
+
+    // Block modules take and return one tensor per block input and output
+    if (block && repeats !== undefined) {
+      const call = getBlockCall(layer, block, inputMap, tensorVars);
+      if ("error" in call) {
+        forwardLines.push(`        # Error: ${varName}: ${call.error}`);
+        continue;
+      }
+      const outputs = call.outputs.join(", ");
+      const blockLines =
+        repeats > 1
+          ? [
+              `${outputs} = ${call.args.join(", ")}`,
+              `for module in self.${varName}:`,
+              `    ${outputs} = module(${outputs})`,
+            ]
+          : [`${outputs} = self.${varName}(${call.args.join(", ")})`];
+      blockLines.forEach((line) => forwardLines.push(`        ${line}`));
+      setBlockOutputs(tensorVars, layer, block, call.outputs);
+      continue;
+    }
+
+    let lines: string[];
+
+    if (FORWARD_ONLY_LAYERS.has(layer.type)) {
+      lines = generatePyTorchFunctional(layer, varName, inputVars, layerInputShapes);
+    } else if (repeats === undefined) {
+      // Module could not be created; pass the tensor through unchanged
+      lines = [`${varName} = ${inputVars[0]}  # ${layer.type} skipped, see __init__`];
+    } else if (repeats > 1) {
+      const body = generatePyTorchModuleCall(layer, "module", varName, [varName], layerInputShapes);
+      lines = [
+        `${varName} = ${inputVars[0]}`,
+        `for module in self.${varName}:`,
+        ...body.map((line) => `    ${line}`),
+      ];
+    } else {
+      lines = generatePyTorchModuleCall(
+        layer,
+        `self.${varName}`,
+        varName,
+        inputVars,
+        layerInputShapes
+      );
+    }
+
+    lines.forEach((line) => forwardLines.push(`        ${line}`));
+    tensorVars.set(id, varName);
+  }
+
+  return forwardLines;
+}
+
+/**
+ * Defines an nn.Module subclass per composite block. Modules are sized from
+ * their input shapes, so a block used with different input shapes (by other
+ * instances or by later repetitions) gets one class per shape.
+ */
+function generatePyTorchBlockClasses(
+  layers: LayerObject[],
+  blocks: CompositeBlock[],
+  inputShapes: Map<string, number[][]>
+): { classLines: string[]; blockClasses: Map<string, string[]> } {
+  const variants = new Map<
+    CompositeBlock,
+    Array<{
+      signature: string;
+      shapes: Map<string, number[][]>;
+      uses: Array<{ id: string; repetition: number }>;
+    }>
+  >();
+
+  layers.forEach((layer) => {
+    if (layer.type !== COMPOSITE_LAYER_TYPE) return;
+    const block = blocks.find((b) => b.id === String(layer.params.blockId));
+    if (!block) return;
+
+    const repeats = getBlockRepeats(layer.params);
+    for (let repetition = 1; repetition <= repeats; repetition++) {
+      // Inner layer input shapes of this repetition, keyed by inner layer id
+      const shapes = new Map<string, number[][]>();
+      block.nodes.forEach((node) => {
+        const nodeShapes = inputShapes.get(
+          getExpandedId(layer.id, node.id, repetition)
+        );
+        if (nodeShapes) shapes.set(node.id, nodeShapes);
+      });
+      const signature = JSON.stringify([...shapes]);
+
+      const blockVariants = variants.get(block) ?? [];
+      const variant = blockVariants.find((v) => v.signature === signature);
+      if (variant) {
+        variant.uses.push({ id: layer.id, repetition });
+      } else {
+        blockVariants.push({
+          signature,
+          shapes,
+          uses: [{ id: layer.id, repetition }],
+        });
+      }
+      variants.set(block, blockVariants);
+    }
+  });
+
+  const classLines: string[] = [];
+  const blockClasses = new Map<string, string[]>();
+
+  variants.forEach((blockVariants, block) => {
+    blockVariants.forEach(({ shapes, uses }, index) => {
+      const baseName = getBlockClassName(block);
+      const className = index === 0 ? baseName : `${baseName}_${index + 1}`;
+      uses.forEach(({ id, repetition }) => {
+        const classNames = blockClasses.get(id) ?? [];
+        classNames[repetition - 1] = className;
+        blockClasses.set(id, classNames);
+      });
+
+      const {
+        layers: blockLayers,
+        inputMap,
+        variables,
+        args,
+      } = parseBlockGraph(block);
+      const initLines: string[] = [];
+      const moduleRepeats = declarePyTorchModules(
+        blockLayers,
+        shapes,
+        initLines
+      );
+      const forwardLines = generatePyTorchForward(
+        blockLayers,
+        inputMap,
+        shapes,
+        moduleRepeats,
+        variables
+      );
+
+      classLines.push(
+        "",
+        `class ${className}(nn.Module):`,
+        `    """Composite block: ${block.name}"""`,
+        "",
+        "    def __init__(self):",
+        `        super(${className}, self).__init__()`,
+        ...initLines,
+        "",
+        `    def forward(self, ${args.join(", ")}):`,
+        ...forwardLines,
+        `        return ${getBlockResults(block, variables, args).join(", ")}`,
+        ""
+      );
+    });
+  });
+
+  return { classLines, blockClasses };
+}
+
+/**
+ * Generate PyTorch model code from a DAG
+ *
+ * Every node gets a named tensor in forward(), so branches, skip connections
+ * and multiple inputs are wired exactly as drawn on the canvas.
+ */
+export function generatePyTorchCode(
+  dagResult: DAGResult,
+  trainingConfig: TrainingConfig = DEFAULT_TRAINING_CONFIG,
+  compositeBlocks: CompositeBlock[] = []
+): string {
+  if (!dagResult.isValid || dagResult.orderedNodes.length === 0) {
     return "# No layers to generate code for";
   }
 
-  // Filter out Input layers for PyTorch (they're implicit)
-  const modelLayers = layers.filter(layer => layer.type !== "Input");
-  
-  // Get input shape from Input layer if it exists
-  const inputLayer = layers.find(layer => layer.type === "Input");
-  let currentShape: number[] = [1]; // Default to [1] if no input layer
-  
-  if (inputLayer) {
-    const inputType = String(inputLayer.params.inputType);
-    switch (inputType) {
-      case "image_grayscale":
-        currentShape = [1, Number(inputLayer.params.height) || 28, Number(inputLayer.params.width) || 28];
-        break;
-      case "image_color":
-        currentShape = [3, Number(inputLayer.params.height) || 28, Number(inputLayer.params.width) || 28];
-        break;
-      case "image_custom":
-        currentShape = [Number(inputLayer.params.channels) || 1, Number(inputLayer.params.height) || 28, Number(inputLayer.params.width) || 28];
-        break;
-      case "flat_data":
-        currentShape = [Number(inputLayer.params.flatSize) || 784];
-        break;
-      case "sequence":
-        currentShape = [Number(inputLayer.params.seqLength) || 100, Number(inputLayer.params.features) || 128];
-        break;
-      case "sequence_indices":
-        currentShape = [Number(inputLayer.params.seqIndicesLength) || 100];
-        break;
-      default:
-        currentShape = [1];
-    }
-  }
-  
+  const { orderedNodes, edgeMap, inputMap } = dagResult;
+
+  // Resolved input shapes give modules concrete in_features / in_channels
+  const { nodeShapes, inputShapes } = computeCompositeShapes(
+    dagResult,
+    compositeBlocks
+  );
+
   // Generate imports
   const imports = [
     "import torch",
@@ -476,395 +1147,851 @@ export function generatePyTorchCode(layers: LayerObject[]): string {
     "import torch.nn.functional as F",
   ];
 
+  // Custom modules (e.g. Placeholder), including those used inside blocks
+  const usedBlocks = getUsedBlocks(orderedNodes, compositeBlocks);
+  const usedLayerTypes = [
+    ...new Set(
+      [...orderedNodes, ...getBlockLayers(usedBlocks)].map((layer) => layer.type)
+    ),
+  ];
+  const helperLines = getHelperDefinitions(usedLayerTypes, "pytorch").flatMap(
+    (helper) => ["", helper]
+  );
+
+  // Composite blocks are defined before the model that uses them
+  const { classLines: blockClassLines, blockClasses } =
+    generatePyTorchBlockClasses(orderedNodes, compositeBlocks, inputShapes);
+
   // Generate class definition
   const classLines = [
+    ...helperLines,
+    ...blockClassLines,
     "",
     "class NeuralNetwork(nn.Module):",
     "    def __init__(self):",
     "        super(NeuralNetwork, self).__init__()",
   ];
 
-  // Process each layer for __init__ method and track shapes
-  const layerMapping: Map<number, number> = new Map(); // Original index -> module index
-  let moduleIndex = 1;
-  
-  // Store the initial input shape for skip connections
-  const initialInputShape = [...currentShape];
-  
-  modelLayers.forEach((layer, index) => {
-    // Skip layers that are handled in forward() method
-    if (layer.type === "Flatten" || layer.type === "Activation" || layer.type === "Merge") {
-      // Update shape for these layers
-      if (layer.type === "Flatten") {
-        if (currentShape.length > 1) {
-          currentShape = [currentShape.reduce((a, b) => a * b, 1)];
-        }
-      } else if (layer.type === "Merge") {
-        // For merge layers, calculate the concatenated shape
-        const mode = String(layer.params.mode) || "concat";
-        if (mode === "concat") {
-          const axis = Number(layer.params.axis) || -1;
-          if (axis === -1 || axis === 1) { // Channel concatenation
-            // Concatenate with input shape: current channels + input channels
-            const currentChannels = currentShape[0];
-            const inputChannels = initialInputShape[0];
-            currentShape[0] = currentChannels + inputChannels; // Update channel count
-          }
-        } else if (mode === "add") {
-          // Addition doesn't change shape, but inputs must be compatible
-          // Keep current shape
-        }
-        // Other merge modes (multiply, average, etc.) also keep the shape
-      }
-      return;
-    }
-
-    const layerCode = generateLayerCode(layer.type, layer.params, 'pytorch');
-    if (!layerCode || layerCode.startsWith('#')) {
-      classLines.push(`        # ${layerCode || 'Layer not supported'}`);
-      return;
-    }
+  // Modules declared in __init__, with their repetition count
+  const moduleRepeats = declarePyTorchModules(
+    orderedNodes,
+    inputShapes,
+    classLines,
+    blockClasses
+  );
 
-    // Handle multipliers for PyTorch
-    const multiplier = Number(layer.params.multiplier) || 1;
-    const layerDefinition = layerDefinitions[layer.type];
-    
-    if (multiplier > 1 && layerDefinition?.supportsMultiplier) {
-      // Create multiple instances of the layer
-      for (let i = 0; i < multiplier; i++) {
-        // Handle dynamic input sizes
-        let processedCode = layerCode;
-        if (layer.type === "Dense") {
-          const inFeatures = currentShape[currentShape.length - 1];
-          processedCode = processedCode.replace("in_features", String(inFeatures));
-          if (i === multiplier - 1) {
-            // Only update shape after the last layer
-            currentShape = [Number(layer.params.units) || 128];
-          }
-        } else if (layer.type === "Conv2D") {
-          const inChannels = currentShape[0];
-          processedCode = processedCode.replace("in_channels", String(inChannels));
-          if (i === multiplier - 1) {
-            // Update shape after convolution
-            const filters = Number(layer.params.filters) || 32;
-            const kernelSize = String(layer.params.kernel_size) || "(3,3)";
-            const strides = String(layer.params.strides) || "(1,1)";
-            const padding = String(layer.params.padding) || "same";
-            
-            currentShape = calculateConv2DShape(currentShape, filters, kernelSize, strides, padding);
-          }
-        }
+  // Generate forward method with one named tensor per node
+  const inputLayers = orderedNodes.filter((layer) => layer.type === "Input");
+  const forwardArgs = ["self", ...inputLayers.map((layer) => layer.varName)];
+  const forwardLines = ["", `    def forward(${forwardArgs.join(", ")}):`];
+
+  const tensorVars = new Map<string, string>();
+  inputLayers.forEach((layer) => {
+    const shape = nodeShapes.get(layer.id);
+    const layout =
+      shape && shape.length === 3
+        ? `(batch_size, ${shape[2]}, ${shape[0]}, ${shape[1]})`
+        : shape
+          ? `(batch_size, ${shape.join(", ")})`
+          : "(batch_size, ...)";
+    forwardLines.push(`        # ${layer.varName}: ${layout}`);
+    tensorVars.set(layer.id, layer.varName);
+  });
 
-        layerMapping.set(index * 1000 + i, moduleIndex); // Use unique mapping for each instance
-        classLines.push(`        self.layer${moduleIndex} = ${processedCode}`);
-        moduleIndex++;
-      }
-    } else {
-      // Handle dynamic input sizes and shape tracking
-      let processedCode = layerCode;
-      
-      if (layer.type === "Dense") {
-        const inFeatures = currentShape[currentShape.length - 1];
-        processedCode = processedCode.replace("in_features", String(inFeatures));
-        currentShape = [Number(layer.params.units) || 128];
-      } else if (layer.type === "Conv2D") {
-        const inChannels = currentShape[0];
-        processedCode = processedCode.replace("in_channels", String(inChannels));
-        
-        // Update shape after convolution
-        const filters = Number(layer.params.filters) || 32;
-        const kernelSize = String(layer.params.kernel_size) || "(3,3)";
-        const strides = String(layer.params.strides) || "(1,1)";
-        const padding = String(layer.params.padding) || "same";
-        
-        currentShape = calculateConv2DShape(currentShape, filters, kernelSize, strides, padding);
-      } else if (layer.type === "MaxPool2D" || layer.type === "AveragePooling2D") {
-        // Update shape after pooling
-        const poolSize = String(layer.params.pool_size) || "(2,2)";
-        const strides = String(layer.params.strides) || poolSize;
-        const padding = String(layer.params.padding) || "valid";
-        
-        currentShape = calculatePoolingShape(currentShape, poolSize, strides, padding);
-      } else if (layer.type === "BatchNormalization") {
-        // Handle BatchNormalization - choose correct variant and replace NUM_FEATURES
-        let batchNormType;
-        let numFeatures;
-        
-        if (currentShape.length === 1) {
-          // 1D input: use BatchNorm1d, features = shape[0]
-          batchNormType = "nn.BatchNorm1d";
-          numFeatures = currentShape[0];
-        } else if (currentShape.length === 3) {
-          // 3D input (channels, height, width): use BatchNorm2d, features = channels
-          batchNormType = "nn.BatchNorm2d";
-          numFeatures = currentShape[0];
-        } else if (currentShape.length === 4) {
-          // 4D input (channels, depth, height, width): use BatchNorm3d, features = channels
-          batchNormType = "nn.BatchNorm3d";
-          numFeatures = currentShape[0];
-        } else {
-          // Default to 1d for other cases
-          batchNormType = "nn.BatchNorm1d";
-          numFeatures = currentShape[currentShape.length - 1];
-        }
-        
-        // Replace both the BatchNorm type and NUM_FEATURES
-        processedCode = processedCode.replace("nn.BatchNorm2d", batchNormType);
-        processedCode = processedCode.replace("NUM_FEATURES", String(numFeatures));
-      } else if (layer.type === "GlobalAveragePooling2D") {
-        // After global average pooling, shape becomes [channels]
-        if (currentShape.length === 3) {
-          currentShape = [currentShape[0]]; // Keep only channels
-        }
-      } else if (layer.type === "Output") {
-        const inFeatures = currentShape[currentShape.length - 1];
-        processedCode = processedCode.replace("in_features", String(inFeatures));
-        
-        const outputType = String(layer.params.outputType) || "multiclass";
-        if (outputType === "multiclass") {
-          currentShape = [Number(layer.params.numClasses) || 10];
-        } else {
-          currentShape = [Number(layer.params.units) || 1];
-        }
-      } else if (layer.type === "LSTM" || layer.type === "GRU") {
-        // Handle RNN layers - replace input_size placeholder
-        const inputSize = currentShape[currentShape.length - 1]; // Last dimension is features
-        processedCode = processedCode.replace("input_size=input_size", `input_size=${inputSize}`);
-        
-        // Update shape after RNN
-        const units = Number(layer.params.units) || 50;
-        const returnSequences = String(layer.params.return_sequences) === "true";
-        
-        if (returnSequences) {
-          currentShape = [currentShape[0], units]; // [seq_length, hidden_size]
-        } else {
-          currentShape = [units]; // [hidden_size]
-        }
-      } else if (layer.type === "Embedding") {
-        // After embedding, shape changes from [seq_length] to [seq_length, embedding_dim]
-        const outputDim = Number(layer.params.output_dim) || 128;
-        if (currentShape.length === 1) {
-          currentShape = [currentShape[0], outputDim];
-        }
-      }
+  forwardLines.push(
+    ...generatePyTorchForward(
+      orderedNodes,
+      inputMap,
+      inputShapes,
+      moduleRepeats,
+      tensorVars,
+      compositeBlocks
+    )
+  );
 
-      layerMapping.set(index, moduleIndex);
-      classLines.push(`        self.layer${moduleIndex} = ${processedCode}`);
-      moduleIndex++;
-    }
-  });
+  // Terminal nodes (no outgoing edges) are the model outputs
+  const { outputVars, outputLayers } = findTerminalNodes(
+    orderedNodes,
+    edgeMap,
+    tensorVars
+  );
+  if (outputVars.length > 1) {
+    // Several heads are returned by name so each can get its own loss
+    forwardLines.push("        return {");
+    outputLayers.forEach((layer, index) => {
+      forwardLines.push(`            "${layer.varName}": ${outputVars[index]},`);
+    });
+    forwardLines.push("        }");
+  } else {
+    forwardLines.push(`        return ${outputVars.join(", ")}`);
+  }
 
-  // Generate forward method with improved activation handling
-  const forwardLines = [
+  // Generate model instantiation and summary
+  const instantiationLines = [
+    "",
+    "# Create model instance",
+    "model = NeuralNetwork()",
     "",
-    "    def forward(self, x):",
+    "# Print model summary",
+    "print(model)",
+    ...generatePyTorchTrainingCode(trainingConfig, orderedNodes),
   ];
 
-  // Check if we have any merge layers that would need residual connections
-  const hasMergeLayers = modelLayers.some(layer => layer.type === "Merge");
-  let residualStored = false; // Track if we've stored the residual
+  return [
+    ...imports,
+    ...classLines,
+    ...forwardLines,
+    ...instantiationLines,
+  ].join("\n");
+}
+
+// ============================================================================
+// FLAX CODE GENERATION
+// ============================================================================
 
-  // Helper function to check if next layer is BatchNorm
-  const isNextLayerBatchNorm = (currentIndex: number): boolean => {
-    const nextLayer = modelLayers[currentIndex + 1];
-    return nextLayer?.type === "BatchNormalization";
-  };
+/**
+ * Layers without a flax.linen module; they are written as jax.numpy
+ * expressions in __call__
+ */
+const FLAX_INLINE_LAYERS = new Set([
+  ...FORWARD_ONLY_LAYERS,
+  "MaxPool2D",
+  "AveragePooling2D",
+  "GlobalAveragePooling2D",
+  "ZeroPadding2D",
+]);
 
-  // Helper function to check if we should defer activation
-  const shouldDeferActivation = (layer: LayerObject, index: number): boolean => {
-    const activation = String(layer.params.activation || "linear");
-    return activation !== "linear" && 
-           layer.type !== "Output" && 
-           isNextLayerBatchNorm(index);
-  };
+/**
+ * Wraps an array expression in the flax.linen version of a Keras activation
+ */
+function applyFlaxActivation(expr: string, activation: string): string {
+  switch (activation) {
+    case "linear":
+    case "none":
+    case "":
+      return expr;
+    default:
+      return `nn.${activation}(${expr})`;
+  }
+}
 
-  modelLayers.forEach((layer, index) => {
-    const activation = String(layer.params.activation || "linear");
-    
-    // Smart residual storage: store residual when we reach a compatible shape for later merge
-    if (hasMergeLayers && !residualStored) {
-      // Find the merge layer to determine when to store residual
-      const mergeIndex = modelLayers.findIndex(l => l.type === "Merge");
-      if (mergeIndex > index) {
-        // Check if this is a good point to store residual (after activation, before merge)
-        const isAfterActivation = layer.type === "Activation" || 
-                                 (activation !== "linear" && !shouldDeferActivation(layer, index));
-        
-        // Store residual after we've reached a stable shape and applied activation
-        if (isAfterActivation && index < mergeIndex - 1) {
-          forwardLines.push(`        # Store residual for skip connection`);
-          forwardLines.push(`        residual = x`);
-          forwardLines.push(``);
-          residualStored = true;
-        }
+/**
+ * Builds the __call__ expression for a Merge node
+ */
+function generateFlaxMerge(layer: LayerObject, inputVars: string[]): string {
+  const mode = String(layer.params.mode) || "concat";
+  const stacked = `jnp.stack([${inputVars.join(", ")}])`;
+
+  switch (mode) {
+    case "add":
+      return inputVars.join(" + ");
+    case "multiply":
+      return inputVars.join(" * ");
+    case "subtract":
+      return `${inputVars[0]} - ${inputVars[1]}`;
+    case "average":
+      return `jnp.mean(${stacked}, axis=0)`;
+    case "maximum":
+      return `jnp.max(${stacked}, axis=0)`;
+    case "minimum":
+      return `jnp.min(${stacked}, axis=0)`;
+    case "dot":
+      return `jnp.sum(${inputVars[0]} * ${inputVars[1]}, axis=-1, keepdims=True)`;
+    case "concat":
+    default: {
+      // Flax is channels-last like Keras, so axes carry over unchanged
+      const axis = Number(layer.params.axis) || -1;
+      return `jnp.concatenate([${inputVars.join(", ")}], axis=${axis})`;
+    }
+  }
+}
+
+/**
+ * Splits a "(a, b, c)" parameter into its entries
+ */
+function parseTupleEntries(value: string): string[] {
+  return value
+    .replace(/[()]/g, "")
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => d.length > 0);
+}
+
+/**
+ * Builds __call__ lines for layers without a flax.linen module
+ */
+function generateFlaxInline(
+  layer: LayerObject,
+  outVar: string,
+  inputVars: string[]
+): string[] {
+  const [inputVar] = inputVars;
+
+  switch (layer.type) {
+    case "Flatten":
+      return [`${outVar} = ${inputVar}.reshape((${inputVar}.shape[0], -1))`];
+    case "Activation": {
+      const activation = String(layer.params.activation_function || "relu");
+      return [`${outVar} = ${applyFlaxActivation(inputVar, activation)}`];
+    }
+    case "Merge":
+      return [`${outVar} = ${generateFlaxMerge(layer, inputVars)}`];
+    case "Reshape": {
+      const dims = parseTupleEntries(String(layer.params.target_shape) || "(-1,)");
+      return [
+        `${outVar} = ${inputVar}.reshape((${inputVar}.shape[0], ${dims.join(", ")}))`,
+      ];
+    }
+    case "Permute": {
+      const dims = parseTupleEntries(String(layer.params.dims || "(2, 1)"));
+      return [`${outVar} = jnp.transpose(${inputVar}, (0, ${dims.join(", ")}))`];
+    }
+    case "GaussianNoise": {
+      const stddev = Number(layer.params.stddev) || 1.0;
+      return [
+        `${outVar} = ${inputVar} + ${stddev} * jax.random.normal(self.make_rng("dropout"), ${inputVar}.shape) if train else ${inputVar}`,
+      ];
+    }
+    case "Cropping2D": {
+      const cropping = String(layer.params.cropping) || "((1,1),(1,1))";
+      const values = (cropping.match(/\d+/g) || []).map(Number);
+      const [top, bottom, left, right] =
+        values.length === 4
+          ? values
+          : values.length === 2
+            ? [values[0], values[0], values[1], values[1]]
+            : Array(4).fill(values[0] ?? 1);
+      return [
+        `${outVar} = ${inputVar}[:, ${top}:${inputVar}.shape[1] - ${bottom}, ${left}:${inputVar}.shape[2] - ${right}, :]`,
+      ];
+    }
+    case "ZeroPadding2D": {
+      const [rows, cols] = parseTupleOrNumber(
+        String(layer.params.padding) || "(1,1)"
+      ) ?? [1, 1];
+      return [
+        `${outVar} = jnp.pad(${inputVar}, ((0, 0), (${rows}, ${rows}), (${cols}, ${cols}), (0, 0)))`,
+      ];
+    }
+    case "MaxPool2D":
+    case "AveragePooling2D": {
+      const poolSize = formatFlaxPair(layer.params.pool_size, [2, 2]);
+      // Keras strides default to the pool size
+      const strides = layer.params.strides
+        ? formatFlaxPair(layer.params.strides, [2, 2])
+        : poolSize;
+      const padding = (String(layer.params.padding) || "valid").toUpperCase();
+      const pool = layer.type === "MaxPool2D" ? "nn.max_pool" : "nn.avg_pool";
+      // Keras averages 'same' borders over the real pixels only
+      const extra =
+        layer.type === "AveragePooling2D" && padding === "SAME"
+          ? ", count_include_pad=False"
+          : "";
+      return [
+        `${outVar} = ${pool}(${inputVar}, window_shape=${poolSize}, strides=${strides}, padding='${padding}'${extra})`,
+      ];
+    }
+    case "GlobalAveragePooling2D":
+      return [`${outVar} = jnp.mean(${inputVar}, axis=(1, 2))`];
+    default:
+      return [`${outVar} = ${inputVar}`];
+  }
+}
+
+/**
+ * Builds __call__ lines applying a module (or one repetition of it)
+ */
+function generateFlaxModuleCall(
+  layer: LayerObject,
+  module: string,
+  outVar: string,
+  inputVars: string[]
+): string[] {
+  const [inputVar] = inputVars;
+
+  switch (layer.type) {
+    case "LSTM":
+    case "GRU":
+    case "Bidirectional": {
+      // nn.RNN returns the outputs of every timestep
+      const lines = [`${outVar} = ${module}(${inputVar})`];
+      if (String(layer.params.return_sequences) !== "true") {
+        lines.push(`${outVar} = ${outVar}[:, -1, :]  # Take last timestep`);
       }
+      return lines;
+    }
+    case "MultiHeadAttention": {
+      // Keras inputs are (query, value[, key]); Flax takes (query, key, value)
+      const [query, value, key = value] = inputVars;
+      const args = value ? [query, key, value] : [query];
+      return [`${outVar} = ${module}(${args.join(", ")})`];
     }
-    
-    if (layer.type === "Flatten") {
-      forwardLines.push(`        x = torch.flatten(x, 1)`);
-    } else if (layer.type === "Activation") {
-      const activationFunc = String(layer.params.activation_function || "relu");
-      forwardLines.push(`        x = F.${activationFunc}(x)`);
-    } else if (layer.type === "Merge") {
-      // Handle merge operations - skip connections and multi-input scenarios
-      const mode = String(layer.params.mode) || "concat";
-      
-      if (mode === "add") {
-        // ResNet-style residual connection: x = x + residual
-        forwardLines.push(`        # ResNet skip connection: add residual`);
-        forwardLines.push(`        # WARNING: Ensure tensors have compatible shapes for addition`);
-        forwardLines.push(`        x = x + residual`);
-      } else if (mode === "concat") {
-        // Concatenation-based skip connection or multi-input merge
-        const axis = Number(layer.params.axis) || -1;
-        // Convert Keras axis to PyTorch: -1 (features) becomes 1 (channels) for 4D tensors
-        const pytorchAxis = axis === -1 ? 1 : axis;
-        forwardLines.push(`        # Skip connection: concatenate with residual`);
-        forwardLines.push(`        x = torch.cat([residual, x], dim=${pytorchAxis})`);
+    default: {
+      const call = `${module}(${inputVar})`;
+      return [`${outVar} = ${applyFlaxActivation(call, getModuleActivation(layer))}`];
+    }
+  }
+}
+
+/**
+ * Builds __call__ lines for every layer except Inputs, recording the array
+ * variable of each layer in tensorVars. Modules are created inline, as
+ * @nn.compact expects, and infer their input sizes on first use.
+ */
+function generateFlaxCall(
+  layers: LayerObject[],
+  inputMap: Map<string, LayerInput[]>,
+  tensorVars: Map<string, string>,
+  blockClasses: Map<string, string> = new Map(),
+  blocks: CompositeBlock[] = []
+): string[] {
+  const callLines: string[] = [];
+
+  for (const layer of layers) {
+    if (layer.type === "Input") continue;
+
+    const { id, type, params, varName } = layer;
+    const inputVars = findInputNodes(id, inputMap, tensorVars);
+
+    if (inputVars.length === 0) {
+      callLines.push(`        # Warning: ${varName} has no inputs`);
+      continue;
+    }
+
+    let lines: string[];
+
+    if (type === COMPOSITE_LAYER_TYPE) {
+      const className = blockClasses.get(String(params.blockId));
+      const block = blocks.find((b) => b.id === String(params.blockId));
+      if (!className || !block) {
+        lines = [`${varName} = ${inputVars[0]}  # Composite block definition not found`];
+        lines.forEach((line) => callLines.push(`        ${line}`));
+        tensorVars.set(id, varName);
+        continue;
+      }
+      const call = getBlockCall(layer, block, inputMap, tensorVars);
+      if ("error" in call) {
+        callLines.push(`        # Error: ${varName}: ${call.error}`);
+        continue;
+      }
+      const repeats = getBlockRepeats(params);
+      const outputs = call.outputs.join(", ");
+      if (repeats > 1) {
+        // Each iteration creates a new block instance with its own parameters
+        lines = [
+          `# Repeated ${repeats} times`,
+          `${outputs} = ${call.args.join(", ")}`,
+          `for _ in range(${repeats}):`,
+          `    ${outputs} = ${className}()(${outputs}, train)`,
+        ];
       } else {
-        // Other merge operations
-        forwardLines.push(`        # Merge operation: ${mode}`);
-        forwardLines.push(`        # WARNING: Ensure tensors have compatible shapes`);
-        switch (mode) {
-          case "multiply":
-            forwardLines.push(`        x = x * residual`);
-            break;
-          case "average":
-            forwardLines.push(`        x = (x + residual) / 2`);
-            break;
-          case "maximum":
-            forwardLines.push(`        x = torch.maximum(x, residual)`);
-            break;
-          case "minimum":
-            forwardLines.push(`        x = torch.minimum(x, residual)`);
-            break;
-          case "subtract":
-            forwardLines.push(`        x = residual - x`);
-            break;
-          default:
-            forwardLines.push(`        x = torch.cat([residual, x], dim=-1)`);
-        }
+        lines = [`${outputs} = ${className}()(${call.args.join(", ")}, train)`];
       }
+      lines.forEach((line) => callLines.push(`        ${line}`));
+      setBlockOutputs(tensorVars, layer, block, call.outputs);
+      continue;
+    } else if (FLAX_INLINE_LAYERS.has(type)) {
+      lines = generateFlaxInline(layer, varName, inputVars);
     } else {
-      // Handle multipliers in forward pass
-      const multiplier = Number(layer.params.multiplier) || 1;
-      const layerDefinition = layerDefinitions[layer.type];
-      
-      if (multiplier > 1 && layerDefinition?.supportsMultiplier) {
-        // Apply each multiplied layer sequentially
-        for (let i = 0; i < multiplier; i++) {
-          const moduleIdx = layerMapping.get(index * 1000 + i);
-          if (moduleIdx) {
-            const layerVar = `self.layer${moduleIdx}`;
-            
-            forwardLines.push(`        x = ${layerVar}(x)`);
-            
-            // Handle special cases
-            if (layer.type === "GlobalAveragePooling2D") {
-              forwardLines.push(`        x = torch.flatten(x, 1)`);
-            } else if (layer.type === "LSTM" || layer.type === "GRU") {
-              // RNN layers return (output, hidden_state), we only want output
-              forwardLines.pop(); // Remove the previous x = layer(x) line
-              
-              const returnSequences = String(layer.params.return_sequences) === "true";
-              if (!returnSequences) {
-                forwardLines.push(`        x, _ = ${layerVar}(x)`);
-                forwardLines.push(`        x = x[:, -1, :]  # Take last timestep`);
-              } else {
-                forwardLines.push(`        x, _ = ${layerVar}(x)`);
-              }
-            }
-            
-            // Apply activation after the last multiplied layer, unless deferred
-            if (i === multiplier - 1) {
-              if (layer.type === "Output") {
-                const outputType = String(layer.params.outputType || "multiclass");
-                if (outputType === "multiclass") {
-                  forwardLines.push(`        x = F.log_softmax(x, dim=1)`);
-                } else if (outputType === "binary" || outputType === "multilabel") {
-                  forwardLines.push(`        x = torch.sigmoid(x)`);
-                }
-              } else if (activation !== "linear" && !shouldDeferActivation(layer, index) && 
-                         layer.type !== "LSTM" && layer.type !== "GRU") {
-                // Skip manual activation for RNN layers as they have built-in activations
-                forwardLines.push(`        x = F.${activation}(x)`);
-              }
-            }
-          }
-        }
+      const module = generateLayerCode(type, params, "flax");
+      const multiplier = Number(params.multiplier) || 1;
+
+      if (!module || module.startsWith("#")) {
+        lines = [
+          `${varName} = ${inputVars[0]}  ${module || `# ${type} not supported`}`,
+        ];
+      } else if (multiplier > 1 && layerDefinitions[type]?.supportsMultiplier) {
+        const body = generateFlaxModuleCall(layer, module, varName, [varName]);
+        lines = [
+          `${varName} = ${inputVars[0]}`,
+          `for _ in range(${multiplier}):`,
+          ...body.map((line) => `    ${line}`),
+        ];
       } else {
-        // Handle single layer
-        const moduleIdx = layerMapping.get(index);
-        if (moduleIdx) {
-          const layerVar = `self.layer${moduleIdx}`;
-          
-          forwardLines.push(`        x = ${layerVar}(x)`);
-          
-          // Handle special cases
-          if (layer.type === "GlobalAveragePooling2D") {
-            forwardLines.push(`        x = torch.flatten(x, 1)`);
-          } else if (layer.type === "LSTM" || layer.type === "GRU") {
-            // RNN layers return (output, hidden_state) or (output, (hidden, cell))
-            // We only want the output for the forward pass
-            forwardLines.pop(); // Remove the previous x = layer(x) line
-            
-            const returnSequences = String(layer.params.return_sequences) === "true";
-            if (!returnSequences) {
-              // For last output only, take the last timestep
-              forwardLines.push(`        x, _ = ${layerVar}(x)`);
-              forwardLines.push(`        x = x[:, -1, :]  # Take last timestep`);
-            } else {
-              // For sequence output, keep all timesteps
-              forwardLines.push(`        x, _ = ${layerVar}(x)`);
-            }
-          }
-          
-          // Handle activation and output
-          if (layer.type === "Output") {
-            const outputType = String(layer.params.outputType || "multiclass");
-            if (outputType === "multiclass") {
-              forwardLines.push(`        x = F.log_softmax(x, dim=1)`);
-            } else if (outputType === "binary" || outputType === "multilabel") {
-              forwardLines.push(`        x = torch.sigmoid(x)`);
-            }
-          } else if (layer.type === "BatchNormalization") {
-            // Check if previous layer had deferred activation
-            const prevLayer = modelLayers[index - 1];
-            if (prevLayer && shouldDeferActivation(prevLayer, index - 1)) {
-              const prevActivation = String(prevLayer.params.activation || "linear");
-              if (prevActivation !== "linear") {
-                forwardLines.push(`        x = F.${prevActivation}(x)`);
-              }
-            }
-          } else if (activation !== "linear" && !shouldDeferActivation(layer, index) && 
-                     layer.type !== "LSTM" && layer.type !== "GRU") {
-            // Skip manual activation for RNN layers as they have built-in activations
-            forwardLines.push(`        x = F.${activation}(x)`);
-          }
-        }
+        lines = generateFlaxModuleCall(layer, module, varName, inputVars);
       }
     }
+
+    lines.forEach((line) => callLines.push(`        ${line}`));
+    tensorVars.set(id, varName);
+  }
+
+  return callLines;
+}
+
+/**
+ * Defines an nn.Module subclass per composite block. Flax modules infer
+ * their input sizes, so one class serves every instance and repetition.
+ */
+function generateFlaxBlockClasses(blocks: CompositeBlock[]): {
+  classLines: string[];
+  blockClasses: Map<string, string>;
+} {
+  const classLines: string[] = [];
+  const blockClasses = new Map<string, string>();
+
+  blocks.forEach((block) => {
+    const { layers, inputMap, variables, args } = parseBlockGraph(block);
+    const className = getBlockClassName(block);
+    blockClasses.set(block.id, className);
+
+    const callLines = generateFlaxCall(layers, inputMap, variables);
+
+    classLines.push(
+      "",
+      `class ${className}(nn.Module):`,
+      `    """Composite block: ${block.name}"""`,
+      "",
+      "    @nn.compact",
+      `    def __call__(self, ${args.join(", ")}, train: bool = False):`,
+      ...callLines,
+      `        return ${getBlockResults(block, variables, args).join(", ")}`,
+      ""
+    );
   });
 
-  forwardLines.push("        return x");
+  return { classLines, blockClasses };
+}
 
-  // Generate model instantiation and summary
+/**
+ * Generate JAX/Flax model code from a DAG
+ *
+ * The model is a flax.linen module whose @nn.compact __call__ names one
+ * array per node, like the PyTorch forward(). Arrays stay channels-last, as
+ * in Keras.
+ */
+export function generateFlaxCode(
+  dagResult: DAGResult,
+  trainingConfig: TrainingConfig = DEFAULT_TRAINING_CONFIG,
+  compositeBlocks: CompositeBlock[] = []
+): string {
+  if (!dagResult.isValid || dagResult.orderedNodes.length === 0) {
+    return "# No layers to generate code for";
+  }
+
+  const { orderedNodes, edgeMap, inputMap } = dagResult;
+  const { nodeShapes } = computeCompositeShapes(dagResult, compositeBlocks);
+  const usedBlocks = getUsedBlocks(orderedNodes, compositeBlocks);
+  const allLayers = [...orderedNodes, ...getBlockLayers(usedBlocks)];
+  const usedLayerTypes = [...new Set(allLayers.map((layer) => layer.type))];
+
+  // Generate imports
+  const imports = [
+    ...(usedLayerTypes.includes("BatchNormalization")
+      ? ["from typing import Any", ""]
+      : []),
+    "import jax",
+    "import jax.numpy as jnp",
+    "import flax.linen as nn",
+    "import optax",
+    "from flax.training import train_state",
+  ];
+
+  // Custom modules (e.g. SeparableConv2D) and the project's composite blocks
+  const helperLines = getHelperDefinitions(usedLayerTypes, "flax").flatMap(
+    (helper) => ["", helper]
+  );
+  const { classLines: blockClassLines, blockClasses } =
+    generateFlaxBlockClasses(usedBlocks);
+
+  // Generate __call__ with one named array per node
+  const inputLayers = orderedNodes.filter((layer) => layer.type === "Input");
+  const callArgs = [
+    "self",
+    ...inputLayers.map((layer) => layer.varName),
+    "train: bool = False",
+  ];
+  const classLines = [
+    "",
+    "class NeuralNetwork(nn.Module):",
+    "    @nn.compact",
+    `    def __call__(${callArgs.join(", ")}):`,
+  ];
+
+  const tensorVars = new Map<string, string>();
+  inputLayers.forEach((layer) => {
+    const shape = nodeShapes.get(layer.id);
+    const layout = shape ? `(batch_size, ${shape.join(", ")})` : "(batch_size, ...)";
+    classLines.push(`        # ${layer.varName}: ${layout}`);
+    tensorVars.set(layer.id, layer.varName);
+  });
+
+  classLines.push(
+    ...generateFlaxCall(
+      orderedNodes,
+      inputMap,
+      tensorVars,
+      blockClasses,
+      usedBlocks
+    )
+  );
+
+  // Terminal nodes (no outgoing edges) are the model outputs
+  const { outputVars, outputLayers } = findTerminalNodes(
+    orderedNodes,
+    edgeMap,
+    tensorVars
+  );
+  if (outputVars.length > 1) {
+    // Several heads are returned by name so each can get its own loss
+    classLines.push("        return {");
+    outputLayers.forEach((layer, index) => {
+      classLines.push(`            "${layer.varName}": ${outputVars[index]},`);
+    });
+    classLines.push("        }");
+  } else {
+    classLines.push(`        return ${outputVars.join(", ")}`);
+  }
+
+  // Example inputs initialize the parameters; index inputs must be integers
+  const exampleInputs = inputLayers.map((layer) => {
+    const shape = nodeShapes.get(layer.id) ?? [];
+    const dims = formatShapeTuple([1, ...shape]);
+    const isIndices = String(layer.params.inputType) === "sequence_indices";
+    return isIndices
+      ? `jnp.zeros(${dims}, dtype=jnp.int32)`
+      : `jnp.ones(${dims})`;
+  });
+  const exampleVars =
+    inputLayers.length > 1
+      ? inputLayers.map((layer) => `x_${layer.varName}`)
+      : ["x"];
+
+  // Generate model initialization and summary
   const instantiationLines = [
     "",
-    "# Create model instance",
+    "# Create model instance and initialize its parameters",
     "model = NeuralNetwork()",
+    "key, init_key = jax.random.split(jax.random.PRNGKey(0))",
+    ...exampleVars.map((name, index) => `${name} = ${exampleInputs[index]}`),
+    `variables = model.init(init_key, ${exampleVars.join(", ")})`,
     "",
     "# Print model summary",
-    "print(model)",
-    "",
-    "criterion = nn.CrossEntropyLoss()  # Use appropriate loss for your task",
-    "optimizer = torch.optim.Adam(model.parameters(), lr=0.001)",
+    `print(model.tabulate(init_key, ${exampleVars.join(", ")}))`,
+    ...generateFlaxTrainingCode(trainingConfig, allLayers),
   ];
 
   return [
     ...imports,
+    ...helperLines,
+    ...blockClassLines,
     ...classLines,
-    ...forwardLines,
     ...instantiationLines,
   ].join("\n");
 }
+
+// ============================================================================
+// TF.JS CODE GENERATION
+// ============================================================================
+
+export interface TfjsCodeOptions {
+  // tf.model() instead of tf.sequential(), for graphs that are not a chain
+  functional?: boolean;
+  // Adds the casts TypeScript needs for symbolic tensors
+  typescript?: boolean;
+}
+
+/**
+ * Layers whose activation TF.js cannot name get a leakyReLU layer after them
+ */
+function needsTfjsLeakyReLU(layer: LayerObject): boolean {
+  return (
+    layer.type !== "Activation" && getModuleActivation(layer) === "leaky_relu"
+  );
+}
+
+/**
+ * Builds tf.model() lines for every layer except Inputs, recording the
+ * tensor variable of each layer in tensorVars. Layers with no TF.js
+ * equivalent pass their input through and are added to `unsupported`.
+ */
+function generateTfjsApply(
+  layers: LayerObject[],
+  inputMap: Map<string, LayerInput[]>,
+  tensorVars: Map<string, string>,
+  unsupported: string[],
+  typescript: boolean,
+  blockFunctions: Map<string, string> = new Map(),
+  blocks: CompositeBlock[] = []
+): string[] {
+  const cast = typescript ? " as tf.SymbolicTensor" : "";
+  const apply = (layerCode: string, input: string) =>
+    `${layerCode}.apply(${input})${cast}`;
+  const lines: string[] = [];
+
+  // Heads of a multi-output model are named so losses can be keyed by name
+  const isMultiOutput =
+    layers.filter((layer) => layer.type === "Output").length > 1;
+
+  for (const layer of layers) {
+    if (layer.type === "Input") continue;
+
+    const { id, type, varName } = layer;
+    const inputVars = findInputNodes(id, inputMap, tensorVars);
+
+    if (inputVars.length === 0) {
+      lines.push(`// Warning: ${varName} has no inputs`);
+      continue;
+    }
+
+    if (type === COMPOSITE_LAYER_TYPE) {
+      const functionName = blockFunctions.get(String(layer.params.blockId));
+      const block = blocks.find((b) => b.id === String(layer.params.blockId));
+      if (!functionName || !block) {
+        lines.push(`const ${varName} = ${inputVars[0]};  // Composite block definition not found`);
+        tensorVars.set(id, varName);
+        continue;
+      }
+      const call = getBlockCall(layer, block, inputMap, tensorVars);
+      if ("error" in call) {
+        lines.push(`// Error: ${varName}: ${call.error}`);
+        continue;
+      }
+      // A block with several outputs returns them as an array
+      const repeats = getBlockRepeats(layer.params);
+      const outputs =
+        call.outputs.length === 1
+          ? call.outputs[0]
+          : `[${call.outputs.join(", ")}]`;
+      const args =
+        call.args.length === 1 ? call.args[0] : `[${call.args.join(", ")}]`;
+      if (repeats > 1) {
+        // Each call creates fresh layers, so repetitions do not share weights
+        lines.push(
+          `// Repeated ${repeats} times`,
+          `let ${outputs} = ${args};`,
+          `for (let i = 0; i < ${repeats}; i++) {`,
+          `  ${outputs} = ${functionName}(${call.outputs.join(", ")});`,
+          "}"
+        );
+      } else {
+        lines.push(
+          `const ${outputs} = ${functionName}(${call.args.join(", ")});`
+        );
+      }
+      setBlockOutputs(tensorVars, layer, block, call.outputs);
+      continue;
+    }
+
+    const params =
+      isMultiOutput && type === "Output"
+        ? { ...layer.params, name: varName }
+        : layer.params;
+    const layerCode = generateLayerCode(type, params, "tfjs");
+
+    if (!layerCode || layerCode.startsWith("//")) {
+      unsupported.push(`${varName} (${type})`);
+      lines.push(`const ${varName} = ${inputVars[0]};  ${layerCode || `// ${type} not supported`}`);
+      tensorVars.set(id, varName);
+      continue;
+    }
+
+    const applyLayer = (input: string) => {
+      const output = apply(layerCode, input);
+      return needsTfjsLeakyReLU(layer)
+        ? apply("tf.layers.leakyReLU()", output)
+        : output;
+    };
+    const multiplier = Number(layer.params.multiplier) || 1;
+
+    if (multiplier > 1 && layerDefinitions[type]?.supportsMultiplier) {
+      lines.push(
+        `let ${varName} = ${inputVars[0]};`,
+        `for (let i = 0; i < ${multiplier}; i++) {`,
+        `  ${varName} = ${applyLayer(varName)};`,
+        "}"
+      );
+    } else if (type === "MultiHeadAttention" || inputVars.length > 1) {
+      lines.push(`const ${varName} = ${applyLayer(`[${inputVars.join(", ")}]`)};`);
+    } else {
+      lines.push(`const ${varName} = ${applyLayer(inputVars[0])};`);
+    }
+    tensorVars.set(id, varName);
+  }
+
+  return lines;
+}
+
+/**
+ * Defines each composite block as a function that applies its layers to its
+ * inputs, so every call creates fresh layers with their own weights
+ */
+function generateTfjsBlockFunctions(
+  blocks: CompositeBlock[],
+  unsupported: string[],
+  typescript: boolean
+): { functionLines: string[]; blockFunctions: Map<string, string> } {
+  const functionLines: string[] = [];
+  const blockFunctions = new Map<string, string>();
+
+  blocks.forEach((block) => {
+    const { layers, inputMap, variables, args } = parseBlockGraph(block);
+    const functionName = getBlockFunctionName(block);
+    blockFunctions.set(block.id, functionName);
+
+    const bodyLines = generateTfjsApply(
+      layers,
+      inputMap,
+      variables,
+      unsupported,
+      typescript
+    );
+
+    // Several outputs are returned as an array
+    const results = getBlockResults(block, variables, args);
+    const params = typescript
+      ? args.map((arg) => `${arg}: tf.SymbolicTensor`).join(", ")
+      : args.join(", ");
+    const returnType =
+      results.length === 1 ? "tf.SymbolicTensor" : "tf.SymbolicTensor[]";
+    functionLines.push(
+      "",
+      `// Composite block: ${block.name}`,
+      `function ${functionName}(${params})${typescript ? `: ${returnType}` : ""} {`,
+      ...bodyLines.map((line) => `  ${line}`),
+      `  return ${results.length === 1 ? results[0] : `[${results.join(", ")}]`};`,
+      "}"
+    );
+  });
+
+  return { functionLines, blockFunctions };
+}
+
+/**
+ * Builds tf.sequential() lines for a chain of layers
+ */
+function generateTfjsSequential(
+  layers: LayerObject[],
+  nodeShapes: Map<string, number[]>,
+  unsupported: string[]
+): string[] {
+  const lines = ["const model = tf.sequential();"];
+
+  for (const layer of layers) {
+    const { type, params, varName } = layer;
+
+    if (type === "Input") {
+      const shape = nodeShapes.get(layer.id) ?? [];
+      lines.push(
+        `model.add(tf.layers.inputLayer({ inputShape: [${shape.join(", ")}] }));`
+      );
+      continue;
+    }
+
+    const layerCode = generateLayerCode(type, params, "tfjs");
+    if (!layerCode || layerCode.startsWith("//")) {
+      unsupported.push(`${varName} (${type})`);
+      lines.push(layerCode || `// ${type} not supported`);
+      continue;
+    }
+
+    const addLines = [`model.add(${layerCode});`];
+    if (needsTfjsLeakyReLU(layer)) {
+      addLines.push("model.add(tf.layers.leakyReLU());");
+    }
+
+    const multiplier = Number(params.multiplier) || 1;
+    if (multiplier > 1 && layerDefinitions[type]?.supportsMultiplier) {
+      lines.push(
+        `for (let i = 0; i < ${multiplier}; i++) {`,
+        ...addLines.map((line) => `  ${line}`),
+        "}"
+      );
+    } else {
+      lines.push(...addLines);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Generate TensorFlow.js model code from a DAG
+ *
+ * Uses tf.layers.*, whose arguments mirror the Keras ones in camelCase, so
+ * the model is built as in the Keras code. Layers with no TF.js equivalent
+ * are listed at the top of the file.
+ */
+export function generateTfjsCode(
+  dagResult: DAGResult,
+  trainingConfig: TrainingConfig = DEFAULT_TRAINING_CONFIG,
+  compositeBlocks: CompositeBlock[] = [],
+  options: TfjsCodeOptions = {}
+): string {
+  if (!dagResult.isValid || dagResult.orderedNodes.length === 0) {
+    return "// No layers to generate code for";
+  }
+
+  const { functional = false, typescript = false } = options;
+  const { orderedNodes, edgeMap, inputMap } = dagResult;
+  const { nodeShapes } = computeCompositeShapes(dagResult, compositeBlocks);
+  const unsupported: string[] = [];
+  const modelLines = ["", "// Create the model"];
+
+  if (functional) {
+    const usedBlocks = getUsedBlocks(orderedNodes, compositeBlocks);
+    const { functionLines, blockFunctions } = generateTfjsBlockFunctions(
+      usedBlocks,
+      unsupported,
+      typescript
+    );
+    modelLines.unshift(...functionLines);
+
+    const tensorVars = new Map<string, string>();
+    orderedNodes
+      .filter((layer) => layer.type === "Input")
+      .forEach((layer) => {
+        const shape = nodeShapes.get(layer.id) ?? [];
+        // Named inputs keep their name so they can be fed by name
+        const nameArg = String(layer.params.name ?? "").trim()
+          ? `, name: '${layer.varName}'`
+          : "";
+        modelLines.push(
+          `const ${layer.varName} = tf.input({ shape: [${shape.join(", ")}]${nameArg} });`
+        );
+        tensorVars.set(layer.id, layer.varName);
+      });
+
+    modelLines.push(
+      ...generateTfjsApply(
+        orderedNodes,
+        inputMap,
+        tensorVars,
+        unsupported,
+        typescript,
+        blockFunctions,
+        usedBlocks
+      )
+    );
+
+    const { inputVars, outputVars } = findTerminalNodes(
+      orderedNodes,
+      edgeMap,
+      tensorVars
+    );
+    const inputs =
+      inputVars.length === 1 ? inputVars[0] : `[${inputVars.join(", ")}]`;
+    const outputs =
+      outputVars.length === 1 ? outputVars[0] : `[${outputVars.join(", ")}]`;
+    modelLines.push("", `const model = tf.model({ inputs: ${inputs}, outputs: ${outputs} });`);
+  } else {
+    modelLines.push(
+      ...generateTfjsSequential(orderedNodes, nodeShapes, unsupported)
+    );
+  }
+
+  const header = ["import * as tf from '@tensorflow/tfjs';"];
+  if (unsupported.length > 0) {
+    header.push(
+      "",
+      "// Warning: these layers have no TF.js equivalent and pass their input through unchanged:",
+      ...unsupported.map((layer) => `//   ${layer}`)
+    );
+  }
+
+  return [
+    ...header,
+    ...modelLines,
+    ...generateTfjsTrainingCode(trainingConfig, orderedNodes),
+  ].join("\n");
+}
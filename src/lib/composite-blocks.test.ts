@@ -0,0 +1,375 @@
+import { describe, expect, it } from "vitest";
+import type { Node } from "@xyflow/react";
+import {
+  computeCompositeShapes,
+  createBlockInstance,
+  expandCompositeBlocks,
+  fromEditableGraph,
+  getExpandedId,
+  groupIntoBlock,
+  toEditableGraph,
+  ungroupBlock,
+  upgradeCompositeBlock,
+  validateBlockInputCount,
+  validateBlockRepeats,
+  type CompositeBlock,
+} from "./composite-blocks";
+import { getOutputKey, parseGraphToDAG } from "./dag-parser";
+import { computeShapes } from "./shape-computation";
+import { chain, edge, layerNode } from "../test/graph";
+
+// in -> dense -> dropout -> out, with the middle two layers grouped
+const groupMiddle = (repeats = 1) => {
+  const result = groupIntoBlock(
+    [
+      layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+      layerNode("dense", "Dense", { units: 8 }),
+      layerNode("dropout", "Dropout"),
+      layerNode("out", "Output", { units: 2 }),
+    ],
+    chain("in", "dense", "dropout", "out"),
+    ["dense", "dropout"],
+    "Dense Block",
+    repeats
+  );
+  if (!result.success) throw new Error(result.error);
+  return result;
+};
+
+const instanceOf = (nodes: Node[]) => {
+  const instance = nodes.find((node) => node.data.type === "Composite");
+  if (!instance) throw new Error("No block instance");
+  return instance;
+};
+
+const connections = (edges: { source: string; target: string }[]) =>
+  edges.map(({ source, target }) => [source, target]);
+
+const flatInput = (id: string) =>
+  layerNode(id, "Input", { inputType: "flat_data", flatSize: 8 });
+
+// a -> left, b -> right, both into merge -> out, and right -> aux; grouping
+// left, right and merge gives a block with two inputs and two outputs
+const twoPortGraph = {
+  nodes: [
+    flatInput("a"),
+    flatInput("b"),
+    layerNode("left", "Dense", { units: 4 }),
+    layerNode("right", "Dense", { units: 6 }),
+    layerNode("merge", "Merge"),
+    layerNode("out", "Output", { units: 2 }),
+    layerNode("aux", "Output", { units: 3 }),
+  ],
+  edges: [
+    edge("a", "left"),
+    edge("b", "right"),
+    edge("left", "merge"),
+    edge("right", "merge"),
+    edge("merge", "out"),
+    edge("right", "aux"),
+  ],
+};
+
+const groupTwoPorts = (repeats = 1) => {
+  const result = groupIntoBlock(
+    twoPortGraph.nodes,
+    twoPortGraph.edges,
+    ["left", "right", "merge"],
+    "Two Port Block",
+    repeats
+  );
+  if (!result.success) throw new Error(result.error);
+  return result;
+};
+
+const ports = (
+  edges: Array<{
+    source: string;
+    target: string;
+    sourceHandle?: string | null;
+    targetHandle?: string | null;
+  }>
+) =>
+  edges.map(({ source, sourceHandle, target, targetHandle }) => [
+    source,
+    sourceHandle ?? null,
+    target,
+    targetHandle ?? null,
+  ]);
+
+describe("groupIntoBlock", () => {
+  it("replaces the selection with an instance wired like the selection", () => {
+    const result = groupMiddle();
+    const instance = instanceOf(result.nodes);
+
+    expect(result.nodes.map((node) => node.data.type).sort()).toEqual([
+      "Composite",
+      "Input",
+      "Output",
+    ]);
+    expect(connections(result.edges)).toEqual([
+      ["in", instance.id],
+      [instance.id, "out"],
+    ]);
+    expect(result.block.nodes).toHaveLength(2);
+  });
+
+  it("refuses a single layer", () => {
+    const result = groupIntoBlock(
+      [layerNode("dense", "Dense")],
+      [],
+      ["dense"],
+      "Block"
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("gives the block an input per source and an output per layer leading out", () => {
+    const { nodes, edges, block } = groupTwoPorts();
+    const instance = instanceOf(nodes);
+
+    expect(block.inputs).toEqual([[{ nodeId: "left" }], [{ nodeId: "right" }]]);
+    expect(block.outputNodeIds).toEqual(["merge", "right"]);
+    expect(ports(edges)).toEqual([
+      ["a", null, instance.id, "input-1"],
+      ["b", null, instance.id, "input-2"],
+      [instance.id, "output-1", "out", null],
+      [instance.id, "output-2", "aux", null],
+    ]);
+  });
+
+  it("refuses to repeat a block whose inputs and outputs do not pair up", () => {
+    const result = groupIntoBlock(
+      twoPortGraph.nodes,
+      twoPortGraph.edges.filter((e) => e.target !== "aux"),
+      ["left", "right", "merge"],
+      "Merge Block",
+      2
+    );
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("ungroupBlock", () => {
+  it("puts the inner layers back in place of the instance", () => {
+    const { nodes, edges, block } = groupMiddle();
+    const ungrouped = ungroupBlock(nodes, edges, instanceOf(nodes).id, block);
+
+    expect(ungrouped.nodes.map((node) => node.data.type).sort()).toEqual([
+      "Dense",
+      "Dropout",
+      "Input",
+      "Output",
+    ]);
+    expect(ungrouped.edges).toHaveLength(3);
+  });
+
+  it("reconnects every input and output of the instance", () => {
+    const { nodes, edges, block } = groupTwoPorts();
+    const ungrouped = ungroupBlock(nodes, edges, instanceOf(nodes).id, block);
+    const typeOf = (id: string) =>
+      ungrouped.nodes.find((node) => node.id === id)?.data.type;
+
+    expect(
+      ungrouped.edges.map(({ source, target }) => [
+        typeOf(source),
+        typeOf(target),
+      ])
+    ).toEqual(
+      expect.arrayContaining([
+        ["Input", "Dense"],
+        ["Merge", "Output"],
+        ["Dense", "Output"],
+      ])
+    );
+    expect(ungrouped.edges).toHaveLength(twoPortGraph.edges.length);
+  });
+});
+
+describe("expandCompositeBlocks", () => {
+  it("replaces an instance with its inner layers", () => {
+    const { nodes, edges, block } = groupMiddle();
+    const instance = instanceOf(nodes);
+    const expanded = expandCompositeBlocks(nodes, edges, [block]);
+
+    const [dense, dropout] = block.nodes.map((inner) =>
+      getExpandedId(instance.id, inner.id)
+    );
+    expect(expanded.nodes.map((node) => node.id).sort()).toEqual(
+      ["in", dense, dropout, "out"].sort()
+    );
+    expect(connections(expanded.edges)).toEqual(
+      expect.arrayContaining([
+        ["in", dense],
+        [dense, dropout],
+        [dropout, "out"],
+      ])
+    );
+    expect(expanded.ownerIds.get(dense)).toBe(instance.id);
+  });
+
+  it("chains the repetitions of a repeated instance", () => {
+    const { nodes, edges, block } = groupMiddle(3);
+    const instance = instanceOf(nodes);
+    const expanded = expandCompositeBlocks(nodes, edges, [block]);
+    const [denseId, dropoutId] = block.nodes.map((inner) => inner.id);
+
+    expect(expanded.nodes).toHaveLength(2 + 3 * block.nodes.length);
+    expect(connections(expanded.edges)).toEqual(
+      expect.arrayContaining([
+        [
+          getExpandedId(instance.id, dropoutId, 1),
+          getExpandedId(instance.id, denseId, 2),
+        ],
+        [getExpandedId(instance.id, dropoutId, 3), "out"],
+      ])
+    );
+    expect(
+      expanded.repetitions.get(getExpandedId(instance.id, denseId, 3))
+    ).toBe(3);
+  });
+
+  it("feeds each input to its own layers and takes each output from its layer", () => {
+    const { nodes, edges, block } = groupTwoPorts();
+    const instance = instanceOf(nodes);
+    const expanded = expandCompositeBlocks(nodes, edges, [block]);
+    const inner = (id: string) => getExpandedId(instance.id, id);
+
+    expect(connections(expanded.edges)).toEqual(
+      expect.arrayContaining([
+        ["a", inner("left")],
+        ["b", inner("right")],
+        [inner("merge"), "out"],
+        [inner("right"), "aux"],
+      ])
+    );
+  });
+
+  it("leaves instances of unknown blocks in place", () => {
+    const { nodes, edges } = groupMiddle();
+    const unknown: CompositeBlock[] = [];
+    expect(expandCompositeBlocks(nodes, edges, unknown).nodes).toBe(nodes);
+  });
+});
+
+describe("computeCompositeShapes", () => {
+  // The query comes first on the canvas but last in topological order,
+  // since its edge was drawn second
+  const sequence = (id: string, seqLength: number, features: number) =>
+    layerNode(id, "Input", { inputType: "sequence", seqLength, features });
+  const attention = layerNode("mha", "MultiHeadAttention", { num_heads: 2 });
+
+  it("keeps the canvas input order of multi-input layers", () => {
+    const dag = parseGraphToDAG(
+      [sequence("q", 10, 16), sequence("v", 20, 32), attention],
+      [edge("v", "mha"), edge("q", "mha")]
+    );
+
+    expect(computeShapes(dag).nodeShapes.get("mha")).toEqual([10, 16]);
+    expect(computeCompositeShapes(dag, []).nodeShapes.get("mha")).toEqual([
+      10, 16,
+    ]);
+  });
+
+  it("keeps the input order of multi-input layers inside a block", () => {
+    const block: CompositeBlock = {
+      id: "block",
+      name: "Attention",
+      nodes: [
+        layerNode("query", "Conv1D", { filters: 16, padding: "same" }),
+        layerNode("value", "Conv1D", { filters: 32, padding: "same" }),
+        attention,
+      ],
+      edges: [edge("value", "mha"), edge("query", "mha")],
+      inputs: [[{ nodeId: "query" }, { nodeId: "value" }]],
+      outputNodeIds: ["mha"],
+    };
+    const instance = { ...createBlockInstance(block, { x: 0, y: 0 }), id: "b" };
+    const dag = parseGraphToDAG(
+      [sequence("in", 10, 8), instance],
+      [edge("in", "b")]
+    );
+
+    expect(computeCompositeShapes(dag, [block]).nodeShapes.get("b")).toEqual([
+      10, 16,
+    ]);
+  });
+
+  it("gives each output of an instance its own shape", () => {
+    const { nodes, edges, block } = groupTwoPorts();
+    const instance = instanceOf(nodes);
+    const { nodeShapes, inputShapes } = computeCompositeShapes(
+      parseGraphToDAG(nodes, edges),
+      [block]
+    );
+
+    expect(nodeShapes.get(instance.id)).toEqual([10]);
+    expect(nodeShapes.get(getOutputKey(instance.id, "output-2"))).toEqual([6]);
+    expect(inputShapes.get("aux")).toEqual([[6]]);
+  });
+});
+
+describe("toEditableGraph and fromEditableGraph", () => {
+  it("round-trip a block with several inputs and outputs", () => {
+    const { block } = groupTwoPorts();
+    const { nodes, edges } = toEditableGraph(block);
+    const result = fromEditableGraph(nodes, edges);
+
+    expect(result).toMatchObject({
+      inputs: block.inputs,
+      outputNodeIds: block.outputNodeIds,
+    });
+  });
+
+  it("refuses an output port without a layer", () => {
+    const { block } = groupTwoPorts();
+    const { nodes, edges } = toEditableGraph(block);
+    const result = fromEditableGraph(
+      nodes,
+      edges.filter((e) => e.target !== "block-output-2")
+    );
+
+    expect(result).toEqual({
+      error: "Connect exactly one layer to block output 2",
+    });
+  });
+});
+
+describe("upgradeCompositeBlock", () => {
+  it("turns a single input and output into the first port of each", () => {
+    const { inputs, outputNodeIds, ...rest } = groupTwoPorts().block;
+    const legacy = {
+      ...rest,
+      inputNodeIds: [inputs[0][0].nodeId],
+      outputNodeId: outputNodeIds[0],
+    };
+
+    expect(upgradeCompositeBlock(legacy)).toEqual({
+      ...rest,
+      inputs: [[{ nodeId: "left" }]],
+      outputNodeIds: ["merge"],
+    });
+  });
+});
+
+describe("validateBlockRepeats", () => {
+  it("accepts missing and in-range repeat counts", () => {
+    expect(validateBlockRepeats(undefined)).toBeNull();
+    expect(validateBlockRepeats(3)).toBeNull();
+  });
+
+  it("rejects counts that are not whole numbers in range", () => {
+    expect(validateBlockRepeats(0)).not.toBeNull();
+    expect(validateBlockRepeats(2.5)).not.toBeNull();
+    expect(validateBlockRepeats(1000)).not.toBeNull();
+  });
+});
+
+describe("validateBlockInputCount", () => {
+  it("allows at most one connection per block input", () => {
+    const block = { inputs: [[{ nodeId: "a" }], [{ nodeId: "b" }]] };
+    expect(validateBlockInputCount(0, block)).toBeNull();
+    expect(validateBlockInputCount(2, block)).toBeNull();
+    expect(validateBlockInputCount(3, block)).toContain("2 inputs");
+  });
+});
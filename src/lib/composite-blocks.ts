@@ -0,0 +1,1111 @@
+/**
+ * Composite Blocks - Reusable groups of layers
+ *
+ * A composite block is a subgraph saved once per project and placed on the
+ * canvas as a single node. Analysis runs on the expanded graph, so shapes,
+ * parameter counts and lint see every inner layer, while code generation keeps
+ * each block as a Keras function or a PyTorch module.
+ *
+ * Blocks have one or more inputs and outputs, each with its own handle on
+ * the instance. An input may feed several inner layers (as in a residual
+ * connection), each output is one inner layer, and every inner layer must
+ * lead to an output. An instance can repeat its block, each repetition
+ * feeding its outputs to the next one's inputs in order, so a chain such as
+ * Conv-BN-ReLU x4 is a single node.
+ */
+
+import type { Edge, Node } from "@xyflow/react";
+import { getOutputKey, parseGraphToDAG, type DAGResult } from "./dag-parser";
+import { computeShapes, resolveInputShapes } from "./shape-computation";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Layer type stored in node.data.type for block instances
+export const COMPOSITE_LAYER_TYPE = "Composite";
+// React Flow node type that renders block instances
+export const COMPOSITE_NODE_TYPE = "compositeNode";
+
+// Separates the instance id from the inner layer id in expanded graphs
+const EXPANDED_ID_SEPARATOR = "/";
+
+// How many times an instance may apply its block in a row
+export const REPEAT_RANGE = { min: 1, max: 20 } as const;
+
+// Vertical gap between repetitions when a repeated instance is expanded
+const REPETITION_SPACING = 120;
+
+// Inner layer fed by a block input, and the named input it arrives at
+export interface BlockInputTarget {
+  nodeId: string;
+  targetHandle?: string;
+}
+
+export interface CompositeBlock {
+  id: string;
+  name: string;
+  // Inner layers, positioned relative to the block's top-left corner
+  nodes: Node[];
+  edges: Edge[];
+  // Inner layers fed by each of the block's inputs, in input order
+  inputs: BlockInputTarget[][];
+  // Inner layer behind each of the block's outputs, in output order
+  outputNodeIds: string[];
+}
+
+// Blocks saved before they could have several inputs and outputs
+export type LegacyCompositeBlock = Omit<
+  CompositeBlock,
+  "inputs" | "outputNodeIds"
+> & {
+  inputNodeIds: string[];
+  outputNodeId: string;
+};
+
+export type GroupResult =
+  | { success: true; block: CompositeBlock; nodes: Node[]; edges: Edge[] }
+  | { success: false; error: string };
+
+export interface ExpandedGraph {
+  nodes: Node[];
+  edges: Edge[];
+  // Block instance each expanded inner layer belongs to
+  ownerIds: Map<string, string>;
+  // Repetition (counted from 1) of inner layers in repeated instances
+  repetitions: Map<string, number>;
+}
+
+const getLayerType = (node: Node): string =>
+  (node.data as { type: string }).type;
+
+/**
+ * Whether a canvas node is an instance of a composite block
+ */
+export function isCompositeNode(node: Pick<Node, "data">): boolean {
+  return (node.data as { type?: string }).type === COMPOSITE_LAYER_TYPE;
+}
+
+/**
+ * Id of the block a composite node instantiates
+ */
+export function getCompositeBlockId(node: Pick<Node, "data">): string {
+  const params = (node.data as { params?: Record<string, unknown> }).params;
+  return String(params?.blockId ?? "");
+}
+
+/**
+ * How many times an instance applies its block. Instances saved before
+ * blocks could repeat apply it once.
+ */
+export function getBlockRepeats(
+  params: Record<string, unknown> | undefined
+): number {
+  const repeats = Number(params?.repeats);
+  if (!Number.isInteger(repeats) || repeats < REPEAT_RANGE.min) return 1;
+  return Math.min(repeats, REPEAT_RANGE.max);
+}
+
+/**
+ * Checks the repeat count of an instance, which may be missing
+ */
+export function validateBlockRepeats(value: unknown): string | null {
+  if (value === undefined) return null;
+  const repeats = Number(value);
+  return Number.isInteger(repeats) &&
+    repeats >= REPEAT_RANGE.min &&
+    repeats <= REPEAT_RANGE.max
+    ? null
+    : `Repeat count must be a whole number from ${REPEAT_RANGE.min} to ${REPEAT_RANGE.max}`;
+}
+
+/**
+ * Checks the number of connections into an instance against the block's
+ * inputs
+ */
+export function validateBlockInputCount(
+  inputCount: number,
+  block: Pick<CompositeBlock, "inputs">
+): string | null {
+  const portCount = block.inputs.length;
+  return inputCount > portCount
+    ? `A composite block with ${portCount} ${
+        portCount === 1 ? "input" : "inputs"
+      } has ${inputCount} layers connected to it`
+    : null;
+}
+
+/**
+ * Checks that a block can be repeated: each repetition passes its outputs to
+ * the next one's inputs, so their numbers must match
+ */
+export function validateRepeatedBlock(
+  block: Pick<CompositeBlock, "name" | "inputs" | "outputNodeIds">,
+  repeats: number
+): string | null {
+  const { inputs, outputNodeIds } = block;
+  return repeats > 1 && inputs.length !== outputNodeIds.length
+    ? `"${block.name}" cannot be repeated: it has ${inputs.length} inputs but ${outputNodeIds.length} outputs`
+    : null;
+}
+
+/**
+ * Brings a block saved with a single input and output up to date
+ */
+export function upgradeCompositeBlock(
+  block: CompositeBlock | LegacyCompositeBlock
+): CompositeBlock {
+  if (!("inputNodeIds" in block)) return block;
+  const { inputNodeIds, outputNodeId, ...rest } = block;
+  return {
+    ...rest,
+    inputs: [inputNodeIds.map((nodeId) => ({ nodeId }))],
+    outputNodeIds: [outputNodeId],
+  };
+}
+
+// ============================================================================
+// PORTS
+// ============================================================================
+
+/**
+ * Handle ids of an instance's inputs: "input-1", "input-2", ...
+ */
+export function getBlockInputHandles(
+  block: Pick<CompositeBlock, "inputs">
+): string[] {
+  return block.inputs.map((_, index) => `input-${index + 1}`);
+}
+
+/**
+ * Handle ids of an instance's outputs: "output-1", "output-2", ...
+ */
+export function getBlockOutputHandles(
+  block: Pick<CompositeBlock, "outputNodeIds">
+): string[] {
+  return block.outputNodeIds.map((_, index) => `output-${index + 1}`);
+}
+
+/**
+ * Output a connection leaves an instance from. Connections without an output
+ * handle were made when blocks had one output, and use the first.
+ */
+export function getBlockOutputIndex(
+  block: Pick<CompositeBlock, "outputNodeIds">,
+  sourceHandle?: string | null
+): number {
+  return Math.max(getBlockOutputHandles(block).indexOf(sourceHandle ?? ""), 0);
+}
+
+/**
+ * The connection into each of a block's inputs, if any. A connection without
+ * an input handle (made when blocks had one input) takes the first free
+ * input; connections beyond the block's inputs are left out.
+ */
+export function getBlockPortInputs<T extends { targetHandle?: string | null }>(
+  connections: T[],
+  block: Pick<CompositeBlock, "inputs">
+): Array<T | undefined> {
+  const ports = getBlockInputHandles(block).map((handle) =>
+    connections.find((connection) => connection.targetHandle === handle)
+  );
+  connections
+    .filter((connection) => !ports.includes(connection))
+    .forEach((connection) => {
+      const free = ports.indexOf(undefined);
+      if (free >= 0) ports[free] = connection;
+    });
+  return ports;
+}
+
+// ============================================================================
+// NAMING
+// ============================================================================
+
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Python function name for a block, e.g. "Residual Block" -> "residual_block".
+ * The "_block" suffix keeps it apart from layer variables such as "dense".
+ */
+export function getBlockFunctionName(block: Pick<CompositeBlock, "name">): string {
+  const words = splitWords(block.name).map((word) => word.toLowerCase());
+  if (words[words.length - 1] !== "block") words.push("block");
+  const name = words.join("_");
+  return /^[a-z_]/.test(name) ? name : `block_${name}`;
+}
+
+/**
+ * Python class name for a block, e.g. "residual" -> "ResidualBlock"
+ */
+export function getBlockClassName(block: Pick<CompositeBlock, "name">): string {
+  const words = splitWords(block.name).map(
+    (word) => word[0].toUpperCase() + word.slice(1)
+  );
+  if (words[words.length - 1]?.toLowerCase() !== "block") words.push("Block");
+  const name = words.join("");
+  return /^[A-Za-z_]/.test(name) ? name : `Block${name}`;
+}
+
+/**
+ * Checks a name entered for a new or renamed block
+ */
+export function validateBlockName(
+  name: string,
+  blocks: CompositeBlock[],
+  ignoreBlockId?: string
+): string | null {
+  if (splitWords(name).length === 0) {
+    return "Composite block name must contain letters or digits";
+  }
+  const className = getBlockClassName({ name });
+  const clash = blocks.find(
+    (block) =>
+      block.id !== ignoreBlockId && getBlockClassName(block) === className
+  );
+  return clash ? `A composite block named "${clash.name}" already exists` : null;
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+type BoundaryEdge = Pick<
+  Edge,
+  "source" | "target" | "sourceHandle" | "targetHandle"
+>;
+
+/**
+ * Checks that the block's layers all lead to one of its outputs
+ */
+function findDeadEnds(
+  nodeIds: string[],
+  edges: BoundaryEdge[],
+  outputNodeIds: string[]
+): string[] {
+  const reachesOutput = new Set(outputNodeIds);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    edges.forEach((edge) => {
+      if (reachesOutput.has(edge.target) && !reachesOutput.has(edge.source)) {
+        reachesOutput.add(edge.source);
+        changed = true;
+      }
+    });
+  }
+  return nodeIds.filter((id) => !reachesOutput.has(id));
+}
+
+/**
+ * Groups connections by the tensor they carry, in order of first appearance
+ */
+function groupBySource<T extends BoundaryEdge>(edges: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  edges.forEach((edge) => {
+    const key = getOutputKey(edge.source, edge.sourceHandle);
+    groups.set(key, [...(groups.get(key) ?? []), edge]);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Works out the inputs and outputs of a subgraph and checks that it can form
+ * a block. Each tensor coming in becomes an input, and each layer that leads
+ * out becomes an output.
+ */
+export function resolveBlockBoundary(
+  nodeIds: string[],
+  internalEdges: BoundaryEdge[],
+  incoming: BoundaryEdge[],
+  outgoing: BoundaryEdge[]
+): Pick<CompositeBlock, "inputs" | "outputNodeIds"> | { error: string } {
+  // Without a connection in, one input feeds the selection's sources
+  const inputs: BlockInputTarget[][] =
+    incoming.length > 0
+      ? groupBySource(incoming).map((edges) =>
+          edges.map(({ target, targetHandle }) => ({
+            nodeId: target,
+            ...(targetHandle ? { targetHandle } : {}),
+          }))
+        )
+      : [
+          nodeIds
+            .filter((id) => !internalEdges.some((edge) => edge.target === id))
+            .map((nodeId) => ({ nodeId })),
+        ];
+
+  const outputNodeIds =
+    outgoing.length > 0
+      ? [...new Set(outgoing.map((edge) => edge.source))]
+      : nodeIds.filter(
+          (id) => !internalEdges.some((edge) => edge.source === id)
+        );
+
+  const deadEnds = findDeadEnds(nodeIds, internalEdges, outputNodeIds);
+  if (deadEnds.length > 0) {
+    return {
+      error: "Every layer in the block must lead to one of its outputs",
+    };
+  }
+
+  return { inputs, outputNodeIds };
+}
+
+/**
+ * Id for an edge, unique among edges that differ only in their handles
+ */
+function getEdgeId(edge: BoundaryEdge): string {
+  return [edge.source, edge.sourceHandle, edge.target, edge.targetHandle]
+    .filter(Boolean)
+    .join("-");
+}
+
+/**
+ * Keeps only what a block needs to store about an inner layer
+ */
+function toBlockNode(node: Node, origin: { x: number; y: number }): Node {
+  const { type, params } = node.data as {
+    type: string;
+    params?: Record<string, unknown>;
+  };
+  return {
+    id: node.id,
+    type: node.type,
+    position: {
+      x: node.position.x - origin.x,
+      y: node.position.y - origin.y,
+    },
+    data: { type, params: { ...(params ?? {}) } },
+  };
+}
+
+/**
+ * Creates a canvas node placing a block at the given position
+ */
+export function createBlockInstance(
+  block: CompositeBlock,
+  position: { x: number; y: number },
+  repeats = 1
+): Node {
+  return {
+    id: `composite-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type: COMPOSITE_NODE_TYPE,
+    position,
+    data: {
+      type: COMPOSITE_LAYER_TYPE,
+      params: { blockId: block.id, repeats },
+    },
+  };
+}
+
+/**
+ * Collapses the selected layers into a new block and puts an instance of it
+ * in their place, rewiring the connections that crossed the selection. With
+ * a repeat count above one the instance applies the block that many times.
+ */
+export function groupIntoBlock(
+  nodes: Node[],
+  edges: Edge[],
+  selectedIds: string[],
+  name: string,
+  repeats = 1
+): GroupResult {
+  const selectedSet = new Set(selectedIds);
+  const selected = nodes.filter((node) => selectedSet.has(node.id));
+
+  if (selected.length < 2) {
+    return { success: false, error: "Select at least two layers to group" };
+  }
+  if (selected.some(isCompositeNode)) {
+    return {
+      success: false,
+      error: "Composite blocks cannot contain other composite blocks; expand them first",
+    };
+  }
+  if (selected.some((node) => ["Input", "Output"].includes(getLayerType(node)))) {
+    return {
+      success: false,
+      error: "Input and Output layers cannot be part of a composite block",
+    };
+  }
+
+  const internalEdges = edges.filter(
+    (edge) => selectedSet.has(edge.source) && selectedSet.has(edge.target)
+  );
+  const incoming = edges.filter(
+    (edge) => !selectedSet.has(edge.source) && selectedSet.has(edge.target)
+  );
+  const outgoing = edges.filter(
+    (edge) => selectedSet.has(edge.source) && !selectedSet.has(edge.target)
+  );
+
+  const boundary = resolveBlockBoundary(
+    selected.map((node) => node.id),
+    internalEdges,
+    incoming,
+    outgoing
+  );
+  if ("error" in boundary) {
+    return { success: false, error: boundary.error };
+  }
+  const repeatError = validateRepeatedBlock(
+    { name: name.trim(), ...boundary },
+    repeats
+  );
+  if (repeatError) {
+    return { success: false, error: repeatError };
+  }
+
+  const origin = {
+    x: Math.min(...selected.map((node) => node.position.x)),
+    y: Math.min(...selected.map((node) => node.position.y)),
+  };
+
+  const block: CompositeBlock = {
+    id: `block-${Date.now()}`,
+    name: name.trim(),
+    nodes: selected.map((node) => toBlockNode(node, origin)),
+    edges: internalEdges.map(
+      ({ id, source, target, targetHandle, type, style }) => ({
+        id,
+        source,
+        target,
+        ...(targetHandle ? { targetHandle } : {}),
+        type,
+        style,
+      })
+    ),
+    ...boundary,
+  };
+
+  const instance = createBlockInstance(block, origin, repeats);
+  const edgeTemplate = incoming[0] ?? outgoing[0] ?? internalEdges[0];
+  const connect = (edge: BoundaryEdge): Edge => ({
+    id: getEdgeId(edge),
+    source: edge.source,
+    target: edge.target,
+    ...(edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+    ...(edge.targetHandle ? { targetHandle: edge.targetHandle } : {}),
+    type: edgeTemplate?.type ?? "smoothstep",
+    style: edgeTemplate?.style,
+  });
+
+  const crossing = new Set([...internalEdges, ...incoming, ...outgoing]);
+  const inputHandles = getBlockInputHandles(block);
+  const outputHandles = getBlockOutputHandles(block);
+  const intoInstance = groupBySource(incoming).map(([edge], index) =>
+    connect({
+      source: edge.source,
+      sourceHandle: edge.sourceHandle,
+      target: instance.id,
+      targetHandle: inputHandles[index],
+    })
+  );
+  const outOfInstance = outgoing.map((edge) =>
+    connect({
+      source: instance.id,
+      sourceHandle: outputHandles[block.outputNodeIds.indexOf(edge.source)],
+      target: edge.target,
+      targetHandle: edge.targetHandle,
+    })
+  );
+
+  return {
+    success: true,
+    block,
+    nodes: [...nodes.filter((node) => !selectedSet.has(node.id)), instance],
+    edges: [
+      ...edges.filter((edge) => !crossing.has(edge)),
+      ...intoInstance,
+      // Several layers of the selection may feed the same external input
+      ...outOfInstance.filter(
+        (edge, index) =>
+          outOfInstance.findIndex((other) => other.id === edge.id) === index
+      ),
+    ],
+  };
+}
+
+/**
+ * Replaces one block instance with copies of its layers, so they can be
+ * edited individually on the canvas. A repeated instance becomes one copy
+ * per repetition, stacked below each other and chained together.
+ */
+export function ungroupBlock(
+  nodes: Node[],
+  edges: Edge[],
+  instanceId: string,
+  block: CompositeBlock
+): { nodes: Node[]; edges: Edge[] } {
+  const instance = nodes.find((node) => node.id === instanceId);
+  if (!instance) return { nodes, edges };
+
+  const repeats = getBlockRepeats(
+    (instance.data as { params?: Record<string, unknown> }).params
+  );
+  const blockHeight = Math.max(...block.nodes.map((node) => node.position.y));
+  const timestamp = Date.now();
+
+  const copies = Array.from({ length: repeats }, (_, repetition) => {
+    const idMap = new Map(
+      block.nodes.map((node) => [
+        node.id,
+        `${getLayerType(node).toLowerCase()}-${timestamp}-${Math.random()
+          .toString(36)
+          .substr(2, 9)}`,
+      ])
+    );
+    const offsetY = repetition * (blockHeight + REPETITION_SPACING);
+
+    return {
+      inputs: block.inputs.map((targets) =>
+        targets.map((target) => ({
+          ...target,
+          nodeId: idMap.get(target.nodeId)!,
+        }))
+      ),
+      outputIds: block.outputNodeIds.map((id) => idMap.get(id)!),
+      nodes: block.nodes.map((node) => ({
+        ...node,
+        id: idMap.get(node.id)!,
+        type: "layerNode",
+        position: {
+          x: instance.position.x + node.position.x,
+          y: instance.position.y + node.position.y + offsetY,
+        },
+        data: JSON.parse(JSON.stringify(node.data)),
+        selected: true,
+      })),
+      edges: block.edges.map((edge) => {
+        const copyEdge = {
+          ...edge,
+          source: idMap.get(edge.source)!,
+          target: idMap.get(edge.target)!,
+        };
+        return { ...copyEdge, id: getEdgeId(copyEdge) };
+      }),
+    };
+  });
+
+  const first = copies[0];
+  const last = copies[copies.length - 1];
+  const edgeTemplate = block.edges[0] ?? edges[0];
+  const portInputs = getBlockPortInputs(
+    edges.filter((edge) => edge.target === instanceId),
+    block
+  );
+  const rewired: Edge[] = edges.flatMap((edge) => {
+    if (edge.target === instanceId) {
+      const port = portInputs.indexOf(edge);
+      if (port < 0) return [];
+      return first.inputs[port].map(({ nodeId, targetHandle }) => {
+        const rewiredEdge = {
+          ...edge,
+          target: nodeId,
+          targetHandle: targetHandle ?? null,
+        };
+        return { ...rewiredEdge, id: getEdgeId(rewiredEdge) };
+      });
+    }
+    if (edge.source === instanceId) {
+      const source =
+        last.outputIds[getBlockOutputIndex(block, edge.sourceHandle)];
+      const rewiredEdge = { ...edge, source, sourceHandle: null };
+      return [{ ...rewiredEdge, id: getEdgeId(rewiredEdge) }];
+    }
+    return [edge];
+  });
+
+  // Each repetition is fed by the outputs of the one before it
+  const chained: Edge[] = copies.slice(1).flatMap((copy, index) =>
+    copy.inputs.flatMap((targets, port) => {
+      const source = copies[index].outputIds[port];
+      return targets.map(({ nodeId, targetHandle }) => {
+        const chainEdge = {
+          source,
+          target: nodeId,
+          ...(targetHandle ? { targetHandle } : {}),
+        };
+        return {
+          ...chainEdge,
+          id: getEdgeId(chainEdge),
+          type: edgeTemplate?.type ?? "smoothstep",
+          style: edgeTemplate?.style,
+        };
+      });
+    })
+  );
+
+  return {
+    nodes: [
+      ...nodes
+        .filter((node) => node.id !== instanceId)
+        .map((node) => ({ ...node, selected: false })),
+      ...copies.flatMap((copy) => copy.nodes),
+    ],
+    edges: [...rewired, ...copies.flatMap((copy) => copy.edges), ...chained],
+  };
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+export const BLOCK_PORT_NODE_TYPE = "blockPortNode";
+
+export type BlockPort = "input" | "output";
+
+const PORT_SPACING = 120;
+
+/**
+ * Id of the port node that stands for one of the block's inputs or outputs
+ * while it is being edited: "block-input-1", "block-output-2", ...
+ */
+export function getBlockPortId(port: BlockPort, index: number): string {
+  return `block-${port}-${index + 1}`;
+}
+
+/**
+ * Creates the port node for one of the block's inputs or outputs. The first
+ * of each kind cannot be deleted, since a block needs at least one.
+ */
+export function createBlockPortNode(
+  port: BlockPort,
+  index: number,
+  position: { x: number; y: number }
+): Node {
+  return {
+    id: getBlockPortId(port, index),
+    type: BLOCK_PORT_NODE_TYPE,
+    position,
+    data: { port, index },
+    deletable: index > 0,
+  };
+}
+
+/**
+ * Lays out a block for editing, with a row of port nodes wired to its input
+ * layers above it and one wired from its output layers below it
+ */
+export function toEditableGraph(block: CompositeBlock): {
+  nodes: Node[];
+  edges: Edge[];
+} {
+  const xs = block.nodes.map((node) => node.position.x);
+  const ys = block.nodes.map((node) => node.position.y);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const edgeStyle = block.edges[0]?.style ?? {
+    strokeWidth: 2,
+    stroke: "#6b7280",
+  };
+  const portEdge = (
+    source: string,
+    target: string,
+    targetHandle?: string
+  ): Edge => ({
+    id: getEdgeId({ source, target, targetHandle }),
+    source,
+    target,
+    ...(targetHandle ? { targetHandle } : {}),
+    type: "smoothstep",
+    style: edgeStyle,
+  });
+  const portRow = (port: BlockPort, count: number, y: number) =>
+    Array.from({ length: count }, (_, index) =>
+      createBlockPortNode(port, index, {
+        x: centerX + (index - (count - 1) / 2) * PORT_SPACING,
+        y,
+      })
+    );
+
+  return {
+    nodes: [
+      ...portRow("input", block.inputs.length, Math.min(...ys) - PORT_SPACING),
+      ...block.nodes.map((node) => ({
+        ...node,
+        data: JSON.parse(JSON.stringify(node.data)),
+      })),
+      ...portRow(
+        "output",
+        block.outputNodeIds.length,
+        Math.max(...ys) + PORT_SPACING
+      ),
+    ],
+    edges: [
+      ...block.inputs.flatMap((targets, index) =>
+        targets.map(({ nodeId, targetHandle }) =>
+          portEdge(getBlockPortId("input", index), nodeId, targetHandle)
+        )
+      ),
+      ...block.edges,
+      ...block.outputNodeIds.map((id, index) =>
+        portEdge(id, getBlockPortId("output", index))
+      ),
+    ],
+  };
+}
+
+/**
+ * Reads an edited block back from its editing graph
+ */
+export function fromEditableGraph(
+  nodes: Node[],
+  edges: Edge[]
+):
+  | Pick<CompositeBlock, "nodes" | "edges" | "inputs" | "outputNodeIds">
+  | { error: string } {
+  const portsOf = (port: BlockPort) =>
+    nodes
+      .filter(
+        (node) =>
+          node.type === BLOCK_PORT_NODE_TYPE &&
+          (node.data as { port?: string }).port === port
+      )
+      .sort(
+        (a, b) =>
+          Number((a.data as { index?: number }).index) -
+          Number((b.data as { index?: number }).index)
+      )
+      .map((node) => node.id);
+  const inputPorts = portsOf("input");
+  const outputPorts = portsOf("output");
+  const isPort = (id: string) =>
+    inputPorts.includes(id) || outputPorts.includes(id);
+  const inner = nodes.filter((node) => !isPort(node.id));
+
+  if (inner.length === 0) {
+    return { error: "A composite block needs at least one layer" };
+  }
+  if (
+    inner.some((node) =>
+      ["Input", "Output", COMPOSITE_LAYER_TYPE].includes(getLayerType(node))
+    )
+  ) {
+    return {
+      error: "Composite blocks cannot contain Input, Output or other composite blocks",
+    };
+  }
+
+  const internalEdges = edges.filter(
+    (edge) => !isPort(edge.source) && !isPort(edge.target)
+  );
+  const incoming: Edge[] = [];
+  for (const [index, port] of inputPorts.entries()) {
+    const portEdges = edges.filter((edge) => edge.source === port);
+    if (portEdges.length === 0) {
+      return {
+        error: `Connect block input ${index + 1} to at least one layer`,
+      };
+    }
+    incoming.push(...portEdges);
+  }
+  const outgoing: Edge[] = [];
+  for (const [index, port] of outputPorts.entries()) {
+    const portEdges = edges.filter((edge) => edge.target === port);
+    if (portEdges.length !== 1) {
+      return {
+        error: `Connect exactly one layer to block output ${index + 1}`,
+      };
+    }
+    outgoing.push(portEdges[0]);
+  }
+  if (new Set(outgoing.map((edge) => edge.source)).size < outgoing.length) {
+    return { error: "Each block output needs a different layer" };
+  }
+  if (!parseGraphToDAG(inner, internalEdges).isValid) {
+    return { error: "Composite blocks cannot contain cycles" };
+  }
+
+  const boundary = resolveBlockBoundary(
+    inner.map((node) => node.id),
+    internalEdges,
+    incoming,
+    outgoing
+  );
+  if ("error" in boundary) return boundary;
+
+  const origin = {
+    x: Math.min(...inner.map((node) => node.position.x)),
+    y: Math.min(...inner.map((node) => node.position.y)),
+  };
+
+  return {
+    nodes: inner.map((node) => toBlockNode(node, origin)),
+    edges: internalEdges.map(
+      ({ id, source, target, targetHandle, type, style }) => ({
+        id,
+        source,
+        target,
+        ...(targetHandle ? { targetHandle } : {}),
+        type,
+        style,
+      })
+    ),
+    ...boundary,
+  };
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Id of an inner layer of a block instance in the expanded graph; later
+ * repetitions of a repeated instance are numbered from 2
+ */
+export function getExpandedId(
+  instanceId: string,
+  innerId: string,
+  repetition = 1
+): string {
+  const prefix =
+    repetition > 1
+      ? `${instanceId}${EXPANDED_ID_SEPARATOR}${repetition}`
+      : instanceId;
+  return `${prefix}${EXPANDED_ID_SEPARATOR}${innerId}`;
+}
+
+/**
+ * Replaces every block instance with its inner layers, once per repetition,
+ * so the graph can be analysed like any other. Instances of unknown blocks
+ * are left in place.
+ */
+export function expandCompositeBlocks(
+  nodes: Node[],
+  edges: Edge[],
+  blocks: CompositeBlock[]
+): ExpandedGraph {
+  const blockById = new Map(blocks.map((block) => [block.id, block]));
+  const instances = new Map<string, { block: CompositeBlock; repeats: number }>();
+  nodes.forEach((node) => {
+    const block = isCompositeNode(node)
+      ? blockById.get(getCompositeBlockId(node))
+      : undefined;
+    if (block) {
+      const params = (node.data as { params?: Record<string, unknown> }).params;
+      instances.set(node.id, { block, repeats: getBlockRepeats(params) });
+    }
+  });
+
+  if (instances.size === 0) {
+    return { nodes, edges, ownerIds: new Map(), repetitions: new Map() };
+  }
+
+  const ownerIds = new Map<string, string>();
+  const repetitions = new Map<string, number>();
+  const expandedNodes: Node[] = [];
+  const expandedEdges: Edge[] = [];
+
+  nodes.forEach((node) => {
+    const instance = instances.get(node.id);
+    if (!instance) {
+      expandedNodes.push(node);
+      return;
+    }
+
+    const { block, repeats } = instance;
+    for (let repetition = 1; repetition <= repeats; repetition++) {
+      const expandedId = (innerId: string) =>
+        getExpandedId(node.id, innerId, repetition);
+
+      block.nodes.forEach((inner) => {
+        const id = expandedId(inner.id);
+        ownerIds.set(id, node.id);
+        if (repeats > 1) repetitions.set(id, repetition);
+        expandedNodes.push({
+          ...inner,
+          id,
+          position: {
+            x: node.position.x + inner.position.x,
+            y: node.position.y + inner.position.y,
+          },
+        });
+      });
+      block.edges.forEach((edge) => {
+        expandedEdges.push({
+          ...edge,
+          id: expandedId(edge.id),
+          source: expandedId(edge.source),
+          target: expandedId(edge.target),
+        });
+      });
+
+      // Each repetition is fed by the outputs of the one before it
+      if (repetition > 1) {
+        block.inputs.forEach((targets, port) => {
+          const source = getExpandedId(
+            node.id,
+            block.outputNodeIds[port],
+            repetition - 1
+          );
+          targets.forEach(({ nodeId, targetHandle }) => {
+            const target = expandedId(nodeId);
+            expandedEdges.push({
+              id: `${source}->${getOutputKey(target, targetHandle)}`,
+              source,
+              target,
+              ...(targetHandle ? { targetHandle } : {}),
+            });
+          });
+        });
+      }
+    }
+  });
+
+  const portInputs = new Map(
+    [...instances].map(([id, { block }]) => [
+      id,
+      getBlockPortInputs(
+        edges.filter((edge) => edge.target === id),
+        block
+      ),
+    ])
+  );
+
+  edges.forEach((edge) => {
+    const sourceInstance = instances.get(edge.source);
+    const targetInstance = instances.get(edge.target);
+    const source = sourceInstance
+      ? getExpandedId(
+          edge.source,
+          sourceInstance.block.outputNodeIds[
+            getBlockOutputIndex(sourceInstance.block, edge.sourceHandle)
+          ],
+          sourceInstance.repeats
+        )
+      : edge.source;
+    const sourceHandle = sourceInstance ? null : edge.sourceHandle;
+    const port = portInputs.get(edge.target)?.indexOf(edge) ?? -1;
+    const targets: BlockInputTarget[] = targetInstance
+      ? (targetInstance.block.inputs[port] ?? []).map((target) => ({
+          ...target,
+          nodeId: getExpandedId(edge.target, target.nodeId),
+        }))
+      : [{ nodeId: edge.target, targetHandle: edge.targetHandle ?? undefined }];
+
+    targets.forEach(({ nodeId: target, targetHandle }) => {
+      expandedEdges.push({
+        ...edge,
+        id: `${edge.id}->${getOutputKey(target, targetHandle)}`,
+        source,
+        sourceHandle,
+        target,
+        targetHandle: targetHandle ?? null,
+      });
+    });
+  });
+
+  return { nodes: expandedNodes, edges: expandedEdges, ownerIds, repetitions };
+}
+
+/**
+ * Rebuilds canvas-style nodes and edges from a DAG. Nodes keep their canvas
+ * order (the edge map's key order) rather than the topological one, since a
+ * layer without named inputs takes its inputs in that order.
+ */
+function dagToGraph(dag: DAGResult): { nodes: Node[]; edges: Edge[] } {
+  const layerById = new Map(dag.orderedNodes.map((layer) => [layer.id, layer]));
+  return {
+    nodes: Array.from(dag.edgeMap.keys()).flatMap((id) => {
+      const layer = layerById.get(id);
+      if (!layer) return [];
+      return [
+        {
+          id,
+          position: { x: 0, y: 0 },
+          data: { type: layer.type, params: layer.params },
+        },
+      ];
+    }),
+    edges: Array.from(dag.inputMap).flatMap(([target, inputs]) =>
+      inputs.map(({ sourceId: source, sourceHandle, targetHandle }) => ({
+        id: getEdgeId({ source, sourceHandle, target, targetHandle }),
+        source,
+        sourceHandle,
+        target,
+        targetHandle,
+      }))
+    ),
+  };
+}
+
+/**
+ * Records the shapes of an instance's outputs: those of its output layers in
+ * the last repetition, keyed as the instance's outputs (see getOutputKey).
+ * The instance's own id has the shape of its first output.
+ */
+export function addInstanceShapes(
+  nodeShapes: Map<string, number[]>,
+  instanceId: string,
+  block: CompositeBlock,
+  repeats: number
+): void {
+  const outputHandles = getBlockOutputHandles(block);
+  block.outputNodeIds.forEach((outputId, index) => {
+    const shape = nodeShapes.get(getExpandedId(instanceId, outputId, repeats));
+    if (!shape) return;
+    nodeShapes.set(getOutputKey(instanceId, outputHandles[index]), shape);
+    if (index === 0) nodeShapes.set(instanceId, shape);
+  });
+}
+
+/**
+ * Shapes for a DAG that may contain block instances. Inner layers are keyed
+ * by their expanded id, and instances by their outputs (see
+ * addInstanceShapes).
+ */
+export function computeCompositeShapes(
+  dag: DAGResult,
+  blocks: CompositeBlock[]
+): {
+  nodeShapes: Map<string, number[]>;
+  inputShapes: Map<string, number[][]>;
+} {
+  const graph = dagToGraph(dag);
+  const expanded = expandCompositeBlocks(graph.nodes, graph.edges, blocks);
+  const expandedDag = parseGraphToDAG(expanded.nodes, expanded.edges);
+  const { nodeShapes } = computeShapes(expandedDag);
+
+  const blockById = new Map(blocks.map((block) => [block.id, block]));
+  dag.orderedNodes.forEach((layer) => {
+    if (layer.type !== COMPOSITE_LAYER_TYPE) return;
+    const block = blockById.get(String(layer.params.blockId));
+    if (block) {
+      addInstanceShapes(
+        nodeShapes,
+        layer.id,
+        block,
+        getBlockRepeats(layer.params)
+      );
+    }
+  });
+
+  return {
+    nodeShapes,
+    inputShapes: new Map([
+      ...resolveInputShapes(expandedDag, nodeShapes),
+      ...resolveInputShapes(dag, nodeShapes),
+    ]),
+  };
+}
+
+/**
+ * Blocks used by the given layers, in order of first use
+ */
+export function getUsedBlocks(
+  layers: Array<{ type: string; params: Record<string, unknown> }>,
+  blocks: CompositeBlock[]
+): CompositeBlock[] {
+  const used = new Set(
+    layers
+      .filter((layer) => layer.type === COMPOSITE_LAYER_TYPE)
+      .map((layer) => String(layer.params.blockId))
+  );
+  return blocks.filter((block) => used.has(block.id));
+}
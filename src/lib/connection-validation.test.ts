@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkConnectionCandidates,
+  createConnectionChecker,
+  getConnectionCheckKey,
+} from "./connection-validation";
+import { createBlockInstance, type CompositeBlock } from "./composite-blocks";
+import { chain, edge, layerNode } from "../test/graph";
+
+const flatInput = (id: string, flatSize = 10) =>
+  layerNode(id, "Input", { inputType: "flat_data", flatSize });
+
+describe("createConnectionChecker", () => {
+  const nodes = [
+    flatInput("in"),
+    layerNode("d1", "Dense", { units: 8 }),
+    layerNode("d2", "Dense", { units: 8 }),
+    layerNode("d3", "Dense", { units: 5 }),
+    layerNode("add", "Merge", { mode: "add" }),
+    layerNode("conv", "Conv2D"),
+  ];
+  const fanOut = [edge("in", "d1"), edge("in", "d2"), edge("in", "d3")];
+
+  it("accepts a connection whose shapes fit", () => {
+    const check = createConnectionChecker(nodes, [edge("in", "d1")]);
+    expect(check({ source: "d1", target: "d2" }).isValid).toBe(true);
+  });
+
+  it("accepts the first edge into a layer that needs several inputs", () => {
+    const check = createConnectionChecker(nodes, fanOut);
+    expect(check({ source: "d1", target: "add" }).isValid).toBe(true);
+  });
+
+  it("rejects a second input whose shape conflicts with the first", () => {
+    const check = createConnectionChecker(nodes, [
+      ...fanOut,
+      edge("d1", "add"),
+    ]);
+    expect(check({ source: "d2", target: "add" }).isValid).toBe(true);
+    expect(check({ source: "d3", target: "add" }).isValid).toBe(false);
+  });
+
+  it("rejects a second input to a single-input layer", () => {
+    const check = createConnectionChecker(nodes, fanOut);
+    const result = check({ source: "d2", target: "d1" });
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toBeDefined();
+  });
+
+  it("rejects an input of the wrong rank", () => {
+    const check = createConnectionChecker(nodes, fanOut);
+    const result = check({ source: "d1", target: "conv" });
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toBeDefined();
+  });
+
+  it("rejects self connections and cycles", () => {
+    const check = createConnectionChecker(nodes, fanOut);
+    expect(check({ source: "d1", target: "d1" }).isValid).toBe(false);
+    expect(check({ source: "d1", target: "in" }).isValid).toBe(false);
+  });
+});
+
+describe("createConnectionChecker with named inputs", () => {
+  const sequence = (id: string, features: number) =>
+    layerNode(id, "Input", { inputType: "sequence", seqLength: 10, features });
+  const nodes = [
+    sequence("q", 16),
+    sequence("v", 32),
+    layerNode("mha", "MultiHeadAttention", { num_heads: 2 }),
+  ];
+
+  it("takes each named input once", () => {
+    const check = createConnectionChecker(nodes, [edge("q", "mha", "query")]);
+    expect(
+      check({ source: "v", target: "mha", targetHandle: "query" }).isValid
+    ).toBe(false);
+    expect(
+      check({ source: "v", target: "mha", targetHandle: "value" }).isValid
+    ).toBe(true);
+    expect(
+      check({ source: "q", target: "mha", targetHandle: "value" }).isValid
+    ).toBe(true);
+  });
+
+  it("asks for the earlier inputs first", () => {
+    const check = createConnectionChecker(nodes, []);
+    const result = check({ source: "v", target: "mha", targetHandle: "value" });
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toContain("query");
+  });
+
+  it("checks a key whose length differs from the value", () => {
+    const check = createConnectionChecker(
+      [
+        ...nodes,
+        layerNode("k", "Input", {
+          inputType: "sequence",
+          seqLength: 5,
+          features: 32,
+        }),
+      ],
+      [edge("q", "mha", "query"), edge("v", "mha", "value")]
+    );
+    expect(
+      check({ source: "k", target: "mha", targetHandle: "key" }).isValid
+    ).toBe(false);
+  });
+});
+
+describe("createConnectionChecker with composite blocks", () => {
+  const block: CompositeBlock = {
+    id: "block",
+    name: "Dense Block",
+    nodes: [layerNode("inner", "Dense", { units: 4 })],
+    edges: [],
+    inputs: [[{ nodeId: "inner" }]],
+    outputNodeIds: ["inner"],
+  };
+  const instance = { ...createBlockInstance(block, { x: 0, y: 0 }), id: "b" };
+  // Two inputs added together, and a wider projection of the first one
+  const pairBlock: CompositeBlock = {
+    id: "pair",
+    name: "Pair Block",
+    nodes: [
+      layerNode("left", "Dense", { units: 4 }),
+      layerNode("right", "Dense", { units: 4 }),
+      layerNode("add", "Merge", { mode: "add" }),
+      layerNode("wide", "Dense", { units: 8 }),
+    ],
+    edges: [edge("left", "add"), edge("right", "add"), edge("left", "wide")],
+    inputs: [[{ nodeId: "left" }], [{ nodeId: "right" }]],
+    outputNodeIds: ["add", "wide"],
+  };
+  const pair = { ...createBlockInstance(pairBlock, { x: 0, y: 0 }), id: "p" };
+
+  it("checks connections against the block's inner layers", () => {
+    const check = createConnectionChecker(
+      [flatInput("a"), instance, layerNode("conv", "Conv2D")],
+      chain("a", "b"),
+      [block]
+    );
+    expect(check({ source: "b", target: "conv" }).isValid).toBe(false);
+  });
+
+  it("rejects a second input to a block", () => {
+    const check = createConnectionChecker(
+      [flatInput("a"), flatInput("c"), instance],
+      chain("a", "b"),
+      [block]
+    );
+    const result = check({ source: "c", target: "b" });
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toContain("Dense Block");
+  });
+
+  it("takes one connection per block input", () => {
+    const check = createConnectionChecker(
+      [flatInput("a"), flatInput("c"), pair],
+      [edge("a", "p", "input-1")],
+      [pairBlock]
+    );
+    expect(
+      check({ source: "c", target: "p", targetHandle: "input-1" }).isValid
+    ).toBe(false);
+    expect(
+      check({ source: "c", target: "p", targetHandle: "input-2" }).isValid
+    ).toBe(true);
+  });
+
+  it("checks connections from each block output against its own shape", () => {
+    const check = createConnectionChecker(
+      [
+        flatInput("a"),
+        flatInput("c"),
+        flatInput("d", 4),
+        pair,
+        layerNode("merge", "Merge", { mode: "add" }),
+      ],
+      [
+        edge("a", "p", "input-1"),
+        edge("c", "p", "input-2"),
+        edge("d", "merge"),
+      ],
+      [pairBlock]
+    );
+    expect(
+      check({ source: "p", sourceHandle: "output-1", target: "merge" }).isValid
+    ).toBe(true);
+    expect(
+      check({ source: "p", sourceHandle: "output-2", target: "merge" }).isValid
+    ).toBe(false);
+  });
+});
+
+describe("checkConnectionCandidates", () => {
+  it("checks every possible target of a dragged source handle", () => {
+    const candidates = checkConnectionCandidates(
+      [
+        flatInput("in"),
+        layerNode("dense", "Dense"),
+        layerNode("conv", "Conv2D"),
+      ],
+      [],
+      "in",
+      "source"
+    );
+    expect(candidates.get("dense")?.isValid).toBe(true);
+    expect(candidates.get("conv")?.isValid).toBe(false);
+  });
+
+  it("checks each named input of a target separately", () => {
+    const candidates = checkConnectionCandidates(
+      [
+        layerNode("in", "Input", {
+          inputType: "sequence",
+          seqLength: 10,
+          features: 16,
+        }),
+        layerNode("mha", "MultiHeadAttention"),
+      ],
+      [],
+      "in",
+      "source"
+    );
+    expect(candidates.get(getConnectionCheckKey("mha", "query"))?.isValid).toBe(
+      true
+    );
+    expect(candidates.get(getConnectionCheckKey("mha", "value"))?.isValid).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Connection Validation - Checks a candidate edge before it is created
+ *
+ * Uses the shapes computed for the current graph to ask the target layer's
+ * validateInputs whether it would accept the extra input, and rejects edges
+ * that would close a cycle. Inputs are connected one at a time, so a layer
+ * that still needs more inputs (e.g. Merge) does not block the edge; missing
+ * inputs are reported with the other shape errors once the edge exists.
+ * Shapes that cannot be computed yet (unconnected layers, existing errors) do
+ * not block a connection. Block instances are checked through the layers
+ * inside them, one input and output at a time. A layer with named inputs
+ * (e.g. the query, value and key of attention) takes each of them once, in
+ * order.
+ */
+
+import type { Edge, Node } from "@xyflow/react";
+import { getOutputKey, orderLayerInputs, parseGraphToDAG } from "./dag-parser";
+import { getLayerDefinition, type LayerDefinition } from "./layer-definitions";
+import { formatOutputShape } from "./model-summary";
+import { computeShapes } from "./shape-computation";
+import {
+  addInstanceShapes,
+  expandCompositeBlocks,
+  getBlockInputHandles,
+  getBlockOutputHandles,
+  getBlockPortInputs,
+  getBlockRepeats,
+  getCompositeBlockId,
+  getExpandedId,
+  isCompositeNode,
+  type CompositeBlock,
+} from "./composite-blocks";
+
+export interface ConnectionCheck {
+  isValid: boolean;
+  reason?: string;
+}
+
+export type ConnectionEnd = "source" | "target";
+
+export interface ConnectionCandidate {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+/**
+ * Key of a check in the map built by checkConnectionCandidates: the node id,
+ * or the node and handle for a layer with named inputs or a block instance
+ */
+export function getConnectionCheckKey(
+  nodeId: string,
+  handleId?: string | null
+): string {
+  return handleId ? `${nodeId}:${handleId}` : nodeId;
+}
+
+const getLayerType = (node: Node): string =>
+  (node.data as { type: string }).type;
+
+// Further inputs a partially connected layer is assumed to be waiting for
+const MAX_PENDING_INPUTS = 2;
+
+/**
+ * Validates the inputs a layer would have after a new edge. A rejection is
+ * kept only if no further inputs could fix it: when adding copies of the
+ * new input makes the list valid, the layer just needs more connections.
+ */
+function validatePartialInputs(
+  layerDef: LayerDefinition,
+  shapes: number[][],
+  params: Record<string, unknown>
+): ReturnType<LayerDefinition["validateInputs"]> {
+  const validation = layerDef.validateInputs(shapes, params);
+  if (validation.isValid) return validation;
+
+  const pending = shapes[shapes.length - 1];
+  for (let extra = 1; extra <= MAX_PENDING_INPUTS; extra++) {
+    const completed = [...shapes, ...Array(extra).fill(pending)];
+    if (layerDef.validateInputs(completed, params).isValid) {
+      return { isValid: true };
+    }
+  }
+  return validation;
+}
+
+/**
+ * Validates a layer's inputs with a new one added where the layer would take
+ * it, or returns null while some of the shapes are unknown
+ */
+function validateWithNewInput(
+  layerDef: LayerDefinition,
+  params: Record<string, unknown>,
+  inputs: Array<{ targetHandle?: string | null; shape?: number[] }>,
+  newInput: { targetHandle?: string | null; shape: number[] }
+): ReturnType<LayerDefinition["validateInputs"]> | null {
+  const ordered = orderLayerInputs(
+    [...inputs, newInput],
+    layerDef.inputHandles
+  );
+  if (ordered.some((input) => !input.shape)) return null;
+
+  const shapes = ordered.map((input) => input.shape as number[]);
+  // Shapes in the order the layer would take them; more inputs may follow
+  // when the new one comes last
+  return ordered.indexOf(newInput) === shapes.length - 1
+    ? validatePartialInputs(layerDef, shapes, params)
+    : layerDef.validateInputs(shapes, params);
+}
+
+/**
+ * Prepares shapes and adjacency once so many candidates can be checked cheaply
+ */
+export function createConnectionChecker(
+  nodes: Node[],
+  edges: Edge[],
+  blocks: CompositeBlock[] = []
+): (connection: ConnectionCandidate) => ConnectionCheck {
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, Edge[]>();
+  edges.forEach((edge) => {
+    outgoing.set(edge.source, [
+      ...(outgoing.get(edge.source) ?? []),
+      edge.target,
+    ]);
+    incoming.set(edge.target, [...(incoming.get(edge.target) ?? []), edge]);
+  });
+
+  // A cyclic graph has no shapes, which leaves only the structural checks
+  const expanded = expandCompositeBlocks(nodes, edges, blocks);
+  const dag = parseGraphToDAG(expanded.nodes, expanded.edges);
+  const nodeShapes = dag.isValid
+    ? computeShapes(dag).nodeShapes
+    : new Map<string, number[]>();
+
+  // A block instance outputs what the output layers of its last repetition do
+  const blockById = new Map(blocks.map((block) => [block.id, block]));
+  const getBlock = (node: Node) =>
+    isCompositeNode(node) ? blockById.get(getCompositeBlockId(node)) : undefined;
+  nodes.forEach((node) => {
+    const block = getBlock(node);
+    const params = (node.data as { params?: Record<string, unknown> }).params;
+    if (block) {
+      addInstanceShapes(nodeShapes, node.id, block, getBlockRepeats(params));
+    }
+  });
+  const getSourceShape = (connection: Pick<Edge, "source" | "sourceHandle">) =>
+    nodeShapes.get(getOutputKey(connection.source, connection.sourceHandle));
+
+  // Without named inputs a layer takes its inputs in the order of their
+  // source nodes
+  const nodeIndex = new Map(nodes.map((node, index) => [node.id, index]));
+  const sortBySourceOrder = (connections: Edge[]) =>
+    [...connections].sort(
+      (a, b) => nodeIndex.get(a.source)! - nodeIndex.get(b.source)!
+    );
+
+  const canReach = (fromId: string, toId: string): boolean => {
+    const visited = new Set<string>();
+    const stack = [fromId];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === toId) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      stack.push(...(outgoing.get(current) ?? []));
+    }
+    return false;
+  };
+
+  // Every layer fed by the block input has to accept the source's output
+  const checkBlockInput = (
+    block: CompositeBlock,
+    instanceId: string,
+    port: number,
+    sourceType: string,
+    sourceShape: number[]
+  ): ConnectionCheck => {
+    for (const { nodeId, targetHandle } of block.inputs[port]) {
+      const inner = block.nodes.find((node) => node.id === nodeId);
+      const layerDef = inner && getLayerDefinition(getLayerType(inner));
+      if (!inner || !layerDef) continue;
+
+      const innerInputs = (
+        dag.inputMap.get(getExpandedId(instanceId, nodeId)) ?? []
+      ).map((input) => ({
+        targetHandle: input.targetHandle,
+        shape: nodeShapes.get(getOutputKey(input.sourceId, input.sourceHandle)),
+      }));
+      const params =
+        (inner.data as { params?: Record<string, unknown> }).params ?? {};
+      const validation = validateWithNewInput(layerDef, params, innerInputs, {
+        targetHandle,
+        shape: sourceShape,
+      });
+      if (validation && !validation.isValid) {
+        return {
+          isValid: false,
+          reason: `${sourceType} output ${formatOutputShape(sourceShape)}: ${
+            block.name
+          } › ${getLayerType(inner)}: ${
+            validation.errorMessage || "invalid input"
+          }`,
+        };
+      }
+    }
+
+    return { isValid: true };
+  };
+
+  return ({ source, target, sourceHandle = null, targetHandle = null }) => {
+    const sourceNode = nodeMap.get(source);
+    const targetNode = nodeMap.get(target);
+    if (!sourceNode || !targetNode) {
+      return { isValid: false, reason: "Block not found" };
+    }
+
+    const sourceType = getLayerType(sourceNode);
+    const targetType = getLayerType(targetNode);
+
+    if (source === target) {
+      return { isValid: false, reason: "A block cannot connect to itself" };
+    }
+    if (sourceType === "Output") {
+      return { isValid: false, reason: "Output blocks have no outputs" };
+    }
+    if (targetType === "Input") {
+      return { isValid: false, reason: "Input blocks do not accept inputs" };
+    }
+    const targetEdges = incoming.get(target) ?? [];
+    if (
+      targetEdges.some(
+        (edge) =>
+          edge.source === source &&
+          (edge.sourceHandle ?? null) === (sourceHandle ?? null) &&
+          (edge.targetHandle ?? null) === (targetHandle ?? null)
+      )
+    ) {
+      return { isValid: false, reason: "These blocks are already connected" };
+    }
+    if (canReach(target, source)) {
+      return {
+        isValid: false,
+        reason: `${targetType} already feeds ${sourceType}; this connection would create a cycle`,
+      };
+    }
+
+    const sourceShape = getSourceShape({ source, sourceHandle });
+    const targetBlock = getBlock(targetNode);
+    if (targetBlock) {
+      // A connection without an input handle takes the first free input
+      const portInputs = getBlockPortInputs(targetEdges, targetBlock);
+      const requested = targetHandle
+        ? getBlockInputHandles(targetBlock).indexOf(targetHandle)
+        : -1;
+      const port = requested >= 0 ? requested : portInputs.indexOf(undefined);
+      if (port < 0) {
+        return {
+          isValid: false,
+          reason: `Composite block "${targetBlock.name}" already has its ${
+            targetBlock.inputs.length === 1 ? "input" : "inputs"
+          } connected`,
+        };
+      }
+      if (portInputs[port]) {
+        return {
+          isValid: false,
+          reason: `Input ${port + 1} of composite block "${targetBlock.name}" is already connected`,
+        };
+      }
+      return sourceShape
+        ? checkBlockInput(targetBlock, target, port, sourceType, sourceShape)
+        : { isValid: true };
+    }
+
+    const layerDef = getLayerDefinition(targetType);
+    const inputHandles = layerDef?.inputHandles ?? [];
+    const handleIndex = targetHandle ? inputHandles.indexOf(targetHandle) : -1;
+    if (handleIndex >= 0) {
+      if (targetEdges.some((edge) => edge.targetHandle === targetHandle)) {
+        return {
+          isValid: false,
+          reason: `The ${targetHandle} input of ${targetType} is already connected`,
+        };
+      }
+      // A gap would shift the later inputs into the missing one's place
+      if (targetEdges.length < handleIndex) {
+        return {
+          isValid: false,
+          reason: `Connect the ${inputHandles[targetEdges.length]} input of ${targetType} first`,
+        };
+      }
+    }
+
+    if (!sourceShape || !layerDef) return { isValid: true };
+
+    const params =
+      (targetNode.data as { params?: Record<string, unknown> }).params ?? {};
+    const validation = validateWithNewInput(
+      layerDef,
+      params,
+      sortBySourceOrder(targetEdges).map((edge) => ({
+        targetHandle: edge.targetHandle,
+        shape: getSourceShape(edge),
+      })),
+      { targetHandle, shape: sourceShape }
+    );
+    if (validation && !validation.isValid) {
+      return {
+        isValid: false,
+        reason: `${sourceType} output ${formatOutputShape(sourceShape)}: ${
+          validation.errorMessage || `invalid input for ${targetType}`
+        }`,
+      };
+    }
+
+    return { isValid: true };
+  };
+}
+
+/**
+ * Checks every block that could sit at the other end of a connection being
+ * dragged from the given handle, keyed with getConnectionCheckKey: by block
+ * id, or per handle for a target with named inputs or a block instance
+ */
+export function checkConnectionCandidates(
+  nodes: Node[],
+  edges: Edge[],
+  nodeId: string,
+  handleType: ConnectionEnd,
+  blocks: CompositeBlock[] = [],
+  handleId: string | null = null
+): Map<string, ConnectionCheck> {
+  const check = createConnectionChecker(nodes, edges, blocks);
+  const results = new Map<string, ConnectionCheck>();
+  const blockById = new Map(blocks.map((block) => [block.id, block]));
+
+  nodes.forEach((node) => {
+    if (node.id === nodeId) return;
+    const block = isCompositeNode(node)
+      ? blockById.get(getCompositeBlockId(node))
+      : undefined;
+
+    if (handleType === "target") {
+      const outputHandles = block ? getBlockOutputHandles(block) : [null];
+      outputHandles.forEach((sourceHandle) => {
+        results.set(
+          getConnectionCheckKey(node.id, sourceHandle),
+          check({
+            source: node.id,
+            sourceHandle,
+            target: nodeId,
+            targetHandle: handleId,
+          })
+        );
+      });
+      return;
+    }
+
+    const inputHandles = block
+      ? getBlockInputHandles(block)
+      : (getLayerDefinition(getLayerType(node))?.inputHandles ?? []);
+    if (inputHandles.length === 0) {
+      results.set(
+        node.id,
+        check({ source: nodeId, sourceHandle: handleId, target: node.id })
+      );
+    }
+    inputHandles.forEach((targetHandle) => {
+      results.set(
+        getConnectionCheckKey(node.id, targetHandle),
+        check({
+          source: nodeId,
+          sourceHandle: handleId,
+          target: node.id,
+          targetHandle,
+        })
+      );
+    });
+  });
+
+  return results;
+}
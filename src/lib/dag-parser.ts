@@ -7,6 +7,7 @@
 
 import type { Node, Edge } from "@xyflow/react";
 import type { LayerParams } from "./layers/parameters";
+import { getLayerDefinition } from "./layer-definitions";
 import graphlib from "graphlib";
 
 export interface LayerObject {
@@ -16,9 +17,33 @@ export interface LayerObject {
   varName: string;
 }
 
+/**
+ * A connection into a layer
+ */
+export interface LayerInput {
+  sourceId: string;
+  // Output the connection leaves from, for sources with several outputs
+  sourceHandle?: string;
+  // Named input the connection arrives at, e.g. the value of attention
+  targetHandle?: string;
+}
+
+/**
+ * Key of the tensor a connection carries: the source node, or one output of
+ * a node with several (a composite block instance)
+ */
+export function getOutputKey(
+  sourceId: string,
+  sourceHandle?: string | null
+): string {
+  return sourceHandle ? `${sourceId}:${sourceHandle}` : sourceId;
+}
+
 export interface DAGResult {
   orderedNodes: LayerObject[];
   edgeMap: Map<string, string[]>;
+  // Connections into each node, in the order the layer takes its inputs
+  inputMap: Map<string, LayerInput[]>;
   isValid: boolean;
   errors: string[];
 }
@@ -39,29 +64,107 @@ function convertToLayerParams(params: Record<string, unknown>): LayerParams {
   return result;
 }
 
+// Layers whose `name` parameter becomes their variable name
+const NAMED_LAYER_TYPES = new Set(["Input", "Output"]);
+
 function generateVariableNames(
   orderedNodeIds: string[],
   nodeMap: Map<string, Node>
 ): Map<string, string> {
   const typeCounters = new Map<string, number>();
   const varNames = new Map<string, string>();
+  const usedNames = new Set<string>();
 
   for (const nodeId of orderedNodeIds) {
     const node = nodeMap.get(nodeId);
     if (!node) throw new Error(`Node '${nodeId}' not found`);
 
-    const type = (node.data as { type: string }).type;
-    const counter = typeCounters.get(type) || 0;
-    typeCounters.set(type, counter + 1);
+    const { type, params } = node.data as {
+      type: string;
+      params?: Record<string, unknown>;
+    };
+
+    // Named inputs and output heads keep their name unless already taken
+    let varName = NAMED_LAYER_TYPES.has(type)
+      ? String(params?.name ?? "").trim()
+      : "";
+
+    while (!varName || usedNames.has(varName)) {
+      const counter = typeCounters.get(type) || 0;
+      typeCounters.set(type, counter + 1);
+      varName =
+        counter === 0 ? type.toLowerCase() : `${type.toLowerCase()}_${counter}`;
+    }
 
-    const varName =
-      counter === 0 ? type.toLowerCase() : `${type.toLowerCase()}_${counter}`;
+    usedNames.add(varName);
     varNames.set(nodeId, varName);
   }
 
   return varNames;
 }
 
+/**
+ * Orders the connections into one layer. Connections to a named input take
+ * that input's place; the others, such as connections saved before the
+ * layer had named inputs, fill the remaining places in the given order.
+ */
+export function orderLayerInputs<T extends { targetHandle?: string | null }>(
+  connections: T[],
+  inputHandles: string[] = []
+): T[] {
+  const rank = (connection: T) =>
+    connection.targetHandle
+      ? inputHandles.indexOf(connection.targetHandle)
+      : -1;
+  const named = connections
+    .filter((connection) => rank(connection) >= 0)
+    .sort((a, b) => rank(a) - rank(b));
+  const unnamed = connections.filter((connection) => rank(connection) < 0);
+
+  const ordered: T[] = [];
+  inputHandles.forEach((_, index) => {
+    const connection = named.find((c) => rank(c) === index) ?? unnamed.shift();
+    if (connection) ordered.push(connection);
+  });
+  return [
+    ...ordered,
+    ...named.filter((connection) => !ordered.includes(connection)),
+    ...unnamed,
+  ];
+}
+
+/**
+ * Connections into each node. Without named inputs a layer takes its inputs
+ * in the order their sources appear in `nodes`.
+ */
+function buildInputMap(
+  nodes: Node[],
+  edges: Edge[]
+): Map<string, LayerInput[]> {
+  const nodeIndex = new Map(nodes.map((node, index) => [node.id, index]));
+  const sourceOrder = edges
+    .filter((edge) => nodeIndex.has(edge.source) && nodeIndex.has(edge.target))
+    .sort((a, b) => nodeIndex.get(a.source)! - nodeIndex.get(b.source)!);
+
+  return new Map(
+    nodes.map((node) => {
+      const { type } = node.data as { type: string };
+      const connections = sourceOrder.filter((edge) => edge.target === node.id);
+      return [
+        node.id,
+        orderLayerInputs(
+          connections,
+          getLayerDefinition(type)?.inputHandles
+        ).map((edge) => ({
+          sourceId: edge.source,
+          ...(edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+          ...(edge.targetHandle ? { targetHandle: edge.targetHandle } : {}),
+        })),
+      ];
+    })
+  );
+}
+
 export function parseGraphToDAG(nodes: Node[], edges: Edge[]): DAGResult {
   const errors: string[] = [];
 
@@ -69,6 +172,7 @@ export function parseGraphToDAG(nodes: Node[], edges: Edge[]): DAGResult {
     return {
       orderedNodes: [],
       edgeMap: new Map(),
+      inputMap: new Map(),
       isValid: false,
       errors: ["Network must have at least one layer"],
     };
@@ -103,7 +207,13 @@ export function parseGraphToDAG(nodes: Node[], edges: Edge[]): DAGResult {
     errors.push("Network contains cycles - DAG structure required");
 
   if (errors.length > 0) {
-    return { orderedNodes: [], edgeMap: new Map(), isValid: false, errors };
+    return {
+      orderedNodes: [],
+      edgeMap: new Map(),
+      inputMap: new Map(),
+      isValid: false,
+      errors,
+    };
   }
 
   // Generate ordered nodes with variable names
@@ -133,5 +243,28 @@ export function parseGraphToDAG(nodes: Node[], edges: Edge[]): DAGResult {
     edgeMap.set(node.id, targets);
   });
 
-  return { orderedNodes, edgeMap, isValid: true, errors: [] };
+  return {
+    orderedNodes,
+    edgeMap,
+    inputMap: buildInputMap(nodes, edges),
+    isValid: true,
+    errors: [],
+  };
+}
+
+/**
+ * Counts the pieces the graph falls into when edge direction is ignored
+ */
+export function countConnectedComponents(
+  nodes: Pick<Node, "id">[],
+  edges: Pick<Edge, "source" | "target">[]
+): number {
+  const graph = new graphlib.Graph();
+  nodes.forEach((node) => graph.setNode(node.id));
+  edges.forEach((edge) => {
+    if (graph.hasNode(edge.source) && graph.hasNode(edge.target)) {
+      graph.setEdge(edge.source, edge.target);
+    }
+  });
+  return graphlib.alg.components(graph).length;
 }
@@ -16,7 +16,36 @@ import type {
 } from "@xyflow/react";
 import { parseGraphToDAG } from "./dag-parser";
 import { computeShapes } from "./shape-computation";
-import { getLayerDefinition } from "./layer-definitions";
+import { computeModelSummary } from "./model-summary";
+import { validateGraphParameters } from "./layers/validation";
+import { lintArchitecture, type LintIssue } from "./architecture-lint";
+import { collectProblems, type Problem } from "./problems";
+import { arrangeNodes, type LayoutDirection } from "./graph-layout";
+import {
+  checkConnectionCandidates,
+  createConnectionChecker,
+  getConnectionCheckKey,
+  type ConnectionCheck,
+  type ConnectionEnd,
+} from "./connection-validation";
+import {
+  DEFAULT_TRAINING_CONFIG,
+  type TrainingConfig,
+} from "./training-config";
+import {
+  expandCompositeBlocks,
+  getBlockInputHandles,
+  getBlockOutputHandles,
+  getBlockRepeats,
+  getCompositeBlockId,
+  groupIntoBlock,
+  isCompositeNode,
+  ungroupBlock,
+  validateBlockInputCount,
+  validateBlockRepeats,
+  validateRepeatedBlock,
+  type CompositeBlock,
+} from "./composite-blocks";
 
 /**
  * State interface for the flow editor store
@@ -26,8 +55,43 @@ interface FlowState {
   nodes: Node[];
   edges: Edge[];
   
+  // Project-level training settings used by the code generators
+  trainingConfig: TrainingConfig;
+  setTrainingConfig: (config: Partial<TrainingConfig>) => void;
+
+  // Architecture lint findings and the rules switched off for this project
+  lintIssues: LintIssue[];
+  disabledLintRules: string[];
+
+  // Every error and warning for the problems panel
+  problems: Problem[];
+  setDisabledLintRules: (ruleIds: string[]) => void;
+
+  // Reusable blocks defined in this project; instances on the canvas refer
+  // to them by id, so editing a block updates every instance
+  compositeBlocks: CompositeBlock[];
+  setCompositeBlocks: (blocks: CompositeBlock[]) => void;
+  groupIntoBlock: (
+    nodeIds: string[],
+    name: string,
+    repeats?: number
+  ) => string | null;
+  ungroupBlock: (nodeId: string) => void;
+  updateCompositeBlock: (
+    blockId: string,
+    changes: Partial<Omit<CompositeBlock, "id">>
+  ) => void;
+  deleteCompositeBlock: (blockId: string) => void;
+  editingBlockId: string | null;
+  setEditingBlockId: (blockId: string | null) => void;
+
   // History management
-  history: Array<{ nodes: Node[]; edges: Edge[] }>;
+  // Entries persisted before blocks were tracked have no compositeBlocks
+  history: Array<{
+    nodes: Node[];
+    edges: Edge[];
+    compositeBlocks?: CompositeBlock[];
+  }>;
   historyIndex: number;
 
   // Core state operations
@@ -40,10 +104,31 @@ interface FlowState {
   onNodesChange: (changes: NodeChange[]) => void;
   onEdgesChange: (changes: EdgeChange[]) => void;
   onConnect: (connection: Connection) => void;
+
+  // Connection checks while an edge is being dragged
+  connectionChecks: Map<string, ConnectionCheck> | null;
+  startConnectionCheck: (
+    nodeId: string,
+    handleType: ConnectionEnd,
+    handleId?: string | null
+  ) => void;
+  clearConnectionCheck: () => void;
+  isValidConnection: (connection: Connection | Edge) => boolean;
   
   // User actions
   addNode: (node: Node) => void;
   addNodesAndEdges: (newNodes: Node[], newEdges: Edge[]) => void;
+  insertNodeOnEdge: (node: Node, edgeId: string) => boolean;
+  deleteElements: (nodeIds: string[], edgeIds: string[]) => void;
+
+  // Automatic layout
+  layoutDirection: LayoutDirection;
+  autoArrangeTemplates: boolean;
+  setLayoutOptions: (options: {
+    layoutDirection?: LayoutDirection;
+    autoArrangeTemplates?: boolean;
+  }) => void;
+  autoArrange: (direction?: LayoutDirection) => boolean;
   
   // Copy-paste functionality
   copiedNodes: Node[];
@@ -72,7 +157,6 @@ interface FlowState {
  * Configuration constants for the flow store
  */
 const SHAPE_UPDATE_DEBOUNCE_MS = 100;
-const DEFAULT_INPUT_SHAPE = "(28, 28, 1)";
 const MAX_HISTORY_SIZE = 10;
 
 /**
@@ -91,49 +175,101 @@ const scheduleShapeUpdate = (updateFn: () => void) => {
 };
 
 /**
- * Helper function to compute input shape from Input node
+ * Parameter errors of every node on the canvas
  */
-const getInputShape = (nodes: Node[]): string => {
-  const inputNode = nodes.find((node) => node.data.type === "Input");
+const getParamErrors = (nodes: Node[]): Map<string, string[]> => {
+  const errors = validateGraphParameters(
+    nodes
+      .filter((node) => !isCompositeNode(node))
+      .map((node) => ({
+        id: node.id,
+        type: node.data.type as string,
+        params: (node.data.params ?? {}) as Record<string, unknown>,
+      }))
+  );
 
-  if (!inputNode?.data.params) {
-    return DEFAULT_INPUT_SHAPE;
-  }
+  // Instances left after expansion refer to a block that no longer exists
+  nodes.filter(isCompositeNode).forEach((node) => {
+    errors.set(node.id, [
+      `Composite block "${getCompositeBlockId(node)}" is not defined in this project`,
+    ]);
+  });
 
-  const params = inputNode.data.params as Record<string, unknown>;
-  const inputLayerDef = getLayerDefinition("Input");
+  return errors;
+};
 
-  if (inputLayerDef) {
-    const computedShape = inputLayerDef.computeShape([], params);
-    if (computedShape) {
-      return `(${computedShape.join(", ")})`;
-    }
-  }
+/**
+ * Moves messages about layers inside blocks onto the block instance,
+ * prefixed with the inner layer's name
+ */
+const mapToInstances = (
+  messages: Map<string, string[]>,
+  ownerIds: Map<string, string>,
+  layerNames: Map<string, string>
+): Map<string, string[]> => {
+  const mapped = new Map<string, string[]>();
+  messages.forEach((list, nodeId) => {
+    const ownerId = ownerIds.get(nodeId);
+    const prefixed = ownerId
+      ? list.map((message) => `${layerNames.get(nodeId)}: ${message}`)
+      : list;
+    const targetId = ownerId ?? nodeId;
+    mapped.set(targetId, [...(mapped.get(targetId) ?? []), ...prefixed]);
+  });
+  return mapped;
+};
 
-  // Legacy fallback
-  if (params.shape && typeof params.shape === "string") {
-    return params.shape;
-  }
+/**
+ * Combines several messages for the same node into one line
+ */
+const joinMessages = (messages: Map<string, string[]>): Map<string, string> =>
+  new Map(
+    Array.from(messages, ([nodeId, list]) => [nodeId, list.join("; ")])
+  );
 
-  return DEFAULT_INPUT_SHAPE;
-};
+/**
+ * Per-node diagnostics and estimates shown on the canvas
+ */
+interface NodeDiagnostics {
+  shapeErrors: Map<string, string>;
+  paramErrors: Map<string, string>;
+  lintWarnings?: Map<string, string>;
+  paramCounts?: Map<string, number>;
+  macCounts?: Map<string, number>;
+}
 
 /**
- * Helper function to update nodes with error information
+ * Helper function to update nodes with error and parameter count information
  */
 const updateNodesWithErrors = (
   nodes: Node[],
-  errorMap: Map<string, string>
+  {
+    shapeErrors,
+    paramErrors,
+    lintWarnings = new Map(),
+    paramCounts = new Map(),
+    macCounts = new Map(),
+  }: NodeDiagnostics
 ): { nodes: Node[]; hasChanges: boolean } => {
   let hasChanges = false;
 
   const updatedNodes = nodes.map((node) => {
-    const hasError = errorMap.has(node.id);
-    const errorMessage = errorMap.get(node.id);
+    const hasError = shapeErrors.has(node.id);
+    const errorMessage = shapeErrors.get(node.id);
+    const hasParamError = paramErrors.has(node.id);
+    const paramErrorMessage = paramErrors.get(node.id);
+    const lintMessage = lintWarnings.get(node.id);
+    const paramCount = paramCounts.get(node.id);
+    const macs = macCounts.get(node.id);
 
     if (
       node.data.hasShapeError !== hasError ||
-      node.data.shapeErrorMessage !== errorMessage
+      node.data.shapeErrorMessage !== errorMessage ||
+      node.data.hasParamError !== hasParamError ||
+      node.data.paramErrorMessage !== paramErrorMessage ||
+      node.data.lintMessage !== lintMessage ||
+      node.data.paramCount !== paramCount ||
+      node.data.macs !== macs
     ) {
       hasChanges = true;
       return {
@@ -142,6 +278,11 @@ const updateNodesWithErrors = (
           ...node.data,
           hasShapeError: hasError,
           shapeErrorMessage: errorMessage,
+          hasParamError,
+          paramErrorMessage,
+          lintMessage,
+          paramCount,
+          macs,
         },
       };
     }
@@ -158,6 +299,15 @@ export const useFlowStore = create<FlowState>((set, get) => ({
   history: [],
   historyIndex: -1,
   _isRestoringFromHistory: false,
+  trainingConfig: DEFAULT_TRAINING_CONFIG,
+  layoutDirection: "TB",
+  autoArrangeTemplates: false,
+  lintIssues: [],
+  disabledLintRules: [],
+  problems: [],
+  compositeBlocks: [],
+  editingBlockId: null,
+  connectionChecks: null,
   
   // Copy-paste state
   copiedNodes: [],
@@ -165,14 +315,17 @@ export const useFlowStore = create<FlowState>((set, get) => ({
 
   // History management
   saveToHistory: () => {
-    const { nodes, edges, history, historyIndex, _isRestoringFromHistory } = get();
+    const { nodes, edges, compositeBlocks, history, historyIndex, _isRestoringFromHistory } = get();
     
     // Don't save to history if we're currently restoring from history
     if (_isRestoringFromHistory) return;
     
+    // Blocks are kept with the graph so undo never leaves an instance
+    // without its definition
     const newHistoryEntry = { 
       nodes: JSON.parse(JSON.stringify(nodes)), 
-      edges: JSON.parse(JSON.stringify(edges)) 
+      edges: JSON.parse(JSON.stringify(edges)),
+      compositeBlocks: JSON.parse(JSON.stringify(compositeBlocks))
     };
     
     // Remove any future history if we're not at the end
@@ -210,6 +363,140 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     scheduleShapeUpdate(() => get().updateShapeErrors());
   },
 
+  setTrainingConfig: (config: Partial<TrainingConfig>) => {
+    set({ trainingConfig: { ...get().trainingConfig, ...config } });
+    // Lint rules such as the softmax/loss check depend on the training setup
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+  },
+
+  setDisabledLintRules: (ruleIds: string[]) => {
+    set({ disabledLintRules: ruleIds });
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+  },
+
+  setCompositeBlocks: (blocks: CompositeBlock[]) => {
+    set({ compositeBlocks: blocks });
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+  },
+
+  groupIntoBlock: (nodeIds: string[], name: string, repeats?: number) => {
+    const { nodes, edges, compositeBlocks } = get();
+    const result = groupIntoBlock(nodes, edges, nodeIds, name, repeats);
+    if (!result.success) return result.error;
+
+    set({
+      nodes: result.nodes,
+      edges: result.edges,
+      compositeBlocks: [...compositeBlocks, result.block],
+    });
+
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+    return null;
+  },
+
+  ungroupBlock: (nodeId: string) => {
+    const { nodes, edges, compositeBlocks } = get();
+    const node = nodes.find((n) => n.id === nodeId);
+    const block =
+      node &&
+      compositeBlocks.find((b) => b.id === getCompositeBlockId(node));
+    if (!block) return;
+
+    // The definition stays available for other instances and the palette
+    set(ungroupBlock(nodes, edges, nodeId, block));
+
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+  },
+
+  updateCompositeBlock: (blockId, changes) => {
+    const compositeBlocks = get().compositeBlocks.map((block) =>
+      block.id === blockId ? { ...block, ...changes } : block
+    );
+    const block = compositeBlocks.find((b) => b.id === blockId);
+    const instanceIds = new Set(
+      get()
+        .nodes.filter(
+          (node) =>
+            isCompositeNode(node) && getCompositeBlockId(node) === blockId
+        )
+        .map((node) => node.id)
+    );
+    // Connections to inputs or outputs the block no longer has are dropped
+    const isRemovedPort = (
+      nodeId: string,
+      handle: string | null | undefined,
+      handles: string[]
+    ) => instanceIds.has(nodeId) && !!handle && !handles.includes(handle);
+    const edges = block
+      ? get().edges.filter(
+          (edge) =>
+            !isRemovedPort(
+              edge.target,
+              edge.targetHandle,
+              getBlockInputHandles(block)
+            ) &&
+            !isRemovedPort(
+              edge.source,
+              edge.sourceHandle,
+              getBlockOutputHandles(block)
+            )
+        )
+      : get().edges;
+
+    set({ compositeBlocks, edges });
+
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+  },
+
+  setEditingBlockId: (blockId: string | null) => {
+    // Nothing stays selected on the canvas while a block is edited, so
+    // keyboard deletes in the editor cannot remove canvas elements
+    if (blockId) {
+      set({
+        nodes: get().nodes.map((node) =>
+          node.selected ? { ...node, selected: false } : node
+        ),
+        edges: get().edges.map((edge) =>
+          edge.selected ? { ...edge, selected: false } : edge
+        ),
+      });
+    }
+    set({ editingBlockId: blockId });
+  },
+
+  deleteCompositeBlock: (blockId: string) => {
+    const { nodes, compositeBlocks } = get();
+
+    // Blocks still placed on the canvas cannot be removed
+    if (
+      nodes.some(
+        (node) => isCompositeNode(node) && getCompositeBlockId(node) === blockId
+      )
+    ) {
+      return;
+    }
+
+    set({
+      compositeBlocks: compositeBlocks.filter((block) => block.id !== blockId),
+    });
+
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+  },
+
   // React Flow event handlers
   onNodesChange: (changes: NodeChange[]) => {
     // Save to history BEFORE applying changes for certain operations
@@ -245,6 +532,8 @@ export const useFlowStore = create<FlowState>((set, get) => ({
   },
 
   onConnect: (connection: Connection) => {
+    if (!get().isValidConnection(connection)) return;
+
     // Save to history BEFORE creating new connection
     if (!get()._isRestoringFromHistory) {
       get().saveToHistory();
@@ -262,6 +551,48 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     scheduleShapeUpdate(() => get().updateShapeErrors());
   },
 
+  startConnectionCheck: (
+    nodeId: string,
+    handleType: ConnectionEnd,
+    handleId?: string | null
+  ) => {
+    const { nodes, edges, compositeBlocks } = get();
+    set({
+      connectionChecks: checkConnectionCandidates(
+        nodes,
+        edges,
+        nodeId,
+        handleType,
+        compositeBlocks,
+        handleId
+      ),
+    });
+  },
+
+  clearConnectionCheck: () => {
+    set({ connectionChecks: null });
+  },
+
+  isValidConnection: (connection: Connection | Edge) => {
+    const { nodes, edges, connectionChecks, compositeBlocks } = get();
+
+    // During a drag the candidates were already checked when it started
+    const cached =
+      connectionChecks?.get(
+        getConnectionCheckKey(connection.target, connection.targetHandle)
+      ) ??
+      connectionChecks?.get(
+        getConnectionCheckKey(connection.source, connection.sourceHandle)
+      );
+    if (cached) return cached.isValid;
+
+    return createConnectionChecker(
+      nodes,
+      edges,
+      compositeBlocks
+    )(connection).isValid;
+  },
+
   // User actions
   addNode: (node: Node) => {
     // Apply the change first
@@ -294,6 +625,106 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     scheduleShapeUpdate(() => get().updateShapeErrors());
   },
 
+  insertNodeOnEdge: (node: Node, edgeId: string) => {
+    const { nodes, edges } = get();
+    const edge = edges.find((e) => e.id === edgeId);
+    const type = (node.data as { type: string }).type;
+
+    // Input and Output blocks only have one side to connect
+    if (!edge || type === "Input" || type === "Output") return false;
+
+    const splitEdge = (
+      source: string,
+      target: string,
+      targetHandle?: string | null
+    ): Edge => ({
+      id: `${source}-${target}`,
+      source,
+      target,
+      ...(targetHandle ? { targetHandle } : {}),
+      type: edge.type,
+      style: edge.style,
+    });
+
+    // A layer's inputs are ordered by the position of their source nodes,
+    // so the new node takes the old source's place right after it, and the
+    // split edges take the old edge's place
+    const sourceIndex = nodes.findIndex((n) => n.id === edge.source);
+    const edgeIndex = edges.indexOf(edge);
+
+    // Replace the edge and add the node in the same undo step
+    set({
+      nodes: [
+        ...nodes.slice(0, sourceIndex + 1),
+        node,
+        ...nodes.slice(sourceIndex + 1),
+      ],
+      edges: [
+        ...edges.slice(0, edgeIndex),
+        splitEdge(edge.source, node.id),
+        // The old target keeps taking the connection at the same named input
+        splitEdge(node.id, edge.target, edge.targetHandle),
+        ...edges.slice(edgeIndex + 1),
+      ],
+    });
+
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+    return true;
+  },
+
+  deleteElements: (nodeIds: string[], edgeIds: string[]) => {
+    const { nodes, edges } = get();
+    const removedNodes = new Set(nodeIds);
+    const removedEdges = new Set(edgeIds);
+
+    // Connections of removed nodes go with them in the same undo step
+    set({
+      nodes: nodes.filter((node) => !removedNodes.has(node.id)),
+      edges: edges.filter(
+        (edge) =>
+          !removedEdges.has(edge.id) &&
+          !removedNodes.has(edge.source) &&
+          !removedNodes.has(edge.target)
+      ),
+    });
+
+    // Save to history after making changes
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+
+    scheduleShapeUpdate(() => get().updateShapeErrors());
+  },
+
+  setLayoutOptions: (options) => {
+    set(options);
+  },
+
+  autoArrange: (direction?: LayoutDirection) => {
+    const { nodes, edges, layoutDirection } = get();
+    const arrangedNodes = arrangeNodes(
+      nodes,
+      edges,
+      direction ?? layoutDirection
+    );
+
+    // Cyclic graphs have no layer order to arrange by
+    if (!arrangedNodes) return false;
+
+    set({ nodes: arrangedNodes });
+
+    // Save to history after making changes
+    if (!get()._isRestoringFromHistory) {
+      get().saveToHistory();
+    }
+
+    return true;
+  },
+
   // History operations
   undo: () => {
     const { history, historyIndex } = get();
@@ -303,6 +734,7 @@ export const useFlowStore = create<FlowState>((set, get) => ({
         _isRestoringFromHistory: true,
         nodes: prevState.nodes, 
         edges: prevState.edges, 
+        compositeBlocks: prevState.compositeBlocks ?? get().compositeBlocks,
         historyIndex: historyIndex - 1 
       });
       scheduleShapeUpdate(() => {
@@ -320,6 +752,7 @@ export const useFlowStore = create<FlowState>((set, get) => ({
         _isRestoringFromHistory: true,
         nodes: nextState.nodes, 
         edges: nextState.edges, 
+        compositeBlocks: nextState.compositeBlocks ?? get().compositeBlocks,
         historyIndex: historyIndex + 1 
       });
       scheduleShapeUpdate(() => {
@@ -344,12 +777,13 @@ export const useFlowStore = create<FlowState>((set, get) => ({
   },
 
   initializeHistory: () => {
-    const { nodes, edges, history } = get();
+    const { nodes, edges, compositeBlocks, history } = get();
     // Only initialize if history is empty and we have no content
     if (history.length === 0 && nodes.length === 0 && edges.length === 0) {
       const initialEntry = { 
         nodes: JSON.parse(JSON.stringify(nodes)), 
-        edges: JSON.parse(JSON.stringify(edges)) 
+        edges: JSON.parse(JSON.stringify(edges)),
+        compositeBlocks: JSON.parse(JSON.stringify(compositeBlocks))
       };
       set({ history: [initialEntry], historyIndex: 0 });
     }
@@ -455,16 +889,76 @@ export const useFlowStore = create<FlowState>((set, get) => ({
 
   // Shape validation
   updateShapeErrors: () => {
-    const { nodes, edges } = get();
+    const { nodes, edges, compositeBlocks } = get();
 
     // Early return if no nodes to process
     if (nodes.length === 0) {
+      if (get().problems.length > 0 || get().lintIssues.length > 0) {
+        set({ problems: [], lintIssues: [] });
+      }
       return;
     }
 
     try {
-      const inputShape = getInputShape(nodes);
-      const dagResult = parseGraphToDAG(nodes, edges);
+      // Blocks are analysed through their inner layers; results for those
+      // layers are reported on the block instance
+      const expanded = expandCompositeBlocks(nodes, edges, compositeBlocks);
+      const { ownerIds, repetitions } = expanded;
+      const toInstanceId = (nodeId: string) => ownerIds.get(nodeId) ?? nodeId;
+
+      const dagResult = parseGraphToDAG(expanded.nodes, expanded.edges);
+      const layerNames = new Map(
+        dagResult.orderedNodes.map((layer) => {
+          const repetition = repetitions.get(layer.id);
+          return [
+            layer.id,
+            repetition
+              ? `${layer.varName} (repeat ${repetition})`
+              : layer.varName,
+          ];
+        })
+      );
+      // Parameter problems are reported even when the graph is incomplete
+      const paramErrors = getParamErrors(expanded.nodes);
+      nodes.filter(isCompositeNode).forEach((node) => {
+        const params = (node.data.params ?? {}) as Record<string, unknown>;
+        const block = compositeBlocks.find(
+          (b) => b.id === getCompositeBlockId(node)
+        );
+        const inputCount = edges.filter((edge) => edge.target === node.id).length;
+        const instanceErrors = [
+          validateBlockRepeats(params.repeats),
+          block ? validateBlockInputCount(inputCount, block) : null,
+          block ? validateRepeatedBlock(block, getBlockRepeats(params)) : null,
+        ].filter((error): error is string => error !== null);
+        if (instanceErrors.length > 0) {
+          paramErrors.set(node.id, [
+            ...(paramErrors.get(node.id) ?? []),
+            ...instanceErrors,
+          ]);
+        }
+      });
+      const paramErrorMap = joinMessages(
+        mapToInstances(paramErrors, ownerIds, layerNames)
+      );
+
+      // Problems point at canvas nodes so they can be focused
+      const toCanvasProblems = (problems: Problem[]): Problem[] =>
+        problems.map((problem) => {
+          if (!problem.nodeId) return problem;
+          const ownerId = ownerIds.get(problem.nodeId);
+          const owner = ownerId && nodes.find((node) => node.id === ownerId);
+          if (!owner) return problem;
+          const block = compositeBlocks.find(
+            (b) => b.id === getCompositeBlockId(owner)
+          );
+          const innerName = layerNames.get(problem.nodeId) ?? problem.nodeName;
+          return {
+            ...problem,
+            nodeId: ownerId,
+            nodeName: block ? `${block.name} › ${innerName}` : problem.nodeName,
+          };
+        });
 
       if (!dagResult.isValid) {
         // For DAG errors, mark all nodes as having graph-level errors
@@ -478,31 +972,91 @@ export const useFlowStore = create<FlowState>((set, get) => ({
 
         const { nodes: updatedNodes, hasChanges } = updateNodesWithErrors(
           nodes,
-          errorMap
+          { shapeErrors: errorMap, paramErrors: paramErrorMap }
         );
         if (hasChanges) {
           // Update nodes without triggering history save
           set((state) => ({ ...state, nodes: updatedNodes }));
         }
+        set({
+          lintIssues: [],
+          problems: toCanvasProblems(
+            collectProblems({
+              nodes: expanded.nodes,
+              dagResult,
+              paramErrors,
+            })
+          ),
+        });
         return;
       }
 
       // Compute shapes for each node
-      const { errors } = computeShapes(dagResult, inputShape);
-      const errorMap = new Map<string, string>();
+      const { errors, nodeShapes } = computeShapes(dagResult);
+      const errorMap = joinMessages(
+        mapToInstances(
+          new Map(errors.map((error) => [error.nodeId, [error.message]])),
+          ownerIds,
+          layerNames
+        )
+      );
 
-      errors.forEach((error) => {
-        errorMap.set(error.nodeId, error.message);
+      // Per-node parameter and compute estimates shown on the canvas; a
+      // block shows the totals of its layers
+      const { layers } = computeModelSummary(dagResult, nodeShapes);
+      const paramCounts = new Map<string, number>();
+      const macCounts = new Map<string, number>();
+      layers.forEach((layer) => {
+        const nodeId = toInstanceId(layer.nodeId);
+        if (!errorMap.has(nodeId) && !paramErrorMap.has(nodeId)) {
+          paramCounts.set(
+            nodeId,
+            (paramCounts.get(nodeId) ?? 0) + layer.trainable + layer.nonTrainable
+          );
+          macCounts.set(nodeId, (macCounts.get(nodeId) ?? 0) + layer.macs);
+        }
       });
 
-      const { nodes: updatedNodes, hasChanges } = updateNodesWithErrors(
-        nodes,
-        errorMap
+      // Design warnings only make sense once the network is well formed
+      const lintIssues = lintArchitecture(
+        dagResult,
+        nodeShapes,
+        get().trainingConfig,
+        get().disabledLintRules
       );
+      const lintMessages = new Map<string, string[]>();
+      lintIssues.forEach((issue) => {
+        lintMessages.set(issue.nodeId, [
+          ...(lintMessages.get(issue.nodeId) ?? []),
+          issue.message,
+        ]);
+      });
+
+      const { nodes: updatedNodes, hasChanges } = updateNodesWithErrors(nodes, {
+        shapeErrors: errorMap,
+        paramErrors: paramErrorMap,
+        lintWarnings: joinMessages(
+          mapToInstances(lintMessages, ownerIds, layerNames)
+        ),
+        paramCounts,
+        macCounts,
+      });
       if (hasChanges) {
         // Update nodes without triggering history save
         set((state) => ({ ...state, nodes: updatedNodes }));
       }
+      set({
+        lintIssues,
+        problems: toCanvasProblems(
+          collectProblems({
+            nodes: expanded.nodes,
+            dagResult,
+            shapeErrors: errors,
+            paramErrors,
+            lintIssues,
+          })
+        ),
+      });
     } catch (error) {
       // Log shape computation errors for debugging
       console.warn(
@@ -511,4 +1065,5 @@ export const useFlowStore = create<FlowState>((set, get) => ({
       );
     }
   },
+
 }));
@@ -0,0 +1,381 @@
+/**
+ * Graph Layout - Layered arrangement of the network on the canvas
+ *
+ * Places layers in topological rows (or columns), orders nodes within each
+ * row to reduce edge crossings around Merge branches, then centers every
+ * node under the layers that feed it.
+ */
+
+import type { Node, Edge, XYPosition } from "@xyflow/react";
+import { parseGraphToDAG } from "./dag-parser";
+
+export type LayoutDirection = "TB" | "LR";
+
+/**
+ * Configuration constants for the layout
+ */
+const LAYOUT_CONFIG = {
+  DEFAULT_NODE_WIDTH: 200,
+  DEFAULT_NODE_HEIGHT: 80,
+  // Space between neighbours in the same layer
+  NODE_GAP: 40,
+  // Space between consecutive layers
+  LAYER_GAP: 60,
+  // Width reserved for an edge passing through a layer
+  DUMMY_SIZE: 20,
+  ORDERING_SWEEPS: 8,
+} as const;
+
+interface LayoutItem {
+  id: string;
+  layer: number;
+  // Extent along the layer and across it
+  breadth: number;
+  depth: number;
+  isDummy: boolean;
+}
+
+// ============================================================================
+// LAYERING
+// ============================================================================
+
+/**
+ * Assigns each node the length of the longest path from a source
+ */
+function assignLayers(
+  orderedIds: string[],
+  predecessors: Map<string, string[]>
+): Map<string, number> {
+  const layers = new Map<string, number>();
+  orderedIds.forEach((id) => {
+    const parentLayers = (predecessors.get(id) ?? []).map(
+      (parent) => layers.get(parent) ?? 0
+    );
+    layers.set(id, parentLayers.length > 0 ? Math.max(...parentLayers) + 1 : 0);
+  });
+  return layers;
+}
+
+/**
+ * Splits edges that skip layers into chains through virtual nodes, so that
+ * residual connections take part in crossing reduction
+ */
+function addDummyNodes(
+  items: Map<string, LayoutItem>,
+  links: Array<[string, string]>
+): Array<[string, string]> {
+  const layeredLinks: Array<[string, string]> = [];
+
+  links.forEach(([source, target]) => {
+    const sourceLayer = items.get(source)!.layer;
+    const targetLayer = items.get(target)!.layer;
+
+    let previous = source;
+    for (let layer = sourceLayer + 1; layer < targetLayer; layer++) {
+      const dummyId = `__dummy-${source}-${target}-${layer}`;
+      items.set(dummyId, {
+        id: dummyId,
+        layer,
+        breadth: LAYOUT_CONFIG.DUMMY_SIZE,
+        depth: 0,
+        isDummy: true,
+      });
+      layeredLinks.push([previous, dummyId]);
+      previous = dummyId;
+    }
+    layeredLinks.push([previous, target]);
+  });
+
+  return layeredLinks;
+}
+
+// ============================================================================
+// CROSSING REDUCTION
+// ============================================================================
+
+/**
+ * Reorders a layer by the average position of its neighbours in the
+ * adjacent layer (barycenter heuristic)
+ */
+function orderByBarycenter(
+  layer: string[],
+  neighbours: Map<string, string[]>,
+  adjacentOrder: string[]
+): string[] {
+  const positions = new Map(adjacentOrder.map((id, index) => [id, index]));
+
+  const barycenters = layer.map((id, index) => {
+    const adjacent = (neighbours.get(id) ?? [])
+      .map((neighbour) => positions.get(neighbour))
+      .filter((position): position is number => position !== undefined);
+    // Nodes without neighbours keep their current slot
+    return adjacent.length > 0
+      ? adjacent.reduce((sum, position) => sum + position, 0) / adjacent.length
+      : index;
+  });
+
+  return layer
+    .map((id, index) => ({ id, barycenter: barycenters[index], index }))
+    .sort((a, b) => a.barycenter - b.barycenter || a.index - b.index)
+    .map(({ id }) => id);
+}
+
+function countCrossings(
+  layers: string[][],
+  successors: Map<string, string[]>
+): number {
+  let crossings = 0;
+
+  for (let i = 0; i < layers.length - 1; i++) {
+    const nextPositions = new Map(layers[i + 1].map((id, index) => [id, index]));
+    const segments: Array<[number, number]> = [];
+    layers[i].forEach((id, index) => {
+      (successors.get(id) ?? []).forEach((target) => {
+        const targetIndex = nextPositions.get(target);
+        if (targetIndex !== undefined) segments.push([index, targetIndex]);
+      });
+    });
+
+    for (let a = 0; a < segments.length; a++) {
+      for (let b = a + 1; b < segments.length; b++) {
+        const [sourceA, targetA] = segments[a];
+        const [sourceB, targetB] = segments[b];
+        if ((sourceA - sourceB) * (targetA - targetB) < 0) crossings++;
+      }
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Alternates downward and upward barycenter sweeps, keeping the ordering
+ * with the fewest crossings
+ */
+function reduceCrossings(
+  layers: string[][],
+  predecessors: Map<string, string[]>,
+  successors: Map<string, string[]>
+): string[][] {
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = countCrossings(best, successors);
+  let current = best;
+
+  for (let sweep = 0; sweep < LAYOUT_CONFIG.ORDERING_SWEEPS; sweep++) {
+    current = current.map((layer) => [...layer]);
+
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < current.length; i++) {
+        current[i] = orderByBarycenter(current[i], predecessors, current[i - 1]);
+      }
+    } else {
+      for (let i = current.length - 2; i >= 0; i--) {
+        current[i] = orderByBarycenter(current[i], successors, current[i + 1]);
+      }
+    }
+
+    const crossings = countCrossings(current, successors);
+    if (crossings < bestCrossings) {
+      best = current;
+      bestCrossings = crossings;
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// COORDINATES
+// ============================================================================
+
+/**
+ * Places nodes along their layer, centered under their parents where the
+ * spacing allows
+ */
+function assignBreadthPositions(
+  layers: string[][],
+  items: Map<string, LayoutItem>,
+  predecessors: Map<string, string[]>
+): Map<string, number> {
+  const centers = new Map<string, number>();
+
+  layers.forEach((layer) => {
+    const desired = layer.map((id) => {
+      const parents = (predecessors.get(id) ?? []).filter((parent) =>
+        centers.has(parent)
+      );
+      return parents.length > 0
+        ? parents.reduce((sum, parent) => sum + centers.get(parent)!, 0) /
+            parents.length
+        : 0;
+    });
+
+    // Push nodes apart left to right to remove overlaps
+    const actual: number[] = [];
+    layer.forEach((id, index) => {
+      if (index === 0) {
+        actual.push(desired[0]);
+        return;
+      }
+      const previous = items.get(layer[index - 1])!;
+      const minCenter =
+        actual[index - 1] +
+        previous.breadth / 2 +
+        LAYOUT_CONFIG.NODE_GAP +
+        items.get(id)!.breadth / 2;
+      actual.push(Math.max(desired[index], minCenter));
+    });
+
+    // Shift the whole layer so it sits on average where it wants to be
+    const offset =
+      desired.reduce((sum, value, index) => sum + value - actual[index], 0) /
+      layer.length;
+    layer.forEach((id, index) => centers.set(id, actual[index] + offset));
+  });
+
+  return centers;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Computes layered positions for the given nodes. Returns null when the
+ * graph cannot be ordered, e.g. because it contains a cycle.
+ */
+export function computeLayeredLayout(
+  nodes: Node[],
+  edges: Edge[],
+  direction: LayoutDirection = "TB"
+): Map<string, XYPosition> | null {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const graphEdges = edges.filter(
+    (edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target)
+  );
+
+  const dag = parseGraphToDAG(nodes, graphEdges);
+  if (!dag.isValid) return null;
+
+  const orderedIds = dag.orderedNodes.map((layer) => layer.id);
+  const predecessors = new Map<string, string[]>();
+  graphEdges.forEach((edge) => {
+    predecessors.set(edge.target, [
+      ...(predecessors.get(edge.target) ?? []),
+      edge.source,
+    ]);
+  });
+  const layerIndex = assignLayers(orderedIds, predecessors);
+
+  const isHorizontal = direction === "LR";
+  const items = new Map<string, LayoutItem>();
+  nodes.forEach((node) => {
+    const width = node.measured?.width ?? LAYOUT_CONFIG.DEFAULT_NODE_WIDTH;
+    const height = node.measured?.height ?? LAYOUT_CONFIG.DEFAULT_NODE_HEIGHT;
+    items.set(node.id, {
+      id: node.id,
+      layer: layerIndex.get(node.id) ?? 0,
+      breadth: isHorizontal ? height : width,
+      depth: isHorizontal ? width : height,
+      isDummy: false,
+    });
+  });
+
+  const links = addDummyNodes(
+    items,
+    graphEdges.map((edge) => [edge.source, edge.target])
+  );
+  const layeredPredecessors = new Map<string, string[]>();
+  const layeredSuccessors = new Map<string, string[]>();
+  links.forEach(([source, target]) => {
+    layeredPredecessors.set(target, [
+      ...(layeredPredecessors.get(target) ?? []),
+      source,
+    ]);
+    layeredSuccessors.set(source, [
+      ...(layeredSuccessors.get(source) ?? []),
+      target,
+    ]);
+  });
+
+  // Initial order within each layer follows the topological order
+  const layerCount = Math.max(...Array.from(items.values(), (item) => item.layer)) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  const topologicalIndex = new Map(orderedIds.map((id, index) => [id, index]));
+  Array.from(items.values())
+    .sort((a, b) => {
+      const indexA = topologicalIndex.get(a.id) ?? Infinity;
+      const indexB = topologicalIndex.get(b.id) ?? Infinity;
+      return indexA - indexB;
+    })
+    .forEach((item) => layers[item.layer].push(item.id));
+
+  const orderedLayers = reduceCrossings(
+    layers,
+    layeredPredecessors,
+    layeredSuccessors
+  );
+  const breadthCenters = assignBreadthPositions(
+    orderedLayers,
+    items,
+    layeredPredecessors
+  );
+
+  // Layers are stacked using the deepest node of each
+  const positions = new Map<string, XYPosition>();
+  let depthOffset = 0;
+  orderedLayers.forEach((layer) => {
+    const layerDepth = Math.max(...layer.map((id) => items.get(id)!.depth));
+
+    layer.forEach((id) => {
+      const item = items.get(id)!;
+      if (item.isDummy) return;
+
+      const breadth = breadthCenters.get(id)! - item.breadth / 2;
+      const depth = depthOffset + (layerDepth - item.depth) / 2;
+      positions.set(
+        id,
+        isHorizontal ? { x: depth, y: breadth } : { x: breadth, y: depth }
+      );
+    });
+
+    depthOffset += layerDepth + LAYOUT_CONFIG.LAYER_GAP;
+  });
+
+  return positions;
+}
+
+/**
+ * Returns the nodes moved to their layered positions, keeping the top-left
+ * corner of the arrangement at `origin` (defaults to the current corner)
+ */
+export function arrangeNodes(
+  nodes: Node[],
+  edges: Edge[],
+  direction: LayoutDirection = "TB",
+  origin?: XYPosition
+): Node[] | null {
+  if (nodes.length === 0) return nodes;
+
+  const positions = computeLayeredLayout(nodes, edges, direction);
+  if (!positions) return null;
+
+  const anchor = origin ?? {
+    x: Math.min(...nodes.map((node) => node.position.x)),
+    y: Math.min(...nodes.map((node) => node.position.y)),
+  };
+  const layoutMinX = Math.min(...Array.from(positions.values(), (p) => p.x));
+  const layoutMinY = Math.min(...Array.from(positions.values(), (p) => p.y));
+
+  return nodes.map((node) => {
+    const position = positions.get(node.id);
+    if (!position) return node;
+    return {
+      ...node,
+      position: {
+        x: Math.round(anchor.x + position.x - layoutMinX),
+        y: Math.round(anchor.y + position.y - layoutMinY),
+      },
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { exportKerasModel } from "./keras-export";
+import { chain, edge, layerNode } from "../test/graph";
+
+describe("exportKerasModel", () => {
+  it("serializes the network as a functional model", () => {
+    const result = exportKerasModel(
+      [
+        layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+        layerNode("dense", "Dense", { units: 4 }),
+        layerNode("out", "Output"),
+      ],
+      chain("in", "dense", "out")
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const { config } = result.model;
+    expect(config.layers.map((layer) => layer.class_name)).toEqual([
+      "InputLayer",
+      "Dense",
+      "Dense",
+    ]);
+    expect(config.layers[0].config).toMatchObject({ batch_shape: [null, 8] });
+    expect(config.layers[1].config).toMatchObject({ units: 4 });
+    expect(config.layers[2].inbound_nodes[0].args[0]).toMatchObject({
+      config: { shape: [null, 4], keras_history: ["dense", 0, 0] },
+    });
+    expect(config.input_layers).toEqual(["input", 0, 0]);
+    expect(config.output_layers).toEqual(["output", 0, 0]);
+  });
+
+  it("calls attention with the inputs at its named handles", () => {
+    const sequence = (name: string, seqLength: number) =>
+      layerNode(name, "Input", {
+        inputType: "sequence",
+        seqLength,
+        features: 16,
+        name,
+      });
+    const result = exportKerasModel(
+      [
+        sequence("value", 20),
+        sequence("query", 10),
+        layerNode("mha", "MultiHeadAttention", { num_heads: 2 }),
+        layerNode("out", "Output", { outputType: "regression" }),
+      ],
+      [
+        edge("value", "mha", "value"),
+        edge("query", "mha", "query"),
+        edge("mha", "out"),
+      ]
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const attention = result.model.config.layers.find(
+      (layer) => layer.class_name === "MultiHeadAttention"
+    );
+    const [query, value] = attention?.inbound_nodes[0].args ?? [];
+    expect(query).toMatchObject({ config: { shape: [null, 10, 16] } });
+    expect(value).toMatchObject({ config: { shape: [null, 20, 16] } });
+  });
+
+  it("fails for a graph without layers", () => {
+    expect(exportKerasModel([], []).success).toBe(false);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Keras Model Export
+ *
+ * Builds the JSON that `keras.models.model_from_json` reads, in the format
+ * Keras 3 writes with `model.to_json()` for a functional model, so a design
+ * can be loaded in Python without generating any code. Each layer's entry
+ * comes from the `kerasConfig` builder next to its Keras code generator; the
+ * exporter names the layers after the generated variables and links them
+ * through `inbound_nodes`.
+ *
+ * The file needs Keras 3 (TensorFlow 2.16 or later) to load: it uses the
+ * `__keras_tensor__` references and `keras.src` modules that tf.keras 2.x
+ * does not understand.
+ *
+ * Arguments BlockDL does not expose, such as initializers and regularizers,
+ * are left out so Keras applies its defaults.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { parseGraphToDAG } from "./dag-parser";
+import { computeShapes, resolveInputShapes } from "./shape-computation";
+import { expandCompositeBlocks, type CompositeBlock } from "./composite-blocks";
+import {
+  getLayerDefinition,
+  serializeKerasLayer,
+  type KerasLayerConfig,
+  type KerasSublayer,
+  type SerializedKerasLayer,
+} from "./layer-definitions";
+import { validateGraphParameters } from "./layers/validation";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// [layer name, node index, tensor index]
+export type KerasTensorReference = [string, number, number];
+
+export interface KerasTensor {
+  class_name: "__keras_tensor__";
+  config: {
+    shape: Array<number | null>;
+    dtype: string;
+    keras_history: KerasTensorReference;
+  };
+}
+
+export interface KerasCallNode {
+  args: unknown[];
+  kwargs: Record<string, unknown>;
+}
+
+export interface KerasLayerEntry extends SerializedKerasLayer {
+  name: string;
+  inbound_nodes: KerasCallNode[];
+}
+
+export interface KerasModelConfig {
+  module: string;
+  class_name: "Functional";
+  config: {
+    name: string;
+    trainable: boolean;
+    layers: KerasLayerEntry[];
+    // A single reference for one input or output, otherwise a list
+    input_layers: KerasTensorReference | KerasTensorReference[];
+    output_layers: KerasTensorReference | KerasTensorReference[];
+  };
+  registered_name: "Functional";
+}
+
+export type KerasExportResult =
+  | { success: true; model: KerasModelConfig }
+  | { success: false; error: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Functional is not part of the public API, so Keras imports its module
+const FUNCTIONAL_MODULE = "keras.src.models.functional";
+
+// Merge layers are called on a list of tensors
+const MERGE_LAYERS = new Set([
+  "Add",
+  "Subtract",
+  "Multiply",
+  "Average",
+  "Maximum",
+  "Minimum",
+  "Concatenate",
+  "Dot",
+]);
+
+// ============================================================================
+// LAYER ENTRIES
+// ============================================================================
+
+/**
+ * A layer output with its canvas (channels-last, batchless) shape
+ */
+interface TensorRef {
+  layerName: string;
+  shape: number[];
+}
+
+function uniqueName(usedNames: Set<string>, base: string): string {
+  let name = base;
+  for (let i = 1; usedNames.has(name); i++) {
+    name = `${base}_${i}`;
+  }
+  usedNames.add(name);
+  return name;
+}
+
+function toKerasTensor(tensor: TensorRef): KerasTensor {
+  return {
+    class_name: "__keras_tensor__",
+    config: {
+      shape: [null, ...tensor.shape],
+      dtype: "float32",
+      keras_history: [tensor.layerName, 0, 0],
+    },
+  };
+}
+
+/**
+ * Call arguments as the code generator writes them: attention takes
+ * (query, value) with one input serving as both, merge layers and layers with
+ * several inputs take a list, and other layers take their single input
+ */
+function toCallNode(className: string, inputs: TensorRef[]): KerasCallNode {
+  const tensors = inputs.map(toKerasTensor);
+  if (className === "MultiHeadAttention") {
+    return {
+      args: tensors.length === 1 ? [tensors[0], tensors[0]] : tensors,
+      kwargs: {},
+    };
+  }
+  if (MERGE_LAYERS.has(className) || tensors.length > 1) {
+    return { args: [tensors], kwargs: {} };
+  }
+  return { args: tensors, kwargs: {} };
+}
+
+function toLayerEntry(
+  layer: KerasLayerConfig,
+  name: string,
+  inputs: TensorRef[]
+): KerasLayerEntry {
+  return {
+    ...serializeKerasLayer(layer, name),
+    name,
+    inbound_nodes:
+      inputs.length > 0 ? [toCallNode(layer.className, inputs)] : [],
+  };
+}
+
+/**
+ * Adds the built-in sublayers that stand in for one layer and returns the
+ * last one's output
+ */
+function addSublayers(
+  layers: KerasLayerEntry[],
+  usedNames: Set<string>,
+  sublayers: KerasSublayer[],
+  scope: string,
+  input: TensorRef,
+  outputName: string
+): TensorRef {
+  const outputs = new Map<string, TensorRef>([["input", input]]);
+  let output = input;
+
+  sublayers.forEach((sublayer, index) => {
+    const inputs = sublayer.inbound
+      .map((suffix) => outputs.get(suffix))
+      .filter((tensor): tensor is TensorRef => tensor !== undefined);
+    const name =
+      index === sublayers.length - 1
+        ? outputName
+        : uniqueName(usedNames, `${scope}_${sublayer.suffix}`);
+
+    layers.push(toLayerEntry(sublayer, name, inputs));
+
+    // Dense changes the feature size; the other sublayers keep the shape
+    const shape =
+      sublayer.className === "Dense"
+        ? [...inputs[0].shape.slice(0, -1), Number(sublayer.config.units)]
+        : inputs[0].shape;
+    output = { layerName: name, shape };
+    outputs.set(sublayer.suffix, output);
+  });
+
+  return output;
+}
+
+function toReferences(
+  tensors: TensorRef[]
+): KerasTensorReference | KerasTensorReference[] {
+  const references = tensors.map((tensor): KerasTensorReference => [
+    tensor.layerName,
+    0,
+    0,
+  ]);
+  return references.length === 1 ? references[0] : references;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Exports the network as the config of a Keras functional model
+ */
+export function exportKerasModel(
+  nodes: Node[],
+  edges: Edge[],
+  compositeBlocks: CompositeBlock[] = [],
+  modelName = "blockdl_model"
+): KerasExportResult {
+  const expanded = expandCompositeBlocks(nodes, edges, compositeBlocks);
+  const dag = parseGraphToDAG(expanded.nodes, expanded.edges);
+
+  if (!dag.isValid) {
+    return { success: false, error: dag.errors.join("; ") };
+  }
+  if (dag.orderedNodes.length === 0) {
+    return { success: false, error: "The network has no layers to export" };
+  }
+  const paramErrors = validateGraphParameters(dag.orderedNodes);
+  if (paramErrors.size > 0) {
+    const messages = dag.orderedNodes.flatMap((layer) =>
+      (paramErrors.get(layer.id) ?? []).map(
+        (error) => `${layer.varName}: ${error}`
+      )
+    );
+    return {
+      success: false,
+      error: `Invalid layer parameters: ${messages.join("; ")}`,
+    };
+  }
+
+  const { errors, nodeShapes } = computeShapes(dag);
+  if (errors.length > 0) {
+    return { success: false, error: `Shape error: ${errors[0].message}` };
+  }
+  const inputShapes = resolveInputShapes(dag, nodeShapes);
+
+  const layers: KerasLayerEntry[] = [];
+  // Layers keep their variable names
+  const usedNames = new Set(dag.orderedNodes.map((layer) => layer.varName));
+  const tensors = new Map<string, TensorRef>();
+  const modelInputs: TensorRef[] = [];
+
+  for (const layer of dag.orderedNodes) {
+    const { id, type, params, varName } = layer;
+    const shape = nodeShapes.get(id);
+    const layerDefinition = getLayerDefinition(type);
+    const kerasConfig = layerDefinition?.generateCode.kerasConfig;
+    if (!shape) continue;
+    if (!kerasConfig) {
+      return {
+        success: false,
+        error: `${varName}: ${type} layers cannot be exported to Keras`,
+      };
+    }
+
+    if (type === "Input") {
+      const config = kerasConfig(params, []) as KerasLayerConfig;
+      layers.push(toLayerEntry(config, varName, []));
+      const tensor = { layerName: varName, shape };
+      tensors.set(id, tensor);
+      modelInputs.push(tensor);
+      continue;
+    }
+
+    const inputs = (dag.inputMap.get(id) ?? [])
+      .map(({ sourceId }) => tensors.get(sourceId))
+      .filter((tensor): tensor is TensorRef => tensor !== undefined);
+    if (inputs.length === 0 || !inputShapes.has(id)) continue;
+
+    const multiplier = layerDefinition.supportsMultiplier
+      ? Number(params.multiplier) || 1
+      : 1;
+
+    // Each repetition of a multiplied layer is fed by the previous one
+    let repeatInputs = inputs;
+    for (let repetition = 1; repetition <= multiplier; repetition++) {
+      const isLast = repetition === multiplier;
+      const repeatShape = isLast
+        ? shape
+        : layerDefinition.computeShape(
+            repeatInputs.map((t) => t.shape),
+            params
+          );
+      if (!repeatShape) break;
+
+      const name = isLast
+        ? varName
+        : uniqueName(usedNames, `${varName}_${repetition}`);
+      const config = kerasConfig(
+        params,
+        repeatInputs.map((t) => t.shape)
+      );
+
+      if (Array.isArray(config)) {
+        repeatInputs = [
+          addSublayers(
+            layers,
+            usedNames,
+            config,
+            multiplier > 1 ? `${varName}_${repetition}` : varName,
+            repeatInputs[0],
+            name
+          ),
+        ];
+      } else {
+        layers.push(toLayerEntry(config, name, repeatInputs));
+        repeatInputs = [{ layerName: name, shape: repeatShape }];
+      }
+    }
+
+    tensors.set(id, { layerName: varName, shape });
+  }
+
+  // Terminal nodes (no outgoing edges) are the model outputs
+  const modelOutputs = dag.orderedNodes
+    .filter(
+      (layer) => layer.type !== "Input" && !dag.edgeMap.get(layer.id)?.length
+    )
+    .map((layer) => tensors.get(layer.id))
+    .filter((tensor): tensor is TensorRef => tensor !== undefined);
+
+  if (modelInputs.length === 0 || modelOutputs.length === 0) {
+    return {
+      success: false,
+      error: "The network needs an Input layer connected to an output",
+    };
+  }
+
+  return {
+    success: true,
+    model: {
+      module: FUNCTIONAL_MODULE,
+      class_name: "Functional",
+      config: {
+        name: modelName,
+        trainable: true,
+        layers,
+        input_layers: toReferences(modelInputs),
+        output_layers: toReferences(modelOutputs),
+      },
+      registered_name: "Functional",
+    },
+  };
+}
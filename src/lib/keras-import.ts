@@ -0,0 +1,1203 @@
+/**
+ * Keras Model Import
+ *
+ * Rebuilds a network on the canvas from a Keras model config: the JSON that
+ * `model.to_json()` writes, or the config.json inside a `.keras` archive.
+ * Functional and Sequential models are read in both the Keras 3 format and
+ * the list-based format of tf.keras 2. Each layer maps back onto a layer
+ * definition, the edges come from its `inbound_nodes`, and the result is
+ * arranged with the automatic layout.
+ *
+ * Layers BlockDL has no equivalent for become Placeholder nodes that keep
+ * the original class and output shape, with a warning, so the rest of the
+ * model can still be inspected and edited.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import {
+  getDefaultParams,
+  getParameterInfo,
+  validateParameterValues,
+  type LayerParams,
+} from "./layers/parameters";
+import { arrangeNodes, type LayoutDirection } from "./graph-layout";
+import { getLayerDefinition } from "./layer-definitions";
+import { formatShapeTuple } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KerasImportResult =
+  | { success: true; nodes: Node[]; edges: Edge[]; warnings: string[] }
+  | { success: false; error: string };
+
+type KerasConfig = Record<string, unknown>;
+
+// A layer output: the output of the `node`-th call of `layer`
+interface TensorSource {
+  layer: string;
+  node: number;
+}
+
+interface ParsedLayer {
+  className: string;
+  name: string;
+  config: KerasConfig;
+  // The inputs of each call of the layer
+  calls: TensorSource[][];
+}
+
+interface ParsedModel {
+  layers: ParsedLayer[];
+  outputs: TensorSource[];
+  // Recorded output shapes without the batch dimension, by call key
+  shapes: Map<string, Array<number | null>>;
+}
+
+interface MappedLayer {
+  type: string;
+  params: LayerParams;
+}
+
+interface MapperContext {
+  // Shape of the layer's first input without the batch dimension, if known
+  inputShape?: Array<number | null>;
+  isModelOutput: boolean;
+  warn: (message: string) => void;
+}
+
+/**
+ * Maps a Keras layer config onto a layer type and parameters, or returns the
+ * reason it has no equivalent
+ */
+type LayerMapper = (
+  config: KerasConfig,
+  context: MapperContext
+) => MappedLayer | string;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CONFIG_FILE_NAME = "config.json";
+const COMPRESSION_FORMAT = "deflate-raw";
+const PLACEHOLDER_TYPE = "Placeholder";
+
+// Model classes whose config holds a layer graph
+const MODEL_CLASSES = new Set(["Functional", "Model", "Sequential"]);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Zip record signatures
+const ZIP_SIGNATURES = {
+  LOCAL_HEADER: 0x04034b50,
+  CENTRAL_HEADER: 0x02014b50,
+  END_OF_DIRECTORY: 0x06054b50,
+  ZIP64_LOCATOR: 0x07064b50,
+  ZIP64_END_OF_DIRECTORY: 0x06064b50,
+} as const;
+
+// The end of central directory record is 22 bytes plus a comment of up to 64 KiB
+const MAX_END_OF_DIRECTORY_SIZE = 22 + 0xffff;
+
+// ============================================================================
+// CONFIG READERS
+// ============================================================================
+
+function isRecord(value: unknown): value is KerasConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toNumberList(value: unknown): number[] | null {
+  if (typeof value === "number") return [value];
+  if (Array.isArray(value) && value.every((v) => typeof v === "number")) {
+    return value;
+  }
+  return null;
+}
+
+function toShape(value: unknown): Array<number | null> | null {
+  if (!Array.isArray(value)) return null;
+  return value.every((v) => v === null || typeof v === "number") ? value : null;
+}
+
+function isKnownShape(shape: Array<number | null>): shape is number[] {
+  return shape.every((dim) => dim !== null);
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" ? value : fallback;
+}
+
+function readFlag(value: unknown, fallback: boolean): string {
+  return String(typeof value === "boolean" ? value : fallback);
+}
+
+/**
+ * A pair argument such as kernel_size, which Keras stores as a list
+ */
+function readPair(value: unknown, fallback: string): string {
+  const values = toNumberList(value);
+  if (!values) return fallback;
+  const [rows, cols = rows] = values;
+  return formatShapeTuple([rows, cols]);
+}
+
+/**
+ * Activation name from a config; Keras 3 serializes custom activations as
+ * an object holding the function name
+ */
+function readActivation(value: unknown, fallback = "linear"): string {
+  if (typeof value === "string") return value;
+  if (isRecord(value)) {
+    if (typeof value.config === "string") return value.config;
+    if (typeof value.class_name === "string") {
+      return value.class_name.toLowerCase();
+    }
+  }
+  return fallback;
+}
+
+function readDtype(value: unknown): string {
+  if (typeof value === "string") return value;
+  // Keras 3 stores dtype policies as serialized objects
+  if (isRecord(value) && isRecord(value.config)) {
+    return String(value.config.name ?? "");
+  }
+  return "";
+}
+
+// ============================================================================
+// LAYER MAPPERS
+// ============================================================================
+
+function warnUnsupportedConv(config: KerasConfig, warn: MapperContext["warn"]) {
+  const dilation = toNumberList(config.dilation_rate);
+  if (dilation?.some((rate) => rate !== 1)) {
+    warn("dilation_rate is not supported and was dropped");
+  }
+  if (readNumber(config.groups, 1) !== 1) {
+    warn("groups is not supported and was dropped");
+  }
+  if (config.data_format === "channels_first") {
+    warn("uses channels_first data, but BlockDL layers are channels-last");
+  }
+}
+
+const mapConv2D: LayerMapper = (config, { warn }) => {
+  warnUnsupportedConv(config, warn);
+  return {
+    type: "Conv2D",
+    params: {
+      filters: readNumber(config.filters, 32),
+      kernel_size: readPair(config.kernel_size, "(3, 3)"),
+      strides: readPair(config.strides, "(1, 1)"),
+      padding: String(config.padding ?? "valid"),
+      use_bias: readFlag(config.use_bias, true),
+      activation: readActivation(config.activation),
+    },
+  };
+};
+
+/**
+ * Pooling strides are left empty when they match the pool size, as Keras
+ * does by default
+ */
+function mapPooling2D(type: string): LayerMapper {
+  return (config, { warn }) => {
+    if (config.data_format === "channels_first") {
+      warn("uses channels_first data, but BlockDL layers are channels-last");
+    }
+    const poolSize = readPair(config.pool_size, "(2, 2)");
+    const strides = readPair(config.strides, poolSize);
+    return {
+      type,
+      params: {
+        pool_size: poolSize,
+        strides: strides === poolSize ? "" : strides,
+        padding: String(config.padding ?? "valid"),
+      },
+    };
+  };
+}
+
+function mapMerge(mode: string): LayerMapper {
+  return (config, { warn }) => {
+    if (mode === "dot") {
+      const axes = toNumberList(config.axes);
+      if (!axes?.every((axis) => axis === -1 || axis === 2)) {
+        warn("only dot products over the last axis are supported");
+      }
+      if (config.normalize === true) {
+        warn("normalize is not supported and was dropped");
+      }
+    }
+    return {
+      type: "Merge",
+      params: { mode, axis: readNumber(config.axis, -1) },
+    };
+  };
+}
+
+function mapActivation(activation: string): LayerMapper {
+  return () => ({
+    type: "Activation",
+    params: { activation_function: activation },
+  });
+}
+
+/**
+ * LSTM and GRU share their arguments; GRU adds reset_after
+ */
+function mapRecurrent(type: "LSTM" | "GRU"): LayerMapper {
+  return (config, { warn }) => {
+    if (config.go_backwards === true || config.stateful === true) {
+      warn("go_backwards and stateful are not supported and were dropped");
+    }
+    return {
+      type,
+      params: {
+        units: readNumber(config.units, 64),
+        activation: readActivation(config.activation, "tanh"),
+        recurrent_activation: readActivation(
+          config.recurrent_activation,
+          "sigmoid"
+        ),
+        return_sequences: readFlag(config.return_sequences, false),
+        return_state: readFlag(config.return_state, false),
+        dropout: readNumber(config.dropout, 0),
+        recurrent_dropout: readNumber(config.recurrent_dropout, 0),
+        ...(type === "GRU" && {
+          reset_after: readFlag(config.reset_after, true),
+        }),
+      },
+    };
+  };
+}
+
+/**
+ * A Dense layer at the end of the model becomes the Output head that matches
+ * its activation
+ */
+function toOutputHead(units: number, activation: string): MappedLayer | null {
+  if (activation === "softmax" && units >= 2) {
+    return {
+      type: "Output",
+      params: { outputType: "multiclass", numClasses: units },
+    };
+  }
+  if (activation === "sigmoid") {
+    return units === 1
+      ? { type: "Output", params: { outputType: "binary" } }
+      : { type: "Output", params: { outputType: "multilabel", units } };
+  }
+  if (activation === "linear") {
+    return { type: "Output", params: { outputType: "regression", units } };
+  }
+  return null;
+}
+
+/**
+ * Layers wrapped by TimeDistributed, mapped onto its layer_type options
+ */
+function mapTimeDistributedLayer(layer: unknown): LayerParams | null {
+  if (!isRecord(layer) || !isRecord(layer.config)) return null;
+  const config = layer.config;
+
+  switch (layer.class_name) {
+    case "Dense":
+      return {
+        layer_type: "Dense",
+        units: readNumber(config.units, 64),
+        activation: readActivation(config.activation),
+      };
+    case "Conv1D":
+      return {
+        layer_type: "Conv1D",
+        units: readNumber(config.filters, 64),
+        kernel_size_1d: toNumberList(config.kernel_size)?.[0] ?? 3,
+        activation: readActivation(config.activation),
+      };
+    case "Conv2D":
+      return {
+        layer_type: "Conv2D",
+        units: readNumber(config.filters, 64),
+        kernel_size: readPair(config.kernel_size, "(3, 3)"),
+        activation: readActivation(config.activation),
+      };
+    case "Activation":
+      return {
+        layer_type: "Activation",
+        activation: readActivation(config.activation),
+      };
+    case "Dropout":
+      return {
+        layer_type: "Dropout",
+        dropout_rate: readNumber(config.rate, 0.5),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Mappers by Keras class name, including the aliases Keras accepts
+ */
+const LAYER_MAPPERS: Record<string, LayerMapper> = {
+  Dense: (config, { inputShape, isModelOutput }) => {
+    const units = readNumber(config.units, 128);
+    const activation = readActivation(config.activation);
+    // Keras applies Dense to the last axis, which BlockDL's Dense flattens
+    if (inputShape && inputShape.length === 2) {
+      return {
+        type: "TimeDistributed",
+        params: { layer_type: "Dense", units, activation },
+      };
+    }
+    const head = isModelOutput ? toOutputHead(units, activation) : null;
+    return (
+      head ?? {
+        type: "Dense",
+        params: {
+          units,
+          activation,
+          use_bias: readFlag(config.use_bias, true),
+        },
+      }
+    );
+  },
+
+  Conv2D: mapConv2D,
+
+  Conv1D: (config, { warn }) => {
+    warnUnsupportedConv(config, warn);
+    return {
+      type: "Conv1D",
+      params: {
+        filters: readNumber(config.filters, 64),
+        kernel_size: toNumberList(config.kernel_size)?.[0] ?? 3,
+        strides: toNumberList(config.strides)?.[0] ?? 1,
+        padding: String(config.padding ?? "valid"),
+        activation: readActivation(config.activation),
+      },
+    };
+  },
+
+  Conv2DTranspose: (config, context) => {
+    if (config.output_padding != null) {
+      context.warn("output_padding is not supported and was dropped");
+    }
+    const { params } = mapConv2D(config, context) as MappedLayer;
+    return { type: "Conv2DTranspose", params };
+  },
+
+  SeparableConv2D: (config, { warn }) => {
+    warnUnsupportedConv(config, warn);
+    return {
+      type: "SeparableConv2D",
+      params: {
+        filters: readNumber(config.filters, 32),
+        kernel_size: readPair(config.kernel_size, "(3, 3)"),
+        strides: readPair(config.strides, "(1, 1)"),
+        padding: String(config.padding ?? "valid"),
+        depth_multiplier: readNumber(config.depth_multiplier, 1),
+        activation: readActivation(config.activation),
+      },
+    };
+  },
+
+  MaxPooling2D: mapPooling2D("MaxPool2D"),
+  MaxPool2D: mapPooling2D("MaxPool2D"),
+  AveragePooling2D: mapPooling2D("AveragePooling2D"),
+  AvgPool2D: mapPooling2D("AveragePooling2D"),
+
+  GlobalAveragePooling2D: (config) =>
+    config.keepdims === true
+      ? "keepdims=True is not supported"
+      : { type: "GlobalAveragePooling2D", params: {} },
+
+  ZeroPadding2D: (config) => {
+    // Keras 3 always stores ((top, bottom), (left, right))
+    const padding = config.padding;
+    if (typeof padding === "number") {
+      return { type: "ZeroPadding2D", params: { padding: String(padding) } };
+    }
+    const pairs = Array.isArray(padding) ? padding.map(toNumberList) : [];
+    const [rows, cols] = pairs.map((pair) => pair ?? []);
+    if (!rows || !cols) return "the padding could not be read";
+    const [top, bottom = top] = rows;
+    const [left, right = left] = cols;
+    if (top !== bottom || left !== right) {
+      return "asymmetric padding is not supported";
+    }
+    return {
+      type: "ZeroPadding2D",
+      params: { padding: formatShapeTuple([top, left]) },
+    };
+  },
+
+  Cropping2D: (config) => {
+    const cropping = config.cropping;
+    if (typeof cropping === "number") {
+      return { type: "Cropping2D", params: { cropping: String(cropping) } };
+    }
+    const pairs = Array.isArray(cropping) ? cropping.map(toNumberList) : [];
+    const [rows, cols] = pairs;
+    if (!rows || !cols) return "the cropping could not be read";
+    const [top, bottom = top] = rows;
+    const [left, right = left] = cols;
+    return {
+      type: "Cropping2D",
+      params: { cropping: `((${top},${bottom}),(${left},${right}))` },
+    };
+  },
+
+  Embedding: (config, { inputShape }) => {
+    // Keras 3 dropped input_length; the input shape carries it instead
+    const inputLength =
+      typeof config.input_length === "number"
+        ? config.input_length
+        : inputShape?.[0];
+    return {
+      type: "Embedding",
+      params: {
+        input_dim: readNumber(config.input_dim, 10000),
+        output_dim: readNumber(config.output_dim, 128),
+        ...(typeof inputLength === "number" && { input_length: inputLength }),
+        mask_zero: readFlag(config.mask_zero, false),
+      },
+    };
+  },
+
+  LSTM: mapRecurrent("LSTM"),
+  GRU: mapRecurrent("GRU"),
+
+  Bidirectional: (config) => {
+    const layer = config.layer;
+    if (!isRecord(layer) || !isRecord(layer.config)) {
+      return "the wrapped layer could not be read";
+    }
+    if (layer.class_name !== "LSTM" && layer.class_name !== "GRU") {
+      return `only LSTM and GRU layers can be bidirectional, not ${String(layer.class_name)}`;
+    }
+    return {
+      type: "Bidirectional",
+      params: {
+        layer_type: layer.class_name,
+        units: readNumber(layer.config.units, 64),
+        // A null merge mode returns the forward and backward outputs separately
+        merge_mode:
+          config.merge_mode === null
+            ? "None"
+            : String(config.merge_mode ?? "concat"),
+        return_sequences: readFlag(layer.config.return_sequences, false),
+        dropout: readNumber(layer.config.dropout, 0),
+      },
+    };
+  },
+
+  TimeDistributed: (config) => {
+    const params = mapTimeDistributedLayer(config.layer);
+    if (!params) {
+      const className = isRecord(config.layer)
+        ? String(config.layer.class_name)
+        : "layer";
+      return `TimeDistributed cannot wrap a ${className}`;
+    }
+    return { type: "TimeDistributed", params };
+  },
+
+  MultiHeadAttention: (config) => ({
+    type: "MultiHeadAttention",
+    params: {
+      num_heads: readNumber(config.num_heads, 8),
+      key_dim: readNumber(config.key_dim, 64),
+      dropout: readNumber(config.dropout, 0),
+      use_bias: readFlag(config.use_bias, true),
+    },
+  }),
+
+  Flatten: () => ({ type: "Flatten", params: {} }),
+
+  Reshape: (config) => {
+    const targetShape = toNumberList(config.target_shape);
+    if (!targetShape) return "the target shape could not be read";
+    return {
+      type: "Reshape",
+      params: { target_shape: formatShapeTuple(targetShape) },
+    };
+  },
+
+  Permute: (config) => {
+    const dims = toNumberList(config.dims);
+    if (!dims) return "the permutation could not be read";
+    return { type: "Permute", params: { dims: formatShapeTuple(dims) } };
+  },
+
+  Concatenate: mapMerge("concat"),
+  Add: mapMerge("add"),
+  Multiply: mapMerge("multiply"),
+  Average: mapMerge("average"),
+  Maximum: mapMerge("maximum"),
+  Minimum: mapMerge("minimum"),
+  Subtract: mapMerge("subtract"),
+  Dot: mapMerge("dot"),
+
+  Activation: (config) => ({
+    type: "Activation",
+    params: { activation_function: readActivation(config.activation) },
+  }),
+  Softmax: mapActivation("softmax"),
+  ELU: mapActivation("elu"),
+
+  ReLU: (config) => {
+    const isPlainRelu =
+      config.max_value == null &&
+      readNumber(config.negative_slope, 0) === 0 &&
+      readNumber(config.threshold, 0) === 0;
+    return isPlainRelu
+      ? { type: "Activation", params: { activation_function: "relu" } }
+      : "max_value, negative_slope and threshold are not supported";
+  },
+
+  LeakyReLU: (config, { warn }) => {
+    // Keras 2 named the slope alpha
+    const slope = readNumber(config.negative_slope ?? config.alpha, 0.3);
+    if (slope !== 0.2) {
+      warn(`negative_slope ${slope} was replaced by leaky_relu's 0.2`);
+    }
+    return {
+      type: "Activation",
+      params: { activation_function: "leaky_relu" },
+    };
+  },
+
+  Dropout: (config) => ({
+    type: "Dropout",
+    params: { rate: readNumber(config.rate, 0.5) },
+  }),
+
+  SpatialDropout2D: (config) => ({
+    type: "SpatialDropout2D",
+    params: { rate: readNumber(config.rate, 0.2) },
+  }),
+
+  GaussianNoise: (config) => ({
+    type: "GaussianNoise",
+    params: { stddev: readNumber(config.stddev, 0.1) },
+  }),
+
+  BatchNormalization: (config) => {
+    const axes = toNumberList(config.axis) ?? [-1];
+    if (axes.length !== 1)
+      return "normalizing over several axes is not supported";
+    return {
+      type: "BatchNormalization",
+      params: {
+        axis: axes[0],
+        momentum: readNumber(config.momentum, 0.99),
+        epsilon: readNumber(config.epsilon, 0.001),
+        center: config.center !== false,
+        scale: config.scale !== false,
+      },
+    };
+  },
+
+  LayerNormalization: (config) => {
+    const axes = toNumberList(config.axis) ?? [-1];
+    return {
+      type: "LayerNormalization",
+      params: {
+        axis:
+          typeof config.axis === "number"
+            ? String(axes[0])
+            : `[${axes.join(", ")}]`,
+        epsilon: readNumber(config.epsilon, 0.001),
+        center: config.center !== false,
+        scale: config.scale !== false,
+      },
+    };
+  },
+};
+
+/**
+ * Maps an InputLayer onto an Input node by the rank of its shape. Rank-1
+ * inputs that are integers or feed an Embedding hold token indices.
+ */
+function mapInputLayer(
+  config: KerasConfig,
+  feedsEmbedding: boolean,
+  warn: MapperContext["warn"]
+): MappedLayer | string {
+  const batchShape = toShape(config.batch_shape ?? config.batch_input_shape);
+  if (!batchShape) return "the input shape could not be read";
+
+  const dims = batchShape.slice(1);
+  if (!isKnownShape(dims)) {
+    warn("has variable-size dimensions, which were given default sizes");
+  }
+  // Unknown dimensions fall back to the Input defaults
+  const sizes = (keys: string[]) =>
+    Object.fromEntries(
+      keys.flatMap((key, index) =>
+        dims[index] == null ? [] : [[key, dims[index]]]
+      )
+    );
+
+  switch (dims.length) {
+    case 1: {
+      const isIndices =
+        feedsEmbedding || readDtype(config.dtype).startsWith("int");
+      return isIndices
+        ? {
+            type: "Input",
+            params: {
+              inputType: "sequence_indices",
+              ...sizes(["seqIndicesLength"]),
+            },
+          }
+        : {
+            type: "Input",
+            params: { inputType: "flat_data", ...sizes(["flatSize"]) },
+          };
+    }
+    case 2:
+      return {
+        type: "Input",
+        params: { inputType: "sequence", ...sizes(["seqLength", "features"]) },
+      };
+    case 3: {
+      const channels = dims[2];
+      const inputType =
+        channels === 1
+          ? "image_grayscale"
+          : channels === 3
+            ? "image_color"
+            : "image_custom";
+      return {
+        type: "Input",
+        params: { inputType, ...sizes(["height", "width", "channels"]) },
+      };
+    }
+    default:
+      return `inputs with ${dims.length} dimensions are not supported`;
+  }
+}
+
+/**
+ * Replaces select values that are not among the options with the default
+ * and reports numbers outside their range, which the canvas then flags
+ */
+function checkMappedParams(
+  { type, params }: MappedLayer,
+  warn: MapperContext["warn"]
+): LayerParams {
+  const merged = { ...getDefaultParams(type), ...params };
+  for (const [key, value] of Object.entries(params)) {
+    const info = getParameterInfo(type, key);
+    if (
+      info?.type === "select" &&
+      info.options &&
+      !info.options.some((option) => option.value === String(value))
+    ) {
+      warn(`${key} "${value}" is not supported; using "${info.default}"`);
+      merged[key] = info.default ?? merged[key];
+    }
+  }
+
+  const { errors } = validateParameterValues(type, merged);
+  errors.forEach((error) => warn(error));
+  return merged;
+}
+
+// ============================================================================
+// MODEL PARSING
+// ============================================================================
+
+function callKey({ layer, node }: TensorSource): string {
+  return `${layer}:${node}`;
+}
+
+/**
+ * Reads a [layer, node, tensor] reference from the tf.keras 2 format
+ */
+function toLegacySource(value: unknown): TensorSource | null {
+  if (
+    Array.isArray(value) &&
+    typeof value[0] === "string" &&
+    typeof value[1] === "number"
+  ) {
+    return { layer: value[0], node: value[1] };
+  }
+  return null;
+}
+
+function toSourceList(value: unknown): TensorSource[] {
+  const single = toLegacySource(value);
+  if (single) return [single];
+  return Array.isArray(value)
+    ? value
+        .map(toLegacySource)
+        .filter((source): source is TensorSource => source !== null)
+    : [];
+}
+
+/**
+ * Collects the Keras 3 tensors in call arguments, recording their shapes
+ */
+function collectKerasTensors(
+  value: unknown,
+  shapes: ParsedModel["shapes"],
+  sources: TensorSource[]
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectKerasTensors(item, shapes, sources));
+    return;
+  }
+  if (!isRecord(value)) return;
+
+  if (value.class_name === "__keras_tensor__" && isRecord(value.config)) {
+    const source = toLegacySource(value.config.keras_history);
+    if (!source) return;
+    sources.push(source);
+    const shape = toShape(value.config.shape);
+    if (shape) shapes.set(callKey(source), shape.slice(1));
+    return;
+  }
+  Object.values(value).forEach((item) =>
+    collectKerasTensors(item, shapes, sources)
+  );
+}
+
+/**
+ * The inputs of one layer call: Keras 3 stores the call arguments, tf.keras 2
+ * a list of [layer, node, tensor, kwargs] entries
+ */
+function parseCall(
+  inboundNode: unknown,
+  shapes: ParsedModel["shapes"]
+): TensorSource[] {
+  const sources: TensorSource[] = [];
+
+  if (isRecord(inboundNode)) {
+    collectKerasTensors(inboundNode.args, shapes, sources);
+    collectKerasTensors(inboundNode.kwargs, shapes, sources);
+  } else if (Array.isArray(inboundNode)) {
+    for (const entry of inboundNode) {
+      const source = toLegacySource(entry);
+      if (!source) continue;
+      sources.push(source);
+      // Keyword tensors such as the value of an attention layer
+      const kwargs = Array.isArray(entry) ? entry[3] : undefined;
+      if (isRecord(kwargs)) {
+        Object.values(kwargs).forEach((value) => {
+          const kwargSource = toLegacySource(value);
+          if (kwargSource) sources.push(kwargSource);
+        });
+      }
+    }
+  }
+
+  // The same tensor passed twice, as in self-attention, is one edge
+  return sources.filter(
+    (source, index) =>
+      sources.findIndex((other) => callKey(other) === callKey(source)) === index
+  );
+}
+
+function parseLayerEntry(entry: unknown, index: number): ParsedLayer | null {
+  if (!isRecord(entry) || typeof entry.class_name !== "string") return null;
+  const config = isRecord(entry.config) ? entry.config : {};
+  const name =
+    typeof entry.name === "string"
+      ? entry.name
+      : typeof config.name === "string"
+        ? config.name
+        : `layer_${index}`;
+  return { className: entry.class_name, name, config, calls: [] };
+}
+
+function parseFunctional(config: KerasConfig): ParsedModel | string {
+  if (!Array.isArray(config.layers)) return "The model config has no layers";
+
+  const shapes: ParsedModel["shapes"] = new Map();
+  const layers: ParsedLayer[] = [];
+  config.layers.forEach((entry, index) => {
+    const layer = parseLayerEntry(entry, index);
+    if (!layer) return;
+    const inboundNodes = isRecord(entry) ? entry.inbound_nodes : undefined;
+    layer.calls = Array.isArray(inboundNodes)
+      ? inboundNodes.map((node) => parseCall(node, shapes))
+      : [];
+    layers.push(layer);
+  });
+
+  return { layers, outputs: toSourceList(config.output_layers), shapes };
+}
+
+/**
+ * Chains the layers of a Sequential model, adding an InputLayer from the
+ * input shape the first layer or the model recorded when it has none
+ */
+function parseSequential(config: unknown): ParsedModel | string {
+  // Early tf.keras versions stored the layer list as the whole config
+  const entries = Array.isArray(config)
+    ? config
+    : isRecord(config) && Array.isArray(config.layers)
+      ? config.layers
+      : null;
+  if (!entries) return "The model config has no layers";
+
+  const layers = entries
+    .map(parseLayerEntry)
+    .filter((layer): layer is ParsedLayer => layer !== null);
+
+  if (layers[0]?.className !== "InputLayer") {
+    const batchShape =
+      layers[0]?.config.batch_shape ??
+      layers[0]?.config.batch_input_shape ??
+      (isRecord(config) ? config.build_input_shape : undefined);
+    if (!toShape(batchShape)) {
+      return "The Sequential model does not record its input shape; build the model before saving it";
+    }
+    layers.unshift({
+      className: "InputLayer",
+      name: "input_layer",
+      config: { batch_shape: batchShape, dtype: layers[0]?.config.dtype },
+      calls: [],
+    });
+  }
+
+  layers.forEach((layer, index) => {
+    if (index > 0) layer.calls = [[{ layer: layers[index - 1].name, node: 0 }]];
+  });
+
+  return {
+    layers,
+    outputs: [{ layer: layers[layers.length - 1].name, node: 0 }],
+    shapes: new Map(),
+  };
+}
+
+function parseModel(data: unknown): ParsedModel | string {
+  if (!isRecord(data) || typeof data.class_name !== "string") {
+    return "The file is not a Keras model config";
+  }
+  if (data.class_name === "Sequential") return parseSequential(data.config);
+
+  const config = data.config;
+  if (
+    isRecord(config) &&
+    Array.isArray(config.layers) &&
+    config.output_layers !== undefined
+  ) {
+    return parseFunctional(config);
+  }
+  return `${data.class_name} models cannot be imported; only functional and Sequential models store their layer graph`;
+}
+
+// ============================================================================
+// CANVAS CONSTRUCTION
+// ============================================================================
+
+function toPlaceholder(
+  className: string,
+  shape: Array<number | null> | undefined
+): MappedLayer {
+  return {
+    type: PLACEHOLDER_TYPE,
+    params: {
+      layer_class: className,
+      output_shape:
+        shape && isKnownShape(shape) && shape.length > 0
+          ? formatShapeTuple(shape)
+          : "",
+    },
+  };
+}
+
+/**
+ * Maps one call of a layer, falling back to a placeholder
+ */
+function mapLayerCall(
+  layer: ParsedLayer,
+  key: string,
+  model: ParsedModel,
+  context: MapperContext
+): MappedLayer {
+  const outputShape = model.shapes.get(key);
+
+  if (MODEL_CLASSES.has(layer.className)) {
+    context.warn(
+      "nested models are not expanded; it was imported as a placeholder"
+    );
+    return toPlaceholder(layer.className, outputShape);
+  }
+
+  const mapper = LAYER_MAPPERS[layer.className];
+  const mapped = mapper
+    ? mapper(layer.config, context)
+    : `${layer.className} has no BlockDL equivalent`;
+  if (typeof mapped === "string") {
+    context.warn(`${mapped}; it was imported as a placeholder`);
+    return toPlaceholder(layer.className, outputShape);
+  }
+  return mapped;
+}
+
+// ============================================================================
+// ARCHIVE READING
+// ============================================================================
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream(COMPRESSION_FORMAT));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readBytes(
+  file: Blob,
+  start: number,
+  end: number
+): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Finds the central directory from the end of central directory record,
+ * following the zip64 locator for large archives
+ */
+async function findCentralDirectory(
+  file: Blob
+): Promise<{ offset: number; size: number } | null> {
+  const tailStart = Math.max(0, file.size - MAX_END_OF_DIRECTORY_SIZE);
+  const tail = await readBytes(file, tailStart, file.size);
+
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) !== ZIP_SIGNATURES.END_OF_DIRECTORY) continue;
+
+    const size = tail.getUint32(i + 12, true);
+    const offset = tail.getUint32(i + 16, true);
+    const locator = i - 20;
+    if (
+      offset === 0xffffffff &&
+      locator >= 0 &&
+      tail.getUint32(locator, true) === ZIP_SIGNATURES.ZIP64_LOCATOR
+    ) {
+      const recordOffset = Number(tail.getBigUint64(locator + 8, true));
+      const record = await readBytes(file, recordOffset, recordOffset + 56);
+      if (record.getUint32(0, true) !== ZIP_SIGNATURES.ZIP64_END_OF_DIRECTORY) {
+        return null;
+      }
+      return {
+        size: Number(record.getBigUint64(40, true)),
+        offset: Number(record.getBigUint64(48, true)),
+      };
+    }
+    return { offset, size };
+  }
+  return null;
+}
+
+/**
+ * Reads the model config from a `.keras` archive, a zip holding config.json
+ * next to the weights. Only the config entry is read, so the weights are
+ * never loaded into memory.
+ */
+export async function readKerasArchiveConfig(file: Blob): Promise<string> {
+  const directory = await findCentralDirectory(file);
+  if (!directory) throw new Error("The file is not a .keras archive");
+
+  const entries = await readBytes(
+    file,
+    directory.offset,
+    directory.offset + directory.size
+  );
+  const decoder = new TextDecoder();
+
+  for (let position = 0; position + 46 <= entries.byteLength;) {
+    if (entries.getUint32(position, true) !== ZIP_SIGNATURES.CENTRAL_HEADER) {
+      break;
+    }
+    const method = entries.getUint16(position + 10, true);
+    const compressedSize = entries.getUint32(position + 20, true);
+    const nameLength = entries.getUint16(position + 28, true);
+    const extraLength = entries.getUint16(position + 30, true);
+    const commentLength = entries.getUint16(position + 32, true);
+    const headerOffset = entries.getUint32(position + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(
+        entries.buffer,
+        entries.byteOffset + position + 46,
+        nameLength
+      )
+    );
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name !== CONFIG_FILE_NAME) continue;
+
+    // The data follows the local header, whose extra field may differ
+    const localHeader = await readBytes(file, headerOffset, headerOffset + 30);
+    if (localHeader.getUint32(0, true) !== ZIP_SIGNATURES.LOCAL_HEADER) {
+      break;
+    }
+    const dataStart =
+      headerOffset +
+      30 +
+      localHeader.getUint16(26, true) +
+      localHeader.getUint16(28, true);
+    const data = new Uint8Array(
+      await file.slice(dataStart, dataStart + compressedSize).arrayBuffer()
+    );
+
+    if (method === 0) return decoder.decode(data);
+    if (method === 8) return decoder.decode(await inflate(data));
+    throw new Error(`${CONFIG_FILE_NAME} uses an unsupported compression`);
+  }
+
+  throw new Error(`The archive does not contain ${CONFIG_FILE_NAME}`);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Whether parsed JSON is a Keras model config rather than a project file
+ */
+export function isKerasModelConfig(data: unknown): boolean {
+  return (
+    isRecord(data) &&
+    typeof data.class_name === "string" &&
+    data.config !== undefined
+  );
+}
+
+/**
+ * Builds canvas nodes and edges from a parsed Keras model config. A layer
+ * called several times gets a node per call.
+ */
+export function importKerasModel(
+  data: unknown,
+  direction: LayoutDirection = "TB"
+): KerasImportResult {
+  const model = parseModel(data);
+  if (typeof model === "string") return { success: false, error: model };
+
+  const warnings: string[] = [];
+  const outputKeys = new Set(model.outputs.map(callKey));
+  const timestamp = Date.now();
+  const nodes: Node[] = [];
+  const nodeIds = new Map<string, string>();
+
+  const addNode = (key: string, name: string, mapped: MappedLayer) => {
+    const warn = (message: string) => warnings.push(`${name}: ${message}`);
+    const params = checkMappedParams(mapped, warn);
+    // Inputs and outputs keep the layer name when it is a valid identifier
+    // that does not clash with the generated code
+    if (
+      (mapped.type === "Input" || mapped.type === "Output") &&
+      IDENTIFIER_PATTERN.test(name)
+    ) {
+      const nameErrors =
+        getLayerDefinition(mapped.type)?.validateParameters?.({ name }) ?? [];
+      if (nameErrors.length === 0) {
+        params.name = name;
+      } else {
+        warn("the name is used by the generated code and was not kept");
+      }
+    }
+    const id = `${mapped.type.toLowerCase()}-${timestamp}-${nodes.length}`;
+    nodeIds.set(key, id);
+    nodes.push({
+      id,
+      type: "layerNode",
+      position: { x: 0, y: 0 },
+      data: { type: mapped.type, params },
+    });
+  };
+
+  for (const layer of model.layers) {
+    const warn = (message: string) =>
+      warnings.push(`${layer.name}: ${message}`);
+
+    if (layer.className === "InputLayer") {
+      const feedsEmbedding = model.layers.some(
+        (other) =>
+          other.className === "Embedding" &&
+          other.calls.some((call) =>
+            call.some((source) => source.layer === layer.name)
+          )
+      );
+      const mapped = mapInputLayer(layer.config, feedsEmbedding, warn);
+      if (typeof mapped === "string") {
+        return { success: false, error: `${layer.name}: ${mapped}` };
+      }
+      addNode(`${layer.name}:0`, layer.name, mapped);
+      continue;
+    }
+
+    if (layer.calls.length > 1) {
+      warn(
+        `is called ${layer.calls.length} times; each call became a separate layer that no longer shares weights`
+      );
+    }
+    layer.calls.forEach((call, index) => {
+      const key = callKey({ layer: layer.name, node: index });
+      const inputSource = call[0] && model.shapes.get(callKey(call[0]));
+      const mapped = mapLayerCall(layer, key, model, {
+        inputShape: inputSource,
+        isModelOutput: outputKeys.has(key),
+        warn,
+      });
+      addNode(
+        key,
+        layer.calls.length > 1 ? `${layer.name}_${index}` : layer.name,
+        mapped
+      );
+    });
+  }
+
+  const edges: Edge[] = [];
+  for (const layer of model.layers) {
+    layer.calls.forEach((call, index) => {
+      const target = nodeIds.get(callKey({ layer: layer.name, node: index }));
+      // Named inputs such as the query and value of attention follow the
+      // call's argument order
+      const targetType = nodes.find((node) => node.id === target)?.data.type;
+      const inputHandles =
+        getLayerDefinition(String(targetType))?.inputHandles ?? [];
+      call.forEach((source, position) => {
+        const sourceId = nodeIds.get(callKey(source));
+        if (!target || !sourceId) {
+          warnings.push(
+            `${layer.name}: the input from ${source.layer} could not be connected`
+          );
+          return;
+        }
+        const targetHandle = inputHandles[position];
+        edges.push({
+          id: `${sourceId}-${target}`,
+          source: sourceId,
+          target,
+          ...(targetHandle ? { targetHandle } : {}),
+          type: "smoothstep",
+          style: { strokeWidth: 2, stroke: "#6b7280" },
+        });
+      });
+    });
+  }
+
+  if (nodes.length === 0) {
+    return { success: false, error: "The model has no layers to import" };
+  }
+
+  return {
+    success: true,
+    nodes: arrangeNodes(nodes, edges, direction, { x: 0, y: 0 }) ?? nodes,
+    edges,
+    warnings,
+  };
+}
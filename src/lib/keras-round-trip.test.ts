@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { Node, Edge } from "@xyflow/react";
+import { exportKerasModel } from "./keras-export";
+import { importKerasModel } from "./keras-import";
+import { chain, edge, layerNode } from "../test/graph";
+
+const exportModel = (nodes: Node[], edges: Edge[]) => {
+  const result = exportKerasModel(nodes, edges);
+  if (!result.success) throw new Error(result.error);
+  // The importer reads the file contents, not the exported object
+  return JSON.parse(JSON.stringify(result.model));
+};
+
+const importModel = (data: unknown) => {
+  const result = importKerasModel(data);
+  if (!result.success) throw new Error(result.error);
+  return result;
+};
+
+const layerTypes = (nodes: Node[]) => nodes.map((node) => node.data.type);
+
+describe("Keras export and import", () => {
+  it("keeps a sequential network's layers and parameters", () => {
+    const nodes = [
+      layerNode("in", "Input", { inputType: "image_grayscale" }),
+      layerNode("conv", "Conv2D", { filters: 16, kernel_size: "(3, 3)" }),
+      layerNode("flatten", "Flatten"),
+      layerNode("dense", "Dense", { units: 32, activation: "relu" }),
+      layerNode("out", "Output", { units: 10 }),
+    ];
+    const imported = importModel(
+      exportModel(nodes, chain("in", "conv", "flatten", "dense", "out"))
+    );
+
+    expect(imported.warnings).toEqual([]);
+    expect(layerTypes(imported.nodes)).toEqual(layerTypes(nodes));
+    expect(imported.edges).toHaveLength(4);
+    expect(imported.nodes[1].data.params).toMatchObject({ filters: 16 });
+    expect(imported.nodes[3].data.params).toMatchObject({
+      units: 32,
+      activation: "relu",
+    });
+  });
+
+  it("keeps the input order of a merge", () => {
+    const nodes = [
+      layerNode("in", "Input", { inputType: "flat_data", flatSize: 8 }),
+      layerNode("a", "Dense", { units: 4 }),
+      layerNode("b", "Dense", { units: 4 }),
+      layerNode("sub", "Merge", { mode: "subtract" }),
+      layerNode("out", "Output", { units: 1 }),
+    ];
+    const edges = [
+      edge("in", "a"),
+      edge("in", "b"),
+      edge("b", "sub"),
+      edge("a", "sub"),
+      edge("sub", "out"),
+    ];
+    const exported = exportModel(nodes, edges);
+    const imported = importModel(exported);
+    const reexported = exportModel(imported.nodes, imported.edges);
+
+    const inboundOf = (model: typeof exported) => {
+      const merge = model.config.layers.find(
+        (layer: { class_name: string }) => layer.class_name === "Subtract"
+      );
+      return merge.inbound_nodes[0].args[0].map(
+        (tensor: { config: { keras_history: [string] } }) =>
+          tensor.config.keras_history[0]
+      );
+    };
+    expect(inboundOf(exported)).toEqual(["dense_1", "dense"]);
+    expect(inboundOf(reexported)).toEqual(inboundOf(exported));
+  });
+
+  it("round-trips a network exported from an import", () => {
+    const nodes = [
+      layerNode("in", "Input", { inputType: "sequence", seqLength: 20 }),
+      layerNode("lstm", "LSTM", { units: 16 }),
+      layerNode("out", "Output", { units: 2 }),
+    ];
+    const exported = exportModel(nodes, chain("in", "lstm", "out"));
+    const imported = importModel(exported);
+    const reexported = exportModel(imported.nodes, imported.edges);
+
+    expect(reexported.config.layers).toEqual(exported.config.layers);
+  });
+
+  it("drops input names that clash with the generated code", () => {
+    const nodes = [
+      layerNode("in", "Input", { inputType: "flat_data", name: "features" }),
+      layerNode("out", "Output", { units: 1 }),
+    ];
+    const exported = exportModel(nodes, chain("in", "out"));
+    const inputLayer = exported.config.layers[0];
+    inputLayer.name = "model";
+    inputLayer.config.name = "model";
+    exported.config.input_layers[0] = "model";
+    exported.config.layers[1].inbound_nodes[0].args[0].config.keras_history[0] =
+      "model";
+
+    const imported = importModel(exported);
+    expect(imported.nodes[0].data.params).toMatchObject({ name: "" });
+    expect(imported.warnings).toHaveLength(1);
+  });
+});
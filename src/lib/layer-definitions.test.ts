@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { getLayerDefinition } from "./layer-definitions";
+
+describe("MultiHeadAttention", () => {
+  const attention = getLayerDefinition("MultiHeadAttention");
+  if (!attention) throw new Error("MultiHeadAttention is not defined");
+
+  it("keeps the query shape for self- and cross-attention", () => {
+    expect(attention.computeShape([[10, 16]], {})).toEqual([10, 16]);
+    expect(
+      attention.computeShape(
+        [
+          [10, 16],
+          [20, 32],
+        ],
+        {}
+      )
+    ).toEqual([10, 16]);
+  });
+
+  it("rejects inputs that are not sequences", () => {
+    expect(attention.validateInputs([[16]], {}).isValid).toBe(false);
+  });
+
+  it("rejects value and key inputs of different lengths", () => {
+    const result = attention.validateInputs(
+      [
+        [10, 16],
+        [20, 32],
+        [12, 32],
+      ],
+      {}
+    );
+    expect(result.isValid).toBe(false);
+  });
+});
+
+const nameErrors = (type: string, name: string) =>
+  getLayerDefinition(type)?.validateParameters?.({ name }) ?? [];
+
+describe("Input and Output names", () => {
+  it.each(["image", "metadata", "class_head"])("accepts %s", (name) => {
+    expect(nameErrors("Input", name)).toEqual([]);
+    expect(nameErrors("Output", name)).toEqual([]);
+  });
+
+  it.each(["class", "lambda", "self"])("rejects the Python name %s", (name) => {
+    expect(nameErrors("Input", name)[0]).toContain("reserved Python name");
+  });
+
+  it.each(["F", "nn", "torch", "tf", "jnp", "model", "x", "x_image", "Dense"])(
+    "rejects %s, which the generated code uses",
+    (name) => {
+      expect(nameErrors("Input", name)[0]).toContain(
+        "used by the generated code"
+      );
+      expect(nameErrors("Output", name)[0]).toContain(
+        "used by the generated code"
+      );
+    }
+  );
+});
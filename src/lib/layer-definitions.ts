@@ -12,6 +12,7 @@
 
 import { parseTupleOrNumber } from "./utils";
 import type { LayerObject } from "./dag-parser";
+import { lossOptions } from "./training-config";
 
 // ============================================================================
 // ACTIVATION CONSTANTS
@@ -42,6 +43,266 @@ export const ACTIVATION_OPTIONS: SelectOption[] = [
   { value: "elu", label: "ELU", description: "Exponential Linear Unit" },
 ];
 
+// ============================================================================
+// PYTORCH SHAPE HELPERS
+// ============================================================================
+
+/**
+ * Feature size (last, channels-last dimension) of the first input, if resolved.
+ * Used to fill in_features / in_channels / input_size in PyTorch modules.
+ */
+function getInputFeatures(inputShapes?: number[][]): number | null {
+  const shape = inputShapes?.[0];
+  if (!shape || shape.length === 0) return null;
+  return shape[shape.length - 1];
+}
+
+// ============================================================================
+// FLAX HELPERS
+// ============================================================================
+
+/**
+ * Formats a "(h,w)" or single-number parameter as a Python pair
+ */
+export function formatFlaxPair(value: unknown, fallback: [number, number]): string {
+  const [first, second] = parseTupleOrNumber(String(value ?? "")) ?? fallback;
+  return `(${first}, ${second})`;
+}
+
+/**
+ * Flax padding string for a Keras padding mode
+ */
+function formatFlaxPadding(padding: unknown, fallback = "same"): string {
+  const mode = String(padding || fallback);
+  return ["valid", "same", "causal"].includes(mode)
+    ? `'${mode.toUpperCase()}'`
+    : "'SAME'";
+}
+
+// ============================================================================
+// TF.JS HELPERS
+// ============================================================================
+
+/**
+ * Formats TF.js layer arguments as an object literal, e.g. "{ units: 64 }"
+ */
+function formatTfjsArgs(args: string[]): string {
+  return args.length > 0 ? `{ ${args.join(", ")} }` : "";
+}
+
+/**
+ * Formats a "(h,w)" or single-number parameter as a TF.js [h, w] array
+ */
+function formatTfjsPair(value: unknown, fallback: [number, number]): string {
+  const [first, second] = parseTupleOrNumber(String(value ?? "")) ?? fallback;
+  return `[${first}, ${second}]`;
+}
+
+/**
+ * Formats a "(a, b, ...)" parameter as a TF.js array
+ */
+function formatTfjsArray(value: string): string {
+  const entries = value
+    .replace(/[()[\]]/g, "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  return `[${entries.join(", ")}]`;
+}
+
+/**
+ * TF.js activation argument. leaky_relu has no identifier in TF.js, so the
+ * code generator adds a tf.layers.leakyReLU() layer after the layer instead.
+ */
+function tfjsActivationArg(activation: string): string[] {
+  return ["", "linear", "leaky_relu"].includes(activation)
+    ? []
+    : [`activation: '${activation}'`];
+}
+
+function tfjsUnsupported(description: string): string {
+  return `// ${description} has no TF.js equivalent`;
+}
+
+// ============================================================================
+// KERAS CONFIG HELPERS
+// ============================================================================
+
+// Layers are exported with float32 weights and computations
+const KERAS_DTYPE_POLICY = {
+  module: "keras",
+  class_name: "DTypePolicy",
+  config: { name: "float32" },
+  registered_name: null,
+};
+
+/**
+ * Serializes a built-in layer for a Keras model config. `trainable` is left out because some layers (e.g. SpatialDropout2D) do not
+ * accept it back
+ */
+export function serializeKerasLayer(
+  layer: KerasLayerConfig,
+  name?: string
+): SerializedKerasLayer {
+  return {
+    module: "keras.layers",
+    class_name: layer.className,
+    config: {
+      ...(name ? { name } : {}),
+      dtype: KERAS_DTYPE_POLICY,
+      ...layer.config,
+    },
+    registered_name: null,
+  };
+}
+
+/**
+ * Reads a "(h,w)" or single-number parameter as a Keras [h, w] list
+ */
+function kerasPair(value: unknown, fallback: [number, number]): number[] {
+  return parseTupleOrNumber(String(value ?? "")) ?? fallback;
+}
+
+/**
+ * Reads "1", "(1,2)" or "((1,2),(3,4))" as Keras' 2D padding and cropping
+ * format, ((top, bottom), (left, right))
+ */
+function kerasPadding2D(value: unknown, fallback: number): number[][] {
+  const amounts = (String(value ?? "").match(/\d+/g) ?? []).map(Number);
+  if (amounts.length === 4) {
+    return [
+      [amounts[0], amounts[1]],
+      [amounts[2], amounts[3]],
+    ];
+  }
+  if (amounts.length === 2) {
+    return [
+      [amounts[0], amounts[0]],
+      [amounts[1], amounts[1]],
+    ];
+  }
+  const amount = amounts[0] ?? fallback;
+  return [
+    [amount, amount],
+    [amount, amount],
+  ];
+}
+
+/**
+ * Arguments shared by the Keras convolution layers
+ */
+function kerasConvArgs(
+  filters: number,
+  kernelSize: number[],
+  strides: number[],
+  padding: string,
+  activation: string,
+  useBias = true
+): Record<string, unknown> {
+  return {
+    filters,
+    kernel_size: kernelSize,
+    strides,
+    padding,
+    data_format: "channels_last",
+    dilation_rate: kernelSize.map(() => 1),
+    activation,
+    use_bias: useBias,
+  };
+}
+
+// ============================================================================
+// PARAMETER COUNT HELPERS
+// ============================================================================
+
+function trainable(count: number): ParameterCount {
+  return { trainable: count, nonTrainable: 0 };
+}
+
+/**
+ * Weights of a Keras LSTM or GRU layer (kernel, recurrent kernel and bias per gate)
+ */
+function countRecurrentParameters(
+  cell: string,
+  inputSize: number,
+  units: number,
+  resetAfter = true
+): number {
+  if (cell === "GRU") {
+    // reset_after keeps separate input and recurrent biases
+    const biases = resetAfter ? 2 * units : units;
+    return 3 * (units * (inputSize + units) + biases);
+  }
+  return 4 * (units * (inputSize + units) + units);
+}
+
+/**
+ * Weights of a Keras MultiHeadAttention layer (query/key/value/output projections)
+ */
+function countAttentionParameters(
+  queryDim: number,
+  keyDim: number,
+  valueDim: number,
+  numHeads: number,
+  headDim: number,
+  useBias: boolean
+): number {
+  const projected = numHeads * headDim;
+  const bias = useBias ? projected : 0;
+  const query = queryDim * projected + bias;
+  const key = keyDim * projected + bias;
+  const value = valueDim * projected + bias;
+  const output = projected * queryDim + (useBias ? queryDim : 0);
+  return query + key + value + output;
+}
+
+// ============================================================================
+// COMPUTE COST HELPERS
+// ============================================================================
+
+function product(shape: number[]): number {
+  return shape.reduce((total, dim) => total * dim, 1);
+}
+
+/**
+ * Multiply-accumulates of an LSTM or GRU over a whole sequence
+ */
+function countRecurrentMACs(
+  cell: string,
+  timeSteps: number,
+  inputSize: number,
+  units: number
+): number {
+  const gates = cell === "GRU" ? 3 : 4;
+  return timeSteps * gates * units * (inputSize + units);
+}
+
+/**
+ * Multiply-accumulates of multi-head attention: projections, scores,
+ * weighted sum of values and the output projection
+ */
+function countAttentionMACs(
+  query: number[],
+  key: number[],
+  value: number[],
+  numHeads: number,
+  headDim: number
+): number {
+  const projected = numHeads * headDim;
+  const [queryLength, queryDim] = query;
+  const [keyLength, keyFeatures] = key;
+  const [valueLength, valueFeatures] = value;
+
+  const projections =
+    queryLength * queryDim * projected +
+    keyLength * keyFeatures * projected +
+    valueLength * valueFeatures * projected;
+  const scores = queryLength * keyLength * projected;
+  const weightedValues = queryLength * keyLength * projected;
+  const output = queryLength * projected * queryDim;
+  return projections + scores + weightedValues + output;
+}
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -94,9 +355,59 @@ export interface LayerMetadata {
   };
 }
 
+// A Keras layer as `layer.get_config()` describes it; `config` holds the
+// layer's own arguments and the exporter adds its name and dtype
+export interface KerasLayerConfig {
+  className: string;
+  config: Record<string, unknown>;
+}
+
+// One built-in layer standing in for part of a layer Keras has no class for.
+// `inbound` lists the sublayers it is called on by suffix, "input" being the
+// layer's input
+export interface KerasSublayer extends KerasLayerConfig {
+  suffix: string;
+  inbound: string[];
+}
+
+// A layer as `keras.saving.serialize_keras_object` writes it
+export interface SerializedKerasLayer {
+  module: string;
+  class_name: string;
+  config: Record<string, unknown>;
+  registered_name: null;
+}
+
 export interface CodeGenerator {
   keras: (params: Record<string, unknown>) => string;
-  pytorch?: (params: Record<string, unknown>) => string;
+  // The layer's entry in `model.to_json()`, or the built-in sublayers that
+  // replace it (the last one gives the output)
+  kerasConfig?: (
+    params: Record<string, unknown>,
+    inputShapes: number[][]
+  ) => KerasLayerConfig | KerasSublayer[];
+  // inputShapes are the resolved (channels-last) input shapes, when known
+  pytorch?: (
+    params: Record<string, unknown>,
+    inputShapes?: number[][]
+  ) => string;
+  // A callable applied to the layer's input inside `@nn.compact __call__`,
+  // usually a flax.linen module; `train` is in scope there
+  flax?: (params: Record<string, unknown>) => string;
+  // A tf.layers.* constructor for TensorFlow.js; a `//` comment marks a
+  // layer with no TF.js equivalent
+  tfjs?: (params: Record<string, unknown>) => string;
+  // Supporting definitions (e.g. custom layer classes) emitted once per file
+  helpers?: {
+    keras?: string;
+    pytorch?: string;
+    flax?: string;
+  };
+}
+
+export interface ParameterCount {
+  trainable: number;
+  nonTrainable: number;
 }
 
 export interface LayerDefinition {
@@ -106,13 +417,117 @@ export interface LayerDefinition {
     inputShapes: number[][],
     params: Record<string, unknown>
   ) => { isValid: boolean; errorMessage?: string };
+  // Checks beyond the declarative rules in `parameters`, e.g. tuple syntax
+  validateParameters?: (params: Record<string, unknown>) => string[];
   computeShape: (
     inputShapes: number[][],
     params: Record<string, unknown>
   ) => number[] | null;
+  // Weights for one instance of the layer; omitted for weightless layers
+  countParameters?: (
+    inputShapes: number[][],
+    params: Record<string, unknown>
+  ) => ParameterCount;
+  // Multiply-accumulate operations for one instance and one sample
+  countMACs?: (
+    inputShapes: number[][],
+    outputShape: number[],
+    params: Record<string, unknown>
+  ) => number;
   generateCode: CodeGenerator;
   supportsMultiplier?: boolean;
   supportsActivation?: boolean;
+  // Named inputs in the order validateInputs and the generators take them,
+  // each with its own handle on the canvas
+  inputHandles?: string[];
+}
+
+// ============================================================================
+// PARAMETER VALIDATION HELPERS
+// ============================================================================
+
+// Python keywords that cannot name an input tensor or forward() argument
+const PYTHON_RESERVED_NAMES = new Set([
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break",
+  "class", "continue", "def", "del", "elif", "else", "except", "finally",
+  "for", "from", "global", "if", "import", "in", "is", "lambda", "nonlocal",
+  "not", "or", "pass", "raise", "return", "self", "try", "while", "with",
+  "yield",
+]);
+
+// Module aliases, layer classes and variables the generated code defines
+const GENERATED_CODE_NAMES = new Set([
+  "F", "nn", "torch", "tf", "keras", "jax", "jnp", "optax", "train_state",
+  "Any", "Model", "Sequential", "NeuralNetwork", "model", "optimizer",
+  "criterion", "criteria", "loss", "losses", "loss_weights", "total_loss",
+  "inputs", "outputs", "state", "variables", "key", "init_key", "dropout_key",
+  "grads", "batches", "train_loader", "train", "x",
+]);
+
+/**
+ * Rejects names that cannot be used as Python identifiers in generated code
+ * or that would shadow a name the generated code relies on
+ */
+function checkReservedName(
+  params: Record<string, unknown>,
+  label: string
+): string[] {
+  const name = String(params.name ?? "").trim();
+  if (PYTHON_RESERVED_NAMES.has(name)) {
+    return [`${label} "${name}" is a reserved Python name`];
+  }
+  // Example inputs are bound to `x` or `x_<input name>`
+  if (
+    GENERATED_CODE_NAMES.has(name) ||
+    name.startsWith("x_") ||
+    Object.keys(layerDefinitions).includes(name)
+  ) {
+    return [`${label} "${name}" is already used by the generated code`];
+  }
+  return [];
+}
+
+function isEmptyParameter(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Checks a number or (rows, cols) parameter such as a kernel size or stride
+ */
+function checkTupleParameter(
+  params: Record<string, unknown>,
+  key: string,
+  label: string,
+  min = 1
+): string[] {
+  const value = params[key];
+  if (isEmptyParameter(value)) return [];
+
+  const tuple = parseTupleOrNumber(String(value));
+  if (!tuple) {
+    return [`${label} must be a number or a (rows, cols) tuple`];
+  }
+  if (tuple.some((dim) => dim < min)) {
+    return [`${label} values must be at least ${min}`];
+  }
+  return [];
+}
+
+/**
+ * Parses a dimension list like "(2, 1)" or "(-1,)" into integers
+ */
+function parseDimensionList(value: unknown): number[] | null {
+  const match = String(value).trim().match(/^\((.*)\)$/);
+  if (!match) return null;
+
+  const parts = match[1]
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part, index, all) => part !== "" || index !== all.length - 1);
+  if (parts.length === 0 || parts.some((part) => !/^-?[0-9]+$/.test(part))) {
+    return null;
+  }
+  return parts.map(Number);
 }
 
 // ============================================================================
@@ -247,8 +662,20 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         validation: { min: 1, max: 100000 },
         conditional: { showWhen: { inputType: ["sequence_indices"] } },
       },
+      {
+        key: "name",
+        type: "text",
+        label: "Input Name",
+        description:
+          "Name of this input in the generated code; leave empty for a default",
+        default: "",
+        validation: { pattern: "^[A-Za-z_][A-Za-z0-9_]*$" },
+        ui: { tooltip: "e.g., image or metadata for a two-input model" },
+      },
     ],
     validateInputs: () => ({ isValid: true }),
+    validateParameters: (params) =>
+      checkReservedName(params, "Input Name"),
     computeShape: (
       _inputShapes: number[][],
       params: Record<string, unknown>
@@ -293,42 +720,55 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
     generateCode: {
       keras: (params: Record<string, unknown>) => {
         const inputType = String(params.inputType || "image_grayscale");
+        const name = String(params.name ?? "").trim();
+        const nameArg = name ? `, name="${name}"` : "";
 
         switch (inputType) {
           case "image_grayscale": {
             const h = Number(params.height) || 28;
             const w = Number(params.width) || 28;
-            return `Input(shape=(${h}, ${w}, 1))`;
+            return `Input(shape=(${h}, ${w}, 1)${nameArg})`;
           }
           case "image_color": {
             const h = Number(params.height) || 28;
             const w = Number(params.width) || 28;
-            return `Input(shape=(${h}, ${w}, 3))`;
+            return `Input(shape=(${h}, ${w}, 3)${nameArg})`;
           }
           case "image_custom": {
             const h = Number(params.height) || 28;
             const w = Number(params.width) || 28;
             const c = Number(params.channels) || 1;
-            return `Input(shape=(${h}, ${w}, ${c}))`;
+            return `Input(shape=(${h}, ${w}, ${c})${nameArg})`;
           }
           case "flat_data": {
             const size = Number(params.flatSize) || 784;
-            return `Input(shape=(${size},))`;
+            return `Input(shape=(${size},)${nameArg})`;
           }
           case "sequence": {
             const seqLen = Number(params.seqLength) || 100;
             const features = Number(params.features) || 128;
-            return `Input(shape=(${seqLen}, ${features}))`;
+            return `Input(shape=(${seqLen}, ${features})${nameArg})`;
           }
           case "sequence_indices": {
             const seqLen = Number(params.seqIndicesLength) || 784;
-            return `Input(shape=(${seqLen},))`;
+            return `Input(shape=(${seqLen},)${nameArg})`;
           }
           default: {
-            return `Input(shape=(28, 28, 1))`;
+            return `Input(shape=(28, 28, 1)${nameArg})`;
           }
         }
       },
+      kerasConfig: (params) => ({
+        className: "InputLayer",
+        config: {
+          batch_shape: [
+            null,
+            ...(layerDefinitions.Input.computeShape([], params) ?? []),
+          ],
+          dtype: "float32",
+          sparse: false,
+        },
+      }),
       pytorch: (params: Record<string, unknown>) => {
         const inputType = String(params.inputType || "image_grayscale");
 
@@ -426,6 +866,40 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         validation: { min: 1, max: 10000 },
         conditional: { showWhen: { outputType: ["regression", "multilabel"] } },
       },
+      {
+        key: "name",
+        type: "text",
+        label: "Head Name",
+        description:
+          "Name of this output in the generated code; leave empty for a default",
+        default: "",
+        validation: { pattern: "^[A-Za-z_][A-Za-z0-9_]*$" },
+        ui: { tooltip: "e.g., label or bbox for a multi-task model" },
+      },
+      {
+        key: "loss",
+        type: "select",
+        label: "Loss",
+        description: "Loss for this head; auto uses the training settings",
+        default: "auto",
+        options: [
+          {
+            value: "auto",
+            label: "Auto",
+            description: "Project loss, or derived from the output type",
+          },
+          ...lossOptions,
+        ],
+      },
+      {
+        key: "lossWeight",
+        type: "number",
+        label: "Loss Weight",
+        description: "Weight of this head in the combined loss",
+        default: 1,
+        validation: { min: 0, max: 1000 },
+        ui: { tooltip: "Only used when the model has several outputs" },
+      },
     ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
@@ -445,6 +919,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
       }
       return { isValid: true };
     },
+    validateParameters: (params) => checkReservedName(params, "Head Name"),
     computeShape: (inputShapes, params) => {
       if (inputShapes.length !== 1) return null;
       const inputShape = inputShapes[0];
@@ -464,6 +939,21 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
           return [10];
       }
     },
+    countParameters: (inputShapes, params) => {
+      const inFeatures = getInputFeatures(inputShapes);
+      const outputType = String(params.outputType || "multiclass");
+      const units =
+        outputType === "multiclass"
+          ? Number(params.numClasses) || 10
+          : outputType === "binary"
+            ? 1
+            : Number(params.units) || 1;
+      return trainable(inFeatures ? inFeatures * units + units : 0);
+    },
+    countMACs: (inputShapes, outputShape) => {
+      const inFeatures = getInputFeatures(inputShapes);
+      return inFeatures ? product(outputShape) * inFeatures : 0;
+    },
     generateCode: {
       keras: (params) => {
         const outputType = String(params.outputType || "multiclass");
@@ -492,9 +982,36 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
             activation = "softmax";
         }
 
-        return `Dense(${units}, activation='${activation}')`;
+        const name = String(params.name ?? "").trim();
+        const nameArg = name ? `, name="${name}"` : "";
+        return `Dense(${units}, activation='${activation}'${nameArg})`;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => {
+        const heads: Record<string, { units: number; activation: string }> = {
+          multiclass: {
+            units: Number(params.numClasses) || 10,
+            activation: "softmax",
+          },
+          binary: { units: 1, activation: "sigmoid" },
+          regression: {
+            units: Number(params.units) || 1,
+            activation: "linear",
+          },
+          multilabel: {
+            units: Number(params.units) || 1,
+            activation: "sigmoid",
+          },
+        };
+        const { units, activation } = heads[
+          String(params.outputType || "multiclass")
+        ] ?? { units: 10, activation: "softmax" };
+
+        return {
+          className: "Dense",
+          config: { units, activation, use_bias: true },
+        };
+      },
+      pytorch: (params, inputShapes) => {
         const outputType = String(params.outputType || "multiclass");
         let units: number;
         let activation: string;
@@ -522,7 +1039,43 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         }
 
         const activationComment = activation !== "none" ? ` # Apply ${activation} in forward()` : "";
-        return `nn.Linear(in_features, ${units})${activationComment}`;
+        const inFeatures = getInputFeatures(inputShapes);
+        const linear = inFeatures
+          ? `nn.Linear(${inFeatures}, ${units})`
+          : `nn.LazyLinear(${units})`;
+        return `${linear}${activationComment}`;
+      },
+      flax: (params) => {
+        // The activation is applied in __call__, as for PyTorch
+        const outputType = String(params.outputType || "multiclass");
+        const units =
+          outputType === "binary"
+            ? 1
+            : outputType === "multiclass"
+              ? Number(params.numClasses) || 10
+              : Number(params.units) || 1;
+        return `nn.Dense(features=${units})`;
+      },
+      tfjs: (params) => {
+        const outputType = String(params.outputType || "multiclass");
+        const units =
+          outputType === "binary"
+            ? 1
+            : outputType === "multiclass"
+              ? Number(params.numClasses) || 10
+              : Number(params.units) || 1;
+        const activation =
+          outputType === "regression"
+            ? "linear"
+            : outputType === "multiclass"
+              ? "softmax"
+              : "sigmoid";
+        const name = String(params.name ?? "").trim();
+
+        const args = [`units: ${units}`, `activation: '${activation}'`];
+        if (name) args.push(`name: '${name}'`);
+
+        return `tf.layers.dense(${formatTfjsArgs(args)})`;
       },
     },
   },
@@ -597,6 +1150,17 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
       const units = Number(params.units) || 128;
       return [units];
     },
+    countParameters: (inputShapes, params) => {
+      const inFeatures = getInputFeatures(inputShapes);
+      if (!inFeatures) return trainable(0);
+      const units = Number(params.units) || 128;
+      const useBias = String(params.use_bias) !== "false";
+      return trainable(inFeatures * units + (useBias ? units : 0));
+    },
+    countMACs: (inputShapes, outputShape) => {
+      const inFeatures = getInputFeatures(inputShapes);
+      return inFeatures ? product(outputShape) * inFeatures : 0;
+    },
     generateCode: {
       keras: (params: Record<string, unknown>) => {
         const units = Number(params.units) || 128;
@@ -613,12 +1177,23 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         code += ")";
         return code;
       },
-      pytorch: (params: Record<string, unknown>) => {
+      kerasConfig: (params) => ({
+        className: "Dense",
+        config: {
+          units: Number(params.units) || 128,
+          activation: params.activation ? String(params.activation) : "linear",
+          use_bias: String(params.use_bias) !== "false",
+        },
+      }),
+      pytorch: (params: Record<string, unknown>, inputShapes?: number[][]) => {
         const units = Number(params.units) || 128;
         const activation = String(params.activation) || "linear";
         const useBias = String(params.use_bias) !== "false";
+        const inFeatures = getInputFeatures(inputShapes);
 
-        let code = `nn.Linear(in_features, ${units}`;
+        let code = inFeatures
+          ? `nn.Linear(${inFeatures}, ${units}`
+          : `nn.LazyLinear(${units}`;
         if (!useBias) {
           code += `, bias=False`;
         }
@@ -630,6 +1205,21 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         
         return code;
       },
+      flax: (params) => {
+        const units = Number(params.units) || 128;
+        const useBias = String(params.use_bias) !== "false";
+        return `nn.Dense(features=${units}${useBias ? "" : ", use_bias=False"})`;
+      },
+      tfjs: (params) => {
+        const units = Number(params.units) || 128;
+        const activation = String(params.activation) || "linear";
+        const useBias = String(params.use_bias) !== "false";
+
+        const args = [`units: ${units}`, ...tfjsActivationArg(activation)];
+        if (!useBias) args.push("useBias: false");
+
+        return `tf.layers.dense(${formatTfjsArgs(args)})`;
+      },
     },
     supportsMultiplier: true,
     supportsActivation: true,
@@ -667,7 +1257,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Kernel Size",
         description: "Size of convolution window",
         default: "(3,3)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         ui: { tooltip: "e.g., (3,3) for 3x3 kernel" },
       },
       {
@@ -676,7 +1266,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Strides",
         description: "Stride of convolution",
         default: "(1,1)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
       },
       {
         key: "padding",
@@ -717,6 +1307,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         options: ACTIVATION_OPTIONS,
       },
     ],
+    validateParameters: (params) => [
+      ...checkTupleParameter(params, "kernel_size", "Kernel Size"),
+      ...checkTupleParameter(params, "strides", "Strides"),
+    ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -764,6 +1358,27 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
       return [outputHeight, outputWidth, filters];
     },
+    countParameters: (inputShapes, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      const kernelSize = parseTupleOrNumber(
+        String(params.kernel_size) || "(3,3)"
+      );
+      if (!inChannels || !kernelSize) return trainable(0);
+      const filters = Number(params.filters) || 32;
+      const useBias = String(params.use_bias) !== "false";
+      return trainable(
+        kernelSize[0] * kernelSize[1] * inChannels * filters +
+          (useBias ? filters : 0)
+      );
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      const kernelSize = parseTupleOrNumber(
+        String(params.kernel_size) || "(3,3)"
+      );
+      if (!inChannels || !kernelSize) return 0;
+      return product(outputShape) * kernelSize[0] * kernelSize[1] * inChannels;
+    },
     generateCode: {
       keras: (params) => {
         const filters = Number(params.filters) || 32;
@@ -784,7 +1399,18 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "Conv2D",
+        config: kerasConvArgs(
+          Number(params.filters) || 32,
+          kerasPair(params.kernel_size, [3, 3]),
+          kerasPair(params.strides, [1, 1]),
+          String(params.padding || "same"),
+          params.activation ? String(params.activation) : "linear",
+          String(params.use_bias) !== "false"
+        ),
+      }),
+      pytorch: (params, inputShapes) => {
         const filters = Number(params.filters) || 32;
         const kernelSize = String(params.kernel_size) || "(3,3)";
         const strides = String(params.strides) || "(1,1)";
@@ -812,7 +1438,11 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
           }
         }
 
-        let code = `nn.Conv2d(in_channels, ${filters}, kernel_size=(${kernelSizeParsed.join(', ')}), stride=(${stridesParsed.join(', ')}), ${paddingStr}`;
+        const inChannels = getInputFeatures(inputShapes);
+        const convArgs = `kernel_size=(${kernelSizeParsed.join(', ')}), stride=(${stridesParsed.join(', ')}), ${paddingStr}`;
+        let code = inChannels
+          ? `nn.Conv2d(${inChannels}, ${filters}, ${convArgs}`
+          : `nn.LazyConv2d(${filters}, ${convArgs}`;
         if (!useBias) {
           code += `, bias=False`;
         }
@@ -824,6 +1454,39 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
+      flax: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = formatFlaxPair(params.kernel_size, [3, 3]);
+        const strides = formatFlaxPair(params.strides, [1, 1]);
+        const useBias = String(params.use_bias) !== "false";
+
+        let code = `nn.Conv(features=${filters}, kernel_size=${kernelSize}, strides=${strides}, padding=${formatFlaxPadding(params.padding)}`;
+        if (!useBias) {
+          code += `, use_bias=False`;
+        }
+        code += ")";
+
+        return code;
+      },
+      tfjs: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = formatTfjsPair(params.kernel_size, [3, 3]);
+        const strides = formatTfjsPair(params.strides, [1, 1]);
+        const padding = String(params.padding) || "same";
+        const activation = String(params.activation) || "linear";
+        const useBias = String(params.use_bias) !== "false";
+
+        const args = [
+          `filters: ${filters}`,
+          `kernelSize: ${kernelSize}`,
+          `strides: ${strides}`,
+          `padding: '${padding}'`,
+          ...tfjsActivationArg(activation),
+        ];
+        if (!useBias) args.push("useBias: false");
+
+        return `tf.layers.conv2d(${formatTfjsArgs(args)})`;
+      },
     },
     supportsMultiplier: true,
     supportsActivation: true,
@@ -937,6 +1600,19 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
       return [outputLength, filters];
     },
+    countParameters: (inputShapes, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      if (!inChannels) return trainable(0);
+      const filters = Number(params.filters) || 32;
+      const kernelSize = Number(params.kernel_size) || 3;
+      return trainable(kernelSize * inChannels * filters + filters);
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      if (!inChannels) return 0;
+      const kernelSize = Number(params.kernel_size) || 3;
+      return product(outputShape) * kernelSize * inChannels;
+    },
     generateCode: {
       keras: (params) => {
         const filters = Number(params.filters) || 32;
@@ -957,7 +1633,17 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "Conv1D",
+        config: kerasConvArgs(
+          Number(params.filters) || 32,
+          [Number(params.kernel_size) || 3],
+          [Number(params.strides) || 1],
+          String(params.padding || "same"),
+          params.activation ? String(params.activation) : "linear"
+        ),
+      }),
+      pytorch: (params, inputShapes) => {
         const filters = Number(params.filters) || 32;
         const kernelSize = Number(params.kernel_size) || 3;
         const strides = Number(params.strides) || 1;
@@ -966,7 +1652,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         const paddingStr = padding === "same" ? "padding='same'" : "padding=0";
 
-        let code = `nn.Conv1d(in_channels, ${filters}, kernel_size=${kernelSize}`;
+        const inChannels = getInputFeatures(inputShapes);
+        let code = inChannels
+          ? `nn.Conv1d(${inChannels}, ${filters}, kernel_size=${kernelSize}`
+          : `nn.LazyConv1d(${filters}, kernel_size=${kernelSize}`;
         if (strides !== 1) {
           code += `, stride=${strides}`;
         }
@@ -978,6 +1667,33 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
+      flax: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = Number(params.kernel_size) || 3;
+        const strides = Number(params.strides) || 1;
+
+        // Flax convolutions are channels-last, so sequences need no transpose
+        let code = `nn.Conv(features=${filters}, kernel_size=(${kernelSize},)`;
+        if (strides !== 1) {
+          code += `, strides=(${strides},)`;
+        }
+        code += `, padding=${formatFlaxPadding(params.padding)})`;
+
+        return code;
+      },
+      tfjs: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = Number(params.kernel_size) || 3;
+        const strides = Number(params.strides) || 1;
+        const padding = String(params.padding) || "same";
+        const activation = String(params.activation) || "linear";
+
+        const args = [`filters: ${filters}`, `kernelSize: ${kernelSize}`];
+        if (strides !== 1) args.push(`strides: ${strides}`);
+        args.push(`padding: '${padding}'`, ...tfjsActivationArg(activation));
+
+        return `tf.layers.conv1d(${formatTfjsArgs(args)})`;
+      },
     },
     supportsMultiplier: true,
     supportsActivation: true,
@@ -1020,7 +1736,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Kernel Size",
         description: "Size of convolution window",
         default: "(3,3)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         ui: { tooltip: "e.g., (3,3) for 3x3 kernel" },
       },
       {
@@ -1029,7 +1745,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Strides",
         description: "Stride of convolution (controls upsampling factor)",
         default: "(2,2)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         ui: { tooltip: "e.g., (2,2) doubles the spatial dimensions" },
       },
       {
@@ -1071,6 +1787,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         options: ACTIVATION_OPTIONS,
       },
     ],
+    validateParameters: (params) => [
+      ...checkTupleParameter(params, "kernel_size", "Kernel Size"),
+      ...checkTupleParameter(params, "strides", "Strides"),
+    ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -1118,6 +1838,28 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
       return [outputHeight, outputWidth, filters];
     },
+    countParameters: (inputShapes, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      const kernelSize = parseTupleOrNumber(
+        String(params.kernel_size) || "(3,3)"
+      );
+      if (!inChannels || !kernelSize) return trainable(0);
+      const filters = Number(params.filters) || 32;
+      const useBias = String(params.use_bias) !== "false";
+      return trainable(
+        kernelSize[0] * kernelSize[1] * filters * inChannels +
+          (useBias ? filters : 0)
+      );
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      void outputShape; // Every input pixel is scattered through the kernel
+      const kernelSize = parseTupleOrNumber(
+        String(params.kernel_size) || "(3,3)"
+      );
+      if (inputShapes.length !== 1 || !kernelSize) return 0;
+      const filters = Number(params.filters) || 32;
+      return product(inputShapes[0]) * kernelSize[0] * kernelSize[1] * filters;
+    },
     generateCode: {
       keras: (params) => {
         const filters = Number(params.filters) || 32;
@@ -1138,7 +1880,21 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "Conv2DTranspose",
+        config: {
+          ...kerasConvArgs(
+            Number(params.filters) || 32,
+            kerasPair(params.kernel_size, [3, 3]),
+            kerasPair(params.strides, [2, 2]),
+            String(params.padding || "same"),
+            params.activation ? String(params.activation) : "linear",
+            String(params.use_bias) !== "false"
+          ),
+          output_padding: null,
+        },
+      }),
+      pytorch: (params, inputShapes) => {
         const filters = Number(params.filters) || 32;
         const kernelSize = String(params.kernel_size) || "(3,3)";
         const strides = String(params.strides) || "(2,2)";
@@ -1152,7 +1908,11 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         
         const paddingStr = padding === "same" ? "padding='same'" : "padding=0";
 
-        let code = `nn.ConvTranspose2d(in_channels, ${filters}, kernel_size=(${kernelSizeParsed.join(', ')}), stride=(${stridesParsed.join(', ')}), ${paddingStr}`;
+        const inChannels = getInputFeatures(inputShapes);
+        const convArgs = `kernel_size=(${kernelSizeParsed.join(', ')}), stride=(${stridesParsed.join(', ')}), ${paddingStr}`;
+        let code = inChannels
+          ? `nn.ConvTranspose2d(${inChannels}, ${filters}, ${convArgs}`
+          : `nn.LazyConvTranspose2d(${filters}, ${convArgs}`;
         if (!useBias) {
           code += `, bias=False`;
         }
@@ -1164,13 +1924,46 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-    },
-    supportsMultiplier: true,
-    supportsActivation: true,
-  },
+      flax: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = formatFlaxPair(params.kernel_size, [3, 3]);
+        const strides = formatFlaxPair(params.strides, [2, 2]);
+        const useBias = String(params.use_bias) !== "false";
 
-  // POOLING LAYERS
-  // ============================================================================
+        let code = `nn.ConvTranspose(features=${filters}, kernel_size=${kernelSize}, strides=${strides}, padding=${formatFlaxPadding(params.padding)}`;
+        if (!useBias) {
+          code += `, use_bias=False`;
+        }
+        code += ")";
+
+        return code;
+      },
+      tfjs: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = formatTfjsPair(params.kernel_size, [3, 3]);
+        const strides = formatTfjsPair(params.strides, [2, 2]);
+        const padding = String(params.padding) || "same";
+        const activation = String(params.activation) || "linear";
+        const useBias = String(params.use_bias) !== "false";
+
+        const args = [
+          `filters: ${filters}`,
+          `kernelSize: ${kernelSize}`,
+          `strides: ${strides}`,
+          `padding: '${padding}'`,
+          ...tfjsActivationArg(activation),
+        ];
+        if (!useBias) args.push("useBias: false");
+
+        return `tf.layers.conv2dTranspose(${formatTfjsArgs(args)})`;
+      },
+    },
+    supportsMultiplier: true,
+    supportsActivation: true,
+  },
+
+  // POOLING LAYERS
+  // ============================================================================
 
   MaxPool2D: {
     metadata: {
@@ -1191,7 +1984,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Pool Size",
         description: "Size of pooling window",
         default: "(2,2)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$", required: true },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$", required: true },
         ui: { tooltip: "Typically (2,2) to halve dimensions" },
       },
       {
@@ -1200,7 +1993,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Strides (optional)",
         description: "Strides of pooling operation",
         default: "",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         ui: { tooltip: "Defaults to pool_size if empty" },
       },
       {
@@ -1219,6 +2012,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         ],
       },
     ],
+    validateParameters: (params) => [
+      ...checkTupleParameter(params, "pool_size", "Pool Size"),
+      ...checkTupleParameter(params, "strides", "Strides"),
+    ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -1271,6 +2068,21 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return `MaxPool2D(pool_size=${poolSize}${strides}, padding='${padding}')`;
       },
+      kerasConfig: (params) => {
+        const poolSize = kerasPair(params.pool_size, [2, 2]);
+        return {
+          className: "MaxPooling2D",
+          config: {
+            pool_size: poolSize,
+            // Keras strides default to the pool size
+            strides: params.strides
+              ? kerasPair(params.strides, [2, 2])
+              : poolSize,
+            padding: String(params.padding || "valid"),
+            data_format: "channels_last",
+          },
+        };
+      },
       pytorch: (params) => {
         const poolSize = String(params.pool_size) || "(2,2)";
         const strides = params.strides || params.pool_size || "(2,2)";
@@ -1284,6 +2096,18 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return `nn.MaxPool2d(kernel_size=(${poolSizeParsed.join(', ')}), stride=(${stridesParsed.join(', ')})${paddingStr})`;
       },
+      tfjs: (params) => {
+        const poolSize = formatTfjsPair(params.pool_size, [2, 2]);
+        const padding = String(params.padding) || "valid";
+
+        const args = [`poolSize: ${poolSize}`];
+        if (params.strides) {
+          args.push(`strides: ${formatTfjsPair(params.strides, [2, 2])}`);
+        }
+        args.push(`padding: '${padding}'`);
+
+        return `tf.layers.maxPooling2d(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -1306,7 +2130,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Pool Size",
         description: "Size of pooling window",
         default: "(2,2)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$", required: true },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$", required: true },
         ui: { tooltip: "Typically (2,2) to halve dimensions" },
       },
       {
@@ -1315,7 +2139,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Strides (optional)",
         description: "Strides of pooling operation",
         default: "",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         ui: { tooltip: "Defaults to pool_size if empty" },
       },
       {
@@ -1334,6 +2158,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         ],
       },
     ],
+    validateParameters: (params) => [
+      ...checkTupleParameter(params, "pool_size", "Pool Size"),
+      ...checkTupleParameter(params, "strides", "Strides"),
+    ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -1386,6 +2214,21 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return `AveragePooling2D(pool_size=${poolSize}${strides}, padding='${padding}')`;
       },
+      kerasConfig: (params) => {
+        const poolSize = kerasPair(params.pool_size, [2, 2]);
+        return {
+          className: "AveragePooling2D",
+          config: {
+            pool_size: poolSize,
+            // Keras strides default to the pool size
+            strides: params.strides
+              ? kerasPair(params.strides, [2, 2])
+              : poolSize,
+            padding: String(params.padding || "valid"),
+            data_format: "channels_last",
+          },
+        };
+      },
       pytorch: (params) => {
         const poolSize = String(params.pool_size) || "(2,2)";
         const strides = params.strides || params.pool_size || "(2,2)";
@@ -1399,6 +2242,18 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return `nn.AvgPool2d(kernel_size=(${poolSizeParsed.join(', ')}), stride=(${stridesParsed.join(', ')})${paddingStr})`;
       },
+      tfjs: (params) => {
+        const poolSize = formatTfjsPair(params.pool_size, [2, 2]);
+        const padding = String(params.padding) || "valid";
+
+        const args = [`poolSize: ${poolSize}`];
+        if (params.strides) {
+          args.push(`strides: ${formatTfjsPair(params.strides, [2, 2])}`);
+        }
+        args.push(`padding: '${padding}'`);
+
+        return `tf.layers.averagePooling2d(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -1446,7 +2301,12 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
     },
     generateCode: {
       keras: () => "GlobalAveragePooling2D()",
+      kerasConfig: () => ({
+        className: "GlobalAveragePooling2D",
+        config: { data_format: "channels_last", keepdims: false },
+      }),
       pytorch: () => "nn.AdaptiveAvgPool2d(1)",
+      tfjs: () => "tf.layers.globalAveragePooling2d({})",
     },
   },
 
@@ -1471,7 +2331,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         description: "Amount of padding to add",
         default: "(1,1)",
         validation: {
-          pattern: "^\\([0-9]+,[0-9]+\\)$|^[0-9]+$",
+          pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$|^[0-9]+$",
           required: true,
         },
         ui: {
@@ -1480,6 +2340,9 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         },
       },
     ],
+    validateParameters: (params) => [
+      ...checkTupleParameter(params, "padding", "Padding", 0),
+    ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -1537,6 +2400,13 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
           return `ZeroPadding2D(padding=${paddingStr})`;
         }
       },
+      kerasConfig: (params) => ({
+        className: "ZeroPadding2D",
+        config: {
+          padding: kerasPadding2D(params.padding, 1),
+          data_format: "channels_last",
+        },
+      }),
       pytorch: (params) => {
         const paddingStr = String(params.padding) || "(1,1)";
 
@@ -1556,6 +2426,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return `nn.ZeroPad2d(${padValue})`;
       },
+      tfjs: (params) => {
+        const padding = formatTfjsPair(params.padding, [1, 1]);
+        return `tf.layers.zeroPadding2d({ padding: ${padding} })`;
+      },
     },
   },
 
@@ -1663,6 +2537,13 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
           return `Cropping2D(cropping=${croppingStr})`;
         }
       },
+      kerasConfig: (params) => ({
+        className: "Cropping2D",
+        config: {
+          cropping: kerasPadding2D(params.cropping, 1),
+          data_format: "channels_last",
+        },
+      }),
       pytorch: (params) => {
         const croppingStr = String(params.cropping) || "((1,1),(1,1))";
 
@@ -1693,6 +2574,18 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         // PyTorch doesn't have a direct Cropping2D layer, use tensor slicing
         return `# Cropping2D: x[:, :, ${topCrop}:${bottomCrop ? `-${bottomCrop}` : ''}, ${leftCrop}:${rightCrop ? `-${rightCrop}` : ''}]`;
       },
+      tfjs: (params) => {
+        const cropping = String(params.cropping) || "((1,1),(1,1))";
+        const values = (cropping.match(/\d+/g) || []).map(Number);
+        const croppingArg =
+          values.length === 4
+            ? `[[${values[0]}, ${values[1]}], [${values[2]}, ${values[3]}]]`
+            : values.length === 2
+              ? `[${values[0]}, ${values[1]}]`
+              : String(values[0] ?? 1);
+
+        return `tf.layers.cropping2D({ cropping: ${croppingArg} })`;
+      },
     },
   },
 
@@ -1802,6 +2695,12 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         return [sequenceLength, outputDim];
       }
     },
+    countParameters: (inputShapes, params) => {
+      void inputShapes; // Embedding size does not depend on the input
+      const inputDim = Number(params.input_dim) || 1000;
+      const outputDim = Number(params.output_dim) || 64;
+      return trainable(inputDim * outputDim);
+    },
     generateCode: {
       keras: (params) => {
         const inputDim = Number(params.input_dim) || 10000;
@@ -1825,6 +2724,15 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
+      // Keras 3 has no input_length; the sequence length comes from the input
+      kerasConfig: (params) => ({
+        className: "Embedding",
+        config: {
+          input_dim: Number(params.input_dim) || 10000,
+          output_dim: Number(params.output_dim) || 128,
+          mask_zero: String(params.mask_zero) === "true",
+        },
+      }),
       pytorch: (params) => {
         const inputDim = Number(params.input_dim) || 10000;
         const outputDim = Number(params.output_dim) || 128;
@@ -1833,6 +2741,25 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         // Note: input_length is not needed in PyTorch as it's dynamic
         return `nn.Embedding(${inputDim}, ${outputDim})`;
       },
+      flax: (params) => {
+        const inputDim = Number(params.input_dim) || 10000;
+        const outputDim = Number(params.output_dim) || 128;
+        return `nn.Embed(num_embeddings=${inputDim}, features=${outputDim})`;
+      },
+      tfjs: (params) => {
+        const inputDim = Number(params.input_dim) || 10000;
+        const outputDim = Number(params.output_dim) || 128;
+        const inputLength = params.input_length
+          ? Number(params.input_length)
+          : null;
+        const maskZero = String(params.mask_zero) === "true";
+
+        const args = [`inputDim: ${inputDim}`, `outputDim: ${outputDim}`];
+        if (inputLength) args.push(`inputLength: ${inputLength}`);
+        if (maskZero) args.push("maskZero: true");
+
+        return `tf.layers.embedding(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -1992,6 +2919,19 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         return [units];
       }
     },
+    countParameters: (inputShapes, params) => {
+      const inputSize = getInputFeatures(inputShapes);
+      if (!inputSize) return trainable(0);
+      const units = Number(params.units) || 50;
+      return trainable(countRecurrentParameters("LSTM", inputSize, units));
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      void outputShape;
+      const inputSize = getInputFeatures(inputShapes);
+      if (!inputSize) return 0;
+      const units = Number(params.units) || 50;
+      return countRecurrentMACs("LSTM", inputShapes[0][0], inputSize, units);
+    },
     generateCode: {
       keras: (params) => {
         const units = Number(params.units) || 50;
@@ -2031,12 +2971,31 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "LSTM",
+        config: {
+          units: Number(params.units) || 50,
+          activation: params.activation ? String(params.activation) : "tanh",
+          recurrent_activation: params.recurrent_activation
+            ? String(params.recurrent_activation)
+            : "sigmoid",
+          use_bias: true,
+          return_sequences: String(params.return_sequences) === "true",
+          return_state: String(params.return_state) === "true",
+          dropout: Number(params.dropout) || 0.0,
+          recurrent_dropout: Number(params.recurrent_dropout) || 0.0,
+        },
+      }),
+      pytorch: (params, inputShapes) => {
         const units = Number(params.units) || 50;
         const dropout = Number(params.dropout) || 0.0;
         
-        // Use placeholder for input size that will be replaced during code generation
-        let code = `nn.LSTM(input_size=input_size, hidden_size=${units}`;
+        const inputSize = getInputFeatures(inputShapes);
+        if (!inputSize) {
+          return `# LSTM: input size could not be resolved - connect a sequence input`;
+        }
+
+        let code = `nn.LSTM(input_size=${inputSize}, hidden_size=${units}`;
         
         if (dropout > 0) {
           code += `, dropout=${dropout}`;
@@ -2046,6 +3005,36 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         
         return code;
       },
+      flax: (params) => {
+        const units = Number(params.units) || 50;
+        // nn.RNN returns every timestep; the last one is taken in __call__
+        return `nn.RNN(nn.OptimizedLSTMCell(features=${units}))`;
+      },
+      tfjs: (params) => {
+        const units = Number(params.units) || 50;
+        const activation = params.activation
+          ? String(params.activation)
+          : "tanh";
+        const recurrentActivation = params.recurrent_activation
+          ? String(params.recurrent_activation)
+          : "sigmoid";
+        const returnSequences = String(params.return_sequences) === "true";
+        const returnState = String(params.return_state) === "true";
+        const dropout = Number(params.dropout) || 0.0;
+        const recurrentDropout = Number(params.recurrent_dropout) || 0.0;
+
+        const args = [`units: ${units}`];
+        if (activation !== "tanh") args.push(`activation: '${activation}'`);
+        if (recurrentActivation !== "sigmoid") {
+          args.push(`recurrentActivation: '${recurrentActivation}'`);
+        }
+        if (returnSequences) args.push("returnSequences: true");
+        if (returnState) args.push("returnState: true");
+        if (dropout > 0) args.push(`dropout: ${dropout}`);
+        if (recurrentDropout > 0) args.push(`recurrentDropout: ${recurrentDropout}`);
+
+        return `tf.layers.lstm(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -2227,6 +3216,24 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         return [units];
       }
     },
+    countParameters: (inputShapes, params) => {
+      const inputSize = getInputFeatures(inputShapes);
+      if (!inputSize) return trainable(0);
+      const units = Number(params.units) || 50;
+      const resetAfter = params.reset_after
+        ? String(params.reset_after) === "true"
+        : true;
+      return trainable(
+        countRecurrentParameters("GRU", inputSize, units, resetAfter)
+      );
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      void outputShape;
+      const inputSize = getInputFeatures(inputShapes);
+      if (!inputSize) return 0;
+      const units = Number(params.units) || 50;
+      return countRecurrentMACs("GRU", inputShapes[0][0], inputSize, units);
+    },
     generateCode: {
       keras: (params) => {
         const units = Number(params.units) || 50;
@@ -2272,12 +3279,34 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "GRU",
+        config: {
+          units: Number(params.units) || 50,
+          activation: params.activation ? String(params.activation) : "tanh",
+          recurrent_activation: params.recurrent_activation
+            ? String(params.recurrent_activation)
+            : "sigmoid",
+          use_bias: true,
+          return_sequences: String(params.return_sequences) === "true",
+          return_state: String(params.return_state) === "true",
+          dropout: Number(params.dropout) || 0.0,
+          recurrent_dropout: Number(params.recurrent_dropout) || 0.0,
+          reset_after: params.reset_after
+            ? String(params.reset_after) === "true"
+            : true,
+        },
+      }),
+      pytorch: (params, inputShapes) => {
         const units = Number(params.units) || 50;
         const dropout = Number(params.dropout) || 0.0;
         
-        // Use placeholder for input size that will be replaced during code generation
-        let code = `nn.GRU(input_size=input_size, hidden_size=${units}`;
+        const inputSize = getInputFeatures(inputShapes);
+        if (!inputSize) {
+          return `# GRU: input size could not be resolved - connect a sequence input`;
+        }
+
+        let code = `nn.GRU(input_size=${inputSize}, hidden_size=${units}`;
         
         if (dropout > 0) {
           code += `, dropout=${dropout}`;
@@ -2287,6 +3316,41 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         
         return code;
       },
+      flax: (params) => {
+        const units = Number(params.units) || 50;
+        // nn.RNN returns every timestep; the last one is taken in __call__
+        return `nn.RNN(nn.GRUCell(features=${units}))`;
+      },
+      tfjs: (params) => {
+        const units = Number(params.units) || 50;
+        const activation = params.activation
+          ? String(params.activation)
+          : "tanh";
+        const recurrentActivation = params.recurrent_activation
+          ? String(params.recurrent_activation)
+          : "sigmoid";
+        const returnSequences = String(params.return_sequences) === "true";
+        const returnState = String(params.return_state) === "true";
+        const dropout = Number(params.dropout) || 0.0;
+        const recurrentDropout = Number(params.recurrent_dropout) || 0.0;
+        const resetAfter = params.reset_after
+          ? String(params.reset_after) === "true"
+          : true;
+
+        const args = [`units: ${units}`];
+        if (activation !== "tanh") args.push(`activation: '${activation}'`);
+        if (recurrentActivation !== "sigmoid") {
+          args.push(`recurrentActivation: '${recurrentActivation}'`);
+        }
+        if (returnSequences) args.push("returnSequences: true");
+        if (returnState) args.push("returnState: true");
+        if (dropout > 0) args.push(`dropout: ${dropout}`);
+        if (recurrentDropout > 0) args.push(`recurrentDropout: ${recurrentDropout}`);
+        // TF.js defaults to reset_after=False, unlike Keras
+        if (resetAfter) args.push("resetAfter: true");
+
+        return `tf.layers.gru(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -2431,6 +3495,26 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         return [outputUnits];
       }
     },
+    countParameters: (inputShapes, params) => {
+      const inputSize = getInputFeatures(inputShapes);
+      if (!inputSize) return trainable(0);
+      const layerType = String(params.layer_type) || "LSTM";
+      const units = Number(params.units) || 50;
+      // Forward and backward layers have their own weights
+      return trainable(
+        2 * countRecurrentParameters(layerType, inputSize, units)
+      );
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      void outputShape;
+      const inputSize = getInputFeatures(inputShapes);
+      if (!inputSize) return 0;
+      const layerType = String(params.layer_type) || "LSTM";
+      const units = Number(params.units) || 50;
+      return (
+        2 * countRecurrentMACs(layerType, inputShapes[0][0], inputSize, units)
+      );
+    },
     generateCode: {
       keras: (params) => {
         const layerType = String(params.layer_type) || "LSTM";
@@ -2460,13 +3544,35 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => {
+        const mergeMode = String(params.merge_mode || "concat");
+        return {
+          className: "Bidirectional",
+          config: {
+            merge_mode: mergeMode === "None" ? null : mergeMode,
+            layer: serializeKerasLayer({
+              className: String(params.layer_type || "LSTM"),
+              config: {
+                units: Number(params.units) || 50,
+                return_sequences: String(params.return_sequences) === "true",
+                dropout: Number(params.dropout) || 0.0,
+              },
+            }),
+          },
+        };
+      },
+      pytorch: (params, inputShapes) => {
         const layerType = String(params.layer_type) || "LSTM";
         const units = Number(params.units) || 50;
         const dropout = Number(params.dropout) || 0.0;
         
+        const inputSize = getInputFeatures(inputShapes);
+        if (!inputSize) {
+          return `# Bidirectional ${layerType}: input size could not be resolved - connect a sequence input`;
+        }
+
         // PyTorch bidirectional is handled by the bidirectional parameter
-        let code = `nn.${layerType}(input_size=INPUT_SIZE, hidden_size=${units}`;
+        let code = `nn.${layerType}(input_size=${inputSize}, hidden_size=${units}`;
         
         if (dropout > 0) {
           code += `, dropout=${dropout}`;
@@ -2476,6 +3582,48 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         
         return code;
       },
+      flax: (params) => {
+        const layerType = String(params.layer_type) || "LSTM";
+        const units = Number(params.units) || 50;
+        const mergeMode = String(params.merge_mode) || "concat";
+
+        if (mergeMode === "None") {
+          return "# Bidirectional: merge_mode=None is not supported in Flax";
+        }
+
+        const cell = layerType === "GRU" ? "nn.GRUCell" : "nn.OptimizedLSTMCell";
+        const rnn = `nn.RNN(${cell}(features=${units}))`;
+        // nn.Bidirectional concatenates both directions by default
+        const mergeFunctions: Record<string, string> = {
+          sum: "lambda a, b: a + b",
+          mul: "lambda a, b: a * b",
+          ave: "lambda a, b: (a + b) / 2",
+        };
+        const mergeFn = mergeFunctions[mergeMode];
+
+        return `nn.Bidirectional(${rnn}, ${rnn}${mergeFn ? `, merge_fn=${mergeFn}` : ""})`;
+      },
+      tfjs: (params) => {
+        const layerType = String(params.layer_type) || "LSTM";
+        const units = Number(params.units) || 50;
+        const mergeMode = String(params.merge_mode) || "concat";
+        const returnSequences = String(params.return_sequences) === "true";
+        const dropout = Number(params.dropout) || 0.0;
+
+        if (mergeMode === "None") {
+          return tfjsUnsupported("Bidirectional with merge_mode=None");
+        }
+
+        const wrappedArgs = [`units: ${units}`];
+        if (returnSequences) wrappedArgs.push("returnSequences: true");
+        if (dropout > 0) wrappedArgs.push(`dropout: ${dropout}`);
+        const wrapped = `tf.layers.${layerType.toLowerCase()}(${formatTfjsArgs(wrappedArgs)})`;
+
+        const args = [`layer: ${wrapped}`];
+        if (mergeMode !== "concat") args.push(`mergeMode: '${mergeMode}'`);
+
+        return `tf.layers.bidirectional(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -2546,7 +3694,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Kernel Size",
         description: "Size of convolution kernel",
         default: "(3,3)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         conditional: { showWhen: { layer_type: ["Conv2D"] } },
         ui: { tooltip: "e.g., (3,3) for 3x3 kernel" },
       },
@@ -2582,6 +3730,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         ui: { tooltip: "Between 0 and 1, e.g., 0.5 drops 50% of inputs" },
       },
     ],
+    validateParameters: (params) =>
+      params.layer_type === "Conv2D"
+        ? checkTupleParameter(params, "kernel_size", "Kernel Size")
+        : [],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -2630,96 +3782,789 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         case "Dropout": {
           return inputShape; // Same shape
         }
-        default:
-          return inputShape;
-      }
-    },
-    generateCode: {
-      keras: (params) => {
-        const layerType = String(params.layer_type) || "Dense";
+        default:
+          return inputShape;
+      }
+    },
+    countParameters: (inputShapes, params) => {
+      const inFeatures = getInputFeatures(inputShapes);
+      if (!inFeatures) return trainable(0);
+      const units = Number(params.units) || 32;
+
+      switch (String(params.layer_type) || "Dense") {
+        case "Dense":
+          return trainable(inFeatures * units + units);
+        case "Conv1D": {
+          const kernelSize = Number(params.kernel_size_1d) || 3;
+          return trainable(kernelSize * inFeatures * units + units);
+        }
+        case "Conv2D": {
+          const kernelSize = parseTupleOrNumber(
+            String(params.kernel_size) || "(3,3)"
+          );
+          if (!kernelSize) return trainable(0);
+          return trainable(
+            kernelSize[0] * kernelSize[1] * inFeatures * units + units
+          );
+        }
+        default:
+          return trainable(0);
+      }
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      const inFeatures = getInputFeatures(inputShapes);
+      if (!inFeatures) return 0;
+
+      switch (String(params.layer_type) || "Dense") {
+        case "Dense":
+          return product(outputShape) * inFeatures;
+        case "Conv1D":
+          return (
+            product(outputShape) * (Number(params.kernel_size_1d) || 3) * inFeatures
+          );
+        case "Conv2D": {
+          const kernelSize = parseTupleOrNumber(
+            String(params.kernel_size) || "(3,3)"
+          );
+          if (!kernelSize) return 0;
+          return (
+            product(outputShape) * kernelSize[0] * kernelSize[1] * inFeatures
+          );
+        }
+        default:
+          return 0;
+      }
+    },
+    generateCode: {
+      keras: (params) => {
+        const layerType = String(params.layer_type) || "Dense";
+
+        let wrappedLayerCode = "";
+
+        switch (layerType) {
+          case "Dense": {
+            const units = Number(params.units) || 32;
+            const activation = params.activation
+              ? String(params.activation)
+              : "linear";
+            wrappedLayerCode = `Dense(${units}`;
+            if (activation !== "linear") {
+              wrappedLayerCode += `, activation='${activation}'`;
+            }
+            wrappedLayerCode += ")";
+            break;
+          }
+          case "Conv1D": {
+            const filters = Number(params.units) || 32;
+            const kernelSize = Number(params.kernel_size_1d) || 3;
+            const activation = params.activation
+              ? String(params.activation)
+              : "linear";
+            wrappedLayerCode = `Conv1D(${filters}, kernel_size=${kernelSize}`;
+            if (activation !== "linear") {
+              wrappedLayerCode += `, activation='${activation}'`;
+            }
+            wrappedLayerCode += ")";
+            break;
+          }
+          case "Conv2D": {
+            const filters = Number(params.units) || 32;
+            const kernelSize = String(params.kernel_size) || "(3,3)";
+            const activation = params.activation
+              ? String(params.activation)
+              : "linear";
+            wrappedLayerCode = `Conv2D(${filters}, kernel_size=${kernelSize}`;
+            if (activation !== "linear") {
+              wrappedLayerCode += `, activation='${activation}'`;
+            }
+            wrappedLayerCode += ")";
+            break;
+          }
+          case "Activation": {
+            const activation = params.activation
+              ? String(params.activation)
+              : "relu";
+            wrappedLayerCode = `Activation('${activation}')`;
+            break;
+          }
+          case "Dropout": {
+            const rate = Number(params.dropout_rate) || 0.5;
+            wrappedLayerCode = `Dropout(${rate})`;
+            break;
+          }
+          default:
+            wrappedLayerCode = `Dense(32)`;
+        }
+
+        return `TimeDistributed(${wrappedLayerCode})`;
+      },
+      kerasConfig: (params) => {
+        const activation = params.activation
+          ? String(params.activation)
+          : "linear";
+        let wrappedLayer: KerasLayerConfig;
+
+        switch (String(params.layer_type || "Dense")) {
+          case "Dense":
+            wrappedLayer = {
+              className: "Dense",
+              config: { units: Number(params.units) || 32, activation },
+            };
+            break;
+          case "Conv1D":
+            wrappedLayer = {
+              className: "Conv1D",
+              config: kerasConvArgs(
+                Number(params.units) || 32,
+                [Number(params.kernel_size_1d) || 3],
+                [1],
+                "valid",
+                activation
+              ),
+            };
+            break;
+          case "Conv2D":
+            wrappedLayer = {
+              className: "Conv2D",
+              config: kerasConvArgs(
+                Number(params.units) || 32,
+                kerasPair(params.kernel_size, [3, 3]),
+                [1, 1],
+                "valid",
+                activation
+              ),
+            };
+            break;
+          case "Activation":
+            wrappedLayer = {
+              className: "Activation",
+              config: {
+                activation: params.activation
+                  ? String(params.activation)
+                  : "relu",
+              },
+            };
+            break;
+          case "Dropout":
+            wrappedLayer = {
+              className: "Dropout",
+              config: { rate: Number(params.dropout_rate) || 0.5 },
+            };
+            break;
+          default:
+            wrappedLayer = { className: "Dense", config: { units: 32 } };
+        }
+
+        return {
+          className: "TimeDistributed",
+          config: { layer: serializeKerasLayer(wrappedLayer) },
+        };
+      },
+      pytorch: (params, inputShapes) => {
+        const layerType = String(params.layer_type) || "Dense";
+        
+        const inputSize = getInputFeatures(inputShapes) ?? "INPUT_SIZE";
+
+        // TimeDistributed in PyTorch is typically handled by reshaping and applying layer
+        switch (layerType) {
+          case "Dense": {
+            const units = Number(params.units) || 32;
+            return `# TimeDistributed Dense: Apply nn.Linear(${inputSize}, ${units}) across time dimension`;
+          }
+          case "Conv1D": {
+            const filters = Number(params.filters) || 32;
+            const kernelSize = Number(params.kernel_size) || 3;
+            return `# TimeDistributed Conv1D: Apply nn.Conv1d(${inputSize}, ${filters}, ${kernelSize}) across time dimension`;
+          }
+          case "Dropout": {
+            const rate = Number(params.rate) || 0.5;
+            return `# TimeDistributed Dropout: Apply nn.Dropout(${rate}) across time dimension`;
+          }
+          default:
+            return `# TimeDistributed: Apply layer across time dimension`;
+        }
+      },
+      flax: (params) => {
+        const layerType = String(params.layer_type) || "Dense";
+
+        // Flax layers treat extra leading axes as batch axes, so the wrapped
+        // layer is applied to every timestep as it is
+        switch (layerType) {
+          case "Dense": {
+            const units = Number(params.units) || 32;
+            return `nn.Dense(features=${units})`;
+          }
+          case "Conv1D": {
+            const filters = Number(params.units) || 32;
+            const kernelSize = Number(params.kernel_size_1d) || 3;
+            return `nn.Conv(features=${filters}, kernel_size=(${kernelSize},), padding='VALID')`;
+          }
+          case "Conv2D": {
+            const filters = Number(params.units) || 32;
+            const kernelSize = formatFlaxPair(params.kernel_size, [3, 3]);
+            return `nn.Conv(features=${filters}, kernel_size=${kernelSize}, padding='VALID')`;
+          }
+          case "Activation": {
+            const activation = params.activation
+              ? String(params.activation)
+              : "relu";
+            return activation === "linear" ? "(lambda x: x)" : `nn.${activation}`;
+          }
+          case "Dropout": {
+            const rate = Number(params.dropout_rate) || 0.5;
+            return `nn.Dropout(rate=${rate}, deterministic=not train)`;
+          }
+          default:
+            return "nn.Dense(features=32)";
+        }
+      },
+      tfjs: (params) => {
+        const layerType = String(params.layer_type) || "Dense";
+        const activation = params.activation
+          ? String(params.activation)
+          : "linear";
+
+        let wrapped: string;
+        switch (layerType) {
+          case "Dense": {
+            const units = Number(params.units) || 32;
+            wrapped = `tf.layers.dense(${formatTfjsArgs([`units: ${units}`, ...tfjsActivationArg(activation)])})`;
+            break;
+          }
+          case "Conv1D": {
+            const filters = Number(params.units) || 32;
+            const kernelSize = Number(params.kernel_size_1d) || 3;
+            wrapped = `tf.layers.conv1d(${formatTfjsArgs([`filters: ${filters}`, `kernelSize: ${kernelSize}`, ...tfjsActivationArg(activation)])})`;
+            break;
+          }
+          case "Conv2D": {
+            const filters = Number(params.units) || 32;
+            const kernelSize = formatTfjsPair(params.kernel_size, [3, 3]);
+            wrapped = `tf.layers.conv2d(${formatTfjsArgs([`filters: ${filters}`, `kernelSize: ${kernelSize}`, ...tfjsActivationArg(activation)])})`;
+            break;
+          }
+          case "Activation":
+            wrapped =
+              activation === "leaky_relu"
+                ? "tf.layers.leakyReLU()"
+                : `tf.layers.activation({ activation: '${activation}' })`;
+            break;
+          case "Dropout": {
+            const rate = Number(params.dropout_rate) || 0.5;
+            wrapped = `tf.layers.dropout({ rate: ${rate} })`;
+            break;
+          }
+          default:
+            wrapped = "tf.layers.dense({ units: 32 })";
+        }
+
+        return `tf.layers.timeDistributed({ layer: ${wrapped} })`;
+      },
+    },
+  },
+
+  // ATTENTION LAYERS
+  // ============================================================================
+
+  MultiHeadAttention: {
+    metadata: {
+      category: "attention",
+      icon: "🎯",
+      description: "Multi-head scaled dot-product attention",
+      tags: ["attention", "transformer", "self-attention", "sequence"],
+      performance: {
+        complexity:
+          "O(Lq*Lk*H*D + (Lq+Lk)*E*H*D) where L=sequence lengths, H=heads, D=key_dim, E=embedding size",
+        memory: "High (stores Lq×Lk attention scores per head)",
+        usage:
+          "Self-attention (one input) or cross-attention (query, value[, key] inputs)",
+      },
+    },
+    parameters: [
+      {
+        key: "num_heads",
+        type: "number",
+        label: "Number of Heads",
+        description: "Number of attention heads",
+        default: 4,
+        validation: { min: 1, max: 128, required: true },
+        ui: { tooltip: "Each head attends to a different projection subspace" },
+      },
+      {
+        key: "key_dim",
+        type: "number",
+        label: "Key Dimension",
+        description: "Size of each attention head for query and key",
+        default: 32,
+        validation: { min: 1, max: 4096, required: true },
+        ui: {
+          tooltip:
+            "Usually d_model / num_heads, e.g. 64 for d_model=512 with 8 heads",
+        },
+      },
+      {
+        key: "dropout",
+        type: "number",
+        label: "Dropout",
+        description: "Dropout rate applied to attention weights",
+        default: 0.0,
+        validation: { min: 0, max: 1 },
+      },
+      {
+        key: "use_bias",
+        type: "select",
+        label: "Use Bias",
+        description: "Whether the projection layers use bias vectors",
+        default: "true",
+        options: [
+          { value: "true", label: "True", description: "Include bias terms" },
+          { value: "false", label: "False", description: "No bias terms" },
+        ],
+      },
+    ],
+    validateInputs: (inputShapes, params) => {
+      void params; // Explicitly mark as intentionally unused
+      if (inputShapes.length < 1 || inputShapes.length > 3) {
+        return {
+          isValid: false,
+          errorMessage:
+            "MultiHeadAttention requires one input (self-attention) or query, value and optional key inputs",
+        };
+      }
+      if (inputShapes.some((shape) => shape.length !== 2)) {
+        return {
+          isValid: false,
+          errorMessage:
+            "MultiHeadAttention requires 2D inputs (seq_len, d_model)",
+        };
+      }
+      const [, value, key] = inputShapes;
+      if (value && key && value[0] !== key[0]) {
+        return {
+          isValid: false,
+          errorMessage:
+            "Value and key inputs must have the same sequence length",
+        };
+      }
+      return { isValid: true };
+    },
+    computeShape: (inputShapes) => {
+      if (inputShapes.length < 1 || inputShapes.length > 3) return null;
+      if (inputShapes.some((shape) => shape.length !== 2)) return null;
+
+      // Output keeps the query's sequence length and feature size
+      const [querySeqLen, queryDim] = inputShapes[0];
+      return [querySeqLen, queryDim];
+    },
+    countParameters: (inputShapes, params) => {
+      if (inputShapes.length === 0) return trainable(0);
+      const numHeads = Number(params.num_heads) || 4;
+      const keyDim = Number(params.key_dim) || 32;
+      const useBias = String(params.use_bias) !== "false";
+      const [query, value = query, key = value] = inputShapes;
+      return trainable(
+        countAttentionParameters(
+          query[query.length - 1],
+          key[key.length - 1],
+          value[value.length - 1],
+          numHeads,
+          keyDim,
+          useBias
+        )
+      );
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      void outputShape;
+      if (inputShapes.length === 0) return 0;
+      const numHeads = Number(params.num_heads) || 4;
+      const keyDim = Number(params.key_dim) || 32;
+      const [query, value = query, key = value] = inputShapes;
+      return countAttentionMACs(query, key, value, numHeads, keyDim);
+    },
+    generateCode: {
+      keras: (params) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const dropout = Number(params.dropout) || 0.0;
+        const useBias = String(params.use_bias) !== "false";
+
+        let code = `MultiHeadAttention(num_heads=${numHeads}, key_dim=${keyDim}`;
+        if (dropout > 0) {
+          code += `, dropout=${dropout}`;
+        }
+        if (!useBias) {
+          code += `, use_bias=False`;
+        }
+        code += ")";
+
+        return code;
+      },
+      kerasConfig: (params) => ({
+        className: "MultiHeadAttention",
+        config: {
+          num_heads: Number(params.num_heads) || 4,
+          key_dim: Number(params.key_dim) || 32,
+          value_dim: null,
+          dropout: Number(params.dropout) || 0.0,
+          use_bias: String(params.use_bias) !== "false",
+          output_shape: null,
+          attention_axes: null,
+        },
+      }),
+      pytorch: (params, inputShapes) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const dropout = Number(params.dropout) || 0.0;
+        const useBias = String(params.use_bias) !== "false";
+
+        // embed_dim is the query feature size; inputs are (query, value, key)
+        // as in Keras, and kdim/vdim give the key and value sizes
+        const [query, value = query, key = value] = inputShapes ?? [];
+        const embedDim = getInputFeatures([query]);
+        if (!embedDim) {
+          return "# MultiHeadAttention: embedding size could not be resolved";
+        }
+        const kdim = getInputFeatures([key]);
+        const vdim = getInputFeatures([value]);
+
+        let code = `nn.MultiheadAttention(embed_dim=${embedDim}, num_heads=${numHeads}`;
+        if (kdim && kdim !== embedDim) {
+          code += `, kdim=${kdim}`;
+        }
+        if (vdim && vdim !== embedDim) {
+          code += `, vdim=${vdim}`;
+        }
+        if (dropout > 0) {
+          code += `, dropout=${dropout}`;
+        }
+        if (!useBias) {
+          code += `, bias=False`;
+        }
+        code += `, batch_first=True)`;
+
+        // PyTorch splits embed_dim across the heads instead of projecting
+        // each head to key_dim, so the two only match when they line up
+        if (embedDim % numHeads !== 0) {
+          code += `  # Error: embed_dim ${embedDim} is not divisible by num_heads=${numHeads}`;
+        } else if (embedDim / numHeads !== keyDim) {
+          code += `  # Warning: heads have size ${embedDim / numHeads} (embed_dim / num_heads), not key_dim=${keyDim}`;
+        }
+
+        return code;
+      },
+      flax: (params) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const dropout = Number(params.dropout) || 0.0;
+        const useBias = String(params.use_bias) !== "false";
+
+        // Keras projects to key_dim per head; the output keeps the query size
+        let code = `nn.MultiHeadDotProductAttention(num_heads=${numHeads}, qkv_features=${numHeads * keyDim}`;
+        if (dropout > 0) {
+          code += `, dropout_rate=${dropout}, deterministic=not train`;
+        }
+        if (!useBias) {
+          code += `, use_bias=False`;
+        }
+        code += ")";
+
+        return code;
+      },
+      tfjs: () => tfjsUnsupported("MultiHeadAttention"),
+    },
+    inputHandles: ["query", "value", "key"],
+  },
+
+  TransformerEncoderBlock: {
+    metadata: {
+      category: "attention",
+      icon: "🤖",
+      description:
+        "Transformer encoder block (self-attention + feed-forward, residual and layer norm)",
+      tags: ["transformer", "encoder", "attention", "composite"],
+      performance: {
+        complexity:
+          "O(L²*H*D + L*E*F) where L=sequence length, H=heads, D=key_dim, E=d_model, F=ff_dim",
+        memory: "High (attention scores plus feed-forward activations)",
+        usage: "Building block of BERT/ViT-style encoders",
+      },
+    },
+    parameters: [
+      {
+        key: "num_heads",
+        type: "number",
+        label: "Number of Heads",
+        description: "Number of attention heads",
+        default: 4,
+        validation: { min: 1, max: 128, required: true },
+      },
+      {
+        key: "key_dim",
+        type: "number",
+        label: "Key Dimension",
+        description: "Size of each attention head for query and key",
+        default: 32,
+        validation: { min: 1, max: 4096, required: true },
+        ui: { tooltip: "Usually d_model / num_heads" },
+      },
+      {
+        key: "ff_dim",
+        type: "number",
+        label: "Feed-Forward Dimension",
+        description: "Hidden size of the position-wise feed-forward network",
+        default: 128,
+        validation: { min: 1, max: 16384, required: true },
+        ui: { tooltip: "Commonly 4 × d_model" },
+      },
+      {
+        key: "dropout",
+        type: "number",
+        label: "Dropout",
+        description: "Dropout rate after attention and feed-forward sublayers",
+        default: 0.1,
+        validation: { min: 0, max: 1 },
+      },
+      {
+        key: "ff_activation",
+        type: "select",
+        label: "Feed-Forward Activation",
+        description: "Activation of the feed-forward hidden layer",
+        default: "relu",
+        options: [
+          { value: "relu", label: "ReLU", description: "Rectified Linear Unit" },
+          {
+            value: "gelu",
+            label: "GELU",
+            description: "Gaussian Error Linear Unit (BERT, ViT)",
+          },
+        ],
+      },
+    ],
+    validateInputs: (inputShapes, params) => {
+      void params; // Explicitly mark as intentionally unused
+      if (inputShapes.length !== 1) {
+        return {
+          isValid: false,
+          errorMessage: "TransformerEncoderBlock requires exactly one input",
+        };
+      }
+      if (inputShapes[0].length !== 2) {
+        return {
+          isValid: false,
+          errorMessage:
+            "TransformerEncoderBlock requires 2D input (seq_len, d_model)",
+        };
+      }
+      return { isValid: true };
+    },
+    computeShape: (inputShapes) => {
+      if (inputShapes.length !== 1) return null;
+      if (inputShapes[0].length !== 2) return null;
+      return inputShapes[0]; // Residual connections preserve (seq_len, d_model)
+    },
+    countParameters: (inputShapes, params) => {
+      const embedDim = getInputFeatures(inputShapes);
+      if (!embedDim) return trainable(0);
+      const numHeads = Number(params.num_heads) || 4;
+      const keyDim = Number(params.key_dim) || 32;
+      const ffDim = Number(params.ff_dim) || 128;
+      const attention = countAttentionParameters(
+        embedDim,
+        embedDim,
+        embedDim,
+        numHeads,
+        keyDim,
+        true
+      );
+      const feedForward = embedDim * ffDim + ffDim + ffDim * embedDim + embedDim;
+      // Two LayerNormalization layers with gamma and beta
+      const layerNorms = 2 * 2 * embedDim;
+      return trainable(attention + feedForward + layerNorms);
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      void outputShape;
+      if (inputShapes.length !== 1) return 0;
+      const [sequenceLength, embedDim] = inputShapes[0];
+      const numHeads = Number(params.num_heads) || 4;
+      const keyDim = Number(params.key_dim) || 32;
+      const ffDim = Number(params.ff_dim) || 128;
+      const attention = countAttentionMACs(
+        inputShapes[0],
+        inputShapes[0],
+        inputShapes[0],
+        numHeads,
+        keyDim
+      );
+      const feedForward = 2 * sequenceLength * embedDim * ffDim;
+      return attention + feedForward;
+    },
+    generateCode: {
+      keras: (params) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const ffDim = Number(params.ff_dim) || 128;
+        const dropout = Number(params.dropout ?? 0.1);
+        const activation = String(params.ff_activation || "relu");
+
+        let code = `TransformerEncoderBlock(num_heads=${numHeads}, key_dim=${keyDim}, ff_dim=${ffDim}, dropout=${dropout}`;
+        if (activation !== "relu") {
+          code += `, activation='${activation}'`;
+        }
+        code += ")";
+
+        return code;
+      },
+      // The TransformerEncoderBlock helper class is spelled out in built-in
+      // layers so the model loads without custom objects
+      kerasConfig: (params, inputShapes) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const ffDim = Number(params.ff_dim) || 128;
+        const dropout = Number(params.dropout ?? 0.1);
+        const activation = String(params.ff_activation || "relu");
+        const modelDim = getInputFeatures(inputShapes) ?? numHeads * keyDim;
+        const layerNorm = { axis: -1, epsilon: 1e-6 };
+
+        return [
+          {
+            suffix: "attention",
+            inbound: ["input", "input"],
+            className: "MultiHeadAttention",
+            config: { num_heads: numHeads, key_dim: keyDim, dropout },
+          },
+          {
+            suffix: "attention_dropout",
+            inbound: ["attention"],
+            className: "Dropout",
+            config: { rate: dropout },
+          },
+          {
+            suffix: "attention_add",
+            inbound: ["input", "attention_dropout"],
+            className: "Add",
+            config: {},
+          },
+          {
+            suffix: "attention_norm",
+            inbound: ["attention_add"],
+            className: "LayerNormalization",
+            config: layerNorm,
+          },
+          {
+            suffix: "ffn_hidden",
+            inbound: ["attention_norm"],
+            className: "Dense",
+            config: { units: ffDim, activation },
+          },
+          {
+            suffix: "ffn_output",
+            inbound: ["ffn_hidden"],
+            className: "Dense",
+            config: { units: modelDim },
+          },
+          {
+            suffix: "ffn_dropout",
+            inbound: ["ffn_output"],
+            className: "Dropout",
+            config: { rate: dropout },
+          },
+          {
+            suffix: "ffn_add",
+            inbound: ["attention_norm", "ffn_dropout"],
+            className: "Add",
+            config: {},
+          },
+          {
+            suffix: "ffn_norm",
+            inbound: ["ffn_add"],
+            className: "LayerNormalization",
+            config: layerNorm,
+          },
+        ];
+      },
+      pytorch: (params, inputShapes) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const ffDim = Number(params.ff_dim) || 128;
+        const dropout = Number(params.dropout ?? 0.1);
+        const activation = String(params.ff_activation || "relu");
+
+        const dModel = getInputFeatures(inputShapes);
+        if (!dModel) {
+          return "# TransformerEncoderBlock: d_model could not be resolved";
+        }
 
-        let wrappedLayerCode = "";
+        let code = `nn.TransformerEncoderLayer(d_model=${dModel}, nhead=${numHeads}, dim_feedforward=${ffDim}, dropout=${dropout}, activation='${activation}', batch_first=True)`;
 
-        switch (layerType) {
-          case "Dense": {
-            const units = Number(params.units) || 32;
-            const activation = params.activation
-              ? String(params.activation)
-              : "linear";
-            wrappedLayerCode = `Dense(${units}`;
-            if (activation !== "linear") {
-              wrappedLayerCode += `, activation='${activation}'`;
-            }
-            wrappedLayerCode += ")";
-            break;
-          }
-          case "Conv1D": {
-            const filters = Number(params.units) || 32;
-            const kernelSize = Number(params.kernel_size_1d) || 3;
-            const activation = params.activation
-              ? String(params.activation)
-              : "linear";
-            wrappedLayerCode = `Conv1D(${filters}, kernel_size=${kernelSize}`;
-            if (activation !== "linear") {
-              wrappedLayerCode += `, activation='${activation}'`;
-            }
-            wrappedLayerCode += ")";
-            break;
-          }
-          case "Conv2D": {
-            const filters = Number(params.units) || 32;
-            const kernelSize = String(params.kernel_size) || "(3,3)";
-            const activation = params.activation
-              ? String(params.activation)
-              : "linear";
-            wrappedLayerCode = `Conv2D(${filters}, kernel_size=${kernelSize}`;
-            if (activation !== "linear") {
-              wrappedLayerCode += `, activation='${activation}'`;
-            }
-            wrappedLayerCode += ")";
-            break;
-          }
-          case "Activation": {
-            const activation = params.activation
-              ? String(params.activation)
-              : "relu";
-            wrappedLayerCode = `Activation('${activation}')`;
-            break;
-          }
-          case "Dropout": {
-            const rate = Number(params.dropout_rate) || 0.5;
-            wrappedLayerCode = `Dropout(${rate})`;
-            break;
-          }
-          default:
-            wrappedLayerCode = `Dense(32)`;
+        // nn.TransformerEncoderLayer has no key_dim: its heads always have
+        // size d_model / nhead, as in nn.MultiheadAttention
+        if (dModel % numHeads !== 0) {
+          code += `  # Error: d_model ${dModel} is not divisible by num_heads=${numHeads}`;
+        } else if (dModel / numHeads !== keyDim) {
+          code += `  # Warning: heads have size ${dModel / numHeads} (d_model / num_heads), not key_dim=${keyDim}`;
         }
 
-        return `TimeDistributed(${wrappedLayerCode})`;
+        return code;
       },
-      pytorch: (params) => {
-        const layerType = String(params.layer_type) || "Dense";
-        
-        // TimeDistributed in PyTorch is typically handled by reshaping and applying layer
-        switch (layerType) {
-          case "Dense": {
-            const units = Number(params.units) || 32;
-            return `# TimeDistributed Dense: Apply nn.Linear(INPUT_SIZE, ${units}) across time dimension`;
-          }
-          case "Conv1D": {
-            const filters = Number(params.filters) || 32;
-            const kernelSize = Number(params.kernel_size) || 3;
-            return `# TimeDistributed Conv1D: Apply nn.Conv1d(INPUT_CHANNELS, ${filters}, ${kernelSize}) across time dimension`;
-          }
-          case "Dropout": {
-            const rate = Number(params.rate) || 0.5;
-            return `# TimeDistributed Dropout: Apply nn.Dropout(${rate}) across time dimension`;
-          }
-          default:
-            return `# TimeDistributed: Apply layer across time dimension`;
+      flax: (params) => {
+        const numHeads = Number(params.num_heads) || 4;
+        const keyDim = Number(params.key_dim) || 32;
+        const ffDim = Number(params.ff_dim) || 128;
+        const dropout = Number(params.dropout ?? 0.1);
+        const activation = String(params.ff_activation || "relu");
+
+        let code = `TransformerEncoderBlock(num_heads=${numHeads}, key_dim=${keyDim}, ff_dim=${ffDim}, dropout=${dropout}`;
+        if (activation !== "relu") {
+          code += `, activation='${activation}'`;
         }
+        code += ", deterministic=not train)";
+
+        return code;
+      },
+      tfjs: () => tfjsUnsupported("TransformerEncoderBlock"),
+      helpers: {
+        keras: `class TransformerEncoderBlock(tf.keras.layers.Layer):
+    """Post-norm Transformer encoder block: self-attention and feed-forward sublayers."""
+
+    def __init__(self, num_heads, key_dim, ff_dim, dropout=0.1, activation="relu", **kwargs):
+        super().__init__(**kwargs)
+        self.attention = tf.keras.layers.MultiHeadAttention(num_heads=num_heads, key_dim=key_dim, dropout=dropout)
+        self.ffn_hidden = tf.keras.layers.Dense(ff_dim, activation=activation)
+        self.attention_dropout = tf.keras.layers.Dropout(dropout)
+        self.ffn_dropout = tf.keras.layers.Dropout(dropout)
+        self.attention_norm = tf.keras.layers.LayerNormalization(epsilon=1e-6)
+        self.ffn_norm = tf.keras.layers.LayerNormalization(epsilon=1e-6)
+
+    def build(self, input_shape):
+        self.ffn_output = tf.keras.layers.Dense(input_shape[-1])
+        super().build(input_shape)
+
+    def call(self, inputs, training=None):
+        attention = self.attention(inputs, inputs, training=training)
+        x = self.attention_norm(inputs + self.attention_dropout(attention, training=training))
+        ffn = self.ffn_output(self.ffn_hidden(x))
+        return self.ffn_norm(x + self.ffn_dropout(ffn, training=training))`,
+        flax: `class TransformerEncoderBlock(nn.Module):
+    """Post-norm Transformer encoder block: self-attention and feed-forward sublayers."""
+
+    num_heads: int
+    key_dim: int
+    ff_dim: int
+    dropout: float = 0.1
+    activation: str = "relu"
+    deterministic: bool = True
+
+    @nn.compact
+    def __call__(self, inputs):
+        attention = nn.MultiHeadDotProductAttention(num_heads=self.num_heads, qkv_features=self.num_heads * self.key_dim, dropout_rate=self.dropout, deterministic=self.deterministic)(inputs)
+        attention = nn.Dropout(self.dropout, deterministic=self.deterministic)(attention)
+        x = nn.LayerNorm(epsilon=1e-6)(inputs + attention)
+        ffn = getattr(nn, self.activation)(nn.Dense(self.ff_dim)(x))
+        ffn = nn.Dropout(self.dropout, deterministic=self.deterministic)(nn.Dense(inputs.shape[-1])(ffn))
+        return nn.LayerNorm(epsilon=1e-6)(x + ffn)`,
       },
     },
+    supportsMultiplier: true,
   },
 
   // TRANSFORMATION LAYERS
@@ -2755,7 +4600,12 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
     },
     generateCode: {
       keras: () => "Flatten()",
+      kerasConfig: () => ({
+        className: "Flatten",
+        config: { data_format: "channels_last" },
+      }),
       pytorch: () => "# Use torch.flatten(x, 1) in forward method",
+      tfjs: () => "tf.layers.flatten()",
     },
   },
 
@@ -2785,6 +4635,19 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         },
       },
     ],
+    validateParameters: (params) => {
+      const dims = parseDimensionList(params.target_shape);
+      if (!dims) {
+        return ["Target Shape must be a tuple of integers, e.g. (28, 28, 1)"];
+      }
+      if (dims.filter((dim) => dim === -1).length > 1) {
+        return ["Target Shape can contain -1 at most once"];
+      }
+      if (dims.some((dim) => dim === 0 || dim < -1)) {
+        return ["Target Shape dimensions must be positive or -1"];
+      }
+      return [];
+    },
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -2836,6 +4699,12 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const targetShape = String(params.target_shape) || "(-1,)";
         return `Reshape(${targetShape})`;
       },
+      kerasConfig: (params) => ({
+        className: "Reshape",
+        config: {
+          target_shape: parseDimensionList(params.target_shape) ?? [-1],
+        },
+      }),
       pytorch: (params) => {
         const targetShape = String(params.target_shape) || "(-1,)";
         // Convert Keras shape format to PyTorch view format
@@ -2843,6 +4712,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const shapeStr = targetShape.replace(/[()]/g, "");
         return `# Reshape: x.view(${shapeStr})`;
       },
+      tfjs: (params) => {
+        const targetShape = String(params.target_shape) || "(-1,)";
+        return `tf.layers.reshape({ targetShape: ${formatTfjsArray(targetShape)} })`;
+      },
     },
   },
 
@@ -2873,6 +4746,15 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         },
       },
     ],
+    validateParameters: (params) => {
+      const dims = parseDimensionList(params.dims);
+      const isPermutation =
+        !!dims &&
+        [...dims].sort((a, b) => a - b).every((dim, index) => dim === index + 1);
+      return isPermutation
+        ? []
+        : ["Dimension Order must list each dimension 1..n exactly once"];
+    },
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -2920,6 +4802,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const dims = String(params.dims) || "(2, 1)";
         return `Permute(${dims})`;
       },
+      kerasConfig: (params) => ({
+        className: "Permute",
+        config: { dims: parseDimensionList(params.dims) ?? [2, 1] },
+      }),
       pytorch: (params) => {
         const dims = String(params.dims) || "(2, 1)";
         // Convert Keras 1-indexed to PyTorch 0-indexed dimensions
@@ -2934,6 +4820,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const dimStr = dimensions.join(", ");
         return `# Permute: x.permute(${dimStr})`;
       },
+      tfjs: (params) => {
+        const dims = String(params.dims) || "(2, 1)";
+        return `tf.layers.permute({ dims: ${formatTfjsArray(dims)} })`;
+      },
     },
   },
 
@@ -3124,6 +5014,28 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
             return `Concatenate()`;
         }
       },
+      kerasConfig: (params) => {
+        const elementwise: Record<string, string> = {
+          add: "Add",
+          multiply: "Multiply",
+          average: "Average",
+          maximum: "Maximum",
+          minimum: "Minimum",
+          subtract: "Subtract",
+        };
+        const mode = String(params.mode || "concat");
+
+        if (mode === "dot") {
+          return { className: "Dot", config: { axes: -1, normalize: false } };
+        }
+        if (mode in elementwise) {
+          return { className: elementwise[mode], config: {} };
+        }
+        return {
+          className: "Concatenate",
+          config: { axis: mode === "concat" ? Number(params.axis) || -1 : -1 },
+        };
+      },
       pytorch: (params) => {
         const mode = String(params.mode) || "concat";
 
@@ -3150,6 +5062,32 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
             return `# Merge concat: torch.cat(inputs, dim=-1)`;
         }
       },
+      tfjs: (params) => {
+        const mode = String(params.mode) || "concat";
+
+        switch (mode) {
+          case "concat": {
+            const axis = Number(params.axis) || -1;
+            return `tf.layers.concatenate({ axis: ${axis} })`;
+          }
+          case "add":
+            return "tf.layers.add()";
+          case "multiply":
+            return "tf.layers.multiply()";
+          case "average":
+            return "tf.layers.average()";
+          case "maximum":
+            return "tf.layers.maximum()";
+          case "minimum":
+            return "tf.layers.minimum()";
+          case "subtract":
+            return tfjsUnsupported("Merge in subtract mode");
+          case "dot":
+            return "tf.layers.dot({ axes: -1 })";
+          default:
+            return "tf.layers.concatenate()";
+        }
+      },
     },
   },
 
@@ -3198,10 +5136,20 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const activation = String(params.activation_function) || "relu";
         return `Activation('${activation}')`;
       },
+      kerasConfig: (params) => ({
+        className: "Activation",
+        config: { activation: String(params.activation_function || "relu") },
+      }),
       pytorch: (params) => {
         const activation = String(params.activation_function) || "relu";
         return `# Use F.${activation}() in forward method`;
       },
+      tfjs: (params) => {
+        const activation = String(params.activation_function) || "relu";
+        return activation === "leaky_relu"
+          ? "tf.layers.leakyReLU()"
+          : `tf.layers.activation({ activation: '${activation}' })`;
+      },
     },
   },
 
@@ -3250,10 +5198,26 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const rate = Number(params.rate) || 0.5;
         return `Dropout(${rate})`;
       },
+      kerasConfig: (params) => ({
+        className: "Dropout",
+        config: {
+          rate: Number(params.rate) || 0.5,
+          noise_shape: null,
+          seed: null,
+        },
+      }),
       pytorch: (params) => {
         const rate = Number(params.rate) || 0.5;
         return `nn.Dropout(p=${rate})`;
       },
+      flax: (params) => {
+        const rate = Number(params.rate) || 0.5;
+        return `nn.Dropout(rate=${rate}, deterministic=not train)`;
+      },
+      tfjs: (params) => {
+        const rate = Number(params.rate) || 0.5;
+        return `tf.layers.dropout({ rate: ${rate} })`;
+      },
     },
   },
 
@@ -3347,6 +5311,21 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
       if (inputShapes.length !== 1) return null;
       return inputShapes[0]; // BatchNorm preserves input shape
     },
+    countParameters: (inputShapes, params) => {
+      if (inputShapes.length !== 1) return trainable(0);
+      const inputShape = inputShapes[0];
+      // Keras axes include the batch dimension
+      const axis = Number(params.axis ?? -1);
+      const features = inputShape[axis < 0 ? inputShape.length + axis : axis - 1];
+      if (!features) return trainable(0);
+      const center = String(params.center) !== "false";
+      const scale = String(params.scale) !== "false";
+      // Moving mean and variance are updated by statistics, not gradients
+      return {
+        trainable: ((center ? 1 : 0) + (scale ? 1 : 0)) * features,
+        nonTrainable: 2 * features,
+      };
+    },
     generateCode: {
       keras: (params) => {
         const axis = Number(params.axis) || -1;
@@ -3370,29 +5349,80 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "BatchNormalization",
+        config: {
+          axis: Number(params.axis) || -1,
+          momentum: Number(params.momentum) || 0.99,
+          epsilon: Number(params.epsilon) || 0.001,
+          center: String(params.center) !== "false",
+          scale: String(params.scale) !== "false",
+        },
+      }),
+      pytorch: (params, inputShapes) => {
         const momentum = Number(params.momentum) || 0.99;
         const epsilon = Number(params.epsilon) || 0.001;
         
-        // PyTorch BatchNorm expects num_features parameter
-        // This will be replaced with actual channels during code generation
-        let code = `nn.BatchNorm2d(num_features=NUM_FEATURES`;
+        // PyTorch BatchNorm expects num_features (the channel axis); pick the
+        // variant from the input rank, or a lazy module when it is unknown
+        const inputShape = inputShapes?.[0];
+        const numFeatures = getInputFeatures(inputShapes);
+        const batchNormType = inputShape?.length === 3 ? "BatchNorm2d" : "BatchNorm1d";
+        const args: string[] = [];
+        if (numFeatures) {
+          args.push(`num_features=${numFeatures}`);
+        }
         
         // Convert Keras momentum to PyTorch momentum (they're inverses)
         const pytorchMomentum = 1 - momentum;
         if (Math.abs(pytorchMomentum - 0.1) > 1e-6) {
           // Round to avoid floating point precision issues
           const roundedMomentum = Math.round(pytorchMomentum * 1000) / 1000;
-          code += `, momentum=${roundedMomentum}`;
+          args.push(`momentum=${roundedMomentum}`);
         }
         
         if (Math.abs(epsilon - 1e-5) > 1e-10) {
-          code += `, eps=${epsilon}`;
+          args.push(`eps=${epsilon}`);
         }
         
-        code += ")";
-        
-        return code;
+        const module = numFeatures ? `nn.${batchNormType}` : "nn.LazyBatchNorm2d";
+        return `${module}(${args.join(", ")})`;
+      },
+      flax: (params) => {
+        const axis = Number(params.axis) || -1;
+        const momentum = Number(params.momentum) || 0.99;
+        const epsilon = Number(params.epsilon) || 0.001;
+        const center = String(params.center) !== "false";
+        const scale = String(params.scale) !== "false";
+
+        // Flax uses the same momentum convention as Keras
+        const parts = [
+          "use_running_average=not train",
+          `momentum=${momentum}`,
+          `epsilon=${epsilon}`,
+        ];
+        if (axis !== -1) parts.push(`axis=${axis}`);
+        if (!center) parts.push("use_bias=False");
+        if (!scale) parts.push("use_scale=False");
+
+        return `nn.BatchNorm(${parts.join(", ")})`;
+      },
+      tfjs: (params) => {
+        const axis = Number(params.axis) || -1;
+        const momentum = Number(params.momentum) || 0.99;
+        const epsilon = Number(params.epsilon) || 0.001;
+        const center = String(params.center) !== "false";
+        const scale = String(params.scale) !== "false";
+
+        // Only add arguments if they differ from defaults
+        const args = [];
+        if (axis !== -1) args.push(`axis: ${axis}`);
+        if (momentum !== 0.99) args.push(`momentum: ${momentum}`);
+        if (epsilon !== 0.001) args.push(`epsilon: ${epsilon}`);
+        if (!center) args.push("center: false");
+        if (!scale) args.push("scale: false");
+
+        return `tf.layers.batchNormalization(${formatTfjsArgs(args)})`;
       },
     },
   },
@@ -3449,6 +5479,12 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         ui: { tooltip: "If true, adds learnable scaling parameter" },
       },
     ],
+    validateParameters: (params) => {
+      const axis = String(params.axis ?? "").trim();
+      return /^-?[0-9]+$|^\[\s*-?[0-9]+(\s*,\s*-?[0-9]+)*\s*\]$/.test(axis)
+        ? []
+        : ["Axis must be an integer or a list like [-2, -1]"];
+    },
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -3470,6 +5506,13 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
       if (inputShapes.length !== 1) return null;
       return inputShapes[0]; // LayerNorm preserves input shape
     },
+    countParameters: (inputShapes, params) => {
+      const features = getInputFeatures(inputShapes);
+      if (!features) return trainable(0);
+      const center = String(params.center) !== "false";
+      const scale = String(params.scale) !== "false";
+      return trainable(((center ? 1 : 0) + (scale ? 1 : 0)) * features);
+    },
     generateCode: {
       keras: (params) => {
         const axisStr = String(params.axis) || "-1";
@@ -3503,12 +5546,31 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => {
+        // "-1", "[-2, -1]" or "-2, -1"
+        const axes = (
+          String(params.axis || "-1").match(/-?\d+/g) ?? ["-1"]
+        ).map(Number);
+        return {
+          className: "LayerNormalization",
+          config: {
+            axis: axes.length === 1 ? axes[0] : axes,
+            epsilon: Number(params.epsilon) || 0.001,
+            center: String(params.center) !== "false",
+            scale: String(params.scale) !== "false",
+          },
+        };
+      },
+      pytorch: (params, inputShapes) => {
         const epsilon = Number(params.epsilon) || 0.001;
         
-        // PyTorch LayerNorm expects normalized_shape parameter
-        // This would be determined by input shape at runtime
-        let code = `nn.LayerNorm(normalized_shape=NORMALIZED_SHAPE`;
+        // PyTorch LayerNorm expects normalized_shape, the size of the last axis
+        const normalizedShape = getInputFeatures(inputShapes);
+        if (!normalizedShape) {
+          return "# LayerNormalization: normalized shape could not be resolved";
+        }
+
+        let code = `nn.LayerNorm(normalized_shape=${normalizedShape}`;
         
         if (epsilon !== 1e-5) {
           code += `, eps=${epsilon}`;
@@ -3518,6 +5580,46 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         
         return code;
       },
+      flax: (params) => {
+        const axisStr = String(params.axis) || "-1";
+        const epsilon = Number(params.epsilon) || 0.001;
+        const center = String(params.center) !== "false";
+        const scale = String(params.scale) !== "false";
+
+        const parts = [`epsilon=${epsilon}`];
+        if (axisStr.trim() !== "-1") {
+          // Normalize and scale over the same axes, as Keras does
+          const axes = axisStr
+            .replace(/[[\]()]/g, "")
+            .split(",")
+            .map((s) => s.trim())
+            .filter((s) => s.length > 0);
+          const axesTuple = `(${axes.join(", ")}${axes.length === 1 ? "," : ""})`;
+          parts.push(`reduction_axes=${axesTuple}`, `feature_axes=${axesTuple}`);
+        }
+        if (!center) parts.push("use_bias=False");
+        if (!scale) parts.push("use_scale=False");
+
+        return `nn.LayerNorm(${parts.join(", ")})`;
+      },
+      tfjs: (params) => {
+        const axisStr = String(params.axis) || "-1";
+        const epsilon = Number(params.epsilon) || 0.001;
+        const center = String(params.center) !== "false";
+        const scale = String(params.scale) !== "false";
+
+        const args = [];
+        if (axisStr.trim() !== "-1") {
+          args.push(
+            `axis: ${axisStr.includes(",") ? formatTfjsArray(axisStr) : axisStr.trim()}`
+          );
+        }
+        if (epsilon !== 0.001) args.push(`epsilon: ${epsilon}`);
+        if (!center) args.push("center: false");
+        if (!scale) args.push("scale: false");
+
+        return `tf.layers.layerNormalization(${formatTfjsArgs(args)})`;
+      },
     },
   },
 
@@ -3564,10 +5666,18 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const stddev = Number(params.stddev) || 1.0;
         return `GaussianNoise(${stddev})`;
       },
+      kerasConfig: (params) => ({
+        className: "GaussianNoise",
+        config: { stddev: Number(params.stddev) || 1.0, seed: null },
+      }),
       pytorch: (params) => {
         const stddev = Number(params.stddev) || 1.0;
         return `# Gaussian Noise: x + torch.randn_like(x) * ${stddev} (in forward method)`;
       },
+      tfjs: (params) => {
+        const stddev = Number(params.stddev) || 1.0;
+        return `tf.layers.gaussianNoise({ stddev: ${stddev} })`;
+      },
     },
   },
 
@@ -3626,10 +5736,25 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const rate = Number(params.rate) || 0.5;
         return `SpatialDropout2D(${rate})`;
       },
+      kerasConfig: (params) => ({
+        className: "SpatialDropout2D",
+        config: {
+          rate: Number(params.rate) || 0.5,
+          seed: null,
+          data_format: "channels_last",
+        },
+      }),
       pytorch: (params) => {
         const rate = Number(params.rate) || 0.5;
         return `nn.Dropout2d(p=${rate})`;
       },
+      flax: (params) => {
+        const rate = Number(params.rate) || 0.5;
+        // Sharing the mask across height and width drops whole channels
+        return `nn.Dropout(rate=${rate}, broadcast_dims=(1, 2), deterministic=not train)`;
+      },
+      // TF.js only provides spatialDropout1d
+      tfjs: () => tfjsUnsupported("SpatialDropout2D"),
     },
   },
 
@@ -3665,7 +5790,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Kernel Size",
         description: "Size of convolution window",
         default: "(3,3)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
         ui: { tooltip: "e.g., (3,3) for 3x3 kernel" },
       },
       {
@@ -3674,7 +5799,7 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         label: "Strides",
         description: "Stride of convolution",
         default: "(1,1)",
-        validation: { pattern: "^\\([0-9]+,[0-9]+\\)$" },
+        validation: { pattern: "^\\(\\s*[0-9]+\\s*,\\s*[0-9]+\\s*\\)$" },
       },
       {
         key: "padding",
@@ -3714,6 +5839,10 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         options: ACTIVATION_OPTIONS,
       },
     ],
+    validateParameters: (params) => [
+      ...checkTupleParameter(params, "kernel_size", "Kernel Size"),
+      ...checkTupleParameter(params, "strides", "Strides"),
+    ],
     validateInputs: (inputShapes, params) => {
       void params; // Explicitly mark as intentionally unused
       if (inputShapes.length !== 1) {
@@ -3761,6 +5890,32 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
       return [outputHeight, outputWidth, filters];
     },
+    countParameters: (inputShapes, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      const kernelSize = parseTupleOrNumber(
+        String(params.kernel_size) || "(3,3)"
+      );
+      if (!inChannels || !kernelSize) return trainable(0);
+      const filters = Number(params.filters) || 32;
+      const depthMultiplier = Number(params.depth_multiplier) || 1;
+      const depthwise = kernelSize[0] * kernelSize[1] * inChannels * depthMultiplier;
+      const pointwise = inChannels * depthMultiplier * filters;
+      return trainable(depthwise + pointwise + filters);
+    },
+    countMACs: (inputShapes, outputShape, params) => {
+      const inChannels = getInputFeatures(inputShapes);
+      const kernelSize = parseTupleOrNumber(
+        String(params.kernel_size) || "(3,3)"
+      );
+      if (!inChannels || !kernelSize || outputShape.length !== 3) return 0;
+      const [outputHeight, outputWidth, filters] = outputShape;
+      const depthMultiplier = Number(params.depth_multiplier) || 1;
+      const positions = outputHeight * outputWidth;
+      const depthwise =
+        positions * inChannels * depthMultiplier * kernelSize[0] * kernelSize[1];
+      const pointwise = positions * inChannels * depthMultiplier * filters;
+      return depthwise + pointwise;
+    },
     generateCode: {
       keras: (params) => {
         const filters = Number(params.filters) || 32;
@@ -3781,7 +5936,20 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
 
         return code;
       },
-      pytorch: (params) => {
+      kerasConfig: (params) => ({
+        className: "SeparableConv2D",
+        config: {
+          ...kerasConvArgs(
+            Number(params.filters) || 32,
+            kerasPair(params.kernel_size, [3, 3]),
+            kerasPair(params.strides, [1, 1]),
+            String(params.padding || "same"),
+            params.activation ? String(params.activation) : "linear"
+          ),
+          depth_multiplier: Number(params.depth_multiplier) || 1,
+        },
+      }),
+      pytorch: (params, inputShapes) => {
         const filters = Number(params.filters) || 32;
         const kernelSizeStr = String(params.kernel_size) || "(3,3)";
         const stridesStr = String(params.strides) || "(1,1)";
@@ -3792,25 +5960,171 @@ export const layerDefinitions: Record<string, LayerDefinition> = {
         const kernelSize = parseTupleOrNumber(kernelSizeStr) || [3, 3];
         const strides = parseTupleOrNumber(stridesStr) || [1, 1];
         
+        // Depthwise convolution needs groups=in_channels, so there is no lazy fallback
+        const inChannels = getInputFeatures(inputShapes);
+        if (!inChannels) {
+          return "# SeparableConv2D: input channels could not be resolved";
+        }
+        const depthwiseChannels = inChannels * depthMultiplier;
+
         // PyTorch doesn't have SeparableConv2D directly, need to use Sequential with depthwise + pointwise
-        const paddingValue = padding === "same" ? "same" : 0;
+        const paddingValue = padding === "same" ? "'same'" : "0";
         
         const code = `nn.Sequential(
     # Depthwise convolution
-    nn.Conv2d(in_channels, in_channels * ${depthMultiplier}, 
-              kernel_size=${kernelSize}, stride=${strides}, 
-              padding="${paddingValue}", groups=in_channels),
+    nn.Conv2d(${inChannels}, ${depthwiseChannels}, 
+              kernel_size=(${kernelSize.join(", ")}), stride=(${strides.join(", ")}), 
+              padding=${paddingValue}, groups=${inChannels}),
     # Pointwise convolution
-    nn.Conv2d(in_channels * ${depthMultiplier}, ${filters}, 
+    nn.Conv2d(${depthwiseChannels}, ${filters}, 
               kernel_size=1, stride=1, padding=0)
 )`;
         
         return code;
       },
+      flax: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = formatFlaxPair(params.kernel_size, [3, 3]);
+        const strides = formatFlaxPair(params.strides, [1, 1]);
+        const depthMultiplier = Number(params.depth_multiplier) || 1;
+
+        let code = `SeparableConv2D(features=${filters}, kernel_size=${kernelSize}, strides=${strides}, padding=${formatFlaxPadding(params.padding)}`;
+        if (depthMultiplier !== 1) {
+          code += `, depth_multiplier=${depthMultiplier}`;
+        }
+        code += ")";
+
+        return code;
+      },
+      tfjs: (params) => {
+        const filters = Number(params.filters) || 32;
+        const kernelSize = formatTfjsPair(params.kernel_size, [3, 3]);
+        const strides = formatTfjsPair(params.strides, [1, 1]);
+        const padding = String(params.padding) || "same";
+        const depthMultiplier = Number(params.depth_multiplier) || 1;
+        const activation = String(params.activation) || "linear";
+
+        const args = [
+          `filters: ${filters}`,
+          `kernelSize: ${kernelSize}`,
+          `strides: ${strides}`,
+          `padding: '${padding}'`,
+        ];
+        if (depthMultiplier !== 1) args.push(`depthMultiplier: ${depthMultiplier}`);
+        args.push(...tfjsActivationArg(activation));
+
+        return `tf.layers.separableConv2d(${formatTfjsArgs(args)})`;
+      },
+      helpers: {
+        flax: `class SeparableConv2D(nn.Module):
+    """Depthwise convolution followed by a 1x1 pointwise convolution."""
+
+    features: int
+    kernel_size: tuple = (3, 3)
+    strides: tuple = (1, 1)
+    padding: str = "SAME"
+    depth_multiplier: int = 1
+
+    @nn.compact
+    def __call__(self, x):
+        in_channels = x.shape[-1]
+        x = nn.Conv(in_channels * self.depth_multiplier, self.kernel_size, strides=self.strides, padding=self.padding, feature_group_count=in_channels, use_bias=False)(x)
+        return nn.Conv(self.features, (1, 1))(x)`,
+      },
     },
     supportsMultiplier: true,
     supportsActivation: true,
   },
+
+  // IMPORTED LAYERS
+  // ============================================================================
+
+  // Not in any palette category: placeholders only come from model imports
+  Placeholder: {
+    metadata: {
+      category: "imported",
+      icon: "❔",
+      description:
+        "Stands in for an imported layer that has no BlockDL equivalent",
+      tags: ["placeholder", "import", "unsupported"],
+    },
+    parameters: [
+      {
+        key: "layer_class",
+        type: "text",
+        label: "Original Layer",
+        description: "Class of the layer in the imported model",
+        default: "",
+      },
+      {
+        key: "output_shape",
+        type: "text",
+        label: "Output Shape",
+        description:
+          "Output shape without the batch dimension; empty keeps the input shape",
+        default: "",
+        ui: { tooltip: "e.g., (16, 16, 32)" },
+      },
+    ],
+    validateParameters: (params) => {
+      if (isEmptyParameter(params.output_shape)) return [];
+      const shape = parseDimensionList(params.output_shape);
+      return shape && shape.every((dim) => dim > 0)
+        ? []
+        : ["Output Shape must be a tuple of positive sizes, e.g. (16, 16, 32)"];
+    },
+    validateInputs: (inputShapes) => {
+      if (inputShapes.length === 0) {
+        return {
+          isValid: false,
+          errorMessage: "Placeholder layer requires at least one input",
+        };
+      }
+      return { isValid: true };
+    },
+    computeShape: (inputShapes, params) => {
+      if (isEmptyParameter(params.output_shape)) return inputShapes[0] ?? null;
+      return parseDimensionList(params.output_shape);
+    },
+    generateCode: {
+      keras: (params) =>
+        `Placeholder("${String(params.layer_class || "Layer")}")`,
+      pytorch: (params) =>
+        `Placeholder("${String(params.layer_class || "Layer")}")`,
+      flax: (params) =>
+        `Placeholder("${String(params.layer_class || "Layer")}")`,
+      tfjs: (params) =>
+        tfjsUnsupported(`Placeholder for ${String(params.layer_class || "a layer")}`),
+      helpers: {
+        keras: `class Placeholder(tf.keras.layers.Layer):
+    """Stands in for an imported layer that BlockDL has no equivalent for."""
+
+    def __init__(self, layer_class, **kwargs):
+        super().__init__(**kwargs)
+        self.layer_class = layer_class
+
+    def call(self, inputs):
+        raise NotImplementedError(f"Replace this placeholder with the original {self.layer_class} layer")`,
+        pytorch: `class Placeholder(nn.Module):
+    """Stands in for an imported layer that BlockDL has no equivalent for."""
+
+    def __init__(self, layer_class):
+        super().__init__()
+        self.layer_class = layer_class
+
+    def forward(self, x):
+        raise NotImplementedError(f"Replace this placeholder with the original {self.layer_class} layer")`,
+        flax: `class Placeholder(nn.Module):
+    """Stands in for an imported layer that BlockDL has no equivalent for."""
+
+    layer_class: str
+
+    @nn.compact
+    def __call__(self, x):
+        raise NotImplementedError(f"Replace this placeholder with the original {self.layer_class} layer")`,
+      },
+    },
+  },
 };
 
 /**
@@ -3873,20 +6187,22 @@ export function getLayerTypes(): Array<{
 export function generateLayerCode(
   type: string,
   params: Record<string, LayerParamValue>,
-  framework: 'keras' | 'pytorch' = 'keras'
+  framework: 'keras' | 'pytorch' | 'flax' | 'tfjs' = 'keras',
+  inputShapes?: number[][]
 ): string {
+  const comment = framework === 'tfjs' ? '//' : '#';
   const definition = layerDefinitions[type];
   if (!definition) {
-    return `# Unknown layer type: ${type}`;
+    return `${comment} Unknown layer type: ${type}`;
   }
 
   // Check if framework is supported
-  const codeGenerator = framework === 'pytorch' ? definition.generateCode.pytorch : definition.generateCode.keras;
+  const codeGenerator = definition.generateCode[framework];
   if (!codeGenerator) {
-    return `# ${framework} not yet supported for ${type}`;
+    return `${comment} ${framework} not yet supported for ${type}`;
   }
 
-  const baseCode = codeGenerator(params);
+  const baseCode = codeGenerator(params, inputShapes);
   const multiplier = Number(params.multiplier) || 1;
 
   if (multiplier > 1 && definition.supportsMultiplier && framework === 'keras') {
@@ -3922,12 +6238,35 @@ export function getUsedKerasImports(layerTypes: string[]): string[] {
       if (type === "Merge") {
         imports.delete("Merge");
       }
+      // Custom layers are defined in the generated file, not imported
+      if (layerDefinition.generateCode.helpers?.keras) {
+        imports.delete(type);
+      }
     }
   });
 
   return Array.from(imports);
 }
 
+/**
+ * Get helper definitions (custom layer classes) required by a list of layer types
+ */
+export function getHelperDefinitions(
+  layerTypes: string[],
+  framework: "keras" | "pytorch" | "flax" = "keras"
+): string[] {
+  const helpers = new Set<string>();
+
+  layerTypes.forEach((type) => {
+    const helper = layerDefinitions[type]?.generateCode.helpers?.[framework];
+    if (helper) {
+      helpers.add(helper);
+    }
+  });
+
+  return Array.from(helpers);
+}
+
 /**
  * Get additional imports needed for merge operations
  */
@@ -25,7 +25,9 @@ export function getParameterDisplayValues(
   // Special handling for Input layers
   if (layerType === "Input") {
     const inputType = String(params.inputType || "image_grayscale");
+    const name = String(params.name ?? "").trim();
     return [
+      ...(name ? [name] : []),
       `shape: ${computeInputShapeDisplay(params)}`,
       getInputTypeLabel(inputType),
     ];
@@ -119,7 +121,8 @@ const computeOutputDisplay = (
   params: Record<string, LayerParamValue>
 ): string[] => {
   const outputType = String(params.outputType || "multiclass");
-  const visibleParams: string[] = [];
+  const name = String(params.name ?? "").trim();
+  const visibleParams: string[] = name ? [name] : [];
 
   switch (outputType) {
     case "multiclass": {
@@ -181,11 +184,14 @@ const formatCommonParams = (
   }
 
   // Common parameters in priority order
+  if (params.num_heads) visibleParams.push(`${params.num_heads} heads`);
   if (params.filters) visibleParams.push(`${params.filters} filters`);
   if (params.units && layerType !== "Output")
     visibleParams.push(`${params.units} units`);
   if (params.pool_size) visibleParams.push(`pool: ${params.pool_size}`);
   if (params.kernel_size) visibleParams.push(`kernel: ${params.kernel_size}`);
+  if (params.key_dim) visibleParams.push(`key_dim: ${params.key_dim}`);
+  if (params.ff_dim) visibleParams.push(`ff: ${params.ff_dim}`);
 
   // Show activation for non-Activation/Output layers if not default
   if (
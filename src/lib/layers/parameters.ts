@@ -37,6 +37,8 @@ export interface LayerFormField {
   show?: (params: Record<string, LayerParamValue>) => boolean;
 }
 
+const MULTIPLIER_RANGE = { min: 1, max: 20 } as const;
+
 // ============================================================================
 // PARAMETER UTILITIES
 // ============================================================================
@@ -112,7 +114,7 @@ export function getLayerFormSpec(layerType: string): LayerFormField[] {
       label: "Multiplier",
       type: "number",
       default: 1,
-      validation: { min: 1, max: 20 },
+      validation: MULTIPLIER_RANGE,
     });
   }
 
@@ -136,6 +138,17 @@ export function validateParameterValues(
   definition.parameters.forEach((param: ParameterDefinition) => {
     const value = params[param.key];
 
+    // Hidden parameters don't affect the layer, so stale values are ignored
+    if (
+      !shouldShowParameter(
+        layerType,
+        param.key,
+        params as Record<string, LayerParamValue>
+      )
+    ) {
+      return;
+    }
+
     // Check required parameters
     if (
       param.validation?.required &&
@@ -192,6 +205,20 @@ export function validateParameterValues(
     }
   });
 
+  // The multiplier is added to supporting layers rather than declared
+  if (definition.supportsMultiplier && params.multiplier !== undefined) {
+    const multiplier = Number(params.multiplier);
+    if (
+      !Number.isInteger(multiplier) ||
+      multiplier < MULTIPLIER_RANGE.min ||
+      multiplier > MULTIPLIER_RANGE.max
+    ) {
+      errors.push(
+        `Multiplier must be a whole number from ${MULTIPLIER_RANGE.min} to ${MULTIPLIER_RANGE.max}`
+      );
+    }
+  }
+
   return { isValid: errors.length === 0, errors };
 }
 
@@ -6,6 +6,7 @@
  */
 
 import { layerDefinitions } from "../layer-definitions";
+import { validateParameterValues } from "./parameters";
 
 // ============================================================================
 // VALIDATION TYPES
@@ -40,6 +41,42 @@ export function validateLayerInputs(
   return definition.validateInputs(inputShapes, params);
 }
 
+/**
+ * Validate parameter values: the declared min/max/required/pattern rules
+ * followed by the layer's own semantic checks
+ */
+export function validateLayerParameters(
+  layerType: string,
+  params: Record<string, unknown> = {}
+): string[] {
+  const definition = layerDefinitions[layerType];
+  const { errors } = validateParameterValues(layerType, params);
+
+  // Semantic checks assume values that already passed the basic rules
+  if (errors.length > 0 || !definition?.validateParameters) {
+    return errors;
+  }
+  return definition.validateParameters(params);
+}
+
+/**
+ * Get parameter errors for every layer that has any, keyed by layer id
+ */
+export function validateGraphParameters(
+  layers: Array<{ id: string; type: string; params: Record<string, unknown> }>
+): Map<string, string[]> {
+  const errors = new Map<string, string[]>();
+
+  layers.forEach((layer) => {
+    const layerErrors = validateLayerParameters(layer.type, layer.params);
+    if (layerErrors.length > 0) {
+      errors.set(layer.id, layerErrors);
+    }
+  });
+
+  return errors;
+}
+
 /**
  * Validate a complete layer configuration
  */
@@ -54,8 +91,11 @@ export function validateLayerConfiguration(
     return inputValidation;
   }
 
-  // Then validate the parameters (if we add parameter validation in the future)
-  // For now, we assume parameters are valid if they pass the form validation
+  // Then validate the parameters
+  const parameterErrors = validateLayerParameters(layerType, params);
+  if (parameterErrors.length > 0) {
+    return { isValid: false, errorMessage: parameterErrors.join("; ") };
+  }
 
   return { isValid: true };
 }
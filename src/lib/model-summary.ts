@@ -0,0 +1,155 @@
+/**
+ * Model summary utilities
+ *
+ * Counts parameters and multiply-accumulates per layer from the computed
+ * shapes and builds a Keras-style model.summary() with total weight memory.
+ */
+
+import type { DAGResult } from "./dag-parser";
+import { getLayerDefinition, type ParameterCount } from "./layer-definitions";
+import { resolveInputShapes } from "./shape-computation";
+
+export interface LayerSummary {
+  nodeId: string;
+  name: string;
+  type: string;
+  outputShape: number[] | null;
+  trainable: number;
+  nonTrainable: number;
+  // Multiply-accumulate operations per sample (0 when unknown)
+  macs: number;
+}
+
+export interface ModelSummary {
+  layers: LayerSummary[];
+  totalParams: number;
+  trainableParams: number;
+  nonTrainableParams: number;
+  totalMACs: number;
+  // Bytes needed to store every weight at each precision
+  memory: { float32: number; float16: number };
+}
+
+/**
+ * Bytes per weight for the supported precisions
+ */
+const BYTES_PER_PARAM = {
+  float32: 4,
+  float16: 2,
+} as const;
+
+/**
+ * Counts parameters and MACs for a node, including all repetitions of a
+ * multiplied layer
+ */
+function countNodeCost(
+  type: string,
+  params: Record<string, unknown>,
+  inputShapes: number[][] | undefined
+): ParameterCount & { macs: number } {
+  const layerDef = getLayerDefinition(type);
+  const total = { trainable: 0, nonTrainable: 0, macs: 0 };
+  if (!layerDef || !inputShapes) return total;
+
+  const multiplier = layerDef.supportsMultiplier
+    ? Number(params.multiplier) || 1
+    : 1;
+
+  // Each repetition is fed by the previous one
+  let repeatInputShapes: number[][] | null = inputShapes;
+  for (let i = 0; i < multiplier && repeatInputShapes; i++) {
+    const outputShape = layerDef.computeShape(repeatInputShapes, params);
+
+    if (layerDef.countParameters) {
+      const count = layerDef.countParameters(repeatInputShapes, params);
+      total.trainable += count.trainable;
+      total.nonTrainable += count.nonTrainable;
+    }
+    if (layerDef.countMACs && outputShape) {
+      total.macs += layerDef.countMACs(repeatInputShapes, outputShape, params);
+    }
+
+    repeatInputShapes = outputShape ? [outputShape] : null;
+  }
+
+  return total;
+}
+
+/**
+ * Builds a model summary from a DAG and the shapes computed for it
+ */
+export function computeModelSummary(
+  dagResult: DAGResult,
+  nodeShapes: Map<string, number[]>
+): ModelSummary {
+  const inputShapes = resolveInputShapes(dagResult, nodeShapes);
+
+  const layers = dagResult.orderedNodes.map((node): LayerSummary => {
+    const count = countNodeCost(
+      node.type,
+      node.params,
+      inputShapes.get(node.id)
+    );
+
+    return {
+      nodeId: node.id,
+      name: node.varName,
+      type: node.type,
+      outputShape: nodeShapes.get(node.id) ?? null,
+      ...count,
+    };
+  });
+
+  const trainableParams = layers.reduce((sum, l) => sum + l.trainable, 0);
+  const nonTrainableParams = layers.reduce((sum, l) => sum + l.nonTrainable, 0);
+  const totalParams = trainableParams + nonTrainableParams;
+  const totalMACs = layers.reduce((sum, l) => sum + l.macs, 0);
+
+  return {
+    layers,
+    totalParams,
+    trainableParams,
+    nonTrainableParams,
+    totalMACs,
+    memory: {
+      float32: totalParams * BYTES_PER_PARAM.float32,
+      float16: totalParams * BYTES_PER_PARAM.float16,
+    },
+  };
+}
+
+/**
+ * Formats a parameter or operation count compactly, e.g. 1234567 -> "1.23M"
+ */
+export function formatParameterCount(count: number): string {
+  if (count >= 1e9) return `${(count / 1e9).toFixed(2)}B`;
+  if (count >= 1e6) return `${(count / 1e6).toFixed(2)}M`;
+  if (count >= 1e3) return `${(count / 1e3).toFixed(1)}K`;
+  return String(count);
+}
+
+/**
+ * Formats a byte count with binary units, e.g. 2048 -> "2.00 KB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+
+  return unitIndex === 0
+    ? `${value} ${units[unitIndex]}`
+    : `${value.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Formats an output shape the way Keras prints it, with the batch dimension
+ */
+export function formatOutputShape(shape: number[] | null): string {
+  if (!shape) return "?";
+  return `(None, ${shape.join(", ")})`;
+}
@@ -0,0 +1,1767 @@
+/**
+ * ONNX Export
+ *
+ * Builds an ONNX model definition straight from the DAG, without Python:
+ * every layer becomes one or more ONNX nodes, value_info records the shapes
+ * from computeShapes and every weight becomes an initializer. Weights have
+ * no values: their initializers are external data laid out one after the
+ * other in a weights file that is not written, so the model describes the
+ * architecture rather than a trained network. The model is written as a
+ * binary .onnx protobuf or in ONNX's JSON representation.
+ *
+ * Tensors follow ONNX conventions: images are (N, C, H, W) while sequences
+ * stay (N, T, F), so the canvas' channels-last image shapes are transposed.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { parseGraphToDAG, type LayerObject } from "./dag-parser";
+import { computeShapes, resolveInputShapes } from "./shape-computation";
+import { expandCompositeBlocks, type CompositeBlock } from "./composite-blocks";
+import { getLayerDefinition } from "./layer-definitions";
+import { validateGraphParameters } from "./layers/validation";
+import { parseTupleOrNumber } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OnnxAttribute {
+  name: string;
+  type: "FLOAT" | "INT" | "STRING" | "INTS" | "STRINGS";
+  f?: number;
+  i?: number;
+  s?: string;
+  ints?: number[];
+  strings?: string[];
+}
+
+export interface OnnxNode {
+  name: string;
+  opType: string;
+  input: string[];
+  output: string[];
+  attribute: OnnxAttribute[];
+  docString?: string;
+}
+
+export interface OnnxTensor {
+  name: string;
+  dataType: number;
+  dims: number[];
+  // Constants (e.g. reshape targets) carry their values inline
+  int64Data?: number[];
+  floatData?: number[];
+  // Weights point into the external weights file instead
+  externalData?: { location: string; offset: number; length: number };
+}
+
+export interface OnnxValueInfo {
+  name: string;
+  elemType: number;
+  // Strings are symbolic dimensions such as the batch size
+  shape: Array<number | string>;
+}
+
+export interface OnnxGraph {
+  name: string;
+  node: OnnxNode[];
+  initializer: OnnxTensor[];
+  input: OnnxValueInfo[];
+  output: OnnxValueInfo[];
+  valueInfo: OnnxValueInfo[];
+}
+
+export interface OnnxModel {
+  irVersion: number;
+  opsetVersion: number;
+  producerName: string;
+  producerVersion: string;
+  docString: string;
+  graph: OnnxGraph;
+}
+
+export type OnnxExportResult =
+  | { success: true; model: OnnxModel; warnings: string[] }
+  | { success: false; error: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Opset 17 is the first with LayerNormalization
+const OPSET_VERSION = 17;
+const IR_VERSION = 8;
+const PRODUCER_NAME = "BlockDL";
+const PRODUCER_VERSION = "1.0";
+const BATCH_DIM = "N";
+
+const DATA_TYPE = { FLOAT: 1, INT64: 7 } as const;
+const EXTERNAL_DATA_LOCATION = 1;
+
+const ATTRIBUTE_TYPE: Record<OnnxAttribute["type"], number> = {
+  FLOAT: 1,
+  INT: 2,
+  STRING: 3,
+  INTS: 7,
+  STRINGS: 8,
+};
+
+// Keras defaults for layers whose ONNX op needs the value spelled out
+const LEAKY_RELU_ALPHA = 0.2;
+const TRANSFORMER_EPSILON = 1e-6;
+
+// ============================================================================
+// GRAPH BUILDING
+// ============================================================================
+
+/**
+ * A tensor in the graph with its canvas (channels-last, batchless) shape
+ */
+interface TensorRef {
+  name: string;
+  shape: number[];
+}
+
+interface GraphContext {
+  nodes: OnnxNode[];
+  initializers: OnnxTensor[];
+  usedNames: Set<string>;
+  warnings: string[];
+  weightsFile: string;
+  // Size of the weights declared so far, i.e. the next weight's offset
+  weightBytes: number;
+}
+
+function uniqueName(ctx: GraphContext, base: string): string {
+  let name = base;
+  for (let i = 1; ctx.usedNames.has(name); i++) {
+    name = `${base}_${i}`;
+  }
+  ctx.usedNames.add(name);
+  return name;
+}
+
+/**
+ * Adds a node and returns the name of its (first) output. A generated name
+ * under `scope` is used unless the output is given.
+ */
+function addNode(
+  ctx: GraphContext,
+  scope: string,
+  opType: string,
+  inputs: string[],
+  attributes: OnnxAttribute[] = [],
+  output?: string
+): string {
+  const outputName = output ?? uniqueName(ctx, `${scope}/${opType}_output`);
+  ctx.nodes.push({
+    name: uniqueName(ctx, `${scope}/${opType}`),
+    opType,
+    input: inputs,
+    output: [outputName],
+    attribute: attributes,
+  });
+  return outputName;
+}
+
+/**
+ * Declares a float32 weight stored in the external weights file
+ */
+function addWeight(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  dims: number[]
+): string {
+  const weightName = uniqueName(ctx, `${scope}.${name}`);
+  const length =
+    dims.reduce((size, dim) => size * dim, 1) * Float32Array.BYTES_PER_ELEMENT;
+  ctx.initializers.push({
+    name: weightName,
+    dataType: DATA_TYPE.FLOAT,
+    dims,
+    externalData: {
+      location: ctx.weightsFile,
+      offset: ctx.weightBytes,
+      length,
+    },
+  });
+  ctx.weightBytes += length;
+  return weightName;
+}
+
+function addInt64Constant(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  values: number[]
+): string {
+  const constantName = uniqueName(ctx, `${scope}.${name}`);
+  ctx.initializers.push({
+    name: constantName,
+    dataType: DATA_TYPE.INT64,
+    dims: [values.length],
+    int64Data: values,
+  });
+  return constantName;
+}
+
+function addFloatConstant(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  value: number
+): string {
+  const constantName = uniqueName(ctx, `${scope}.${name}`);
+  ctx.initializers.push({
+    name: constantName,
+    dataType: DATA_TYPE.FLOAT,
+    dims: [],
+    floatData: [value],
+  });
+  return constantName;
+}
+
+function intAttr(name: string, i: number): OnnxAttribute {
+  return { name, type: "INT", i };
+}
+
+function intsAttr(name: string, ints: number[]): OnnxAttribute {
+  return { name, type: "INTS", ints };
+}
+
+function floatAttr(name: string, f: number): OnnxAttribute {
+  return { name, type: "FLOAT", f };
+}
+
+function stringAttr(name: string, s: string): OnnxAttribute {
+  return { name, type: "STRING", s };
+}
+
+// ============================================================================
+// LAYOUT HELPERS
+// ============================================================================
+
+/**
+ * Rank-3 canvas tensors are images, stored channels-first in ONNX
+ */
+function isImage(shape: number[]): boolean {
+  return shape.length === 3;
+}
+
+/**
+ * ONNX dimensions of a canvas shape, without the batch dimension
+ */
+function toOnnxDims(shape: number[]): number[] {
+  return isImage(shape) ? [shape[2], shape[0], shape[1]] : shape;
+}
+
+/**
+ * Converts a canvas axis, which like the canvas shapes leaves out the batch,
+ * to the ONNX tensor axis
+ */
+function toOnnxAxis(axis: number, shape: number[]): number {
+  const canvasAxis = axis < 0 ? shape.length + axis : axis;
+  if (!isImage(shape)) return canvasAxis + 1;
+  return canvasAxis === 2 ? 1 : canvasAxis + 2;
+}
+
+/**
+ * Brings an image tensor to (N, H, W, C) so it can be treated as in Keras
+ */
+function toChannelsLast(
+  ctx: GraphContext,
+  scope: string,
+  tensor: TensorRef
+): string {
+  return isImage(tensor.shape)
+    ? addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [tensor.name],
+        [intsAttr("perm", [0, 2, 3, 1])]
+      )
+    : tensor.name;
+}
+
+/**
+ * Brings a (N, H, W, C) result back to ONNX layout, writing to `output`
+ */
+function fromChannelsLast(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  shape: number[],
+  output?: string
+): string {
+  if (isImage(shape)) {
+    return addNode(
+      ctx,
+      scope,
+      "Transpose",
+      [name],
+      [intsAttr("perm", [0, 3, 1, 2])],
+      output
+    );
+  }
+  return output ? addNode(ctx, scope, "Identity", [name], [], output) : name;
+}
+
+function formatPair(value: unknown, fallback: [number, number]): number[] {
+  return parseTupleOrNumber(String(value ?? "")) ?? fallback;
+}
+
+/**
+ * ONNX auto_pad for a Keras padding mode
+ */
+function toAutoPad(padding: unknown, fallback = "same"): OnnxAttribute {
+  const mode = String(padding || fallback);
+  return stringAttr("auto_pad", mode === "same" ? "SAME_UPPER" : "VALID");
+}
+
+// ============================================================================
+// LAYER CONVERSION
+// ============================================================================
+
+/**
+ * Applies a Keras activation, writing to `output` when given
+ */
+function applyActivation(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  activation: string,
+  shape: number[],
+  output?: string
+): string {
+  switch (activation) {
+    case "relu":
+      return addNode(ctx, scope, "Relu", [name], [], output);
+    case "sigmoid":
+      return addNode(ctx, scope, "Sigmoid", [name], [], output);
+    case "tanh":
+      return addNode(ctx, scope, "Tanh", [name], [], output);
+    case "elu":
+      return addNode(ctx, scope, "Elu", [name], [], output);
+    case "softmax":
+      // Keras normalizes the last (channels) axis
+      return addNode(
+        ctx,
+        scope,
+        "Softmax",
+        [name],
+        [intAttr("axis", isImage(shape) ? 1 : -1)],
+        output
+      );
+    case "leaky_relu":
+      return addNode(
+        ctx,
+        scope,
+        "LeakyRelu",
+        [name],
+        [floatAttr("alpha", LEAKY_RELU_ALPHA)],
+        output
+      );
+    case "gelu": {
+      // Gelu is only an operator from opset 20: 0.5 * x * (1 + erf(x / sqrt(2)))
+      const scaled = addNode(ctx, scope, "Div", [
+        name,
+        addFloatConstant(ctx, scope, "sqrt2", Math.SQRT2),
+      ]);
+      const erf = addNode(ctx, scope, "Erf", [scaled]);
+      const shifted = addNode(ctx, scope, "Add", [
+        erf,
+        addFloatConstant(ctx, scope, "one", 1),
+      ]);
+      const product = addNode(ctx, scope, "Mul", [name, shifted]);
+      return addNode(
+        ctx,
+        scope,
+        "Mul",
+        [product, addFloatConstant(ctx, scope, "half", 0.5)],
+        [],
+        output
+      );
+    }
+    case "linear":
+    case "none":
+    case "":
+      return output
+        ? addNode(ctx, scope, "Identity", [name], [], output)
+        : name;
+    default:
+      ctx.warnings.push(
+        `${scope}: activation '${activation}' has no ONNX operator and was left out`
+      );
+      return output
+        ? addNode(ctx, scope, "Identity", [name], [], output)
+        : name;
+  }
+}
+
+/**
+ * Dense projection of the last axis of a channels-last tensor
+ */
+function addDense(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  inFeatures: number,
+  units: number,
+  useBias = true,
+  output?: string
+): string {
+  const kernel = addWeight(ctx, scope, "kernel", [inFeatures, units]);
+  if (!useBias) {
+    return addNode(ctx, scope, "MatMul", [name, kernel], [], output);
+  }
+  const product = addNode(ctx, scope, "MatMul", [name, kernel]);
+  const bias = addWeight(ctx, scope, "bias", [units]);
+  return addNode(ctx, scope, "Add", [product, bias], [], output);
+}
+
+/**
+ * Dense layer: MatMul and Add over the last (Keras) axis
+ */
+function convertDense(
+  ctx: GraphContext,
+  scope: string,
+  input: TensorRef,
+  units: number,
+  activation: string,
+  useBias: boolean,
+  outputShape: number[],
+  output: string
+): void {
+  const inFeatures = input.shape[input.shape.length - 1];
+  const dense = addDense(
+    ctx,
+    scope,
+    toChannelsLast(ctx, scope, input),
+    inFeatures,
+    units,
+    useBias
+  );
+  const activated = applyActivation(ctx, scope, dense, activation, []);
+  fromChannelsLast(ctx, scope, activated, outputShape, output);
+}
+
+/**
+ * Multi-head attention decomposed into projections, scaled dot products
+ * and a softmax over (N, heads, T, key_dim) tensors
+ */
+function addAttention(
+  ctx: GraphContext,
+  scope: string,
+  query: TensorRef,
+  value: TensorRef,
+  key: TensorRef,
+  numHeads: number,
+  keyDim: number,
+  useBias: boolean,
+  output?: string
+): string {
+  const splitShape = addInt64Constant(ctx, scope, "split_heads", [
+    0,
+    0,
+    numHeads,
+    keyDim,
+  ]);
+  const project = (tensor: TensorRef, name: string, perm: number[]) => {
+    const features = tensor.shape[tensor.shape.length - 1];
+    const projected = addDense(
+      ctx,
+      `${scope}/${name}`,
+      tensor.name,
+      features,
+      numHeads * keyDim,
+      useBias
+    );
+    const split = addNode(ctx, scope, "Reshape", [projected, splitShape]);
+    return addNode(ctx, scope, "Transpose", [split], [intsAttr("perm", perm)]);
+  };
+
+  const q = project(query, "query", [0, 2, 1, 3]);
+  // Keys are transposed to (N, heads, key_dim, T) for the dot product
+  const k = project(key, "key", [0, 2, 3, 1]);
+  const v = project(value, "value", [0, 2, 1, 3]);
+
+  const scores = addNode(ctx, scope, "MatMul", [q, k]);
+  const scaled = addNode(ctx, scope, "Mul", [
+    scores,
+    addFloatConstant(ctx, scope, "scale", 1 / Math.sqrt(keyDim)),
+  ]);
+  const weights = addNode(
+    ctx,
+    scope,
+    "Softmax",
+    [scaled],
+    [intAttr("axis", -1)]
+  );
+  const attended = addNode(ctx, scope, "MatMul", [weights, v]);
+  const merged = addNode(
+    ctx,
+    scope,
+    "Transpose",
+    [attended],
+    [intsAttr("perm", [0, 2, 1, 3])]
+  );
+  const concatenated = addNode(ctx, scope, "Reshape", [
+    merged,
+    addInt64Constant(ctx, scope, "merge_heads", [0, 0, numHeads * keyDim]),
+  ]);
+
+  const queryFeatures = query.shape[query.shape.length - 1];
+  return addDense(
+    ctx,
+    `${scope}/output`,
+    concatenated,
+    numHeads * keyDim,
+    queryFeatures,
+    useBias,
+    output
+  );
+}
+
+function addLayerNorm(
+  ctx: GraphContext,
+  scope: string,
+  name: string,
+  normalizedDims: number[],
+  epsilon: number,
+  output?: string
+): string {
+  const gamma = addWeight(ctx, scope, "gamma", normalizedDims);
+  const beta = addWeight(ctx, scope, "beta", normalizedDims);
+  return addNode(
+    ctx,
+    scope,
+    "LayerNormalization",
+    [name, gamma, beta],
+    [intAttr("axis", -normalizedDims.length), floatAttr("epsilon", epsilon)],
+    output
+  );
+}
+
+/**
+ * LSTM, GRU or both directions of either. They run time-major, the default
+ * layout and the only one onnxruntime supports, so sequences are transposed.
+ */
+function convertRecurrent(
+  ctx: GraphContext,
+  scope: string,
+  input: TensorRef,
+  params: Record<string, unknown>,
+  cell: string,
+  bidirectional: boolean,
+  output: string
+): void {
+  const units = Number(params.units) || 50;
+  const features = input.shape[input.shape.length - 1];
+  const directions = bidirectional ? 2 : 1;
+  const gates = cell === "GRU" ? 3 : 4;
+  const returnSequences = String(params.return_sequences) === "true";
+  const mergeMode = bidirectional
+    ? String(params.merge_mode) || "concat"
+    : "concat";
+
+  const attributes = [
+    intAttr("hidden_size", units),
+    stringAttr("direction", bidirectional ? "bidirectional" : "forward"),
+  ];
+  if (cell === "GRU") {
+    const resetAfter = params.reset_after
+      ? String(params.reset_after) === "true"
+      : true;
+    // Keras reset_after applies the reset gate after the recurrent matmul
+    attributes.push(intAttr("linear_before_reset", resetAfter ? 1 : 0));
+  }
+
+  // Gate activations, when they differ from the defaults
+  const onnxActivations: Record<string, string> = {
+    sigmoid: "Sigmoid",
+    tanh: "Tanh",
+    relu: "Relu",
+  };
+  const activation = String(params.activation || "tanh");
+  const recurrentActivation = String(params.recurrent_activation || "sigmoid");
+  if (
+    !bidirectional &&
+    (activation !== "tanh" || recurrentActivation !== "sigmoid")
+  ) {
+    const gate = onnxActivations[recurrentActivation];
+    const candidate = onnxActivations[activation];
+    if (gate && candidate) {
+      attributes.push({
+        name: "activations",
+        type: "STRINGS",
+        strings:
+          cell === "GRU" ? [gate, candidate] : [gate, candidate, candidate],
+      });
+    } else {
+      ctx.warnings.push(
+        `${scope}: ${cell} activations other than sigmoid, tanh and relu were left out`
+      );
+    }
+  }
+
+  const recurrentInputs = [
+    addNode(
+      ctx,
+      scope,
+      "Transpose",
+      [input.name],
+      [intsAttr("perm", [1, 0, 2])]
+    ),
+    addWeight(ctx, scope, "kernel", [directions, gates * units, features]),
+    addWeight(ctx, scope, "recurrent_kernel", [
+      directions,
+      gates * units,
+      units,
+    ]),
+    addWeight(ctx, scope, "bias", [directions, 2 * gates * units]),
+  ];
+
+  // Y is (T, directions, N, units); Y_h is (directions, N, units)
+  const sequenceOutput = uniqueName(ctx, `${scope}/Y`);
+  const lastOutput = uniqueName(ctx, `${scope}/Y_h`);
+  ctx.nodes.push({
+    name: uniqueName(ctx, `${scope}/${cell}`),
+    opType: cell,
+    input: recurrentInputs,
+    output: returnSequences ? [sequenceOutput] : ["", lastOutput],
+    attribute: attributes,
+  });
+
+  const result = returnSequences
+    ? addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [sequenceOutput],
+        [intsAttr("perm", [2, 0, 1, 3])]
+      )
+    : addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [lastOutput],
+        [intsAttr("perm", [1, 0, 2])]
+      );
+  const directionAxis = returnSequences ? 2 : 1;
+
+  switch (mergeMode) {
+    case "sum":
+      addNode(
+        ctx,
+        scope,
+        "ReduceSum",
+        [result, addInt64Constant(ctx, scope, "axes", [directionAxis])],
+        [intAttr("keepdims", 0)],
+        output
+      );
+      return;
+    case "ave":
+      addNode(
+        ctx,
+        scope,
+        "ReduceMean",
+        [result],
+        [intsAttr("axes", [directionAxis]), intAttr("keepdims", 0)],
+        output
+      );
+      return;
+    case "mul":
+      addNode(
+        ctx,
+        scope,
+        "ReduceProd",
+        [result],
+        [intsAttr("axes", [directionAxis]), intAttr("keepdims", 0)],
+        output
+      );
+      return;
+    case "None":
+      ctx.warnings.push(
+        `${scope}: merge_mode=None returns two tensors; the directions were concatenated instead`
+      );
+      break;
+  }
+
+  // Concatenate the directions (a no-op reshape for a single direction)
+  const mergedShape = returnSequences ? [0, 0, -1] : [0, -1];
+  addNode(
+    ctx,
+    scope,
+    "Reshape",
+    [result, addInt64Constant(ctx, scope, "shape", mergedShape)],
+    [],
+    output
+  );
+}
+
+/**
+ * TimeDistributed: the wrapped layer is applied to (N * T, ...) slices
+ */
+function convertTimeDistributed(
+  ctx: GraphContext,
+  scope: string,
+  input: TensorRef,
+  params: Record<string, unknown>,
+  outputShape: number[],
+  output: string
+): void {
+  const layerType = String(params.layer_type) || "Dense";
+  const activation = params.activation ? String(params.activation) : "linear";
+  const channelsLast = toChannelsLast(ctx, scope, input);
+  const [timeSteps, ...stepShape] = input.shape;
+  const [, ...outputStepShape] = outputShape;
+  let result: string;
+
+  switch (layerType) {
+    case "Dense": {
+      const units = Number(params.units) || 32;
+      const dense = addDense(
+        ctx,
+        scope,
+        channelsLast,
+        stepShape[stepShape.length - 1],
+        units
+      );
+      result = applyActivation(ctx, scope, dense, activation, []);
+      break;
+    }
+    case "Conv1D":
+    case "Conv2D": {
+      const filters = Number(params.units) || 32;
+      const kernelSize =
+        layerType === "Conv1D"
+          ? [Number(params.kernel_size_1d) || 3]
+          : formatPair(params.kernel_size, [3, 3]);
+      const channels = stepShape[stepShape.length - 1];
+      const toFirst = layerType === "Conv1D" ? [0, 2, 1] : [0, 3, 1, 2];
+      const toLast = layerType === "Conv1D" ? [0, 2, 1] : [0, 2, 3, 1];
+
+      const steps = addNode(ctx, scope, "Reshape", [
+        channelsLast,
+        addInt64Constant(ctx, scope, "steps_shape", [-1, ...stepShape]),
+      ]);
+      const channelsFirst = addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [steps],
+        [intsAttr("perm", toFirst)]
+      );
+      const conv = addNode(
+        ctx,
+        scope,
+        "Conv",
+        [
+          channelsFirst,
+          addWeight(ctx, scope, "kernel", [filters, channels, ...kernelSize]),
+          addWeight(ctx, scope, "bias", [filters]),
+        ],
+        // Padded like the canvas shapes, which keep each step's size
+        [
+          intsAttr("kernel_shape", kernelSize),
+          stringAttr("auto_pad", "SAME_UPPER"),
+        ]
+      );
+      const convLast = addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [conv],
+        [intsAttr("perm", toLast)]
+      );
+      const sequence = addNode(ctx, scope, "Reshape", [
+        convLast,
+        addInt64Constant(ctx, scope, "sequence_shape", [
+          -1,
+          timeSteps,
+          ...outputStepShape,
+        ]),
+      ]);
+      result = applyActivation(ctx, scope, sequence, activation, []);
+      break;
+    }
+    case "Activation":
+      result = applyActivation(ctx, scope, channelsLast, activation, []);
+      break;
+    case "Dropout":
+    default:
+      result = channelsLast;
+  }
+
+  fromChannelsLast(ctx, scope, result, outputShape, output);
+}
+
+/**
+ * Converts one layer (or one repetition of a multiplied layer), writing its
+ * result to `output`
+ */
+function convertLayer(
+  ctx: GraphContext,
+  layer: LayerObject,
+  scope: string,
+  inputs: TensorRef[],
+  outputShape: number[],
+  output: string
+): void {
+  const { type, params } = layer;
+  const [input] = inputs;
+
+  switch (type) {
+    case "Dense":
+      convertDense(
+        ctx,
+        scope,
+        input,
+        Number(params.units) || 128,
+        String(params.activation) || "linear",
+        String(params.use_bias) !== "false",
+        outputShape,
+        output
+      );
+      return;
+
+    case "Output": {
+      const outputType = String(params.outputType || "multiclass");
+      const activation =
+        outputType === "regression"
+          ? "linear"
+          : outputType === "multiclass"
+            ? "softmax"
+            : "sigmoid";
+      convertDense(
+        ctx,
+        scope,
+        input,
+        outputShape[outputShape.length - 1],
+        activation,
+        true,
+        outputShape,
+        output
+      );
+      return;
+    }
+
+    case "Conv2D":
+    case "Conv2DTranspose": {
+      const filters = Number(params.filters) || 32;
+      const channels = input.shape[2];
+      const kernelSize = formatPair(params.kernel_size, [3, 3]);
+      const isTranspose = type === "Conv2DTranspose";
+      const strides = formatPair(params.strides, isTranspose ? [2, 2] : [1, 1]);
+      const convInputs = [
+        input.name,
+        // ConvTranspose weights are (in, out, kH, kW)
+        addWeight(
+          ctx,
+          scope,
+          "kernel",
+          isTranspose
+            ? [channels, filters, ...kernelSize]
+            : [filters, channels, ...kernelSize]
+        ),
+      ];
+      if (String(params.use_bias) !== "false") {
+        convInputs.push(addWeight(ctx, scope, "bias", [filters]));
+      }
+      const conv = addNode(
+        ctx,
+        scope,
+        isTranspose ? "ConvTranspose" : "Conv",
+        convInputs,
+        [
+          intsAttr("kernel_shape", kernelSize),
+          intsAttr("strides", strides),
+          toAutoPad(params.padding),
+        ]
+      );
+      applyActivation(
+        ctx,
+        scope,
+        conv,
+        String(params.activation) || "linear",
+        outputShape,
+        output
+      );
+      return;
+    }
+
+    case "Conv1D": {
+      // Conv runs on (N, F, T), so sequences are transposed around it
+      const filters = Number(params.filters) || 32;
+      const kernelSize = Number(params.kernel_size) || 3;
+      const strides = Number(params.strides) || 1;
+      const features = input.shape[input.shape.length - 1];
+
+      const transposed = addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [input.name],
+        [intsAttr("perm", [0, 2, 1])]
+      );
+      const conv = addNode(
+        ctx,
+        scope,
+        "Conv",
+        [
+          transposed,
+          addWeight(ctx, scope, "kernel", [filters, features, kernelSize]),
+          addWeight(ctx, scope, "bias", [filters]),
+        ],
+        [
+          intsAttr("kernel_shape", [kernelSize]),
+          intsAttr("strides", [strides]),
+          toAutoPad(params.padding),
+        ]
+      );
+      const sequence = addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [conv],
+        [intsAttr("perm", [0, 2, 1])]
+      );
+      applyActivation(
+        ctx,
+        scope,
+        sequence,
+        String(params.activation) || "linear",
+        outputShape,
+        output
+      );
+      return;
+    }
+
+    case "SeparableConv2D": {
+      const filters = Number(params.filters) || 32;
+      const channels = input.shape[2];
+      const depthMultiplier = Number(params.depth_multiplier) || 1;
+      const kernelSize = formatPair(params.kernel_size, [3, 3]);
+      const depthwise = addNode(
+        ctx,
+        scope,
+        "Conv",
+        [
+          input.name,
+          addWeight(ctx, scope, "depthwise_kernel", [
+            channels * depthMultiplier,
+            1,
+            ...kernelSize,
+          ]),
+        ],
+        [
+          intsAttr("kernel_shape", kernelSize),
+          intsAttr("strides", formatPair(params.strides, [1, 1])),
+          intAttr("group", channels),
+          toAutoPad(params.padding),
+        ]
+      );
+      const pointwise = addNode(
+        ctx,
+        scope,
+        "Conv",
+        [
+          depthwise,
+          addWeight(ctx, scope, "pointwise_kernel", [
+            filters,
+            channels * depthMultiplier,
+            1,
+            1,
+          ]),
+          addWeight(ctx, scope, "bias", [filters]),
+        ],
+        [intsAttr("kernel_shape", [1, 1])]
+      );
+      applyActivation(
+        ctx,
+        scope,
+        pointwise,
+        String(params.activation) || "linear",
+        outputShape,
+        output
+      );
+      return;
+    }
+
+    case "MaxPool2D":
+    case "AveragePooling2D": {
+      const poolSize = formatPair(params.pool_size, [2, 2]);
+      // Keras strides default to the pool size
+      const strides = params.strides
+        ? formatPair(params.strides, [2, 2])
+        : poolSize;
+      addNode(
+        ctx,
+        scope,
+        type === "MaxPool2D" ? "MaxPool" : "AveragePool",
+        [input.name],
+        [
+          intsAttr("kernel_shape", poolSize),
+          intsAttr("strides", strides),
+          toAutoPad(params.padding, "valid"),
+        ],
+        output
+      );
+      return;
+    }
+
+    case "GlobalAveragePooling2D": {
+      const pooled = addNode(ctx, scope, "GlobalAveragePool", [input.name]);
+      addNode(ctx, scope, "Flatten", [pooled], [intAttr("axis", 1)], output);
+      return;
+    }
+
+    case "ZeroPadding2D": {
+      const [rows, cols] = formatPair(params.padding, [1, 1]);
+      const pads = addInt64Constant(ctx, scope, "pads", [
+        0,
+        0,
+        rows,
+        cols,
+        0,
+        0,
+        rows,
+        cols,
+      ]);
+      addNode(ctx, scope, "Pad", [input.name, pads], [], output);
+      return;
+    }
+
+    case "Cropping2D": {
+      const values = (
+        String(params.cropping || "((1,1),(1,1))").match(/\d+/g) || []
+      ).map(Number);
+      const [top, bottom, left, right] =
+        values.length === 4
+          ? values
+          : values.length === 2
+            ? [values[0], values[0], values[1], values[1]]
+            : Array(4).fill(values[0] ?? 1);
+      const [height, width] = input.shape;
+      addNode(
+        ctx,
+        scope,
+        "Slice",
+        [
+          input.name,
+          addInt64Constant(ctx, scope, "starts", [top, left]),
+          addInt64Constant(ctx, scope, "ends", [
+            height - bottom,
+            width - right,
+          ]),
+          addInt64Constant(ctx, scope, "axes", [2, 3]),
+        ],
+        [],
+        output
+      );
+      return;
+    }
+
+    case "Embedding": {
+      const inputDim = Number(params.input_dim) || 10000;
+      const outputDim = Number(params.output_dim) || 128;
+      const table = addWeight(ctx, scope, "embeddings", [inputDim, outputDim]);
+      addNode(
+        ctx,
+        scope,
+        "Gather",
+        [table, input.name],
+        [intAttr("axis", 0)],
+        output
+      );
+      return;
+    }
+
+    case "LSTM":
+    case "GRU":
+      convertRecurrent(ctx, scope, input, params, type, false, output);
+      return;
+
+    case "Bidirectional":
+      convertRecurrent(
+        ctx,
+        scope,
+        input,
+        params,
+        String(params.layer_type) || "LSTM",
+        true,
+        output
+      );
+      return;
+
+    case "TimeDistributed":
+      convertTimeDistributed(ctx, scope, input, params, outputShape, output);
+      return;
+
+    case "MultiHeadAttention": {
+      // Keras inputs are (query, value[, key])
+      const [query, value = query, key = value] = inputs;
+      addAttention(
+        ctx,
+        scope,
+        query,
+        value,
+        key,
+        Number(params.num_heads) || 4,
+        Number(params.key_dim) || 32,
+        String(params.use_bias) !== "false",
+        output
+      );
+      return;
+    }
+
+    case "TransformerEncoderBlock": {
+      // Post-norm block; dropout is a no-op at inference
+      const embedDim = input.shape[input.shape.length - 1];
+      const ffDim = Number(params.ff_dim) || 128;
+      const attention = addAttention(
+        ctx,
+        `${scope}/attention`,
+        input,
+        input,
+        input,
+        Number(params.num_heads) || 4,
+        Number(params.key_dim) || 32,
+        true
+      );
+      const residual = addNode(ctx, scope, "Add", [input.name, attention]);
+      const normalized = addLayerNorm(
+        ctx,
+        `${scope}/norm1`,
+        residual,
+        [embedDim],
+        TRANSFORMER_EPSILON
+      );
+      const hidden = applyActivation(
+        ctx,
+        scope,
+        addDense(ctx, `${scope}/ffn1`, normalized, embedDim, ffDim),
+        String(params.ff_activation || "relu"),
+        []
+      );
+      const projected = addDense(ctx, `${scope}/ffn2`, hidden, ffDim, embedDim);
+      const ffnResidual = addNode(ctx, scope, "Add", [normalized, projected]);
+      addLayerNorm(
+        ctx,
+        `${scope}/norm2`,
+        ffnResidual,
+        [embedDim],
+        TRANSFORMER_EPSILON,
+        output
+      );
+      return;
+    }
+
+    case "Flatten":
+      // Keras flattens channels-last, so images are transposed first
+      addNode(
+        ctx,
+        scope,
+        "Flatten",
+        [toChannelsLast(ctx, scope, input)],
+        [intAttr("axis", 1)],
+        output
+      );
+      return;
+
+    case "Reshape": {
+      const reshaped = addNode(ctx, scope, "Reshape", [
+        toChannelsLast(ctx, scope, input),
+        addInt64Constant(ctx, scope, "shape", [0, ...outputShape]),
+      ]);
+      fromChannelsLast(ctx, scope, reshaped, outputShape, output);
+      return;
+    }
+
+    case "Permute": {
+      const dims = (String(params.dims || "(2, 1)").match(/\d+/g) || []).map(
+        Number
+      );
+      const permuted = addNode(
+        ctx,
+        scope,
+        "Transpose",
+        [toChannelsLast(ctx, scope, input)],
+        [intsAttr("perm", [0, ...dims])]
+      );
+      fromChannelsLast(ctx, scope, permuted, outputShape, output);
+      return;
+    }
+
+    case "Merge": {
+      const names = inputs.map((tensor) => tensor.name);
+      const mode = String(params.mode) || "concat";
+      switch (mode) {
+        case "add":
+          addNode(ctx, scope, "Sum", names, [], output);
+          return;
+        case "multiply": {
+          const product = names
+            .slice(1, -1)
+            .reduce(
+              (acc, name) => addNode(ctx, scope, "Mul", [acc, name]),
+              names[0]
+            );
+          addNode(
+            ctx,
+            scope,
+            "Mul",
+            [product, names[names.length - 1]],
+            [],
+            output
+          );
+          return;
+        }
+        case "subtract":
+          addNode(ctx, scope, "Sub", names.slice(0, 2), [], output);
+          return;
+        case "average":
+          addNode(ctx, scope, "Mean", names, [], output);
+          return;
+        case "maximum":
+          addNode(ctx, scope, "Max", names, [], output);
+          return;
+        case "minimum":
+          addNode(ctx, scope, "Min", names, [], output);
+          return;
+        case "dot":
+          // The canvas keeps the input shape, so the sum over the product is left out
+          ctx.warnings.push(
+            `${scope}: dot merge was exported as an element-wise product`
+          );
+          addNode(ctx, scope, "Mul", names.slice(0, 2), [], output);
+          return;
+        case "concat":
+        default: {
+          const axis = toOnnxAxis(Number(params.axis) || -1, input.shape);
+          addNode(ctx, scope, "Concat", names, [intAttr("axis", axis)], output);
+          return;
+        }
+      }
+    }
+
+    case "Activation":
+      applyActivation(
+        ctx,
+        scope,
+        input.name,
+        String(params.activation_function || "relu"),
+        input.shape,
+        output
+      );
+      return;
+
+    case "Dropout":
+    case "SpatialDropout2D": {
+      const ratio = addFloatConstant(
+        ctx,
+        scope,
+        "ratio",
+        Number(params.rate) || 0.5
+      );
+      addNode(ctx, scope, "Dropout", [input.name, ratio], [], output);
+      return;
+    }
+
+    case "GaussianNoise":
+      // Noise is only added during training
+      addNode(ctx, scope, "Identity", [input.name], [], output);
+      return;
+
+    case "BatchNormalization": {
+      // ONNX normalizes axis 1, which is the feature axis except for sequences
+      const isSequence = input.shape.length === 2;
+      const channels = input.shape[input.shape.length - 1];
+      const axis = Number(params.axis) || -1;
+      if (axis !== -1) {
+        ctx.warnings.push(
+          `${scope}: BatchNormalization axis ${axis} was exported as -1`
+        );
+      }
+      const normalizedInput = isSequence
+        ? addNode(
+            ctx,
+            scope,
+            "Transpose",
+            [input.name],
+            [intsAttr("perm", [0, 2, 1])]
+          )
+        : input.name;
+      const normalized = addNode(
+        ctx,
+        scope,
+        "BatchNormalization",
+        [
+          normalizedInput,
+          addWeight(ctx, scope, "gamma", [channels]),
+          addWeight(ctx, scope, "beta", [channels]),
+          addWeight(ctx, scope, "moving_mean", [channels]),
+          addWeight(ctx, scope, "moving_variance", [channels]),
+        ],
+        [
+          floatAttr("epsilon", Number(params.epsilon) || 0.001),
+          floatAttr("momentum", Number(params.momentum) || 0.99),
+        ],
+        isSequence ? undefined : output
+      );
+      if (isSequence) {
+        addNode(
+          ctx,
+          scope,
+          "Transpose",
+          [normalized],
+          [intsAttr("perm", [0, 2, 1])],
+          output
+        );
+      }
+      return;
+    }
+
+    case "LayerNormalization": {
+      // Normalized axes must be the trailing ones, as in ONNX
+      const axes = (String(params.axis || "-1").match(/-?\d+/g) || ["-1"]).map(
+        Number
+      );
+      const rank = input.shape.length + 1;
+      const trailing = Math.max(
+        ...axes.map((axis) => rank - (axis < 0 ? rank + axis : axis))
+      );
+      if (trailing !== axes.length) {
+        ctx.warnings.push(
+          `${scope}: LayerNormalization axes ${axes.join(", ")} were exported as the last ${trailing}`
+        );
+      }
+      const normalized = addLayerNorm(
+        ctx,
+        scope,
+        toChannelsLast(ctx, scope, input),
+        input.shape.slice(-trailing),
+        Number(params.epsilon) || 0.001
+      );
+      fromChannelsLast(ctx, scope, normalized, outputShape, output);
+      return;
+    }
+
+    default:
+      ctx.warnings.push(
+        `${scope}: ${type} has no ONNX conversion and passes its input through`
+      );
+      addNode(ctx, scope, "Identity", [input.name], [], output);
+  }
+}
+
+/**
+ * Drops Identity nodes that only rename the output of another node, which
+ * converters emit to land their result on the layer's tensor name. Layer
+ * tensors in `layerTensors` are kept, since value_info refers to them.
+ */
+function removeRenamingIdentities(
+  nodes: OnnxNode[],
+  layerTensors: Set<string>
+): OnnxNode[] {
+  const producers = new Map<string, OnnxNode>();
+  const useCounts = new Map<string, number>();
+  nodes.forEach((node) => {
+    node.output.forEach((output) => producers.set(output, node));
+    node.input.forEach((input) =>
+      useCounts.set(input, (useCounts.get(input) ?? 0) + 1)
+    );
+  });
+
+  return nodes.filter((node) => {
+    if (node.opType !== "Identity") return true;
+    const [input] = node.input;
+    const producer = producers.get(input);
+    if (!producer || useCounts.get(input) !== 1 || layerTensors.has(input))
+      return true;
+
+    producer.output = producer.output.map((output) =>
+      output === input ? node.output[0] : output
+    );
+    producers.set(node.output[0], producer);
+    return false;
+  });
+}
+
+function toValueInfo(
+  name: string,
+  shape: number[],
+  elemType: number = DATA_TYPE.FLOAT
+): OnnxValueInfo {
+  return { name, elemType, shape: [BATCH_DIM, ...toOnnxDims(shape)] };
+}
+
+/**
+ * Builds an ONNX model for the network on the canvas. Composite blocks are
+ * expanded into their layers, since ONNX has no notion of them.
+ */
+export function exportOnnxModel(
+  nodes: Node[],
+  edges: Edge[],
+  compositeBlocks: CompositeBlock[] = [],
+  graphName = "blockdl_model"
+): OnnxExportResult {
+  const expanded = expandCompositeBlocks(nodes, edges, compositeBlocks);
+  const dag = parseGraphToDAG(expanded.nodes, expanded.edges);
+
+  if (!dag.isValid) {
+    return { success: false, error: dag.errors.join("; ") };
+  }
+  if (dag.orderedNodes.length === 0) {
+    return { success: false, error: "The network has no layers to export" };
+  }
+  const paramErrors = validateGraphParameters(dag.orderedNodes);
+  if (paramErrors.size > 0) {
+    const messages = dag.orderedNodes.flatMap((layer) =>
+      (paramErrors.get(layer.id) ?? []).map(
+        (error) => `${layer.varName}: ${error}`
+      )
+    );
+    return {
+      success: false,
+      error: `Invalid layer parameters: ${messages.join("; ")}`,
+    };
+  }
+
+  const { errors, nodeShapes } = computeShapes(dag);
+  if (errors.length > 0) {
+    return { success: false, error: `Shape error: ${errors[0].message}` };
+  }
+  const inputShapes = resolveInputShapes(dag, nodeShapes);
+
+  const ctx: GraphContext = {
+    nodes: [],
+    initializers: [],
+    // Layer outputs keep their variable names
+    usedNames: new Set(dag.orderedNodes.map((layer) => layer.varName)),
+    warnings: [],
+    weightsFile: `${graphName}.weights`,
+    weightBytes: 0,
+  };
+  const graphInputs: OnnxValueInfo[] = [];
+  const valueInfo: OnnxValueInfo[] = [];
+  const tensors = new Map<string, TensorRef>();
+
+  for (const layer of dag.orderedNodes) {
+    const { id, type, params, varName } = layer;
+    const shape = nodeShapes.get(id);
+    if (!shape) continue;
+
+    if (type === "Input") {
+      // Token ids feed an Embedding lookup, so they are integers
+      const elemType =
+        String(params.inputType) === "sequence_indices"
+          ? DATA_TYPE.INT64
+          : DATA_TYPE.FLOAT;
+      graphInputs.push(toValueInfo(varName, shape, elemType));
+      tensors.set(id, { name: varName, shape });
+      continue;
+    }
+
+    const inputs = (dag.inputMap.get(id) ?? [])
+      .map(({ sourceId }) => tensors.get(sourceId))
+      .filter((tensor): tensor is TensorRef => tensor !== undefined);
+    if (inputs.length === 0 || !inputShapes.has(id)) continue;
+
+    const layerDefinition = getLayerDefinition(type);
+    const multiplier = layerDefinition?.supportsMultiplier
+      ? Number(params.multiplier) || 1
+      : 1;
+
+    // Each repetition of a multiplied layer is fed by the previous one
+    let repeatInputs = inputs;
+    for (let repetition = 1; repetition <= multiplier; repetition++) {
+      const isLast = repetition === multiplier;
+      const repeatShape = isLast
+        ? shape
+        : layerDefinition?.computeShape(
+            repeatInputs.map((t) => t.shape),
+            params
+          );
+      if (!repeatShape) break;
+
+      const name = isLast
+        ? varName
+        : uniqueName(ctx, `${varName}_${repetition}`);
+      const scope = multiplier > 1 ? `${varName}_${repetition}` : varName;
+      convertLayer(ctx, layer, scope, repeatInputs, repeatShape, name);
+      valueInfo.push(toValueInfo(name, repeatShape));
+      repeatInputs = [{ name, shape: repeatShape }];
+    }
+
+    tensors.set(id, { name: varName, shape });
+  }
+
+  // Terminal nodes (no outgoing edges) are the model outputs
+  const outputNames = new Set(
+    dag.orderedNodes
+      .filter(
+        (layer) => layer.type !== "Input" && !dag.edgeMap.get(layer.id)?.length
+      )
+      .map((layer) => layer.varName)
+  );
+  const graphOutputs = valueInfo.filter((info) => outputNames.has(info.name));
+
+  return {
+    success: true,
+    warnings: ctx.warnings,
+    model: {
+      irVersion: IR_VERSION,
+      opsetVersion: OPSET_VERSION,
+      producerName: PRODUCER_NAME,
+      producerVersion: PRODUCER_VERSION,
+      docString: `Architecture exported from BlockDL. Weights are external data in ${ctx.weightsFile}, which is not included.`,
+      graph: {
+        name: graphName,
+        node: removeRenamingIdentities(
+          ctx.nodes,
+          new Set(valueInfo.map((info) => info.name))
+        ),
+        initializer: ctx.initializers,
+        input: graphInputs,
+        output: graphOutputs,
+        valueInfo: valueInfo.filter((info) => !outputNames.has(info.name)),
+      },
+    },
+  };
+}
+
+// ============================================================================
+// JSON REPRESENTATION
+// ============================================================================
+
+function valueInfoToJson(info: OnnxValueInfo) {
+  return {
+    name: info.name,
+    type: {
+      tensorType: {
+        elemType: info.elemType,
+        shape: {
+          dim: info.shape.map((dim) =>
+            typeof dim === "string"
+              ? { dimParam: dim }
+              : { dimValue: String(dim) }
+          ),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * The model in the protobuf JSON mapping used by onnx's json_format helpers;
+ * 64-bit integers are strings, as the mapping requires
+ */
+export function toOnnxJson(model: OnnxModel): Record<string, unknown> {
+  const { graph } = model;
+
+  return {
+    irVersion: String(model.irVersion),
+    producerName: model.producerName,
+    producerVersion: model.producerVersion,
+    docString: model.docString,
+    opsetImport: [{ domain: "", version: String(model.opsetVersion) }],
+    graph: {
+      name: graph.name,
+      node: graph.node.map((node) => ({
+        input: node.input,
+        output: node.output,
+        name: node.name,
+        opType: node.opType,
+        ...(node.attribute.length > 0 && {
+          attribute: node.attribute.map((attribute) => ({
+            name: attribute.name,
+            type: attribute.type,
+            ...(attribute.f !== undefined && { f: attribute.f }),
+            ...(attribute.i !== undefined && { i: String(attribute.i) }),
+            ...(attribute.s !== undefined && { s: btoa(attribute.s) }),
+            ...(attribute.ints && { ints: attribute.ints.map(String) }),
+            ...(attribute.strings && {
+              strings: attribute.strings.map((s) => btoa(s)),
+            }),
+          })),
+        }),
+      })),
+      initializer: graph.initializer.map((tensor) => ({
+        dims: tensor.dims.map(String),
+        dataType: tensor.dataType,
+        name: tensor.name,
+        ...(tensor.int64Data && { int64Data: tensor.int64Data.map(String) }),
+        ...(tensor.floatData && { floatData: tensor.floatData }),
+        ...(tensor.externalData && {
+          externalData: Object.entries(tensor.externalData).map(
+            ([key, value]) => ({
+              key,
+              value: String(value),
+            })
+          ),
+          dataLocation: "EXTERNAL",
+        }),
+      })),
+      input: graph.input.map(valueInfoToJson),
+      output: graph.output.map(valueInfoToJson),
+      valueInfo: graph.valueInfo.map(valueInfoToJson),
+    },
+  };
+}
+
+// ============================================================================
+// PROTOBUF ENCODING
+// ============================================================================
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED32 = 5;
+const WIRE_LENGTH_DELIMITED = 2;
+
+const textEncoder = new TextEncoder();
+
+function writeVarint(out: number[], value: number): void {
+  // Negative int64 values are written as 64-bit two's complement
+  let remaining = BigInt.asUintN(64, BigInt(value));
+  while (remaining > 0x7fn) {
+    out.push(Number(remaining & 0x7fn) | 0x80);
+    remaining >>= 7n;
+  }
+  out.push(Number(remaining));
+}
+
+function writeTag(out: number[], field: number, wireType: number): void {
+  writeVarint(out, (field << 3) | wireType);
+}
+
+function writeInt(out: number[], field: number, value: number): void {
+  writeTag(out, field, WIRE_VARINT);
+  writeVarint(out, value);
+}
+
+function writeFloat(out: number[], field: number, value: number): void {
+  writeTag(out, field, WIRE_FIXED32);
+  new Uint8Array(new Float32Array([value]).buffer).forEach((byte) =>
+    out.push(byte)
+  );
+}
+
+function writeBytes(
+  out: number[],
+  field: number,
+  bytes: ArrayLike<number>
+): void {
+  writeTag(out, field, WIRE_LENGTH_DELIMITED);
+  writeVarint(out, bytes.length);
+  for (let i = 0; i < bytes.length; i++) out.push(bytes[i]);
+}
+
+function writeString(out: number[], field: number, value: string): void {
+  writeBytes(out, field, textEncoder.encode(value));
+}
+
+function writeMessage(
+  out: number[],
+  field: number,
+  write: (message: number[]) => void
+): void {
+  const message: number[] = [];
+  write(message);
+  writeBytes(out, field, message);
+}
+
+// Field numbers below follow onnx.proto
+
+function writeValueInfo(out: number[], info: OnnxValueInfo): void {
+  writeString(out, 1, info.name);
+  writeMessage(out, 2, (type) =>
+    writeMessage(type, 1, (tensorType) => {
+      writeInt(tensorType, 1, info.elemType);
+      writeMessage(tensorType, 2, (shape) =>
+        info.shape.forEach((dim) =>
+          writeMessage(shape, 1, (dimension) =>
+            typeof dim === "string"
+              ? writeString(dimension, 2, dim)
+              : writeInt(dimension, 1, dim)
+          )
+        )
+      );
+    })
+  );
+}
+
+function writeAttribute(out: number[], attribute: OnnxAttribute): void {
+  writeString(out, 1, attribute.name);
+  if (attribute.f !== undefined) writeFloat(out, 2, attribute.f);
+  if (attribute.i !== undefined) writeInt(out, 3, attribute.i);
+  if (attribute.s !== undefined) writeString(out, 4, attribute.s);
+  attribute.ints?.forEach((value) => writeInt(out, 8, value));
+  attribute.strings?.forEach((value) => writeString(out, 9, value));
+  writeInt(out, 20, ATTRIBUTE_TYPE[attribute.type]);
+}
+
+function writeNode(out: number[], node: OnnxNode): void {
+  node.input.forEach((input) => writeString(out, 1, input));
+  node.output.forEach((output) => writeString(out, 2, output));
+  writeString(out, 3, node.name);
+  writeString(out, 4, node.opType);
+  node.attribute.forEach((attribute) =>
+    writeMessage(out, 5, (message) => writeAttribute(message, attribute))
+  );
+  if (node.docString) writeString(out, 6, node.docString);
+}
+
+function writeTensor(out: number[], tensor: OnnxTensor): void {
+  tensor.dims.forEach((dim) => writeInt(out, 1, dim));
+  writeInt(out, 2, tensor.dataType);
+  tensor.floatData?.forEach((value) => writeFloat(out, 4, value));
+  tensor.int64Data?.forEach((value) => writeInt(out, 7, value));
+  writeString(out, 8, tensor.name);
+  if (tensor.externalData) {
+    Object.entries(tensor.externalData).forEach(([key, value]) =>
+      writeMessage(out, 13, (entry) => {
+        writeString(entry, 1, key);
+        writeString(entry, 2, String(value));
+      })
+    );
+    writeInt(out, 14, EXTERNAL_DATA_LOCATION);
+  }
+}
+
+function writeGraph(out: number[], graph: OnnxGraph): void {
+  graph.node.forEach((node) =>
+    writeMessage(out, 1, (message) => writeNode(message, node))
+  );
+  writeString(out, 2, graph.name);
+  graph.initializer.forEach((tensor) =>
+    writeMessage(out, 5, (message) => writeTensor(message, tensor))
+  );
+  graph.input.forEach((info) =>
+    writeMessage(out, 11, (message) => writeValueInfo(message, info))
+  );
+  graph.output.forEach((info) =>
+    writeMessage(out, 12, (message) => writeValueInfo(message, info))
+  );
+  graph.valueInfo.forEach((info) =>
+    writeMessage(out, 13, (message) => writeValueInfo(message, info))
+  );
+}
+
+/**
+ * Serializes the model as an ONNX ModelProto (.onnx file contents)
+ */
+export function encodeOnnxModel(model: OnnxModel): Uint8Array {
+  const out: number[] = [];
+  writeInt(out, 1, model.irVersion);
+  writeString(out, 2, model.producerName);
+  writeString(out, 3, model.producerVersion);
+  writeString(out, 6, model.docString);
+  writeMessage(out, 7, (graph) => writeGraph(graph, model.graph));
+  writeMessage(out, 8, (opset) => {
+    writeString(opset, 1, "");
+    writeInt(opset, 2, model.opsetVersion);
+  });
+  return new Uint8Array(out);
+}
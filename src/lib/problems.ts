@@ -0,0 +1,103 @@
+/**
+ * Problems - Every diagnostic for the current graph in one list
+ *
+ * Collects graph structure errors, shape errors, parameter errors and lint
+ * warnings so they can be listed together and linked back to their nodes.
+ */
+
+import type { Node } from "@xyflow/react";
+import type { DAGResult } from "./dag-parser";
+import type { ShapeError } from "./shape-computation";
+import type { LintIssue } from "./architecture-lint";
+
+export type ProblemSeverity = "error" | "warning" | "info";
+export type ProblemSource = "graph" | "shape" | "parameter" | "lint";
+
+export interface Problem {
+  id: string;
+  severity: ProblemSeverity;
+  source: ProblemSource;
+  message: string;
+  // Graph-level problems are not tied to a single node
+  nodeId?: string;
+  nodeName?: string;
+}
+
+const SEVERITY_ORDER: Record<ProblemSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+/**
+ * Builds the problem list, errors first, in topological order when known
+ */
+export function collectProblems({
+  nodes,
+  dagResult,
+  shapeErrors = [],
+  paramErrors = new Map(),
+  lintIssues = [],
+}: {
+  nodes: Node[];
+  dagResult: DAGResult;
+  shapeErrors?: ShapeError[];
+  paramErrors?: Map<string, string[]>;
+  lintIssues?: LintIssue[];
+}): Problem[] {
+  // Variable names match the generated code; the layer type is the fallback
+  const nodeNames = new Map(
+    nodes.map((node) => [node.id, (node.data as { type: string }).type])
+  );
+  dagResult.orderedNodes.forEach((layer) =>
+    nodeNames.set(layer.id, layer.varName)
+  );
+  const nodeOrder = new Map(
+    (dagResult.isValid ? dagResult.orderedNodes : nodes).map((item, index) => [
+      item.id,
+      index,
+    ])
+  );
+
+  const forNode = (nodeId: string) =>
+    nodeNames.has(nodeId) ? { nodeId, nodeName: nodeNames.get(nodeId) } : {};
+
+  const problems: Problem[] = [
+    ...dagResult.errors.map((message, index) => ({
+      id: `graph-${index}`,
+      severity: "error" as const,
+      source: "graph" as const,
+      message,
+    })),
+    ...Array.from(paramErrors).flatMap(([nodeId, errors]) =>
+      errors.map((message, index) => ({
+        id: `parameter-${nodeId}-${index}`,
+        severity: "error" as const,
+        source: "parameter" as const,
+        message,
+        ...forNode(nodeId),
+      }))
+    ),
+    ...shapeErrors.map((error) => ({
+      id: `shape-${error.nodeId}`,
+      severity: "error" as const,
+      source: "shape" as const,
+      message: error.message,
+      ...forNode(error.nodeId),
+    })),
+    ...lintIssues.map((issue, index) => ({
+      id: `lint-${issue.ruleId}-${issue.nodeId}-${index}`,
+      severity: issue.severity,
+      source: "lint" as const,
+      message: issue.message,
+      ...forNode(issue.nodeId),
+    })),
+  ];
+
+  return problems.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      (a.nodeId ? nodeOrder.get(a.nodeId) ?? 0 : -1) -
+        (b.nodeId ? nodeOrder.get(b.nodeId) ?? 0 : -1)
+  );
+}
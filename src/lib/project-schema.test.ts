@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_PROJECT_VERSION,
+  createProjectFile,
+  parseProjectFile,
+} from "./project-schema";
+import { DEFAULT_TRAINING_CONFIG } from "./training-config";
+import { chain, layerNode } from "../test/graph";
+
+// Files go through JSON as they would when saved and loaded
+const roundTrip = (data: unknown) => JSON.parse(JSON.stringify(data));
+
+describe("parseProjectFile", () => {
+  it("loads a current project unchanged", () => {
+    const file = createProjectFile(
+      [layerNode("in", "Input"), layerNode("dense", "Dense")],
+      chain("in", "dense"),
+      DEFAULT_TRAINING_CONFIG,
+      ["placeholder-layer"]
+    );
+    const result = parseProjectFile(roundTrip(file));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migratedFrom).toBeNull();
+    expect(result.warnings).toEqual([]);
+    expect(result.project.nodes.map((node) => node.id)).toEqual([
+      "in",
+      "dense",
+    ]);
+    expect(result.project.disabledLintRules).toEqual(["placeholder-layer"]);
+  });
+
+  it("migrates 1.0.0 files and their legacy Input shape", () => {
+    const result = parseProjectFile({
+      nodes: [
+        {
+          id: "in",
+          type: "layerNode",
+          position: { x: 0, y: 0 },
+          data: { type: "Input", params: { shape: "(32, 32, 3)" } },
+        },
+      ],
+      edges: [],
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migratedFrom).toBe("1.0.0");
+    expect(result.project.metadata.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(result.project.trainingConfig).toEqual(DEFAULT_TRAINING_CONFIG);
+    expect(result.project.nodes[0].data.params).toMatchObject({
+      inputType: "image_color",
+      height: 32,
+      width: 32,
+    });
+  });
+
+  it("migrates 2.0.0 composite blocks to several inputs and outputs", () => {
+    const file = createProjectFile(
+      [layerNode("in", "Input"), layerNode("dense", "Dense")],
+      chain("in", "dense"),
+      DEFAULT_TRAINING_CONFIG
+    );
+    const result = parseProjectFile(
+      roundTrip({
+        ...file,
+        compositeBlocks: [
+          {
+            id: "block",
+            name: "Block",
+            nodes: [layerNode("inner", "Dense")],
+            edges: [],
+            inputNodeIds: ["inner"],
+            outputNodeId: "inner",
+          },
+        ],
+        metadata: { version: "2.0.0" },
+      })
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migratedFrom).toBe("2.0.0");
+    expect(result.project.compositeBlocks[0]).toMatchObject({
+      inputs: [[{ nodeId: "inner" }]],
+      outputNodeIds: ["inner"],
+    });
+  });
+
+  it("loads invalid parameter values and reports them as warnings", () => {
+    const file = createProjectFile(
+      [layerNode("in", "Input"), layerNode("dense", "Dense", { units: 0 })],
+      chain("in", "dense"),
+      DEFAULT_TRAINING_CONFIG
+    );
+    const result = parseProjectFile(roundTrip(file));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.warnings).not.toHaveLength(0);
+    expect(result.warnings[0]).toMatchObject({
+      path: "nodes[1].data.params",
+      nodeId: "dense",
+    });
+  });
+
+  it("rejects unknown layer types", () => {
+    const file = createProjectFile(
+      [layerNode("in", "Input"), layerNode("odd", "NotALayer")],
+      chain("in", "odd"),
+      DEFAULT_TRAINING_CONFIG
+    );
+    const result = parseProjectFile(roundTrip(file));
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.some((issue) => issue.nodeId === "odd")).toBe(true);
+  });
+
+  it("rejects files from a newer version", () => {
+    const result = parseProjectFile({
+      nodes: [],
+      edges: [],
+      metadata: { version: "99.0.0" },
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues[0].path).toBe("metadata.version");
+  });
+
+  it("rejects data that is not an object", () => {
+    expect(parseProjectFile([]).success).toBe(false);
+    expect(parseProjectFile(null).success).toBe(false);
+  });
+});
@@ -0,0 +1,528 @@
+/**
+ * Project File Schema
+ *
+ * Versioned format for exported projects. Files are first upgraded through
+ * the migration pipeline, then validated against the layer definitions so
+ * that only known layer types reach the editor. Parameter values that break
+ * a layer's rules are reported as warnings, since the editor flags them on
+ * the node rather than rejecting them.
+ */
+
+import { z } from "zod";
+import type { Node, Edge } from "@xyflow/react";
+import { layerDefinitions } from "./layer-definitions";
+import { getDefaultParams, validateParameterValues } from "./layers/parameters";
+import {
+  lossOptions,
+  metricOptions,
+  normalizeTrainingConfig,
+  optimizerOptions,
+  type TrainingConfig,
+} from "./training-config";
+import { parseShape } from "./utils";
+import {
+  COMPOSITE_LAYER_TYPE,
+  getCompositeBlockId,
+  isCompositeNode,
+  upgradeCompositeBlock,
+  validateBlockRepeats,
+  type CompositeBlock,
+  type LegacyCompositeBlock,
+} from "./composite-blocks";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CURRENT_PROJECT_VERSION = "2.1.0";
+
+export interface ProjectFile {
+  nodes: Node[];
+  edges: Edge[];
+  trainingConfig: TrainingConfig;
+  disabledLintRules: string[];
+  compositeBlocks: CompositeBlock[];
+  metadata: { version: string; exportedAt?: string };
+}
+
+export interface ProjectImportIssue {
+  // Location in the file, e.g. "nodes[2].data.params"
+  path: string;
+  message: string;
+  nodeId?: string;
+}
+
+export type ProjectParseResult =
+  | {
+      success: true;
+      project: ProjectFile;
+      migratedFrom: string | null;
+      // Invalid parameter values, which load and are flagged on their nodes
+      warnings: ProjectImportIssue[];
+    }
+  | { success: false; issues: ProjectImportIssue[] };
+
+type RawProject = Record<string, unknown> & {
+  nodes?: unknown;
+  edges?: unknown;
+  metadata?: { version?: unknown } & Record<string, unknown>;
+};
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (project: RawProject) => RawProject;
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const paramValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Composite block instances are only allowed on the canvas, not inside blocks
+const createNodeSchema = (allowComposite: boolean) =>
+  z
+    .object({
+      id: z.string().min(1, "Node id is required"),
+      type: z.string().optional(),
+      position: z.object({ x: z.number(), y: z.number() }),
+      data: z
+        .object({
+          type: z.string(),
+          params: z.record(paramValueSchema),
+        })
+        .passthrough(),
+    })
+    .passthrough()
+    .superRefine((node, ctx) => {
+      const layerType = node.data.type;
+
+      if (allowComposite && layerType === COMPOSITE_LAYER_TYPE) {
+        if (typeof node.data.params.blockId !== "string") {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["data", "params", "blockId"],
+            message: "Composite block instance is missing its block id",
+          });
+        }
+        const repeatsError = validateBlockRepeats(node.data.params.repeats);
+        if (repeatsError) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["data", "params", "repeats"],
+            message: repeatsError,
+          });
+        }
+        return;
+      }
+
+      // Parameter values are checked after parsing and only reported, as
+      // the editor accepts and flags them too
+      if (!layerDefinitions[layerType]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["data", "type"],
+          message: `Unknown layer type "${layerType}"`,
+        });
+      }
+    });
+
+const edgeSchema = z
+  .object({
+    id: z.string().min(1, "Edge id is required"),
+    source: z.string(),
+    target: z.string(),
+  })
+  .passthrough();
+
+const nodeSchema = createNodeSchema(true);
+
+const compositeBlockSchema = z
+  .object({
+    id: z.string().min(1, "Composite block id is required"),
+    name: z.string().min(1, "Composite block name is required"),
+    nodes: z.array(createNodeSchema(false)).min(1),
+    edges: z.array(edgeSchema),
+    inputs: z
+      .array(
+        z
+          .array(
+            z.object({
+              nodeId: z.string(),
+              targetHandle: z.string().optional(),
+            })
+          )
+          .min(1)
+      )
+      .min(1),
+    outputNodeIds: z.array(z.string()).min(1),
+  })
+  .passthrough()
+  .superRefine((block, ctx) => {
+    const nodeIds = new Set(block.nodes.map((node) => node.id));
+    const references: Array<[(string | number)[], string]> = [
+      ...block.edges.flatMap((edge, index) =>
+        (["source", "target"] as const).map(
+          (end): [(string | number)[], string] => [
+            ["edges", index, end],
+            edge[end],
+          ]
+        )
+      ),
+      ...block.inputs.flatMap((targets, port) =>
+        targets.map(({ nodeId }, index): [(string | number)[], string] => [
+          ["inputs", port, index, "nodeId"],
+          nodeId,
+        ])
+      ),
+      ...block.outputNodeIds.map((id, index): [(string | number)[], string] => [
+        ["outputNodeIds", index],
+        id,
+      ]),
+    ];
+
+    references.forEach(([path, id]) => {
+      if (!nodeIds.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `"${id}" does not match any layer in block "${block.name}"`,
+        });
+      }
+    });
+  });
+
+const oneOf = <T extends string>(options: { value: T }[]) =>
+  z.custom<T>(
+    (value) => options.some((option) => option.value === value),
+    { message: `Must be one of: ${options.map((o) => o.value).join(", ")}` }
+  );
+
+const trainingConfigSchema = z.object({
+  optimizer: oneOf(optimizerOptions),
+  learningRate: z.number().positive(),
+  momentum: z.number().min(0),
+  weightDecay: z.number().min(0),
+  loss: z.union([z.literal("auto"), oneOf(lossOptions)]),
+  metrics: z.array(oneOf(metricOptions)),
+  epochs: z.number().int().positive(),
+  batchSize: z.number().int().positive(),
+});
+
+const projectSchema = z
+  .object({
+    nodes: z.array(nodeSchema),
+    edges: z.array(edgeSchema),
+    trainingConfig: trainingConfigSchema,
+    // Optional so files exported before lint rules existed still load
+    disabledLintRules: z.array(z.string()).default([]),
+    compositeBlocks: z.array(compositeBlockSchema).default([]),
+    metadata: z
+      .object({
+        version: z.literal(CURRENT_PROJECT_VERSION),
+        exportedAt: z.string().optional(),
+      })
+      .passthrough(),
+  })
+  .superRefine((project, ctx) => {
+    const nodeIds = new Set(project.nodes.map((node) => node.id));
+
+    project.edges.forEach((edge, index) => {
+      (["source", "target"] as const).forEach((end) => {
+        if (!nodeIds.has(edge[end])) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["edges", index, end],
+            message: `Edge ${end} "${edge[end]}" does not match any node`,
+          });
+        }
+      });
+    });
+
+    const blockIds = new Set(project.compositeBlocks.map((block) => block.id));
+    project.nodes.forEach((node, index) => {
+      if (isCompositeNode(node) && !blockIds.has(getCompositeBlockId(node))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["nodes", index, "data", "params", "blockId"],
+          message: `Composite block "${getCompositeBlockId(node)}" is not defined in this project`,
+        });
+      }
+    });
+  });
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Converts the legacy Input `shape` string into the typed Input parameters
+ */
+function migrateLegacyInputShape(
+  params: Record<string, unknown>
+): Record<string, unknown> {
+  const { shape, ...rest } = params;
+  if (typeof shape !== "string" || rest.inputType) return rest;
+
+  const dims = parseShape(shape);
+  if (!dims) return rest;
+
+  switch (dims.length) {
+    case 1:
+      return { ...rest, inputType: "flat_data", flatSize: dims[0] };
+    case 2:
+      return {
+        ...rest,
+        inputType: "sequence",
+        seqLength: dims[0],
+        features: dims[1],
+      };
+    case 3: {
+      const [height, width, channels] = dims;
+      const inputType =
+        channels === 1
+          ? "image_grayscale"
+          : channels === 3
+            ? "image_color"
+            : "image_custom";
+      return { ...rest, inputType, height, width, channels };
+    }
+    default:
+      return rest;
+  }
+}
+
+/**
+ * Ordered upgrade steps; each takes a file at `from` and returns it at `to`
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // 1.0.0 files carry no training config and may use the legacy Input shape
+    from: "1.0.0",
+    to: "2.0.0",
+    migrate: (project) => ({
+      ...project,
+      trainingConfig: normalizeTrainingConfig(
+        project.trainingConfig as Partial<TrainingConfig> | undefined
+      ),
+      nodes: Array.isArray(project.nodes)
+        ? project.nodes.map((node) => {
+            if (node?.data?.type !== "Input" || !node.data.params) return node;
+            return {
+              ...node,
+              data: {
+                ...node.data,
+                params: migrateLegacyInputShape(node.data.params),
+              },
+            };
+          })
+        : project.nodes,
+    }),
+  },
+  {
+    // 2.0.0 composite blocks have a single input and output
+    from: "2.0.0",
+    to: "2.1.0",
+    migrate: (project) =>
+      Array.isArray(project.compositeBlocks)
+        ? {
+            ...project,
+            compositeBlocks: project.compositeBlocks.map((block) =>
+              Array.isArray(block?.inputNodeIds)
+                ? upgradeCompositeBlock(block as LegacyCompositeBlock)
+                : block
+            ),
+          }
+        : project,
+  },
+];
+
+/**
+ * Fills parameters added to a layer after the file was written
+ */
+function applyDefaultParams(project: RawProject): RawProject {
+  if (!Array.isArray(project.nodes)) return project;
+
+  const withDefaults = (nodes: unknown) =>
+    !Array.isArray(nodes)
+      ? nodes
+      : nodes.map((node) => {
+          const layerType = node?.data?.type;
+          if (typeof layerType !== "string" || !layerDefinitions[layerType]) {
+            return node;
+          }
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              params: { ...getDefaultParams(layerType), ...(node.data.params ?? {}) },
+            },
+          };
+        });
+
+  return {
+    ...project,
+    nodes: withDefaults(project.nodes),
+    // Layers inside composite blocks are filled the same way
+    ...(Array.isArray(project.compositeBlocks)
+      ? {
+          compositeBlocks: project.compositeBlocks.map((block) =>
+            block ? { ...block, nodes: withDefaults(block.nodes) } : block
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Runs every migration between the file's version and the current one
+ */
+function migrateProject(project: RawProject): {
+  project: RawProject;
+  migratedFrom: string | null;
+  issue?: ProjectImportIssue;
+} {
+  // Files written before versioning have no metadata at all
+  const originalVersion =
+    typeof project.metadata?.version === "string"
+      ? project.metadata.version
+      : "1.0.0";
+
+  let version = originalVersion;
+  let migrated = project;
+
+  while (version !== CURRENT_PROJECT_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      return {
+        project,
+        migratedFrom: null,
+        issue: {
+          path: "metadata.version",
+          message: `Unsupported project version "${originalVersion}" (this app reads up to ${CURRENT_PROJECT_VERSION})`,
+        },
+      };
+    }
+    migrated = migration.migrate(migrated);
+    version = migration.to;
+  }
+
+  return {
+    project: {
+      ...applyDefaultParams(migrated),
+      metadata: { ...(migrated.metadata ?? {}), version },
+    },
+    migratedFrom: originalVersion === version ? null : originalVersion,
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Formats a zod issue path like ["nodes", 2, "data"] as "nodes[2].data"
+ */
+function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === "number") return `${formatted}[${segment}]`;
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, "");
+}
+
+/**
+ * Reports layers whose parameters break their rules, on the canvas and
+ * inside composite blocks
+ */
+function collectParameterWarnings(project: ProjectFile): ProjectImportIssue[] {
+  const checkNodes = (nodes: Node[], path: string) =>
+    nodes.flatMap((node, index) => {
+      const layerType = String(node.data.type);
+      if (!layerDefinitions[layerType]) return [];
+      const { errors } = validateParameterValues(
+        layerType,
+        node.data.params as Record<string, unknown>
+      );
+      return errors.map((message) => ({
+        path: `${path}[${index}].data.params`,
+        message: `${layerType}: ${message}`,
+        nodeId: node.id,
+      }));
+    });
+
+  return [
+    ...checkNodes(project.nodes, "nodes"),
+    ...project.compositeBlocks.flatMap((block, index) =>
+      checkNodes(block.nodes, `compositeBlocks[${index}].nodes`)
+    ),
+  ];
+}
+
+/**
+ * Upgrades and validates parsed project JSON
+ */
+export function parseProjectFile(data: unknown): ProjectParseResult {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return {
+      success: false,
+      issues: [{ path: "", message: "Project file must contain a JSON object" }],
+    };
+  }
+
+  const { project, migratedFrom, issue } = migrateProject(data as RawProject);
+  if (issue) {
+    return { success: false, issues: [issue] };
+  }
+
+  const result = projectSchema.safeParse(project);
+  if (!result.success) {
+    const nodes = Array.isArray(project.nodes) ? project.nodes : [];
+    return {
+      success: false,
+      issues: result.error.issues.map((zodIssue) => {
+        const [collection, index] = zodIssue.path;
+        const nodeId =
+          collection === "nodes" && typeof index === "number"
+            ? nodes[index]?.id
+            : undefined;
+        return {
+          path: formatIssuePath(zodIssue.path),
+          message: zodIssue.message,
+          ...(typeof nodeId === "string" ? { nodeId } : {}),
+        };
+      }),
+    };
+  }
+
+  const parsed: ProjectFile = result.data;
+  return {
+    success: true,
+    project: parsed,
+    migratedFrom,
+    warnings: collectParameterWarnings(parsed),
+  };
+}
+
+/**
+ * Builds the file contents for exporting the current project
+ */
+export function createProjectFile(
+  nodes: Node[],
+  edges: Edge[],
+  trainingConfig: TrainingConfig,
+  disabledLintRules: string[] = [],
+  compositeBlocks: CompositeBlock[] = []
+): ProjectFile {
+  return {
+    nodes,
+    edges,
+    trainingConfig,
+    disabledLintRules,
+    compositeBlocks,
+    metadata: {
+      exportedAt: new Date().toISOString(),
+      version: CURRENT_PROJECT_VERSION,
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Project Storage - IndexedDB persistence for the project workspace
+ *
+ * Each project keeps its graph, undo history and training config so that
+ * reopening it restores the editor exactly as it was left.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import type { TrainingConfig } from "./training-config";
+import type { CompositeBlock } from "./composite-blocks";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HistoryEntry {
+  nodes: Node[];
+  edges: Edge[];
+  // Missing in entries saved before blocks were part of the undo history
+  compositeBlocks?: CompositeBlock[];
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  nodes: Node[];
+  edges: Edge[];
+  history: HistoryEntry[];
+  historyIndex: number;
+  trainingConfig: TrainingConfig;
+  // Missing in projects saved before lint rules existed
+  disabledLintRules?: string[];
+  // Missing in projects saved before composite blocks existed
+  compositeBlocks?: CompositeBlock[];
+}
+
+export type ProjectMeta = Pick<
+  StoredProject,
+  "id" | "name" | "createdAt" | "updatedAt"
+> & { layerCount: number };
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+const DB_CONFIG = {
+  NAME: "blockdl",
+  VERSION: 1,
+  PROJECT_STORE: "projects",
+} as const;
+
+const ACTIVE_PROJECT_KEY = "blockdl-active-project";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the workspace database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_CONFIG.NAME, DB_CONFIG.VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DB_CONFIG.PROJECT_STORE)) {
+          db.createObjectStore(DB_CONFIG.PROJECT_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the project store
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DB_CONFIG.PROJECT_STORE, mode);
+    const request = createRequest(
+      transaction.objectStore(DB_CONFIG.PROJECT_STORE)
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================================================
+// PROJECT OPERATIONS
+// ============================================================================
+
+/**
+ * Lists all projects, most recently modified first
+ */
+export async function listProjects(): Promise<ProjectMeta[]> {
+  const projects = await runRequest<StoredProject[]>("readonly", (store) =>
+    store.getAll()
+  );
+
+  return projects
+    .map(({ id, name, createdAt, updatedAt, nodes }) => ({
+      id,
+      name,
+      createdAt,
+      updatedAt,
+      layerCount: nodes.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<StoredProject | null> {
+  const project = await runRequest<StoredProject | undefined>(
+    "readonly",
+    (store) => store.get(id)
+  );
+  return project ?? null;
+}
+
+export async function saveProject(project: StoredProject): Promise<void> {
+  await runRequest("readwrite", (store) => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(id));
+}
+
+export function createProjectId(): string {
+  return `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * The project to reopen on the next visit
+ */
+export function getActiveProjectId(): string | null {
+  return localStorage.getItem(ACTIVE_PROJECT_KEY);
+}
+
+export function setActiveProjectId(id: string): void {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { computeShapes } from "./shape-computation";
+import { parseGraphToDAG } from "./dag-parser";
+import { chain, layerNode } from "../test/graph";
+
+const shapesOf = (inputParams: Record<string, unknown>) => {
+  const dag = parseGraphToDAG(
+    [
+      layerNode("in", "Input", inputParams),
+      layerNode("flatten", "Flatten"),
+      layerNode("out", "Output"),
+    ],
+    chain("in", "flatten", "out")
+  );
+  return computeShapes(dag).nodeShapes;
+};
+
+describe("computeShapes", () => {
+  it("derives the Input shape from its input type", () => {
+    const shapes = shapesOf({
+      inputType: "image_color",
+      height: 32,
+      width: 16,
+    });
+    expect(shapes.get("in")).toEqual([32, 16, 3]);
+    expect(shapes.get("flatten")).toEqual([32 * 16 * 3]);
+  });
+
+  it("falls back to the legacy shape string of unmigrated Input nodes", () => {
+    const shapes = shapesOf({ inputType: undefined, shape: "(10, 4)" });
+    expect(shapes.get("in")).toEqual([10, 4]);
+    expect(shapes.get("flatten")).toEqual([40]);
+  });
+});
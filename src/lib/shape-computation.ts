@@ -2,7 +2,7 @@
  * Shape computation utilities for neural network layers
  */
 
-import type { LayerObject } from "./dag-parser";
+import { getOutputKey, type LayerInput, type LayerObject } from "./dag-parser";
 import { getLayerDefinition } from "./layer-definitions";
 import { parseShape } from "./utils";
 
@@ -11,12 +11,17 @@ export interface ShapeError {
   message: string;
 }
 
+/**
+ * Fallback shape used when an Input node cannot compute its own shape
+ */
+export const DEFAULT_INPUT_SHAPE = "(28, 28, 1)";
+
 /**
  * Computes output shapes for each node in a DAG
  */
 export function computeShapes(
-  dag: { orderedNodes: LayerObject[]; edgeMap: Map<string, string[]> },
-  inputShape: string
+  dag: { orderedNodes: LayerObject[]; inputMap: Map<string, LayerInput[]> },
+  inputShape: string = DEFAULT_INPUT_SHAPE
 ): { errors: ShapeError[]; nodeShapes: Map<string, number[]> } {
   const errors: ShapeError[] = [];
   const nodeShapes = new Map<string, number[]>();
@@ -39,7 +44,7 @@ export function computeShapes(
   for (const node of dag.orderedNodes) {
     const outputShape = computeNodeShape(
       node,
-      dag.edgeMap,
+      dag.inputMap,
       nodeShapes,
       parsedInputShape
     );
@@ -57,12 +62,34 @@ export function computeShapes(
   return { errors, nodeShapes };
 }
 
+/**
+ * Resolves the input shapes of every node whose inputs all have a computed shape
+ */
+export function resolveInputShapes(
+  dag: { orderedNodes: LayerObject[]; inputMap: Map<string, LayerInput[]> },
+  nodeShapes: Map<string, number[]>
+): Map<string, number[][]> {
+  const inputShapes = new Map<string, number[][]>();
+
+  for (const node of dag.orderedNodes) {
+    const inputNodeIds = getInputNodeIds(node.id, dag.inputMap);
+    if (inputNodeIds.length === 0) continue;
+
+    const shapes = getInputShapes(inputNodeIds, nodeShapes);
+    if (shapes.length === inputNodeIds.length) {
+      inputShapes.set(node.id, shapes);
+    }
+  }
+
+  return inputShapes;
+}
+
 /**
  * Computes the output shape for a single node
  */
 function computeNodeShape(
   node: LayerObject,
-  edgeMap: Map<string, string[]>,
+  inputMap: Map<string, LayerInput[]>,
   nodeShapes: Map<string, number[]>,
   defaultInputShape: number[]
 ): { shape?: number[]; error?: string } {
@@ -71,7 +98,7 @@ function computeNodeShape(
       return computeInputNodeShape(node, defaultInputShape);
     }
 
-    return computeLayerNodeShape(node, edgeMap, nodeShapes);
+    return computeLayerNodeShape(node, inputMap, nodeShapes);
   } catch (error) {
     return {
       error: `Error computing shape: ${
@@ -93,6 +120,14 @@ function computeInputNodeShape(
     return { error: "Input layer definition not found" };
   }
 
+  // Legacy Input nodes store a shape string instead of an input type; state
+  // that skipped the project migration (templates, history) still has it
+  const { shape: legacyShape, inputType } = node.params;
+  if (typeof legacyShape === "string" && !inputType) {
+    const parsed = parseShape(legacyShape);
+    if (parsed) return { shape: parsed };
+  }
+
   const shape = layerDef.computeShape([], node.params) || defaultInputShape;
   return { shape };
 }
@@ -102,11 +137,11 @@ function computeInputNodeShape(
  */
 function computeLayerNodeShape(
   node: LayerObject,
-  edgeMap: Map<string, string[]>,
+  inputMap: Map<string, LayerInput[]>,
   nodeShapes: Map<string, number[]>
 ): { shape?: number[]; error?: string } {
   // Get input connections
-  const inputNodeIds = getInputNodeIds(node.id, edgeMap);
+  const inputNodeIds = getInputNodeIds(node.id, inputMap);
   if (inputNodeIds.length === 0) {
     return { error: `${node.type} has no input connections` };
   }
@@ -141,15 +176,16 @@ function computeLayerNodeShape(
 }
 
 /**
- * Gets input node IDs for a given node
+ * Gets the keys of a node's input tensors (see getOutputKey), in the order
+ * the layer takes them
  */
 function getInputNodeIds(
   nodeId: string,
-  edgeMap: Map<string, string[]>
+  inputMap: Map<string, LayerInput[]>
 ): string[] {
-  return Array.from(edgeMap.entries())
-    .filter(([, targets]) => targets.includes(nodeId))
-    .map(([sourceId]) => sourceId);
+  return (inputMap.get(nodeId) ?? []).map((input) =>
+    getOutputKey(input.sourceId, input.sourceHandle)
+  );
 }
 
 /**
@@ -0,0 +1,213 @@
+/**
+ * Share Links
+ *
+ * Encodes a whole project into the URL fragment so architectures can be
+ * shared without a backend. The payload is a compact JSON form of the graph,
+ * deflated with the browser's CompressionStream and base64url encoded.
+ * Decoded links go through the same schema validation as imported files.
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { getDefaultParams, type LayerParams } from "./layers/parameters";
+import {
+  CURRENT_PROJECT_VERSION,
+  parseProjectFile,
+  type ProjectParseResult,
+} from "./project-schema";
+import type { TrainingConfig } from "./training-config";
+import {
+  COMPOSITE_LAYER_TYPE,
+  COMPOSITE_NODE_TYPE,
+  type CompositeBlock,
+} from "./composite-blocks";
+
+const SHARE_HASH_PREFIX = "#share=";
+const COMPRESSION_FORMAT = "deflate-raw";
+
+/**
+ * Compact graph representation: nodes are [type, x, y, changedParams] and
+ * edges are [sourceIndex, targetIndex], followed by the named input they
+ * arrive at when there is one, and then by the output of a composite block
+ * they leave from (after an empty input name if needed)
+ */
+interface SharePayload {
+  v: string;
+  n: Array<[string, number, number, LayerParams]>;
+  e: Array<
+    | [number, number]
+    | [number, number, string]
+    | [number, number, string, string]
+  >;
+  t: TrainingConfig;
+  // Disabled lint rules, omitted when none are disabled
+  d?: string[];
+  // Composite block definitions, omitted when the project has none
+  b?: CompositeBlock[];
+}
+
+// ============================================================================
+// ENCODING HELPERS
+// ============================================================================
+
+async function transformBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const transformed = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(transformed).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Keeps only parameters that differ from the layer defaults
+ */
+function getChangedParams(type: string, params: LayerParams): LayerParams {
+  const defaults = getDefaultParams(type);
+  return Object.fromEntries(
+    Object.entries(params).filter(([key, value]) => defaults[key] !== value)
+  );
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Builds a URL for the current page that carries the whole project
+ */
+export async function createShareLink(
+  nodes: Node[],
+  edges: Edge[],
+  trainingConfig: TrainingConfig,
+  disabledLintRules: string[] = [],
+  compositeBlocks: CompositeBlock[] = []
+): Promise<string> {
+  const nodeIndex = new Map(nodes.map((node, index) => [node.id, index]));
+
+  const payload: SharePayload = {
+    v: CURRENT_PROJECT_VERSION,
+    n: nodes.map((node) => {
+      const { type, params = {} } = node.data as {
+        type: string;
+        params?: LayerParams;
+      };
+      return [
+        type,
+        Math.round(node.position.x),
+        Math.round(node.position.y),
+        getChangedParams(type, params),
+      ];
+    }),
+    e: edges
+      .filter((edge) => nodeIndex.has(edge.source) && nodeIndex.has(edge.target))
+      .map((edge) => {
+        const ends: [number, number] = [
+          nodeIndex.get(edge.source)!,
+          nodeIndex.get(edge.target)!,
+        ];
+        if (edge.sourceHandle) {
+          return [...ends, edge.targetHandle ?? "", edge.sourceHandle];
+        }
+        return edge.targetHandle ? [...ends, edge.targetHandle] : ends;
+      }),
+    t: trainingConfig,
+    ...(disabledLintRules.length > 0 ? { d: disabledLintRules } : {}),
+    ...(compositeBlocks.length > 0 ? { b: compositeBlocks } : {}),
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await transformBytes(
+    json,
+    new CompressionStream(COMPRESSION_FORMAT)
+  );
+
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_HASH_PREFIX.slice(1)}${toBase64Url(compressed)}`;
+  return url.toString();
+}
+
+export function hasShareLink(hash: string = window.location.hash): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX);
+}
+
+/**
+ * Decodes and validates the project carried by a share link fragment
+ */
+export async function parseShareLink(
+  hash: string = window.location.hash
+): Promise<ProjectParseResult> {
+  let payload: SharePayload;
+
+  try {
+    const compressed = fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length));
+    const json = await transformBytes(
+      compressed,
+      new DecompressionStream(COMPRESSION_FORMAT)
+    );
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    return {
+      success: false,
+      issues: [{ path: "", message: "The share link is incomplete or corrupted" }],
+    };
+  }
+
+  if (!Array.isArray(payload.n) || !Array.isArray(payload.e)) {
+    return {
+      success: false,
+      issues: [{ path: "", message: "The share link does not contain a graph" }],
+    };
+  }
+
+  // Fresh ids keep shared graphs from colliding with existing nodes
+  const timestamp = Date.now();
+  const nodeIds = payload.n.map(
+    ([type], index) => `${String(type).toLowerCase()}-${timestamp}-${index}`
+  );
+
+  return parseProjectFile({
+    nodes: payload.n.map(([type, x, y, params], index) => ({
+      id: nodeIds[index],
+      type: type === COMPOSITE_LAYER_TYPE ? COMPOSITE_NODE_TYPE : "layerNode",
+      position: { x, y },
+      data: { type, params: { ...getDefaultParams(type), ...params } },
+    })),
+    edges: payload.e.map(([source, target, targetHandle, sourceHandle]) => ({
+      id: [nodeIds[source], sourceHandle, nodeIds[target], targetHandle]
+        .filter(Boolean)
+        .join("-"),
+      source: nodeIds[source],
+      target: nodeIds[target],
+      ...(sourceHandle ? { sourceHandle } : {}),
+      ...(targetHandle ? { targetHandle } : {}),
+      type: "smoothstep",
+      style: { strokeWidth: 2, stroke: "#6b7280" },
+    })),
+    trainingConfig: payload.t,
+    disabledLintRules: payload.d,
+    compositeBlocks: payload.b,
+    metadata: { version: payload.v },
+  });
+}
+
+/**
+ * Removes the share fragment so reloads don't import the graph again
+ */
+export function clearShareLink(): void {
+  const url = new URL(window.location.href);
+  url.hash = "";
+  window.history.replaceState(null, "", url.toString());
+}
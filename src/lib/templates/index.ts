@@ -1786,6 +1786,259 @@ export const templates: NetworkTemplate[] = [
       createdAt: "2024-01-01T00:00:00Z",
     },
   },
+
+  // 🟧 Transformer Text Classifier (Encoder Blocks)
+  {
+    id: "transformer-text-classifier",
+    name: "Transformer Classifier",
+    description:
+      "Token embeddings followed by stacked Transformer encoder blocks for sequence classification",
+    icon: "🤖",
+    tags: ["transformer", "attention", "nlp", "encoder"],
+    category: "transformer",
+    network: {
+      nodes: [
+        {
+          id: "input-1750000000001",
+          type: "layerNode",
+          position: {
+            x: 40,
+            y: 30,
+          },
+          data: {
+            type: "Input",
+            params: {
+              inputType: "sequence_indices",
+              height: 28,
+              width: 28,
+              channels: 1,
+              flatSize: 784,
+              seqLength: 100,
+              features: 128,
+              seqIndicesLength: 128,
+            },
+            hasShapeError: false,
+          },
+          measured: {
+            width: 192,
+            height: 79,
+          },
+          selected: false,
+          dragging: false,
+        },
+        {
+          id: "embedding-1750000000002",
+          type: "layerNode",
+          position: {
+            x: 56,
+            y: 180,
+          },
+          data: {
+            type: "Embedding",
+            params: {
+              input_dim: 10000,
+              output_dim: 64,
+              input_length: 128,
+              mask_zero: "false",
+            },
+            hasShapeError: false,
+          },
+          measured: {
+            width: 160,
+            height: 79,
+          },
+          selected: false,
+          dragging: false,
+        },
+        {
+          id: "transformerencoderblock-1750000000003",
+          type: "layerNode",
+          position: {
+            x: 20,
+            y: 330,
+          },
+          data: {
+            type: "TransformerEncoderBlock",
+            params: {
+              num_heads: 4,
+              key_dim: 16,
+              ff_dim: 128,
+              dropout: 0.1,
+              ff_activation: "gelu",
+              multiplier: 2,
+            },
+            hasShapeError: false,
+          },
+          measured: {
+            width: 232,
+            height: 79,
+          },
+          selected: false,
+          dragging: false,
+        },
+        {
+          id: "flatten-1750000000004",
+          type: "layerNode",
+          position: {
+            x: 76,
+            y: 480,
+          },
+          data: {
+            type: "Flatten",
+            params: {},
+            hasShapeError: false,
+          },
+          measured: {
+            width: 160,
+            height: 51,
+          },
+          selected: false,
+          dragging: false,
+        },
+        {
+          id: "dense-1750000000005",
+          type: "layerNode",
+          position: {
+            x: 56,
+            y: 600,
+          },
+          data: {
+            type: "Dense",
+            params: {
+              units: 64,
+              activation: "relu",
+              multiplier: 1,
+            },
+            hasShapeError: false,
+          },
+          measured: {
+            width: 160,
+            height: 79,
+          },
+          selected: false,
+          dragging: false,
+        },
+        {
+          id: "dropout-1750000000006",
+          type: "layerNode",
+          position: {
+            x: 56,
+            y: 750,
+          },
+          data: {
+            type: "Dropout",
+            params: {
+              rate: 0.3,
+            },
+            hasShapeError: false,
+          },
+          measured: {
+            width: 160,
+            height: 79,
+          },
+          selected: false,
+          dragging: false,
+        },
+        {
+          id: "output-1750000000007",
+          type: "layerNode",
+          position: {
+            x: 56,
+            y: 900,
+          },
+          data: {
+            type: "Output",
+            params: {
+              outputType: "binary",
+              numClasses: 1,
+              units: 1,
+            },
+            hasShapeError: false,
+          },
+          measured: {
+            width: 160,
+            height: 79,
+          },
+          selected: false,
+          dragging: false,
+        },
+      ],
+      edges: [
+        {
+          type: "smoothstep",
+          style: {
+            strokeWidth: 2,
+            stroke: "#6b7280",
+          },
+          source: "input-1750000000001",
+          target: "embedding-1750000000002",
+          id: "xy-edge__input-1750000000001-embedding-1750000000002",
+        },
+        {
+          type: "smoothstep",
+          style: {
+            strokeWidth: 2,
+            stroke: "#6b7280",
+          },
+          source: "embedding-1750000000002",
+          target: "transformerencoderblock-1750000000003",
+          id: "xy-edge__embedding-1750000000002-transformerencoderblock-1750000000003",
+        },
+        {
+          type: "smoothstep",
+          style: {
+            strokeWidth: 2,
+            stroke: "#6b7280",
+          },
+          source: "transformerencoderblock-1750000000003",
+          target: "flatten-1750000000004",
+          id: "xy-edge__transformerencoderblock-1750000000003-flatten-1750000000004",
+        },
+        {
+          type: "smoothstep",
+          style: {
+            strokeWidth: 2,
+            stroke: "#6b7280",
+          },
+          source: "flatten-1750000000004",
+          target: "dense-1750000000005",
+          id: "xy-edge__flatten-1750000000004-dense-1750000000005",
+        },
+        {
+          type: "smoothstep",
+          style: {
+            strokeWidth: 2,
+            stroke: "#6b7280",
+          },
+          source: "dense-1750000000005",
+          target: "dropout-1750000000006",
+          id: "xy-edge__dense-1750000000005-dropout-1750000000006",
+        },
+        {
+          type: "smoothstep",
+          style: {
+            strokeWidth: 2,
+            stroke: "#6b7280",
+          },
+          source: "dropout-1750000000006",
+          target: "output-1750000000007",
+          id: "xy-edge__dropout-1750000000006-output-1750000000007",
+        },
+      ],
+    },
+    metadata: {
+      inputShape: [128],
+      outputClasses: 1,
+      useCase:
+        "Sentiment analysis and text classification with self-attention instead of recurrence",
+      performance: {
+        trainTime: "10-20 minutes",
+        parameters: "~1.2M",
+      },
+      version: "1.0.0",
+      createdAt: "2024-01-01T00:00:00Z",
+    },
+  },
 ];
 
 // Utility functions
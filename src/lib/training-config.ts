@@ -0,0 +1,687 @@
+/**
+ * Training Configuration
+ *
+ * Project-level settings for how a network is compiled and trained:
+ * optimizer, loss, metrics, epochs and batch size. Stored alongside the graph
+ * and shared by every code generator.
+ */
+
+import type { LayerObject } from "./dag-parser";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OptimizerType = "adam" | "adamw" | "sgd" | "rmsprop";
+
+export type LossType =
+  | "categorical_crossentropy"
+  | "sparse_categorical_crossentropy"
+  | "binary_crossentropy"
+  | "mse"
+  | "mae"
+  | "huber";
+
+export type MetricType = "accuracy" | "precision" | "recall" | "auc" | "mae";
+
+export interface TrainingConfig {
+  optimizer: OptimizerType;
+  learningRate: number;
+  // Used by SGD and RMSprop
+  momentum: number;
+  // Used by AdamW
+  weightDecay: number;
+  // "auto" derives the loss from the Output layer's outputType
+  loss: LossType | "auto";
+  metrics: MetricType[];
+  epochs: number;
+  batchSize: number;
+}
+
+export interface TrainingOption<T extends string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  optimizer: "adam",
+  learningRate: 0.001,
+  momentum: 0.9,
+  weightDecay: 0.01,
+  loss: "auto",
+  metrics: ["accuracy"],
+  epochs: 10,
+  batchSize: 32,
+};
+
+export const optimizerOptions: TrainingOption<OptimizerType>[] = [
+  { value: "adam", label: "Adam", description: "Adaptive moments, a solid default" },
+  { value: "adamw", label: "AdamW", description: "Adam with decoupled weight decay" },
+  { value: "sgd", label: "SGD", description: "Stochastic gradient descent with momentum" },
+  { value: "rmsprop", label: "RMSprop", description: "Often used for recurrent networks" },
+];
+
+export const lossOptions: TrainingOption<LossType>[] = [
+  {
+    value: "categorical_crossentropy",
+    label: "Categorical Crossentropy",
+    description: "Multi-class with one-hot labels",
+  },
+  {
+    value: "sparse_categorical_crossentropy",
+    label: "Sparse Categorical Crossentropy",
+    description: "Multi-class with integer labels",
+  },
+  {
+    value: "binary_crossentropy",
+    label: "Binary Crossentropy",
+    description: "Binary and multi-label classification",
+  },
+  { value: "mse", label: "Mean Squared Error", description: "Regression" },
+  { value: "mae", label: "Mean Absolute Error", description: "Regression, robust to outliers" },
+  { value: "huber", label: "Huber", description: "Regression, between MSE and MAE" },
+];
+
+export const metricOptions: TrainingOption<MetricType>[] = [
+  { value: "accuracy", label: "Accuracy" },
+  { value: "precision", label: "Precision" },
+  { value: "recall", label: "Recall" },
+  { value: "auc", label: "AUC" },
+  { value: "mae", label: "MAE" },
+];
+
+/**
+ * Default loss for each Output layer type
+ */
+const OUTPUT_TYPE_LOSS: Record<string, LossType> = {
+  multiclass: "categorical_crossentropy",
+  binary: "binary_crossentropy",
+  multilabel: "binary_crossentropy",
+  regression: "mse",
+};
+
+/**
+ * Keras metric identifiers; classes are used where no string alias exists
+ */
+const KERAS_METRIC: Record<MetricType, string> = {
+  accuracy: "'accuracy'",
+  precision: "tf.keras.metrics.Precision()",
+  recall: "tf.keras.metrics.Recall()",
+  auc: "tf.keras.metrics.AUC()",
+  mae: "'mae'",
+};
+
+/**
+ * PyTorch criterion for each loss. Output layers already apply log_softmax /
+ * sigmoid in forward(), so the matching probability-space losses are used.
+ * NLLLoss takes class indices, so the training loop turns one-hot
+ * categorical targets into indices first.
+ */
+const PYTORCH_LOSS: Record<LossType, string> = {
+  categorical_crossentropy: "nn.NLLLoss()",
+  sparse_categorical_crossentropy: "nn.NLLLoss()",
+  binary_crossentropy: "nn.BCELoss()",
+  mse: "nn.MSELoss()",
+  mae: "nn.L1Loss()",
+  huber: "nn.HuberLoss()",
+};
+
+/**
+ * Optax loss for each loss, as an expression over (outputs, targets). Output
+ * layers already apply log_softmax / sigmoid in __call__, and softmax cross
+ * entropy of log-probabilities equals their negative log-likelihood.
+ */
+const FLAX_LOSS: Record<LossType, (outputs: string, targets: string) => string> = {
+  categorical_crossentropy: (outputs, targets) =>
+    `optax.softmax_cross_entropy(${outputs}, ${targets}).mean()`,
+  sparse_categorical_crossentropy: (outputs, targets) =>
+    `optax.softmax_cross_entropy_with_integer_labels(${outputs}, ${targets}).mean()`,
+  binary_crossentropy: (outputs, targets) =>
+    `-jnp.mean(${targets}.reshape(${outputs}.shape) * jnp.log(${outputs} + 1e-7) + (1 - ${targets}.reshape(${outputs}.shape)) * jnp.log(1 - ${outputs} + 1e-7))`,
+  mse: (outputs, targets) => `optax.squared_error(${outputs}, ${targets}).mean()`,
+  mae: (outputs, targets) => `jnp.abs(${outputs} - ${targets}).mean()`,
+  huber: (outputs, targets) => `optax.huber_loss(${outputs}, ${targets}).mean()`,
+};
+
+/**
+ * TF.js loss identifiers; Huber has no string alias
+ */
+const TFJS_LOSS: Record<LossType, string> = {
+  categorical_crossentropy: "'categoricalCrossentropy'",
+  sparse_categorical_crossentropy: "'sparseCategoricalCrossentropy'",
+  binary_crossentropy: "'binaryCrossentropy'",
+  mse: "'meanSquaredError'",
+  mae: "'meanAbsoluteError'",
+  huber: "tf.losses.huberLoss",
+};
+
+/**
+ * TF.js metrics; null where TF.js has no equivalent
+ */
+const TFJS_METRIC: Record<MetricType, string | null> = {
+  accuracy: "'accuracy'",
+  precision: "tf.metrics.precision",
+  recall: "tf.metrics.recall",
+  auc: null,
+  mae: "'mae'",
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolve the loss of one Output head: its own loss, then the project loss,
+ * then the default for its output type
+ */
+export function resolveOutputLoss(
+  config: TrainingConfig,
+  outputLayer: LayerObject | undefined
+): LossType {
+  const headLoss = String(outputLayer?.params.loss || "auto");
+  if (headLoss !== "auto" && headLoss in PYTORCH_LOSS) {
+    return headLoss as LossType;
+  }
+  if (config.loss !== "auto") return config.loss;
+
+  const outputType = String(outputLayer?.params.outputType || "multiclass");
+  return OUTPUT_TYPE_LOSS[outputType] ?? "categorical_crossentropy";
+}
+
+/**
+ * Resolve the loss to use, deriving it from the Output layer when set to auto
+ */
+export function resolveLoss(
+  config: TrainingConfig,
+  layers: LayerObject[]
+): LossType {
+  const outputLayer = layers.find((layer) => layer.type === "Output");
+  return resolveOutputLoss(config, outputLayer);
+}
+
+/**
+ * Output heads of a multi-task model; empty when there is at most one
+ */
+function getOutputHeads(layers: LayerObject[]): LayerObject[] {
+  const heads = layers.filter((layer) => layer.type === "Output");
+  return heads.length > 1 ? heads : [];
+}
+
+function getLossWeight(layer: LayerObject): number {
+  const weight = Number(layer.params.lossWeight);
+  return Number.isFinite(weight) ? weight : 1;
+}
+
+const REGRESSION_LOSSES: LossType[] = ["mse", "mae", "huber"];
+
+/**
+ * Merge a possibly partial or legacy config with the defaults
+ */
+export function normalizeTrainingConfig(
+  config?: Partial<TrainingConfig> | null
+): TrainingConfig {
+  return { ...DEFAULT_TRAINING_CONFIG, ...(config ?? {}) };
+}
+
+/**
+ * Keras optimizer constructor, e.g. "Adam(learning_rate=0.001)"
+ */
+function formatKerasOptimizer(config: TrainingConfig): string {
+  const lr = `learning_rate=${config.learningRate}`;
+
+  switch (config.optimizer) {
+    case "adamw":
+      return `AdamW(${lr}, weight_decay=${config.weightDecay})`;
+    case "sgd":
+      return `SGD(${lr}, momentum=${config.momentum})`;
+    case "rmsprop":
+      return `RMSprop(${lr}, momentum=${config.momentum})`;
+    case "adam":
+    default:
+      return `Adam(${lr})`;
+  }
+}
+
+/**
+ * PyTorch optimizer constructor for `model.parameters()`
+ */
+function formatPyTorchOptimizer(config: TrainingConfig): string {
+  const lr = `lr=${config.learningRate}`;
+
+  switch (config.optimizer) {
+    case "adamw":
+      return `torch.optim.AdamW(model.parameters(), ${lr}, weight_decay=${config.weightDecay})`;
+    case "sgd":
+      return `torch.optim.SGD(model.parameters(), ${lr}, momentum=${config.momentum})`;
+    case "rmsprop":
+      return `torch.optim.RMSprop(model.parameters(), ${lr}, momentum=${config.momentum})`;
+    case "adam":
+    default:
+      return `torch.optim.Adam(model.parameters(), ${lr})`;
+  }
+}
+
+/**
+ * Optax gradient transformation, e.g. "optax.adam(learning_rate=0.001)"
+ */
+function formatOptaxOptimizer(config: TrainingConfig): string {
+  const lr = `learning_rate=${config.learningRate}`;
+
+  switch (config.optimizer) {
+    case "adamw":
+      return `optax.adamw(${lr}, weight_decay=${config.weightDecay})`;
+    case "sgd":
+      return `optax.sgd(${lr}, momentum=${config.momentum})`;
+    case "rmsprop":
+      return `optax.rmsprop(${lr}, momentum=${config.momentum})`;
+    case "adam":
+    default:
+      return `optax.adam(${lr})`;
+  }
+}
+
+/**
+ * TF.js optimizer, e.g. "tf.train.adam(0.001)"; AdamW has no TF.js version
+ */
+function formatTfjsOptimizer(config: TrainingConfig): string {
+  const lr = config.learningRate;
+
+  switch (config.optimizer) {
+    case "sgd":
+      return config.momentum > 0
+        ? `tf.train.momentum(${lr}, ${config.momentum})`
+        : `tf.train.sgd(${lr})`;
+    case "rmsprop":
+      return `tf.train.rmsprop(${lr}, 0.9, ${config.momentum})`;
+    case "adamw":
+    case "adam":
+    default:
+      return `tf.train.adam(${lr})`;
+  }
+}
+
+/**
+ * Compile, summary and fit lines for Keras models
+ */
+export function generateKerasTrainingCode(
+  config: TrainingConfig,
+  layers: LayerObject[]
+): string[] {
+  const loss = resolveLoss(config, layers);
+  const metrics = config.metrics.map((metric) => KERAS_METRIC[metric]).join(", ");
+  // Multi-input models take one array per Input, in model input order
+  const inputLayers = layers.filter((layer) => layer.type === "Input");
+  const inputData =
+    inputLayers.length > 1
+      ? `[${inputLayers.map((layer) => `x_${layer.varName}`).join(", ")}]`
+      : "x_train";
+
+  // Multi-output models are compiled per head, keyed by the output layer names
+  const heads = getOutputHeads(layers);
+  const compileArgs =
+    heads.length > 0
+      ? [
+          "    loss={",
+          ...heads.map(
+            (head) =>
+              `        '${head.varName}': '${resolveOutputLoss(config, head)}',`
+          ),
+          "    },",
+          "    loss_weights={",
+          ...heads.map(
+            (head) => `        '${head.varName}': ${getLossWeight(head)},`
+          ),
+          "    },",
+          "    metrics={",
+          ...heads.map((head) => {
+            // Accuracy-style metrics only make sense on classification heads
+            const isRegression = REGRESSION_LOSSES.includes(
+              resolveOutputLoss(config, head)
+            );
+            const headMetrics = config.metrics
+              .filter((metric) => (metric === "mae") === isRegression)
+              .map((metric) => KERAS_METRIC[metric]);
+            return `        '${head.varName}': [${headMetrics.join(", ")}],`;
+          }),
+          "    }",
+        ]
+      : [`    loss='${loss}',`, `    metrics=[${metrics}]`];
+  const targetData =
+    heads.length > 0
+      ? `{${heads.map((head) => `'${head.varName}': y_${head.varName}`).join(", ")}}`
+      : "y_train";
+
+  return [
+    "",
+    "# Compile the model",
+    "model.compile(",
+    `    optimizer=tf.keras.optimizers.${formatKerasOptimizer(config)},`,
+    ...compileArgs,
+    ")",
+    "",
+    "# Display model summary",
+    "model.summary()",
+    "",
+    "# Train the model",
+    `# model.fit(${inputData}, ${targetData}, epochs=${config.epochs}, batch_size=${config.batchSize}, validation_split=0.1)`,
+  ];
+}
+
+/**
+ * Criterion, optimizer and training loop lines for PyTorch models
+ */
+export function generatePyTorchTrainingCode(
+  config: TrainingConfig,
+  layers: LayerObject[]
+): string[] {
+  const loss = resolveLoss(config, layers);
+  const heads = getOutputHeads(layers);
+  const isClassification = loss.includes("crossentropy");
+  // Multi-output models only report the combined loss
+  const trackAccuracy =
+    heads.length === 0 &&
+    isClassification &&
+    config.metrics.includes("accuracy");
+  // Loaders for multi-input models yield one tensor per forward() argument
+  const isMultiInput =
+    layers.filter((layer) => layer.type === "Input").length > 1;
+
+  const lines = [
+    "",
+    ...(heads.length > 0
+      ? [
+          "criteria = {",
+          ...heads.map((head) => {
+            const headLoss = resolveOutputLoss(config, head);
+            return `    "${head.varName}": ${PYTORCH_LOSS[headLoss]},  # ${headLoss}`;
+          }),
+          "}",
+          `loss_weights = {${heads
+            .map((head) => `"${head.varName}": ${getLossWeight(head)}`)
+            .join(", ")}}`,
+        ]
+      : [`criterion = ${PYTORCH_LOSS[loss]}  # ${loss}`]),
+    `optimizer = ${formatPyTorchOptimizer(config)}`,
+    "",
+    "# Training loop",
+    `# train_loader = DataLoader(train_dataset, batch_size=${config.batchSize}, shuffle=True)`,
+    ...(heads.length > 0
+      ? ["# Each batch's targets are a dict with one tensor per output head"]
+      : []),
+    "def train(train_loader):",
+    `    for epoch in range(${config.epochs}):`,
+    "        model.train()",
+    "        total_loss = 0.0",
+  ];
+
+  if (trackAccuracy) {
+    lines.push("        correct, seen = 0, 0");
+  }
+
+  lines.push(
+    isMultiInput
+      ? "        for *inputs, targets in train_loader:"
+      : "        for inputs, targets in train_loader:",
+    "            optimizer.zero_grad()",
+    isMultiInput
+      ? "            outputs = model(*inputs)"
+      : "            outputs = model(inputs)",
+    ...(heads.length > 0
+      ? [
+          "            losses = {",
+          ...heads.map((head) => {
+            const name = `"${head.varName}"`;
+            const headLoss = resolveOutputLoss(config, head);
+            const target =
+              headLoss === "binary_crossentropy"
+                ? `targets[${name}].float().view_as(outputs[${name}])`
+                : headLoss === "categorical_crossentropy"
+                  ? `targets[${name}].argmax(dim=1)`
+                  : `targets[${name}]`;
+            return `                ${name}: criteria[${name}](outputs[${name}], ${target}),`;
+          }),
+          "            }",
+          "            loss = sum(loss_weights[name] * losses[name] for name in losses)",
+        ]
+      : [
+          ...(loss === "categorical_crossentropy"
+            ? ["            targets = targets.argmax(dim=1)  # one-hot to class indices"]
+            : []),
+          loss === "binary_crossentropy"
+            ? "            loss = criterion(outputs, targets.float().view_as(outputs))"
+            : "            loss = criterion(outputs, targets)",
+        ]),
+    "            loss.backward()",
+    "            optimizer.step()",
+    "            total_loss += loss.item()"
+  );
+
+  if (trackAccuracy) {
+    const predictions =
+      loss === "binary_crossentropy"
+        ? "(outputs > 0.5).long().view_as(targets)"
+        : "outputs.argmax(dim=1)";
+    lines.push(
+      `            correct += (${predictions} == targets).sum().item()`,
+      "            seen += targets.numel()"
+    );
+  }
+
+  const summary = trackAccuracy
+    ? `        print(f"Epoch {epoch + 1}: loss={total_loss / len(train_loader):.4f}, accuracy={correct / seen:.4f}")`
+    : `        print(f"Epoch {epoch + 1}: loss={total_loss / len(train_loader):.4f}")`;
+  lines.push(summary);
+
+  return lines;
+}
+
+/**
+ * Train state, jitted train step and training loop lines for Flax models
+ */
+export function generateFlaxTrainingCode(
+  config: TrainingConfig,
+  layers: LayerObject[]
+): string[] {
+  const loss = resolveLoss(config, layers);
+  const heads = getOutputHeads(layers);
+  // BatchNorm keeps running statistics outside the trainable parameters
+  const hasBatchStats = layers.some(
+    (layer) => layer.type === "BatchNormalization"
+  );
+  // Loaders for multi-input models yield one array per __call__ argument,
+  // passed to the jitted step as a tuple
+  const isMultiInput =
+    layers.filter((layer) => layer.type === "Input").length > 1;
+  const inputArgs = isMultiInput ? "*inputs" : "inputs";
+
+  const lines = [""];
+
+  if (hasBatchStats) {
+    lines.push(
+      "class TrainState(train_state.TrainState):",
+      "    batch_stats: Any",
+      "",
+      "state = TrainState.create(",
+      "    apply_fn=model.apply,",
+      '    params=variables["params"],',
+      '    batch_stats=variables["batch_stats"],',
+      `    tx=${formatOptaxOptimizer(config)},`,
+      ")"
+    );
+  } else {
+    lines.push(
+      "state = train_state.TrainState.create(",
+      "    apply_fn=model.apply,",
+      '    params=variables["params"],',
+      `    tx=${formatOptaxOptimizer(config)},`,
+      ")"
+    );
+  }
+
+  if (heads.length > 0) {
+    lines.push(
+      `loss_weights = {${heads
+        .map((head) => `"${head.varName}": ${getLossWeight(head)}`)
+        .join(", ")}}`
+    );
+  }
+
+  const variables = hasBatchStats
+    ? '{"params": params, "batch_stats": state.batch_stats}'
+    : '{"params": params}';
+  const applyCall = hasBatchStats
+    ? `outputs, updates = state.apply_fn(${variables}, ${inputArgs}, train=True, rngs={"dropout": dropout_key}, mutable=["batch_stats"])`
+    : `outputs = state.apply_fn(${variables}, ${inputArgs}, train=True, rngs={"dropout": dropout_key})`;
+
+  lines.push(
+    "",
+    "@jax.jit",
+    "def train_step(state, inputs, targets, dropout_key):",
+    "    def loss_fn(params):",
+    `        ${applyCall}`
+  );
+
+  if (heads.length > 0) {
+    lines.push(
+      "        losses = {",
+      ...heads.map((head) => {
+        const name = `"${head.varName}"`;
+        const headLoss = resolveOutputLoss(config, head);
+        return `            ${name}: ${FLAX_LOSS[headLoss](`outputs[${name}]`, `targets[${name}]`)},  # ${headLoss}`;
+      }),
+      "        }",
+      "        loss = sum(loss_weights[name] * losses[name] for name in losses)"
+    );
+  } else {
+    lines.push(
+      `        loss = ${FLAX_LOSS[loss]("outputs", "targets")}  # ${loss}`
+    );
+  }
+
+  if (hasBatchStats) {
+    lines.push(
+      "        return loss, updates",
+      "",
+      "    (loss, updates), grads = jax.value_and_grad(loss_fn, has_aux=True)(state.params)",
+      "    state = state.apply_gradients(grads=grads)",
+      '    state = state.replace(batch_stats=updates["batch_stats"])'
+    );
+  } else {
+    lines.push(
+      "        return loss",
+      "",
+      "    loss, grads = jax.value_and_grad(loss_fn)(state.params)",
+      "    state = state.apply_gradients(grads=grads)"
+    );
+  }
+
+  lines.push(
+    "    return state, loss",
+    "",
+    "# Training loop",
+    `# Iterate over batches of ${config.batchSize} NumPy arrays, e.g. from tf.data or a DataLoader`,
+    ...(heads.length > 0
+      ? ["# Each batch's targets are a dict with one array per output head"]
+      : []),
+    "def train(train_loader, state, key):",
+    `    for epoch in range(${config.epochs}):`,
+    "        total_loss, batches = 0.0, 0",
+    isMultiInput
+      ? "        for *inputs, targets in train_loader:"
+      : "        for inputs, targets in train_loader:",
+    "            key, dropout_key = jax.random.split(key)",
+    "            state, loss = train_step(state, inputs, targets, dropout_key)",
+    "            total_loss += float(loss)",
+    "            batches += 1",
+    '        print(f"Epoch {epoch + 1}: loss={total_loss / batches:.4f}")',
+    "    return state"
+  );
+
+  return lines;
+}
+
+/**
+ * Compile, summary and fit lines for TF.js models
+ */
+export function generateTfjsTrainingCode(
+  config: TrainingConfig,
+  layers: LayerObject[]
+): string[] {
+  const loss = resolveLoss(config, layers);
+  const heads = getOutputHeads(layers);
+  const unsupported: string[] = [];
+
+  if (config.optimizer === "adamw") {
+    unsupported.push("AdamW is not available; Adam is used without weight decay");
+  }
+  if (config.metrics.includes("auc")) {
+    unsupported.push("the AUC metric is not available and was left out");
+  }
+  if (heads.some((head) => getLossWeight(head) !== 1)) {
+    unsupported.push("per-head loss weights are not supported and were left out");
+  }
+
+  // Multi-input models take one tensor per Input, in model input order
+  const inputLayers = layers.filter((layer) => layer.type === "Input");
+  const inputData =
+    inputLayers.length > 1
+      ? `[${inputLayers.map((layer) => `x_${layer.varName}`).join(", ")}]`
+      : "xTrain";
+
+  // Multi-output models are compiled per head, keyed by the output layer names.
+  // TF.js takes a single metric per head.
+  const compileArgs =
+    heads.length > 0
+      ? [
+          "  loss: {",
+          ...heads.map(
+            (head) =>
+              `    ${head.varName}: ${TFJS_LOSS[resolveOutputLoss(config, head)]},`
+          ),
+          "  },",
+          "  metrics: {",
+          ...heads.flatMap((head) => {
+            const isRegression = REGRESSION_LOSSES.includes(
+              resolveOutputLoss(config, head)
+            );
+            const [metric] = config.metrics
+              .filter((m) => (m === "mae") === isRegression)
+              .map((m) => TFJS_METRIC[m])
+              .filter((m) => m !== null);
+            return metric ? [`    ${head.varName}: ${metric},`] : [];
+          }),
+          "  },",
+        ]
+      : [
+          `  loss: ${TFJS_LOSS[loss]},`,
+          `  metrics: [${config.metrics
+            .map((metric) => TFJS_METRIC[metric])
+            .filter((metric) => metric !== null)
+            .join(", ")}],`,
+        ];
+  const targetData =
+    heads.length > 0
+      ? `{ ${heads.map((head) => `${head.varName}: y_${head.varName}`).join(", ")} }`
+      : "yTrain";
+
+  return [
+    "",
+    "// Compile the model",
+    ...unsupported.map((note) => `// Note: in TF.js ${note}`),
+    "model.compile({",
+    `  optimizer: ${formatTfjsOptimizer(config)},`,
+    ...compileArgs,
+    "});",
+    "",
+    "// Display model summary",
+    "model.summary();",
+    "",
+    "// Train the model",
+    `// await model.fit(${inputData}, ${targetData}, { epochs: ${config.epochs}, batchSize: ${config.batchSize}, validationSplit: 0.1 });`,
+  ];
+}
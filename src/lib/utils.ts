@@ -5,6 +5,18 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Copies text for browsers without the async clipboard API
+ */
+export function fallbackCopyToClipboard(text: string): void {
+  const textArea = document.createElement("textarea");
+  textArea.value = text;
+  document.body.appendChild(textArea);
+  textArea.select();
+  document.execCommand("copy");
+  document.body.removeChild(textArea);
+}
+
 /**
  * Parses a tuple string like "(28, 28, 1)" or "(784,)" into a number array
  * Shared utility used by shape computation modules
@@ -24,6 +36,13 @@ export function parseShape(shapeStr: string): number[] | null {
   }
 }
 
+/**
+ * Formats a shape as a Python tuple, keeping the trailing comma of 1D shapes
+ */
+export function formatShapeTuple(shape: number[]): string {
+  return shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(", ")})`;
+}
+
 /**
  * Parses tuple or number input like "(3,3)" or "3" into a tuple [number, number]
  * Used for kernel sizes, strides, etc. in layer parameters
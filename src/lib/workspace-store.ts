@@ -0,0 +1,400 @@
+/**
+ * Workspace Store - Named projects with automatic persistence
+ *
+ * Keeps the project list and the active project in sync with IndexedDB.
+ * Changes to the flow store are autosaved with a debounce, and opening a
+ * project restores its nodes, edges, undo history and training config.
+ */
+
+import { create } from "zustand";
+import type { Node, Edge } from "@xyflow/react";
+import { useFlowStore } from "./flow-store";
+import {
+  createProjectId,
+  deleteProject as deleteStoredProject,
+  getActiveProjectId,
+  listProjects,
+  loadProject,
+  saveProject,
+  setActiveProjectId,
+  type ProjectMeta,
+  type StoredProject,
+} from "./project-storage";
+import {
+  DEFAULT_TRAINING_CONFIG,
+  normalizeTrainingConfig,
+  type TrainingConfig,
+} from "./training-config";
+import { upgradeCompositeBlock, type CompositeBlock } from "./composite-blocks";
+
+/**
+ * State interface for the project workspace
+ */
+interface WorkspaceState {
+  projects: ProjectMeta[];
+  activeProjectId: string | null;
+  isLoaded: boolean;
+
+  initializeWorkspace: () => Promise<void>;
+  createProject: (name?: string) => Promise<void>;
+  importProject: (name: string, content: ProjectContent) => Promise<void>;
+  openProject: (id: string) => Promise<void>;
+  renameProject: (id: string, name: string) => Promise<void>;
+  duplicateProject: (id: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  saveActiveProject: () => Promise<void>;
+}
+
+/**
+ * Graph and settings used to seed a new project
+ */
+interface ProjectContent {
+  nodes: Node[];
+  edges: Edge[];
+  trainingConfig: TrainingConfig;
+  disabledLintRules?: string[];
+  compositeBlocks?: CompositeBlock[];
+}
+
+/**
+ * Configuration constants for the workspace
+ */
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+const DEFAULT_PROJECT_NAME = "Untitled Project";
+
+/**
+ * Debouncing utility for autosave to avoid writing on every drag frame
+ */
+let autosaveTimeout: NodeJS.Timeout | null = null;
+
+const scheduleAutosave = (saveFn: () => void) => {
+  if (autosaveTimeout) {
+    clearTimeout(autosaveTimeout);
+  }
+  autosaveTimeout = setTimeout(() => {
+    saveFn();
+    autosaveTimeout = null;
+  }, AUTOSAVE_DEBOUNCE_MS);
+};
+
+const cancelAutosave = () => {
+  if (autosaveTimeout) {
+    clearTimeout(autosaveTimeout);
+    autosaveTimeout = null;
+  }
+};
+
+// Set while a project is loaded into the flow store so it isn't re-saved
+let isRestoringProject = false;
+// Guards against a second initialization while the first is still loading
+let isInitializing = false;
+let unsubscribeFlowStore: (() => void) | null = null;
+
+// Content of the active project at its last save, to keep last-modified
+// from changing on selection-only updates
+let lastSavedSignature = "";
+
+/**
+ * Serializes the parts of the editor state that make up a project
+ */
+const getProjectSignature = (): string => {
+  const { nodes, edges, trainingConfig, disabledLintRules, compositeBlocks } =
+    useFlowStore.getState();
+  return JSON.stringify({
+    nodes: nodes.map(({ id, type, position, data }) => ({
+      id,
+      type,
+      position,
+      params: data.params,
+      layerType: data.type,
+    })),
+    edges: edges.map(({ id, source, target, sourceHandle, targetHandle }) => ({
+      id,
+      source,
+      target,
+      sourceHandle,
+      targetHandle,
+    })),
+    trainingConfig,
+    disabledLintRules,
+    compositeBlocks,
+  });
+};
+
+/**
+ * Creates an empty project record
+ */
+const createEmptyProject = (name: string): StoredProject => {
+  const now = Date.now();
+  return {
+    id: createProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    nodes: [],
+    edges: [],
+    history: [{ nodes: [], edges: [], compositeBlocks: [] }],
+    historyIndex: 0,
+    trainingConfig: DEFAULT_TRAINING_CONFIG,
+    disabledLintRules: [],
+    compositeBlocks: [],
+  };
+};
+
+/**
+ * Loads a stored project into the flow store
+ */
+const restoreProject = (project: StoredProject) => {
+  isRestoringProject = true;
+  try {
+    useFlowStore.setState({
+      nodes: project.nodes,
+      edges: project.edges,
+      // Blocks in the undo history are upgraded like the current ones below
+      history: project.history.map((entry) =>
+        entry.compositeBlocks
+          ? {
+              ...entry,
+              compositeBlocks: entry.compositeBlocks.map(upgradeCompositeBlock),
+            }
+          : entry
+      ),
+      historyIndex: project.historyIndex,
+      trainingConfig: normalizeTrainingConfig(project.trainingConfig),
+      disabledLintRules: project.disabledLintRules ?? [],
+      // Stored projects skip the file migrations, so older blocks are
+      // upgraded here
+      compositeBlocks: (project.compositeBlocks ?? []).map(
+        upgradeCompositeBlock
+      ),
+    });
+    useFlowStore.getState().updateShapeErrors();
+  } finally {
+    isRestoringProject = false;
+  }
+  lastSavedSignature = getProjectSignature();
+};
+
+/**
+ * Returns a name that no existing project uses, e.g. "My Model (2)"
+ */
+const getUniqueName = (name: string, projects: ProjectMeta[]): string => {
+  const names = new Set(projects.map((project) => project.name));
+  if (!names.has(name)) return name;
+
+  let suffix = 2;
+  while (names.has(`${name} (${suffix})`)) suffix++;
+  return `${name} (${suffix})`;
+};
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
+  projects: [],
+  activeProjectId: null,
+  isLoaded: false,
+
+  initializeWorkspace: async () => {
+    if (get().isLoaded || isInitializing) return;
+    isInitializing = true;
+
+    try {
+      const projects = await listProjects();
+      const lastActiveId = getActiveProjectId();
+      const projectToOpen =
+        projects.find((project) => project.id === lastActiveId) ??
+        projects[0];
+
+      if (projectToOpen) {
+        const project = await loadProject(projectToOpen.id);
+        if (project) {
+          restoreProject(project);
+          setActiveProjectId(project.id);
+          set({ projects, activeProjectId: project.id });
+        }
+      } else {
+        // First visit: keep whatever is on the canvas as the first project
+        set({ activeProjectId: createProjectId() });
+        await get().saveActiveProject();
+      }
+    } catch (error) {
+      console.warn(
+        "Project storage unavailable:",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+
+    set({ isLoaded: true });
+    isInitializing = false;
+
+    // Autosave whenever the project content changes
+    unsubscribeFlowStore?.();
+    unsubscribeFlowStore = useFlowStore.subscribe((state, prevState) => {
+      if (isRestoringProject) return;
+      if (
+        state.nodes !== prevState.nodes ||
+        state.edges !== prevState.edges ||
+        state.historyIndex !== prevState.historyIndex ||
+        state.trainingConfig !== prevState.trainingConfig ||
+        state.disabledLintRules !== prevState.disabledLintRules ||
+        state.compositeBlocks !== prevState.compositeBlocks
+      ) {
+        scheduleAutosave(() => get().saveActiveProject());
+      }
+    });
+  },
+
+  saveActiveProject: async () => {
+    const { activeProjectId, projects } = get();
+    if (!activeProjectId) return;
+
+    const {
+      nodes,
+      edges,
+      history,
+      historyIndex,
+      trainingConfig,
+      disabledLintRules,
+      compositeBlocks,
+    } = useFlowStore.getState();
+    const meta = projects.find((project) => project.id === activeProjectId);
+
+    // Nothing but selection or derived data changed since the last save
+    const signature = getProjectSignature();
+    if (meta && signature === lastSavedSignature) return;
+
+    const now = Date.now();
+    const project: StoredProject = {
+      id: activeProjectId,
+      name: meta?.name ?? getUniqueName(DEFAULT_PROJECT_NAME, projects),
+      createdAt: meta?.createdAt ?? now,
+      updatedAt: now,
+      nodes: JSON.parse(JSON.stringify(nodes)),
+      edges: JSON.parse(JSON.stringify(edges)),
+      history,
+      historyIndex,
+      trainingConfig,
+      disabledLintRules,
+      compositeBlocks,
+    };
+
+    try {
+      await saveProject(project);
+      lastSavedSignature = signature;
+      setActiveProjectId(activeProjectId);
+      set({ projects: await listProjects() });
+    } catch (error) {
+      console.warn(
+        "Autosave failed:",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+
+  createProject: async (name?: string) => {
+    // Persist pending edits of the project being left
+    cancelAutosave();
+    await get().saveActiveProject();
+
+    const project = createEmptyProject(
+      getUniqueName(name?.trim() || DEFAULT_PROJECT_NAME, get().projects)
+    );
+    await saveProject(project);
+
+    restoreProject(project);
+    setActiveProjectId(project.id);
+    set({ activeProjectId: project.id, projects: await listProjects() });
+  },
+
+  importProject: async (name: string, content: ProjectContent) => {
+    cancelAutosave();
+    await get().saveActiveProject();
+
+    // The imported graph is the first undo step of the new project
+    const project: StoredProject = {
+      ...createEmptyProject(getUniqueName(name, get().projects)),
+      nodes: content.nodes,
+      edges: content.edges,
+      history: [
+        {
+          nodes: content.nodes,
+          edges: content.edges,
+          compositeBlocks: content.compositeBlocks ?? [],
+        },
+      ],
+      trainingConfig: content.trainingConfig,
+      disabledLintRules: content.disabledLintRules ?? [],
+      compositeBlocks: content.compositeBlocks ?? [],
+    };
+    await saveProject(project);
+
+    restoreProject(project);
+    setActiveProjectId(project.id);
+    set({ activeProjectId: project.id, projects: await listProjects() });
+  },
+
+  openProject: async (id: string) => {
+    if (id === get().activeProjectId) return;
+
+    cancelAutosave();
+    await get().saveActiveProject();
+
+    const project = await loadProject(id);
+    if (!project) return;
+
+    restoreProject(project);
+    setActiveProjectId(project.id);
+    set({ activeProjectId: project.id });
+  },
+
+  renameProject: async (id: string, name: string) => {
+    const trimmed = name.trim();
+    const project = await loadProject(id);
+    if (!project || !trimmed) return;
+
+    await saveProject({ ...project, name: trimmed, updatedAt: Date.now() });
+    set({ projects: await listProjects() });
+  },
+
+  duplicateProject: async (id: string) => {
+    // Make sure the copy includes edits that are still waiting to be saved
+    if (id === get().activeProjectId) {
+      cancelAutosave();
+      await get().saveActiveProject();
+    }
+
+    const project = await loadProject(id);
+    if (!project) return;
+
+    const now = Date.now();
+    await saveProject({
+      ...project,
+      id: createProjectId(),
+      name: getUniqueName(`${project.name} (copy)`, get().projects),
+      createdAt: now,
+      updatedAt: now,
+    });
+    set({ projects: await listProjects() });
+  },
+
+  deleteProject: async (id: string) => {
+    // Detach the active project before the delete so a pending or new
+    // autosave cannot write it back while the delete is in flight
+    const wasActive = id === get().activeProjectId;
+    if (wasActive) {
+      cancelAutosave();
+      set({ activeProjectId: null });
+    }
+
+    await deleteStoredProject(id);
+    const projects = await listProjects();
+    set({ projects });
+
+    if (!wasActive) return;
+
+    // The active project is gone; fall back to the most recent one
+    if (projects.length > 0) {
+      await get().openProject(projects[0].id);
+    } else {
+      await get().createProject();
+    }
+  },
+}));
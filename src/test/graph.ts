@@ -0,0 +1,47 @@
+/**
+ * Graph builders shared by the unit tests
+ */
+
+import type { Node, Edge } from "@xyflow/react";
+import { getDefaultParams } from "../lib/layers/parameters";
+
+/**
+ * Canvas node of the given layer type with its default parameters
+ */
+export function layerNode(
+  id: string,
+  type: string,
+  params: Record<string, unknown> = {}
+): Node {
+  return {
+    id,
+    type: "layerNode",
+    position: { x: 0, y: 0 },
+    data: { type, params: { ...getDefaultParams(type), ...params } },
+  };
+}
+
+/**
+ * Edge between two nodes, optionally into a named input of the target
+ */
+export function edge(
+  source: string,
+  target: string,
+  targetHandle?: string
+): Edge {
+  return targetHandle
+    ? {
+        id: `${source}-${target}-${targetHandle}`,
+        source,
+        target,
+        targetHandle,
+      }
+    : { id: `${source}-${target}`, source, target };
+}
+
+/**
+ * Edges feeding each node into the next one
+ */
+export function chain(...ids: string[]): Edge[] {
+  return ids.slice(1).map((id, index) => edge(ids[index], id));
+}